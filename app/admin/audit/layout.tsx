@@ -0,0 +1,13 @@
+// The audit log is for staff only
+// This layout wraps every page under /admin/audit
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function AuditLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="audit:view">{children}</RequirePermission>
+  );
+}
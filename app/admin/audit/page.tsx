@@ -0,0 +1,181 @@
+/**
+ * This is the audit log page, located at app/admin/audit/page.tsx (/admin/audit).
+ * It lists every change made to any book, newest first, and can be filtered by
+ * book, user, kind of change and date. Like /books, the filters live in the URL
+ * (e.g. /admin/audit?action=REMOVED&from=2025-01-01) so a view can be bookmarked.
+ */
+
+// This is a server component
+import { searchAuditLog } from "../../lib/actions/auditActions"; // Function to read the log
+import {
+  AUDIT_ACTION_LABELS,
+  formatAuditValue,
+  parseAuditFilter, // Reads the filter from the URL
+  toAuditSearchParams, // Writes a filter back into a URL
+} from "../../lib/audit/auditQuery";
+import { SearchParamValues } from "../../lib/search/bookQuery";
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+import Pagination from "../../ui/Pagination"; // Previous/next page links
+import Link from "next/link"; // Next.js component for navigation
+
+// In Next.js 15, the URL's search params are a Promise
+type PageSearchParams = Promise<SearchParamValues>;
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: PageSearchParams;
+}) {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "audit:view")) return null;
+
+  const filter = parseAuditFilter(await searchParams);
+  const { entries, total, page, pageCount } = await searchAuditLog(filter);
+
+  return (
+    <div className="p-4">
+      <Link href="/books" className="border p-2">
+        ← Back to Books
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Audit Log</h1>
+
+      {/* The filters - a plain GET form, so they end up in the URL */}
+      <form
+        action="/admin/audit"
+        method="get"
+        className="mt-4 p-2 border rounded"
+      >
+        <div className="flex flex-wrap gap-2 items-end">
+          <label>
+            <div>Book:</div>
+            <input
+              type="search"
+              name="book"
+              defaultValue={filter.book}
+              placeholder="Title or id"
+              className="border p-2 text-black"
+            />
+          </label>
+          <label>
+            <div>User:</div>
+            <input
+              type="search"
+              name="actor"
+              defaultValue={filter.actor}
+              placeholder="Username"
+              className="border p-2 text-black"
+            />
+          </label>
+          <label>
+            <div>Change:</div>
+            <select
+              name="action"
+              defaultValue={filter.action ?? ""}
+              className="border p-2 text-black"
+            >
+              <option value="">Any change</option>
+              {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div>From:</div>
+            <input
+              type="date"
+              name="from"
+              defaultValue={filter.from}
+              className="border p-2 text-black"
+            />
+          </label>
+          <label>
+            <div>To:</div>
+            <input
+              type="date"
+              name="to"
+              defaultValue={filter.to}
+              className="border p-2 text-black"
+            />
+          </label>
+          <button
+            type="submit"
+            className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+          >
+            Filter
+          </button>
+          <Link
+            href="/admin/audit"
+            className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+          >
+            Clear
+          </Link>
+        </div>
+      </form>
+
+      <p className="mt-4">
+        {total === 0
+          ? "No changes match your filters"
+          : `${total} change${total === 1 ? "" : "s"}`}
+      </p>
+
+      {entries.length > 0 && (
+        <table className="mt-4 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">When</th>
+              <th className="border p-2 text-left">User</th>
+              <th className="border p-2 text-left">Book</th>
+              <th className="border p-2 text-left">Change</th>
+              <th className="border p-2 text-left">Fields</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td className="border p-2">
+                  {entry.timestamp.toLocaleString()}
+                </td>
+                <td className="border p-2">{entry.actorName}</td>
+                <td className="border p-2">
+                  <Link
+                    href={`/books/${entry.bookId}`}
+                    className="hover:underline"
+                  >
+                    {entry.bookTitle}
+                  </Link>
+                </td>
+                <td className="border p-2">
+                  {AUDIT_ACTION_LABELS[entry.action]}
+                  {entry.copyBarcode && ` (copy ${entry.copyBarcode})`}
+                </td>
+                <td className="border p-2 text-sm">
+                  {/* Every field that changed, old value -> new value */}
+                  {entry.changes.map((change) => (
+                    <div key={change.field}>
+                      {change.field}: {formatAuditValue(change.before)} →{" "}
+                      {formatAuditValue(change.after)}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Links to the other pages, keeping the same filters */}
+      <Pagination
+        page={page}
+        pageCount={pageCount}
+        hrefForPage={(page) =>
+          `/admin/audit?${toAuditSearchParams({ ...filter, page })}`
+        }
+      />
+    </div>
+  );
+}
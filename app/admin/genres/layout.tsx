@@ -0,0 +1,13 @@
+// Managing the genre tree is for admins
+// This layout wraps every page under /admin/genres
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function GenresLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="genres:manage">{children}</RequirePermission>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * This is the genres page, located at app/admin/genres/page.tsx (/admin/genres).
+ * It shows the library's genre tree with how many books are in each genre, and
+ * lets admins add, rename, move, merge and delete genres. Renaming or merging a
+ * genre moves every book in it, so the catalog never has two spellings of one genre.
+ * Genre names books use that aren't in the tree are listed too, so they can be
+ * added to it or merged into a genre that is.
+ */
+
+// This is a server component
+import { getGenreAdminData } from "../../lib/actions/genreActions"; // The genre tree and book counts
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+import GenreManager from "../../ui/GenreManager"; // The tree with its edit, merge and delete buttons
+import Link from "next/link"; // Next.js component for navigation
+
+export default async function GenresPage() {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "genres:manage")) return null;
+
+  const { genres, unmanaged } = await getGenreAdminData();
+
+  return (
+    <div className="p-4">
+      <Link href="/books" className="border p-2">
+        ← Back to Books
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Genres</h1>
+      <p className="mt-2">
+        Every book is in one of these genres. Filtering the catalog by a genre
+        also finds the books in its sub-genres.
+      </p>
+
+      <GenreManager genres={genres} unmanaged={unmanaged} />
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+// The trash is for staff who can remove books
+// This layout wraps every page under /admin/trash
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function TrashLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="books:remove">{children}</RequirePermission>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * This is the trash page, located at app/admin/trash/page.tsx (/admin/trash).
+ * It lists the books that have been removed, which can be restored or purged
+ * (deleted for good). Books are purged automatically once they've been in the
+ * trash for the retention period.
+ */
+
+// This is a server component
+import { getRemovedBooks } from "../../lib/actions/bookActions"; // Function to find removed books
+import { trashRetentionDays } from "../../lib/catalog/trash"; // How long removed books are kept
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+import TrashList from "../../ui/TrashList"; // The list with restore and purge buttons
+import Link from "next/link"; // Next.js component for navigation
+
+export default async function TrashPage() {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "books:remove")) return null;
+
+  const books = await getRemovedBooks();
+  const retentionDays = trashRetentionDays();
+
+  return (
+    <div className="p-4">
+      <Link href="/books" className="border p-2">
+        ← Back to Books
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Trash</h1>
+      <p className="mt-2">
+        {retentionDays === 0
+          ? "Removed books are kept here until they're purged."
+          : `Removed books are kept here for ${retentionDays} days, then purged automatically.`}
+      </p>
+
+      <TrashList books={books} />
+    </div>
+  );
+}
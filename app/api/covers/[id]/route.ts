@@ -0,0 +1,34 @@
+/**
+ * Serve a book's cover image.
+ * GET /api/covers/:coverId - the full size cover
+ * GET /api/covers/:coverId?size=thumbnail - the small one for the book list
+ *
+ * Anyone can see covers, like the catalog itself. A cover id is never reused
+ * (a new cover gets a new id), so browsers can keep covers for as long as they like.
+ */
+
+import { NextRequest } from "next/server";
+import { getCoverStorage } from "../../../lib/storage/repositories";
+import { apiError } from "../../../lib/api/http";
+
+// In Next.js 15, route parameters (like the cover ID) are Promises
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const size =
+    request.nextUrl.searchParams.get("size") === "thumbnail"
+      ? "thumbnail"
+      : "full";
+
+  const image = await getCoverStorage().read(id, size);
+  if (!image) {
+    return apiError(404, "not_found", "There is no cover with that id");
+  }
+  return new Response(new Uint8Array(image), {
+    headers: {
+      "Content-Type": "image/webp",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
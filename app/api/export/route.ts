@@ -0,0 +1,58 @@
+/**
+ * Download the catalog for other systems or auditors.
+ * GET /api/export?format=csv&inactive=1&loans=1&genre=Fantasy
+ *
+ * format is csv (the default), json or marc. inactive=1 includes removed books and
+ * loans=1 includes each book's borrowing history. Every search param the /books page
+ * understands (q, genre, status, sort, ...) filters the export the same way,
+ * but there are no pages - every matching book is included.
+ * The file is streamed, a book at a time.
+ */
+
+import { NextRequest } from "next/server";
+import { getExportRecords } from "../../lib/actions/exportActions";
+import { authorize } from "../../lib/api/http";
+import {
+  EXPORT_FORMATS,
+  exportChunks,
+  parseExportOptions,
+} from "../../lib/export/bookExport";
+import { parseBookQuery } from "../../lib/search/bookQuery";
+
+export async function GET(request: NextRequest) {
+  const params = Object.fromEntries(request.nextUrl.searchParams);
+  const options = parseExportOptions(params);
+
+  // Loan history says who borrowed what, so it needs the circulation permission too
+  const denied =
+    (await authorize("books:edit")) ??
+    (options.includeLoans ? await authorize("circulation") : null);
+  if (denied) return denied;
+
+  const records = await getExportRecords(parseBookQuery(params), options);
+  const exportedAt = new Date();
+  const chunks = exportChunks(records, options, exportedAt);
+  const encoder = new TextEncoder();
+
+  // Send each piece as soon as it's written, instead of building the whole file first
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = chunks.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+
+  const { extension, contentType } = EXPORT_FORMATS[options.format];
+  const day = exportedAt.toISOString().slice(0, 10);
+  return new Response(stream, {
+    headers: {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="catalog-${day}.${extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
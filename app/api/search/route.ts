@@ -0,0 +1,25 @@
+/**
+ * The full-text search as JSON, for scripts and other apps.
+ * GET /api/search?q=tolkien&limit=10
+ *
+ * Responds with { q, total, results }, where each result has the book,
+ * its score and the highlighted pieces of its title, author and description.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { fullTextSearch } from "../../lib/actions/searchActions";
+
+export async function GET(request: NextRequest) {
+  const q = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+  if (!q) {
+    return NextResponse.json(
+      { error: "Add a search with ?q=..." },
+      { status: 400 }
+    );
+  }
+
+  // The limit is optional - fullTextSearch uses its default if it's missing or junk
+  const limit = request.nextUrl.searchParams.get("limit");
+  const results = await fullTextSearch(q, limit ? Number(limit) : undefined);
+  return NextResponse.json({ q, total: results.length, results });
+}
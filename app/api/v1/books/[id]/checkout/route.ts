@@ -0,0 +1,81 @@
+/**
+ * REST API for lending a copy of a book.
+ * POST /api/v1/books/:id/checkout with { "patronId": "...", "copyId": "...", "dueDate": "2025-03-01" }
+ * copyId is optional - without it the first copy on the shelf is lent.
+ * dueDate is optional - without it the copy is due back after the loan period.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getBook } from "../../../../../lib/actions/bookActions";
+import { checkoutCopy } from "../../../../../lib/actions/loanActions";
+import { getCopiesForBook } from "../../../../../lib/actions/copyActions";
+import {
+  apiError,
+  authorize,
+  isJsonObject,
+  readJson,
+} from "../../../../../lib/api/http";
+
+// In Next.js 15, route parameters (like the book ID) are Promises
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const denied = await authorize("circulation");
+  if (denied) return denied;
+  const { id } = await params;
+  // Removed books count as not found, like GET /api/v1/books/:id
+  const book = await getBook(id);
+  if (!book?.isActive) {
+    return apiError(404, "not_found", "There is no book with that id");
+  }
+  const body = await readJson(request);
+  if (!isJsonObject(body)) {
+    return apiError(400, "bad_request", "The body must be a JSON object");
+  }
+
+  const { patronId, copyId, dueDate } = body;
+  if (dueDate !== undefined && typeof dueDate !== "string") {
+    return apiError(422, "validation_failed", "Some fields are not valid", {
+      dueDate: "Due date must be a date string, like 2025-03-01",
+    });
+  }
+
+  // The copy has to be one of this book's copies
+  const copies = await getCopiesForBook(id);
+  const copy =
+    copyId === undefined
+      ? copies.find((copy) => copy.isActive && !copy.isCheckedOut)
+      : copies.find((copy) => copy.id === copyId);
+  if (copyId !== undefined && !copy) {
+    return apiError(404, "not_found", "This book has no copy with that id");
+  }
+  if (!copy) {
+    return apiError(409, "conflict", "Every copy of the book is checked out");
+  }
+
+  // checkoutCopy checks the patron and the due date itself
+  const result = await checkoutCopy(
+    copy.id,
+    patronId as string,
+    dueDate === undefined ? undefined : new Date(dueDate)
+  );
+  switch (result.status) {
+    case "checked_out":
+      return NextResponse.json(result.loan, { status: 201 });
+    case "invalid":
+      return apiError(
+        422,
+        "validation_failed",
+        "Some fields are not valid",
+        result.errors
+      );
+    case "unavailable":
+      return apiError(
+        409,
+        "conflict",
+        "The copy is already checked out, or it or the book has been removed"
+      );
+    case "not_found":
+      return apiError(404, "not_found", "There is no book with that id");
+  }
+}
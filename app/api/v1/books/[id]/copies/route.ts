@@ -0,0 +1,62 @@
+/**
+ * REST API for the physical copies of a book.
+ * GET  /api/v1/books/:id/copies - every copy, in barcode order (withdrawn ones too)
+ * POST /api/v1/books/:id/copies - add a copy (staff only) with
+ *      { "condition": "GOOD", "shelfLocation": "Fiction A-F", "barcode": "..." }
+ *      barcode is optional - without it the next free barcode is used
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { CopyData } from "../../../../../types/copy";
+import { getBook } from "../../../../../lib/actions/bookActions";
+import {
+  addCopy,
+  getCopiesForBook,
+} from "../../../../../lib/actions/copyActions";
+import {
+  apiError,
+  authorize,
+  isJsonObject,
+  readJson,
+} from "../../../../../lib/api/http";
+
+// In Next.js 15, route parameters (like the book ID) are Promises
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return apiError(404, "not_found", "There is no book with that id");
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  // Removed books count as not found, like GET /api/v1/books/:id
+  const book = await getBook(id);
+  if (!book?.isActive) return notFound();
+  return NextResponse.json({ data: await getCopiesForBook(id) });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const denied = await authorize("books:edit");
+  if (denied) return denied;
+  const { id } = await params;
+  const body = await readJson(request);
+  if (!isJsonObject(body)) {
+    return apiError(400, "bad_request", "The body must be a JSON object");
+  }
+
+  // addCopy checks every field, so we can hand it the body as it is
+  const result = await addCopy(id, body as unknown as CopyData);
+  switch (result.status) {
+    case "created":
+      return NextResponse.json(result.copy, { status: 201 });
+    case "invalid":
+      return apiError(
+        422,
+        "validation_failed",
+        "Some fields are not valid",
+        result.errors
+      );
+    case "not_found":
+      return notFound();
+  }
+}
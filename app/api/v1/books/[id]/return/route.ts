@@ -0,0 +1,89 @@
+/**
+ * REST API for bringing a copy of a book back.
+ * POST /api/v1/books/:id/return with { "copyId": "...", "condition": "GOOD", "notes": "..." }
+ * The body can be left out when only one copy of the book is checked out.
+ * condition and notes are optional - they record what condition the copy came back in.
+ * Responds with the closed loan, any fine for returning it late, the name
+ * of the patron it should be kept for if someone has a hold on it, and
+ * whether it came back damaged or destroyed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AssessmentData } from "../../../../../types/assessment";
+import { getBook } from "../../../../../lib/actions/bookActions";
+import { returnCopy } from "../../../../../lib/actions/loanActions";
+import { getCopiesForBook } from "../../../../../lib/actions/copyActions";
+import {
+  apiError,
+  authorize,
+  isJsonObject,
+  readJson,
+} from "../../../../../lib/api/http";
+
+// In Next.js 15, route parameters (like the book ID) are Promises
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const denied = await authorize("circulation");
+  if (denied) return denied;
+  const { id } = await params;
+  // Copies of removed books can still come back, so only a missing book is not found
+  if (!(await getBook(id))) {
+    return apiError(404, "not_found", "There is no book with that id");
+  }
+  // No body is fine - it means "the copy that's checked out"
+  const body = (await readJson(request)) ?? {};
+  if (!isJsonObject(body)) {
+    return apiError(400, "bad_request", "The body must be a JSON object");
+  }
+
+  // The copy has to be one of this book's copies
+  const copies = await getCopiesForBook(id);
+  const { copyId } = body;
+  let copy = copies.find((copy) => copy.id === copyId);
+  if (copyId === undefined) {
+    const out = copies.filter((copy) => copy.isCheckedOut);
+    if (out.length > 1) {
+      return apiError(422, "validation_failed", "Some fields are not valid", {
+        copyId: "More than one copy is checked out - say which one came back",
+      });
+    }
+    copy = out[0];
+    if (!copy) {
+      return apiError(409, "conflict", "No copy of the book is checked out");
+    }
+  }
+  if (!copy) {
+    return apiError(404, "not_found", "This book has no copy with that id");
+  }
+
+  // Only record an assessment if the client told us something about the condition
+  const { condition, notes } = body;
+  const result = await returnCopy(
+    copy.id,
+    condition === undefined && notes === undefined
+      ? undefined
+      : ({ condition, notes } as unknown as AssessmentData)
+  );
+  switch (result.status) {
+    case "returned":
+      return NextResponse.json({
+        loan: result.loan ?? null,
+        fineCents: result.fineCents ?? 0,
+        heldFor: result.heldFor ?? null,
+        damaged: result.damaged ?? false,
+        withdrawn: result.withdrawn ?? false,
+      });
+    case "invalid":
+      return apiError(
+        422,
+        "validation_failed",
+        "Some fields are not valid",
+        result.errors
+      );
+    case "not_checked_out":
+      return apiError(409, "conflict", "The copy isn't checked out");
+    case "not_found":
+      return apiError(404, "not_found", "There is no book with that id");
+  }
+}
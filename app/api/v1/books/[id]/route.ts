@@ -0,0 +1,208 @@
+/**
+ * REST API for a single book.
+ * GET    /api/v1/books/:id - the book, with an ETag (send it back in If-None-Match to get a 304)
+ * PATCH  /api/v1/books/:id - change some fields; needs If-Match with the book's ETag
+ * DELETE /api/v1/books/:id - remove the book (it's kept, but marked inactive)
+ * Changing or removing a book needs a logged in staff member.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AddBookData, Book } from "../../../../types/book";
+import {
+  getBook,
+  markBookInactive,
+  updateBook,
+} from "../../../../lib/actions/bookActions";
+import {
+  apiError,
+  authorize,
+  bookEtag,
+  isJsonObject,
+  readJson,
+  versionFromEtag,
+  versionFromIfMatch,
+  ANY_VERSION,
+} from "../../../../lib/api/http";
+import {
+  bookAuthors,
+  parseAuthorList,
+} from "../../../../lib/catalog/authorNames";
+
+// In Next.js 15, route parameters (like the book ID) are Promises
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The fields a PATCH can change - everything else is managed by the server
+const EDITABLE_FIELDS: (keyof AddBookData)[] = [
+  "title",
+  "authors",
+  "isbn",
+  "publishedYear",
+  "genre",
+  "description",
+  "tags",
+];
+
+// Find an active book, or undefined if there isn't one with this id
+// Removed books count as not found
+async function findBook(id: string): Promise<Book | undefined> {
+  const book = await getBook(id);
+  return book?.isActive ? book : undefined;
+}
+
+function notFound() {
+  return apiError(404, "not_found", "There is no book with that id");
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const book = await findBook(id);
+  if (!book) return notFound();
+
+  // The caller already has this version - no need to send it again
+  const etag = bookEtag(book);
+  if (versionFromEtag(request.headers.get("If-None-Match")) === book.version) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+  return NextResponse.json(book, { headers: { ETag: etag } });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = await authorize("books:edit");
+  if (denied) return denied;
+  const { id } = await params;
+  const book = await findBook(id);
+  if (!book) return notFound();
+
+  // Changes must say which version they're based on, so nobody overwrites
+  // a change they haven't seen
+  const ifMatch = request.headers.get("If-Match");
+  if (ifMatch === null) {
+    return apiError(
+      428,
+      "precondition_required",
+      "Send the book's ETag in an If-Match header"
+    );
+  }
+  // An ETag that isn't one of ours (e.g. a weak one) can't match this book,
+  // and "*" matches whatever version it's at
+  const ifMatchVersion = versionFromIfMatch(ifMatch);
+  if (ifMatchVersion === undefined) {
+    return apiError(
+      412,
+      "precondition_failed",
+      "That ETag isn't this book's - fetch it again and retry",
+      undefined,
+      { ETag: bookEtag(book) }
+    );
+  }
+
+  const body = await readJson(request);
+  if (!isJsonObject(body)) {
+    return apiError(400, "bad_request", "The body must be a JSON object");
+  }
+  // Older clients send the authors as one piece of text, separated by semicolons
+  const { author: authorText, ...changes } = body;
+  if (typeof authorText === "string" && changes.authors === undefined) {
+    changes.authors = parseAuthorList(authorText);
+  } else if (authorText !== undefined) {
+    changes.author = authorText; // Not something we can read, so it's reported below
+  }
+  const readOnly = Object.keys(changes).filter(
+    (key) => !EDITABLE_FIELDS.includes(key as keyof AddBookData)
+  );
+  if (readOnly.length > 0) {
+    return apiError(
+      422,
+      "validation_failed",
+      "Some fields can't be changed",
+      Object.fromEntries(
+        readOnly.map((key) => [key, "This field can't be changed"])
+      )
+    );
+  }
+
+  // Start from the book as it is and apply the fields that were sent
+  const current: AddBookData = {
+    title: book.title,
+    authors: bookAuthors(book).map((author) => author.name),
+    isbn: book.isbn,
+    publishedYear: book.publishedYear,
+    genre: book.genre,
+    description: book.description,
+    tags: book.tags,
+  };
+  const result = await updateBook(
+    id,
+    { ...current, ...changes } as AddBookData,
+    ifMatchVersion === ANY_VERSION ? undefined : ifMatchVersion
+  );
+
+  switch (result.status) {
+    case "updated":
+      return NextResponse.json(result.book, {
+        headers: { ETag: bookEtag(result.book) },
+      });
+    case "invalid":
+      return apiError(
+        422,
+        "validation_failed",
+        "Some fields are not valid",
+        result.errors
+      );
+    case "conflict":
+      return apiError(
+        412,
+        "precondition_failed",
+        "The book has changed since that ETag - fetch it again and retry",
+        undefined,
+        { ETag: bookEtag(result.currentBook) }
+      );
+    case "not_found":
+      return notFound();
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = await authorize("books:remove");
+  if (denied) return denied;
+  const { id } = await params;
+  const book = await findBook(id);
+  if (!book) return notFound();
+
+  // If-Match is optional here, but if it's sent it has to be up to date
+  // The version is checked as the book is removed, so a change saved in
+  // between isn't lost
+  const ifMatch = request.headers.get("If-Match");
+  const ifMatchVersion =
+    ifMatch === null ? ANY_VERSION : versionFromIfMatch(ifMatch);
+  if (ifMatchVersion === undefined) {
+    return apiError(
+      412,
+      "precondition_failed",
+      "That ETag isn't this book's - fetch it again and retry",
+      undefined,
+      { ETag: bookEtag(book) }
+    );
+  }
+
+  const result = await markBookInactive(
+    id,
+    ifMatchVersion === ANY_VERSION ? undefined : ifMatchVersion
+  );
+  switch (result.status) {
+    case "removed":
+      return new NextResponse(null, { status: 204 });
+    case "conflict":
+      return apiError(
+        412,
+        "precondition_failed",
+        "The book has changed since that ETag - fetch it again and retry",
+        undefined,
+        { ETag: bookEtag(result.currentBook) }
+      );
+    case "on_loan":
+      return apiError(409, "conflict", result.error);
+    case "not_found":
+      return notFound();
+  }
+}
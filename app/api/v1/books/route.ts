@@ -0,0 +1,60 @@
+/**
+ * REST API for the book collection.
+ * GET  /api/v1/books - list active books, with the same search, filter, sort and
+ *                      paging query params as the /books page (q, genre, page, ...)
+ * POST /api/v1/books - add a book (staff only), and its first copy if the body has
+ *                      a "copy" object ({ "condition": "GOOD", "shelfLocation": "..." })
+ * See /api/v1/openapi.json for the full description.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AddBookData } from "../../../types/book";
+import { CopyData } from "../../../types/copy";
+import { addBook, searchBooks } from "../../../lib/actions/bookActions";
+import { parseBookQuery } from "../../../lib/search/bookQuery";
+import {
+  apiError,
+  authorize,
+  bookEtag,
+  isJsonObject,
+  readJson,
+} from "../../../lib/api/http";
+
+export async function GET(request: NextRequest) {
+  const query = parseBookQuery(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  const { books, ...paging } = await searchBooks(query);
+  return NextResponse.json({ data: books, ...paging });
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await authorize("books:edit");
+  if (denied) return denied;
+  const body = await readJson(request);
+  if (!isJsonObject(body)) {
+    return apiError(400, "bad_request", "The body must be a JSON object");
+  }
+
+  // addBook checks every field, so we can hand it the body as it is
+  const result = await addBook(
+    body as unknown as AddBookData,
+    body.copy === undefined ? undefined : (body.copy as unknown as CopyData)
+  );
+  if (result.status === "invalid") {
+    return apiError(
+      422,
+      "validation_failed",
+      "Some fields are not valid",
+      result.errors
+    );
+  }
+
+  return NextResponse.json(result.book, {
+    status: 201,
+    headers: {
+      Location: `/api/v1/books/${result.book.id}`,
+      ETag: bookEtag(result.book),
+    },
+  });
+}
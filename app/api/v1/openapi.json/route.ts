@@ -0,0 +1,10 @@
+/**
+ * Serves the OpenAPI description of the REST API at /api/v1/openapi.json
+ */
+
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "../../../lib/api/openapi";
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,29 @@
+/**
+ * REST API for logging in and out.
+ * POST   /api/v1/session with { "username": "...", "password": "..." } - log in;
+ *        the response sets the session cookie, send it with later requests
+ * DELETE /api/v1/session - log out
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { login, logout } from "../../../lib/actions/authActions";
+import { apiError, isJsonObject, readJson } from "../../../lib/api/http";
+
+export async function POST(request: NextRequest) {
+  const body = await readJson(request);
+  if (!isJsonObject(body)) {
+    return apiError(400, "bad_request", "The body must be a JSON object");
+  }
+
+  // login checks the types itself
+  const result = await login(body.username as string, body.password as string);
+  if (result.status === "invalid") {
+    return apiError(401, "unauthenticated", result.error);
+  }
+  return NextResponse.json(result.user);
+}
+
+export async function DELETE() {
+  await logout();
+  return new NextResponse(null, { status: 204 });
+}
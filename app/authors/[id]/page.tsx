@@ -0,0 +1,117 @@
+/**
+ * This is an author's page, located at app/authors/[id]/page.tsx (/authors/:id).
+ * It lists the author's books in the catalog, oldest first, along with anyone
+ * they wrote each one with, and any other spellings of their name.
+ */
+
+// This is a server component
+import { getAuthorWorks } from "../../lib/actions/authorActions"; // The author and their books
+import { bookAuthors } from "../../lib/catalog/authorNames"; // Finds each book's co-authors
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+import Link from "next/link"; // Next.js component for navigation
+
+// In Next.js 15, route parameters (like the author ID) are Promises
+type PageParams = Promise<{ id: string }>;
+
+export default async function AuthorPage({ params }: { params: PageParams }) {
+  const { id } = await params;
+  const works = await getAuthorWorks(id);
+  const user = await getCurrentUser();
+
+  // If we couldn't find the author (e.g. they were merged into another), say so
+  if (!works) {
+    return (
+      <div className="p-4">
+        <p>Author not found</p>
+        <Link
+          href="/authors"
+          className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+        >
+          Back to Authors
+        </Link>
+      </div>
+    );
+  }
+
+  const { author, books } = works;
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center">
+        <Link href="/authors" className="border p-2">
+          ← Back to Authors
+        </Link>
+        {/* Staff can merge a duplicate of this author into it */}
+        {can(user, "authors:manage") && (
+          <Link
+            href={`/authors/merge?into=${author.id}`}
+            className="border p-2 hover:bg-gray-100 transition-colors"
+          >
+            Merge a Duplicate Into This Author
+          </Link>
+        )}
+      </div>
+
+      <h1 className="mt-4 text-2xl">{author.name}</h1>
+      {/* Spellings of their name from duplicates that were merged into them */}
+      {author.aliases.length > 0 && (
+        <p className="mt-1 text-gray-500">
+          Also written as {author.aliases.join(", ")}
+        </p>
+      )}
+
+      {books.length === 0 ? (
+        <p className="mt-4">The library has no books by {author.name}.</p>
+      ) : (
+        <table className="mt-4 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Title</th>
+              <th className="border p-2 text-left">Published</th>
+              <th className="border p-2 text-left">Written With</th>
+            </tr>
+          </thead>
+          <tbody>
+            {books.map((book) => {
+              // Everyone else credited on the book
+              const coAuthors = bookAuthors(book).filter(
+                (other) => other.id !== author.id
+              );
+              return (
+                <tr key={book.id}>
+                  <td className="border p-2">
+                    <Link
+                      href={`/books/${book.id}`}
+                      className="hover:underline"
+                    >
+                      {book.title}
+                    </Link>
+                  </td>
+                  <td className="border p-2">{book.publishedYear}</td>
+                  <td className="border p-2">
+                    {coAuthors.map((other, i) => (
+                      <span key={other.id ?? other.name}>
+                        {i > 0 && ", "}
+                        {other.id ? (
+                          <Link
+                            href={`/authors/${other.id}`}
+                            className="hover:underline"
+                          >
+                            {other.name}
+                          </Link>
+                        ) : (
+                          other.name
+                        )}
+                      </span>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
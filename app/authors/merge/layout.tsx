@@ -0,0 +1,15 @@
+// Merging and deleting authors is for staff
+// This layout wraps every page under /authors/merge
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function MergeAuthorsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="authors:manage">
+      {children}
+    </RequirePermission>
+  );
+}
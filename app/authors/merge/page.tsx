@@ -0,0 +1,52 @@
+/**
+ * This is the merge authors page, located at app/authors/merge/page.tsx (/authors/merge).
+ * When the same person has been entered twice ("Scott Fitzgerald" and
+ * "F. Scott Fitzgerald", say), staff merge one into the other here: every book
+ * by the duplicate is credited to the author it's merged into, and the duplicate
+ * is deleted. Authors that might be the same person are suggested at the top.
+ * ?from= and ?into= pick the two authors to start with.
+ */
+
+// This is a server component
+import { getAuthorMergeData } from "../../lib/actions/authorActions"; // Every author and the likely duplicates
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+import AuthorMerger from "../../ui/AuthorMerger"; // The merge form and suggestions
+import Link from "next/link"; // Next.js component for navigation
+
+// In Next.js 15, the URL's search params are a Promise
+type PageSearchParams = Promise<{ from?: string; into?: string }>;
+
+export default async function MergeAuthorsPage({
+  searchParams,
+}: {
+  searchParams: PageSearchParams;
+}) {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "authors:manage")) return null;
+
+  const { from, into } = await searchParams;
+  const { authors, duplicates } = await getAuthorMergeData();
+
+  return (
+    <div className="p-4">
+      <Link href="/authors" className="border p-2">
+        ← Back to Authors
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Merge Duplicate Authors</h1>
+      <p className="mt-2">
+        Merging moves every book by the duplicate to the other author, then
+        deletes the duplicate. The name of the author you merge into is kept.
+      </p>
+
+      <AuthorMerger
+        authors={authors}
+        duplicates={duplicates}
+        initialFrom={from ?? ""}
+        initialInto={into ?? ""}
+      />
+    </div>
+  );
+}
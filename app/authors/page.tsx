@@ -0,0 +1,65 @@
+/**
+ * This is the authors page, located at app/authors/page.tsx (/authors).
+ * It lists every author with books in the catalog, sorted by surname, with how
+ * many of their books the library has. Each name links to the author's page.
+ */
+
+// This is a server component
+import { getAuthorDirectory } from "../lib/actions/authorActions"; // The authors and their book counts
+import { getCurrentUser } from "../lib/auth/session"; // Who is logged in
+import { can } from "../lib/auth/permissions"; // What they're allowed to do
+import Link from "next/link"; // Next.js component for navigation
+
+export default async function AuthorsPage() {
+  const authors = await getAuthorDirectory();
+  const user = await getCurrentUser();
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center">
+        <Link href="/books" className="border p-2">
+          ← Back to Books
+        </Link>
+        {/* Link to the merge tool (staff only) */}
+        {can(user, "authors:manage") && (
+          <Link
+            href="/authors/merge"
+            className="border p-2 hover:bg-gray-100 transition-colors"
+          >
+            Merge Duplicate Authors
+          </Link>
+        )}
+      </div>
+
+      <h1 className="mt-4 text-2xl">Authors</h1>
+
+      {authors.length === 0 ? (
+        <p className="mt-4">No authors yet.</p>
+      ) : (
+        <table className="mt-4 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Author</th>
+              <th className="border p-2 text-left">Books</th>
+            </tr>
+          </thead>
+          <tbody>
+            {authors.map((author) => (
+              <tr key={author.id}>
+                <td className="border p-2">
+                  <Link
+                    href={`/authors/${author.id}`}
+                    className="hover:underline"
+                  >
+                    {author.name}
+                  </Link>
+                </td>
+                <td className="border p-2">{author.bookCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
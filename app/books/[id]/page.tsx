@@ -10,14 +10,44 @@
 
 import { useState, useEffect, use } from "react"; // React hooks for managing state and effects
 import { Book } from "../../types/book"; // Our Book type definition
+import { Copy, CopySummary } from "../../types/copy"; // The book's physical copies
+import { HoldStatus } from "../../types/hold"; // Where a hold is in the queue
+import { AuditEntry } from "../../types/audit"; // A recorded change to the book
 import {
   getBook, // Gets a single book from storage
-  toggleCheckoutStatus, // Changes a book's checkout status
   markBookInactive, // Marks a book as removed
 } from "../../lib/actions/bookActions";
+import {
+  getLoansForBook, // Gets the book's borrowing history
+  BookLoan,
+} from "../../lib/actions/loanActions";
+import {
+  getCopiesForBook, // Gets every copy of the book
+  getCopySummary, // Counts how many copies can be borrowed
+} from "../../lib/actions/copyActions";
+import {
+  getHoldQueue, // Gets the patrons waiting for the book
+  placeHold, // Puts a patron in the queue
+  cancelHold, // Takes a patron out of the queue
+  HoldQueueEntry,
+} from "../../lib/actions/holdActions";
+import {
+  getAssessmentsForBook, // Gets the condition history of the book's copies
+  BookAssessment,
+} from "../../lib/actions/conditionActions";
+import { getAuditForBook } from "../../lib/actions/auditActions"; // Who changed the book, and when
+import { can } from "../../lib/auth/permissions"; // What the user is allowed to do
+import { toSearchParams } from "../../lib/search/bookQuery"; // Builds the links to similar books
+import { bookAuthors } from "../../lib/catalog/authorNames"; // Pairs the book's authors with their pages
+import { useCurrentUser } from "../../ui/CurrentUserProvider"; // Who is logged in
 import { useRouter } from "next/navigation"; // Helps us navigate between pages
 import Link from "next/link"; // Next.js link component for navigation
 import ConfirmDialog from "../../ui/ConfirmDialog"; // Our custom confirmation dialog
+import CopyList from "../../ui/CopyList"; // The copies, with buttons to lend and return them
+import HoldDialog from "../../ui/HoldDialog"; // Asks who wants the book next
+import AuditTimeline from "../../ui/AuditTimeline"; // Shows the book's changes
+import BookCover from "../../ui/BookCover"; // The book's cover, or a placeholder
+import CoverUpload from "../../ui/CoverUpload"; // Lets staff change the cover
 
 // In Next.js 15, route parameters (like the book ID) are Promises
 // This type tells TypeScript what our parameters look like
@@ -31,9 +61,24 @@ export default function BookPage({ params }: { params: PageParams }) {
   const { id } = use(params); // Get the book ID from the URL
   // Set up our hooks and state variables
   const router = useRouter(); // For changing pages
+  // Only show what the logged in user is allowed to see and do
+  const user = useCurrentUser();
+  const canCirculate = can(user, "circulation"); // Staff see loans and holds, and lend copies
+  const canHoldForSelf = can(user, "holds:own") && !!user?.patronId; // Patrons place their own holds
+  const canEdit = can(user, "books:edit");
+  const canRemove = can(user, "books:remove");
+  const canViewAudit = can(user, "audit:view"); // Staff see every change to the book
   const [showConfirm, setShowConfirm] = useState<boolean>(false); // Should we show the delete dialog?
   //book is the book's data, we use | null because null is a type, we have to tell typescript that it can be null
   const [book, setBook] = useState<Book | null>(null);
+  const [copies, setCopies] = useState<Copy[]>([]); // The physical copies of this book
+  const [summary, setSummary] = useState<CopySummary | null>(null); // How many copies can be borrowed
+  const [loans, setLoans] = useState<BookLoan[]>([]); // Every time this book has been borrowed
+  const [holds, setHolds] = useState<HoldQueueEntry[]>([]); // Patrons waiting for this book, in order
+  const [assessments, setAssessments] = useState<BookAssessment[]>([]); // Every time a copy's condition was recorded
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]); // Every change to this book
+  const [notice, setNotice] = useState<string | null>(null); // A message for patrons after placing a hold
+  const [showHold, setShowHold] = useState<boolean>(false); // Should we show the hold dialog?
   const [loading, setLoading] = useState<boolean>(true); // Are we still loading?
 
   // Load the book's data when the page loads
@@ -42,10 +87,21 @@ export default function BookPage({ params }: { params: PageParams }) {
     const loadBook = async () => {
       const bookData = await getBook(id); // Get the book from storage
       setBook(bookData || null); // Save it in our state
+      setCopies(await getCopiesForBook(id)); // Its copies
+      setSummary(await getCopySummary(id)); // And how many can be borrowed
+      // Who borrowed it and who is waiting for it is only for staff
+      if (canCirculate) {
+        setLoans(await getLoansForBook(id)); // Its loan history
+        setHolds(await getHoldQueue(id)); // Who is waiting for it
+        setAssessments(await getAssessmentsForBook(id)); // And the condition of its copies over time
+      }
+      if (canViewAudit) {
+        setAuditEntries(await getAuditForBook(id)); // And who changed it
+      }
       setLoading(false); // We're done loading
     };
     loadBook();
-  }, [id]); // Only run this again if the ID changes
+  }, [id, canCirculate, canViewAudit]); // Only run this again if the ID or the user's permissions change
 
   // If we're still loading, show a loading message
   if (loading) {
@@ -69,17 +125,70 @@ export default function BookPage({ params }: { params: PageParams }) {
 
   // Function that runs when we want to remove a book
   const handleRemove = async () => {
-    await markBookInactive(id); // Mark it as removed in storage
+    const result = await markBookInactive(id); // Mark it as removed in storage
+    if (result.status === "on_loan") {
+      setNotice(result.error); // It stays until its copies are checked in
+      return;
+    }
     router.push("/books"); // Go back to the book list
   };
 
-  // Function that runs when we want to check out or return a book
-  const handleCheckout = async () => {
-    await toggleCheckoutStatus(id); // Change the checkout status
+  // Reload the book, its copies, its loans, its holds and its condition history after a copy changes
+  const refreshBook = async () => {
     const updatedBook = await getBook(id); // Get the updated data
     setBook(updatedBook || null); // Update our local state
+    setCopies(await getCopiesForBook(id));
+    setSummary(await getCopySummary(id));
+    if (canCirculate) {
+      setLoans(await getLoansForBook(id));
+      setHolds(await getHoldQueue(id));
+      setAssessments(await getAssessmentsForBook(id));
+    }
+    if (canViewAudit) {
+      setAuditEntries(await getAuditForBook(id));
+    }
+  };
+
+  // Function that runs when the hold dialog is confirmed
+  const handleHoldConfirm = async (patronId: string) => {
+    const result = await placeHold(id, patronId);
+    if (result.status === "invalid") {
+      return result.errors; // Keep the dialog open and show what's wrong
+    }
+    setShowHold(false);
+    await refreshBook();
+  };
+
+  // Handle the Place Hold button
+  // Staff choose which patron the hold is for, patrons place it for themselves
+  const handlePlaceHold = async () => {
+    if (canCirculate) {
+      setShowHold(true);
+      return;
+    }
+    if (!user?.patronId) return;
+    const result = await placeHold(id, user.patronId);
+    if (result.status === "placed") {
+      setNotice(`You're number ${result.position} in line for this book`);
+    } else if (result.status === "invalid") {
+      setNotice(result.errors.patronId ?? "Your hold couldn't be placed");
+    } else if (result.status === "available") {
+      setNotice("This book is on the shelf - ask at the desk");
+    }
+    await refreshBook();
+  };
+
+  // Take a patron out of the queue
+  const handleCancelHold = async (holdId: string) => {
+    await cancelHold(holdId);
+    await refreshBook();
   };
 
+  // The patrons copies are being kept for, if any are on the hold shelf
+  const readyHolds = holds.filter((hold) => hold.status === HoldStatus.READY);
+  // A hold makes sense when the book has copies but none of them can be borrowed
+  const canBeHeld = !!summary && summary.total > 0 && summary.available === 0;
+
   // The actual page layout
   return (
     <div className="p-4">
@@ -95,10 +204,41 @@ export default function BookPage({ params }: { params: PageParams }) {
         {/* Book title */}
         <h1 className="text-2xl">{book.title}</h1>
 
+        {/* The cover, with buttons to change it for staff */}
+        <div className="mt-4">
+          <BookCover book={book} size="full" />
+          {canEdit && (
+            <CoverUpload
+              bookId={book.id}
+              bookTitle={book.title}
+              hasCover={!!book.coverId}
+              onChange={refreshBook}
+            />
+          )}
+        </div>
+
         <div className="mt-4">
           {/* All the book's details */}
           <p>
-            <strong>Author:</strong> {book.author}
+            {/* Each author links to their page, with the rest of their books */}
+            <strong>
+              {bookAuthors(book).length > 1 ? "Authors:" : "Author:"}
+            </strong>{" "}
+            {bookAuthors(book).map((author, i) => (
+              <span key={author.id ?? author.name}>
+                {i > 0 && ", "}
+                {author.id ? (
+                  <Link
+                    href={`/authors/${author.id}`}
+                    className="hover:underline"
+                  >
+                    {author.name}
+                  </Link>
+                ) : (
+                  author.name
+                )}
+              </span>
+            ))}
           </p>
           <p>
             <strong>ISBN:</strong> {book.isbn}
@@ -107,18 +247,122 @@ export default function BookPage({ params }: { params: PageParams }) {
             <strong>Published:</strong> {book.publishedYear}
           </p>
           <p>
-            <strong>Genre:</strong> {book.genre}
+            {/* The genre and tags link to the other books with them */}
+            <strong>Genre:</strong>{" "}
+            <Link
+              href={`/books?${toSearchParams({ genre: book.genre })}`}
+              className="hover:underline"
+            >
+              {book.genre}
+            </Link>
           </p>
+          {book.tags.length > 0 && (
+            <p>
+              <strong>Tags:</strong>{" "}
+              {book.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  href={`/books?${toSearchParams({ tag })}`}
+                  className="mr-1 px-2 border rounded text-sm hover:bg-gray-100"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </p>
+          )}
           <p>
             <strong>Description:</strong> {book.description}
           </p>
-          <p>
-            <strong>Current Condition:</strong> {book.condition}
-          </p>
           <p>
             <strong>Status:</strong>{" "}
-            {book.isCheckedOut ? "Checked Out" : "Available"}
+            {!summary || summary.total === 0
+              ? "No copies"
+              : `${summary.available} of ${summary.total} available`}
+            {summary &&
+              summary.onHoldShelf > 0 &&
+              (readyHolds.length > 0
+                ? ` (on hold shelf for ${readyHolds
+                    .map((hold) => hold.patronName)
+                    .join(", ")})`
+                : ` (${summary.onHoldShelf} on hold shelf)`)}
           </p>
+          {!book.isActive && (
+            <p className="text-red-600">
+              This book has been removed.{" "}
+              {canRemove && (
+                <Link href="/admin/trash" className="underline">
+                  Restore it from the trash
+                </Link>
+              )}
+            </p>
+          )}
+
+          {notice && <p className="mt-4 p-2 border rounded">{notice}</p>}
+
+          {/* The physical copies - these are what get checked out */}
+          <CopyList
+            bookId={book.id}
+            bookTitle={book.title}
+            bookIsActive={book.isActive}
+            copies={copies}
+            canCirculate={canCirculate}
+            canEdit={canEdit}
+            canRemove={canRemove}
+            onChange={refreshBook}
+          />
+
+          {/* Patrons waiting for this book, first in line at the top (staff only) */}
+          {canCirculate && (
+            <div className="mt-4">
+              <h2>Hold Queue</h2>
+              {holds.length === 0 ? (
+                <p>Nobody is waiting for this book</p>
+              ) : (
+                <table className="mt-2 border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="border p-2 text-left">#</th>
+                      <th className="border p-2 text-left">Patron</th>
+                      <th className="border p-2 text-left">Placed</th>
+                      <th className="border p-2 text-left">Status</th>
+                      <th className="border p-2 text-left"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {holds.map((hold, index) => (
+                      <tr key={hold.id}>
+                        <td className="border p-2">{index + 1}</td>
+                        <td className="border p-2">
+                          <Link
+                            href={`/patrons/${hold.patronId}`}
+                            className="hover:underline"
+                          >
+                            {hold.patronName}
+                          </Link>
+                        </td>
+                        <td className="border p-2">
+                          {hold.placedDate.toLocaleDateString()}
+                        </td>
+                        <td className="border p-2">
+                          {hold.status === HoldStatus.READY
+                            ? `Ready - pick up by ${hold.pickupBy?.toLocaleDateString()}`
+                            : "Waiting"}
+                        </td>
+                        <td className="border p-2">
+                          <button
+                            onClick={() => handleCancelHold(hold.id)}
+                            className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
 
           {/* Book's history information */}
           <div className="mt-4">
@@ -127,42 +371,153 @@ export default function BookPage({ params }: { params: PageParams }) {
               <strong>Added to Library:</strong>{" "}
               {book.addedDate.toLocaleDateString()}
             </p>
-            {/* Only show the last checkout date if there is one */}
-            {book.lastCheckedOutDate && (
-              <p>
-                <strong>Last Checked Out:</strong>{" "}
-                {book.lastCheckedOutDate.toLocaleDateString()}
-              </p>
+            {/* Every loan of this book, newest first (staff only) */}
+            {!canCirculate ? null : loans.length === 0 ? (
+              <p>Never checked out</p>
+            ) : (
+              <table className="mt-2 border-collapse">
+                <thead>
+                  <tr>
+                    <th className="border p-2 text-left">Copy</th>
+                    <th className="border p-2 text-left">Borrower</th>
+                    <th className="border p-2 text-left">Checked Out</th>
+                    <th className="border p-2 text-left">Due</th>
+                    <th className="border p-2 text-left">Returned</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {loans.map((loan) => (
+                    <tr key={loan.id}>
+                      {/* Loans from before copies existed don't say which copy */}
+                      <td className="border p-2">{loan.copyBarcode ?? "-"}</td>
+                      <td className="border p-2">
+                        {/* Link to the patron, unless the loan is from before patrons existed */}
+                        {loan.patronId ? (
+                          <Link
+                            href={`/patrons/${loan.patronId}`}
+                            className="hover:underline"
+                          >
+                            {loan.borrower}
+                          </Link>
+                        ) : (
+                          loan.borrower
+                        )}
+                      </td>
+                      <td className="border p-2">
+                        {loan.checkoutDate.toLocaleDateString()}
+                      </td>
+                      <td className="border p-2">
+                        {loan.dueDate.toLocaleDateString()}
+                      </td>
+                      <td className="border p-2">
+                        {loan.returnDate
+                          ? loan.returnDate.toLocaleDateString()
+                          : "Not yet returned"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             )}
           </div>
 
+          {/* Every time a copy's condition was recorded, newest first (staff only) */}
+          {canCirculate && (
+            <div className="mt-4">
+              <h2>Condition History</h2>
+              {assessments.length === 0 ? (
+                <p>No copy has been assessed yet</p>
+              ) : (
+                <table className="mt-2 border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="border p-2 text-left">Date</th>
+                      <th className="border p-2 text-left">Copy</th>
+                      <th className="border p-2 text-left">Condition</th>
+                      <th className="border p-2 text-left">Assessed By</th>
+                      <th className="border p-2 text-left">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assessments.map((assessment) => (
+                      <tr key={assessment.id}>
+                        <td className="border p-2">
+                          {assessment.assessedDate.toLocaleDateString()}
+                        </td>
+                        <td className="border p-2">{assessment.copyBarcode}</td>
+                        <td className="border p-2">
+                          {assessment.previousCondition === assessment.condition
+                            ? assessment.condition
+                            : `${assessment.previousCondition} → ${assessment.condition}`}
+                          {/* Damage found when the copy came back from a loan */}
+                          {assessment.damaged && (
+                            <span className="ml-2 px-1 rounded bg-red-600 text-white text-sm">
+                              Damaged on loan
+                            </span>
+                          )}
+                        </td>
+                        <td className="border p-2">
+                          {assessment.assessorName}
+                          {assessment.loanId && " (on return)"}
+                        </td>
+                        <td className="border p-2">{assessment.notes}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {/* Every change made to the book, newest first (staff only) */}
+          {canViewAudit && (
+            <div className="mt-4">
+              <h2>Changes</h2>
+              <AuditTimeline entries={auditEntries} />
+            </div>
+          )}
+
           {/* Buttons for actions we can take on this book */}
           <div className="mt-4 space-x-2">
-            {/* Check out/in button - text changes based on current status */}
-            <button
-              onClick={handleCheckout}
-              className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
-            >
-              {book.isCheckedOut ? "Check In" : "Check Out"}
-            </button>
+            {/* Patrons can queue up for the book while every copy is out or kept for someone */}
+            {(canCirculate || canHoldForSelf) && canBeHeld && (
+              <button
+                onClick={handlePlaceHold}
+                className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+              >
+                Place Hold
+              </button>
+            )}
             {/* Button to edit the book's information */}
-            <Link
-              href={`/books/edit/${book.id}`}
-              className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
-            >
-              Edit Book
-            </Link>
+            {canEdit && (
+              <Link
+                href={`/books/edit/${book.id}`}
+                className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+              >
+                Edit Book
+              </Link>
+            )}
             {/* Button to remove the book (shows a confirmation first) */}
-            <button
-              onClick={() => setShowConfirm(true)}
-              className="px-4 py-2 border rounded text-red-600 hover:bg-red-50 transition-colors"
-            >
-              Remove Book
-            </button>
+            {canRemove && book.isActive && (
+              <button
+                onClick={() => setShowConfirm(true)}
+                className="px-4 py-2 border rounded text-red-600 hover:bg-red-50 transition-colors"
+              >
+                Remove Book
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Dialog asking who wants the book next */}
+      <HoldDialog
+        isOpen={showHold}
+        bookTitle={book.title}
+        onConfirm={handleHoldConfirm}
+        onCancel={() => setShowHold(false)}
+      />
+
       {/* Confirmation Dialog
           This pops up when we try to remove a book
           It asks "are you sure?" before actually removing it */}
@@ -171,7 +526,7 @@ export default function BookPage({ params }: { params: PageParams }) {
         onConfirm={handleRemove} // What to do if they click "yes"
         onCancel={() => setShowConfirm(false)} // What to do if they click "no"
         title="Remove Book"
-        message={`Are you sure you want to remove "${book.title}" from the library? This action cannot be undone.`}
+        message={`Are you sure you want to remove "${book.title}" from the library? It will be moved to the trash, where it can be restored.`}
       />
     </div>
   );
@@ -0,0 +1,13 @@
+// Only staff can add books
+// This layout wraps every page under /books/create
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function CreateBookLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="books:edit">{children}</RequirePermission>
+  );
+}
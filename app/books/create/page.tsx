@@ -1,7 +1,7 @@
 /**
  * This is the page component for creating a new book.
  * It's located at app/books/create/page.tsx and shows a form where users
- * can enter details for a new book to add to the library.
+ * can enter details for a new book to add to the library, along with its first copy.
  */
 
 // Tell Next.js this is a Client Component (runs in the browser)
@@ -9,35 +9,48 @@
 "use client";
 
 // Import the tools we need
-import { useState } from "react"; // React hook for managing form state
-import { BookCondition } from "../../types/book"; // The allowed conditions a book can be in
+import { AddBookData, BookCondition } from "../../types/book"; // The book's fields and the allowed conditions a copy can be in
+import { CopyData } from "../../types/copy"; // The first copy's fields
 import { addBook } from "../../lib/actions/bookActions"; // Function to save a new book
+import { bookDraftKey } from "../../lib/drafts/bookDrafts"; // Where the draft of this form is kept
 import { useRouter } from "next/navigation"; // For navigating after saving
 import Link from "next/link"; // For the back button
+import BookForm, { BookFormOutcome } from "../../ui/BookForm"; // The book form, shared with the edit page
+
+// What a new book's form starts with
+const EMPTY_BOOK: AddBookData = {
+  title: "", // The book's title
+  authors: [], // Who wrote the book - the form starts with one empty box
+  isbn: "", // The book's ISBN number
+  publishedYear: new Date().getFullYear(), // Default to current year
+  genre: "", // What type of book it is
+  description: "", // A description of the book
+  tags: [], // Free-form labels like "book club"
+};
+
+// The first physical copy of the book
+const FIRST_COPY: CopyData = {
+  barcode: "", // Left empty, the library hands out the next free barcode
+  condition: BookCondition.GOOD, // What condition it's in (default to GOOD)
+  shelfLocation: "", // Where it goes on the shelves
+};
 
 // The main component for creating a new book
 export default function CreateBookPage() {
   // Set up our hooks
   const router = useRouter(); // We'll use this to go back to the book list after saving
 
-  // Create state for our form data
-  // useState gives us a variable that React will watch for changes
-  // When it changes, React will update the form automatically
-  const [formData, setFormData] = useState({
-    title: "", // The book's title
-    author: "", // Who wrote the book
-    isbn: "", // The book's ISBN number
-    publishedYear: new Date().getFullYear(), // Default to current year
-    genre: "", // What type of book it is
-    description: "", // A description of the book
-    condition: BookCondition.GOOD, // What condition it's in (default to GOOD)
-  });
-
-  // This function runs when the form is submitted
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault(); // Stop the form from doing a regular submit
-    await addBook(formData); // Save the new book to our storage
+  // Save the new book and its first copy
+  const handleSubmit = async (
+    book: AddBookData,
+    copy: CopyData | undefined
+  ): Promise<BookFormOutcome> => {
+    const result = await addBook(book, copy);
+    if (result.status === "invalid") {
+      return result; // The form shows what needs fixing next to each field
+    }
     router.push("/books"); // Go back to the book list
+    return { status: "saved" };
   };
 
   // The form layout
@@ -51,135 +64,15 @@ export default function CreateBookPage() {
       <div className="mt-4">
         <h1 className="text-2xl">Add New Book</h1>
         {/* The form that collects book information */}
-        <form onSubmit={handleSubmit} className="mt-4">
-          {/* Title input field */}
-          <div className="mb-4">
-            <label>
-              <div>Title:</div>
-              <input
-                type="text"
-                value={formData.title}
-                onChange={(e) =>
-                  setFormData({ ...formData, title: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Author input field */}
-          <div className="mb-4">
-            <label>
-              <div>Author:</div>
-              <input
-                type="text"
-                value={formData.author}
-                onChange={(e) =>
-                  setFormData({ ...formData, author: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* ISBN input field */}
-          <div className="mb-4">
-            <label>
-              <div>ISBN:</div>
-              <input
-                type="text"
-                value={formData.isbn}
-                onChange={(e) =>
-                  setFormData({ ...formData, isbn: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Published Year input field */}
-          <div className="mb-4">
-            <label>
-              <div>Published Year:</div>
-              <input
-                type="number"
-                value={formData.publishedYear}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    publishedYear: parseInt(e.target.value),
-                  })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Genre input field */}
-          <div className="mb-4">
-            <label>
-              <div>Genre:</div>
-              <input
-                type="text"
-                value={formData.genre}
-                onChange={(e) =>
-                  setFormData({ ...formData, genre: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Description textarea field */}
-          <div className="mb-4">
-            <label>
-              <div>Description:</div>
-              <textarea
-                value={formData.description}
-                onChange={(e) =>
-                  setFormData({ ...formData, description: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-                rows={3}
-              />
-            </label>
-          </div>
-
-          {/* Condition dropdown field */}
-          <div className="mb-4">
-            <label>
-              <div>Condition:</div>
-              <select
-                value={formData.condition}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    condition: e.target.value as BookCondition,
-                  })
-                }
-                className="w-full border p-2 text-black"
-              >
-                {/* Create an option for each possible book condition */}
-                {Object.values(BookCondition).map((condition) => (
-                  <option key={condition} value={condition}>
-                    {condition}
-                  </option>
-                ))}
-              </select>
-            </label>
-          </div>
-
-          {/* Submit button */}
-          <button type="submit" className="border p-2">
-            Add Book
-          </button>
-        </form>
+        <BookForm
+          initialBook={EMPTY_BOOK}
+          initialCopy={FIRST_COPY}
+          draftKey={bookDraftKey()}
+          submitLabel="Add Book"
+          submittingLabel="Adding..."
+          isbnLookup="fill"
+          onSubmit={handleSubmit}
+        />
       </div>
     </div>
   );
@@ -10,15 +10,31 @@
 
 // Import the tools we need
 import { useState, useEffect, use } from "react"; // React hooks for managing state and effects
-import { Book, BookCondition } from "../../../types/book"; // Types for our book data
+import { AddBookData, Book } from "../../../types/book"; // Types for our book data
 import { updateBook, getBook } from "../../../lib/actions/bookActions"; // Functions to get and update books
+import { bookDraftKey, clearBookDraft } from "../../../lib/drafts/bookDrafts"; // Where the draft of this form is kept
+import { bookAuthors } from "../../../lib/catalog/authorNames"; // Splits up the book's authors
 import { useRouter } from "next/navigation"; // For navigating after saving
 import Link from "next/link"; // For navigation links
+import BookForm, { BookFormOutcome } from "../../../ui/BookForm"; // The book form, shared with the add book page
 
 // In Next.js 15, route parameters are Promises
 // This type tells TypeScript what our parameters look like
 type PageParams = Promise<{ id: string }>;
 
+// Pull the editable fields out of a book so we can fill the form with them
+function toFormData(book: Book): AddBookData {
+  return {
+    title: book.title,
+    authors: bookAuthors(book).map((author) => author.name),
+    isbn: book.isbn,
+    publishedYear: book.publishedYear,
+    genre: book.genre,
+    description: book.description,
+    tags: book.tags,
+  };
+}
+
 // The main component for editing a book
 export default function EditBookPage({ params }: { params: PageParams }) {
   // Set up our hooks and state
@@ -26,19 +42,11 @@ export default function EditBookPage({ params }: { params: PageParams }) {
   const [book, setBook] = useState<Book | null>(null); // Stores the original book data
   const [loading, setLoading] = useState(true); // Tracks if we're still loading
   const { id } = use(params); // Get the book ID from the URL
-
-  // State for our form fields
-  // This is separate from the book state because we want to track changes
-  // before saving them
-  const [formData, setFormData] = useState({
-    title: "", // The book's title
-    author: "", // Who wrote the book
-    isbn: "", // The book's ISBN number
-    publishedYear: new Date().getFullYear(), // When it was published
-    genre: "", // What type of book it is
-    description: "", // A description of the book
-    condition: BookCondition.GOOD, // What condition it's in
-  });
+  const draftKey = bookDraftKey(id); // Each book has its own draft
+  // If someone else saved this book while we were editing it, this holds their version
+  const [conflict, setConflict] = useState<Book | null>(null);
+  // The edits that ran into the conflict, for "Save mine anyway"
+  const [unsaved, setUnsaved] = useState<AddBookData | null>(null);
 
   // Load the book data when the page loads
   // useEffect runs when the component mounts or when id changes
@@ -46,19 +54,6 @@ export default function EditBookPage({ params }: { params: PageParams }) {
     const loadBook = async () => {
       const bookData = await getBook(id); // Get the book from storage
       setBook(bookData || null); // Save the original book data
-
-      // If we found the book, update our form with its current values
-      if (bookData) {
-        setFormData({
-          title: bookData.title,
-          author: bookData.author,
-          isbn: bookData.isbn,
-          publishedYear: bookData.publishedYear,
-          genre: bookData.genre,
-          description: bookData.description,
-          condition: bookData.condition,
-        });
-      }
       setLoading(false); // Mark loading as complete
     };
     loadBook();
@@ -81,11 +76,48 @@ export default function EditBookPage({ params }: { params: PageParams }) {
     );
   }
 
+  // Save the form, telling the server which version of the book we started from
+  const save = async (
+    data: AddBookData,
+    version: number
+  ): Promise<BookFormOutcome> => {
+    const result = await updateBook(id, data, version);
+    if (result.status === "updated") {
+      clearBookDraft(draftKey); // The edits are saved, so the draft isn't needed
+      router.push(`/books/${id}`); // Go back to the book details page
+      return { status: "saved" };
+    } else if (result.status === "invalid") {
+      return result; // The form shows what needs fixing next to each field
+    } else if (result.status === "conflict") {
+      // Someone else got there first - ask what to do
+      setConflict(result.currentBook);
+      setUnsaved(data);
+    } else {
+      setBook(null); // The book is gone, show the "not found" message
+    }
+    return { status: "unsaved" };
+  };
+
   // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault(); // Prevent the default form submission
-    await updateBook(id, formData); // Save the changes to storage
-    router.push(`/books/${id}`); // Go back to the book details page
+  // The version is the book's, or an older one if a draft from before was restored
+  const handleSubmit = (data: AddBookData, _copy: unknown, version?: number) =>
+    save(data, version ?? book.version);
+
+  // Throw away our edits and load what the other person saved
+  // Changing the book gives the form a new key, so it starts again from their version
+  const handleLoadTheirs = () => {
+    if (!conflict) return;
+    clearBookDraft(draftKey);
+    setBook(conflict);
+    setConflict(null);
+    setUnsaved(null);
+  };
+
+  // Keep our edits and save them over the other person's changes
+  const handleKeepMine = async () => {
+    if (!conflict || !unsaved) return;
+    setConflict(null);
+    await save(unsaved, conflict.version);
   };
 
   // The form layout
@@ -98,136 +130,53 @@ export default function EditBookPage({ params }: { params: PageParams }) {
 
       <div className="mt-4">
         <h1 className="text-2xl">Edit {book.title}</h1>
-        {/* Form for editing book details */}
-        <form onSubmit={handleSubmit} className="mt-4">
-          {/* Title input field */}
-          <div className="mb-4">
-            <label>
-              <div>Title:</div>
-              <input
-                type="text"
-                value={formData.title}
-                onChange={(e) =>
-                  setFormData({ ...formData, title: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Author input field */}
-          <div className="mb-4">
-            <label>
-              <div>Author:</div>
-              <input
-                type="text"
-                value={formData.author}
-                onChange={(e) =>
-                  setFormData({ ...formData, author: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* ISBN input field */}
-          <div className="mb-4">
-            <label>
-              <div>ISBN:</div>
-              <input
-                type="text"
-                value={formData.isbn}
-                onChange={(e) =>
-                  setFormData({ ...formData, isbn: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Published Year input field */}
-          <div className="mb-4">
-            <label>
-              <div>Published Year:</div>
-              <input
-                type="number"
-                value={formData.publishedYear}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    publishedYear: parseInt(e.target.value),
-                  })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Genre input field */}
-          <div className="mb-4">
-            <label>
-              <div>Genre:</div>
-              <input
-                type="text"
-                value={formData.genre}
-                onChange={(e) =>
-                  setFormData({ ...formData, genre: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-              />
-            </label>
-          </div>
-
-          {/* Description textarea field */}
-          <div className="mb-4">
-            <label>
-              <div>Description:</div>
-              <textarea
-                value={formData.description}
-                onChange={(e) =>
-                  setFormData({ ...formData, description: e.target.value })
-                }
-                className="w-full border p-2 text-black"
-                required
-                rows={3}
-              />
-            </label>
-          </div>
 
-          {/* Condition dropdown field */}
-          <div className="mb-4">
-            <label>
-              <div>Condition:</div>
-              <select
-                value={formData.condition}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    condition: e.target.value as BookCondition,
-                  })
-                }
-                className="w-full border p-2 text-black"
+        {/* Warning shown when someone else saved this book while we were editing */}
+        {conflict && (
+          <div className="mt-4 p-3 border border-yellow-500 rounded">
+            <p>
+              This book was changed by someone else at{" "}
+              {new Date(conflict.updatedAt).toLocaleString()}. Your changes have
+              not been saved.
+            </p>
+            <div className="mt-2 space-x-2">
+              <button
+                type="button"
+                onClick={handleLoadTheirs}
+                className="border p-2 hover:bg-gray-100 transition-colors"
               >
-                {/* Create an option for each possible book condition */}
-                {Object.values(BookCondition).map((condition) => (
-                  <option key={condition} value={condition}>
-                    {condition}
-                  </option>
-                ))}
-              </select>
-            </label>
+                Load their changes
+              </button>
+              <button
+                type="button"
+                onClick={handleKeepMine}
+                className="border p-2 hover:bg-gray-100 transition-colors"
+              >
+                Save mine anyway
+              </button>
+            </div>
           </div>
-
-          {/* Submit button */}
-          <button type="submit" className="border p-2">
-            Update Book
-          </button>
-        </form>
+        )}
+        {/* Form for editing book details */}
+        <BookForm
+          key={book.version}
+          initialBook={toFormData(book)}
+          version={book.version}
+          draftKey={draftKey}
+          submitLabel="Update Book"
+          submittingLabel="Saving..."
+          isbnLookup="compare"
+          onSubmit={handleSubmit}
+        >
+          {/* Each copy's condition is changed from the book's details page */}
+          <p className="mb-4">
+            The condition of each copy is changed on the{" "}
+            <Link href={`/books/${id}`} className="underline">
+              book&apos;s details page
+            </Link>
+            .
+          </p>
+        </BookForm>
       </div>
     </div>
   );
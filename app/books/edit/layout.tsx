@@ -0,0 +1,13 @@
+// Only staff can edit books
+// This layout wraps every page under /books/edit
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function EditBookLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="books:edit">{children}</RequirePermission>
+  );
+}
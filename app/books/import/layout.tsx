@@ -0,0 +1,13 @@
+// Only staff can import books
+// This layout wraps every page under /books/import
+import RequirePermission from "../../ui/RequirePermission";
+
+export default function ImportBooksLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="books:edit">{children}</RequirePermission>
+  );
+}
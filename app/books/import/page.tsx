@@ -0,0 +1,247 @@
+/**
+ * This is the page for adding lots of books at once, from a CSV or JSON file.
+ * It's located at app/books/import/page.tsx (/books/import).
+ * The steps are:
+ *   1. Pick a file - it's read here in the browser
+ *   2. Match the file's columns to the book fields
+ *   3. Preview - the server checks every row and reports errors and duplicate ISBNs,
+ *      without saving anything
+ *   4. Import - the rows that passed are saved together in one write
+ */
+
+// Tell Next.js this is a Client Component (runs in the browser)
+"use client";
+
+import { useState } from "react"; // React hook for managing state
+import {
+  ColumnMapping,
+  DEFAULT_IMPORT_CONDITION,
+  detectFormat,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  MAX_IMPORT_ROWS,
+  ParsedImport,
+  parseImportFile,
+} from "../../lib/import/bookImport"; // Reading the file and matching columns
+import {
+  commitImport, // Saves the rows that passed
+  ImportPreview,
+  previewImport, // The dry run
+} from "../../lib/actions/importActions";
+import { AUTHOR_SEPARATOR } from "../../lib/catalog/authorNames"; // How several authors are written
+import Link from "next/link"; // For the back button
+
+export default function ImportBooksPage() {
+  const [fileName, setFileName] = useState<string>("");
+  const [parsed, setParsed] = useState<ParsedImport | null>(null); // The file's rows and columns
+  const [mapping, setMapping] = useState<ColumnMapping>({}); // Which column holds each field
+  const [preview, setPreview] = useState<ImportPreview | null>(null); // The dry run result
+  const [error, setError] = useState<string | null>(null); // What went wrong, if anything
+  const [message, setMessage] = useState<string | null>(null); // How the import went
+  const [working, setWorking] = useState<boolean>(false); // Waiting for the server?
+
+  // Read the chosen file and guess which column is which
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setParsed(null);
+    setPreview(null);
+    setError(null);
+    setMessage(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    const text = await file.text();
+    try {
+      const result = parseImportFile(text, detectFormat(file.name, text));
+      if (result.rows.length === 0) {
+        setError("The file has no rows");
+        return;
+      }
+      setParsed(result);
+      setMapping(guessMapping(result.columns));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Change which column a field comes from
+  // The old preview no longer matches, so it's cleared
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping({ ...mapping, [field]: column || undefined });
+    setPreview(null);
+  };
+
+  // Ask the server what would happen, without saving anything
+  const handlePreview = async () => {
+    if (!parsed) return;
+    setWorking(true);
+    setError(null);
+    const result = await previewImport(parsed.rows, mapping);
+    setWorking(false);
+    if (result.status === "invalid") {
+      setError(result.error);
+      return;
+    }
+    setPreview(result.preview);
+  };
+
+  // Save the rows that passed
+  const handleImport = async () => {
+    if (!parsed) return;
+    setWorking(true);
+    setError(null);
+    const result = await commitImport(parsed.rows, mapping);
+    setWorking(false);
+    if (result.status === "invalid") {
+      setError(result.error);
+      return;
+    }
+    // Start again, so the same file can't be imported twice by accident
+    setParsed(null);
+    setPreview(null);
+    setMessage(
+      `Imported ${result.imported} book${result.imported === 1 ? "" : "s"}` +
+        (result.skipped > 0 ? `, skipped ${result.skipped}` : "")
+    );
+  };
+
+  return (
+    <div className="p-4">
+      {/* Back button to return to the book list */}
+      <Link href="/books" className="border p-2">
+        ← Back to Books
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Import Books</h1>
+      <p className="mt-2">
+        Choose a CSV file with a header row, or a JSON list of books (up to{" "}
+        {MAX_IMPORT_ROWS} at a time). Each row adds a book and one copy of it,
+        with the next free barcode. Rows with no condition are imported as{" "}
+        {DEFAULT_IMPORT_CONDITION}.
+      </p>
+
+      {/* Step 1: pick a file */}
+      <input
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={handleFileChange}
+        className="mt-4 block"
+      />
+
+      {error && <p className="mt-4 text-red-600">{error}</p>}
+      {message && (
+        <p className="mt-4 p-2 border rounded">
+          {message}.{" "}
+          <Link href="/books" className="underline">
+            See the books
+          </Link>
+        </p>
+      )}
+
+      {/* Step 2: match the columns */}
+      {parsed && (
+        <div className="mt-4">
+          <h2>
+            Columns in {fileName} ({parsed.rows.length} row
+            {parsed.rows.length === 1 ? "" : "s"})
+          </h2>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+              <label key={field}>
+                <div>{IMPORT_FIELDS[field]}:</div>
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="border p-2 text-black"
+                >
+                  <option value="">(not in the file)</option>
+                  {parsed.columns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {/* Step 3: the dry run */}
+          <button
+            onClick={handlePreview}
+            disabled={working}
+            className="mt-4 px-4 py-2 border rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            Preview
+          </button>
+        </div>
+      )}
+
+      {preview && (
+        <div className="mt-4">
+          <p>
+            {preview.readyCount} book{preview.readyCount === 1 ? "" : "s"} ready
+            to import
+            {preview.skippedCount > 0 &&
+              `, ${preview.skippedCount} row${
+                preview.skippedCount === 1 ? "" : "s"
+              } will be skipped`}
+            .
+          </p>
+          <table className="mt-2 border-collapse">
+            <thead>
+              <tr>
+                <th className="border p-2 text-left">Row</th>
+                <th className="border p-2 text-left">Book</th>
+                <th className="border p-2 text-left">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row) => (
+                <tr key={row.row}>
+                  <td className="border p-2">{row.row}</td>
+                  <td className="border p-2">
+                    {row.status === "ready"
+                      ? `${row.book.title} by ${row.book.authors.join(
+                          AUTHOR_SEPARATOR
+                        )}`
+                      : String(
+                          parsed?.rows[row.row - 1]?.[mapping.title ?? ""] ?? ""
+                        )}
+                  </td>
+                  <td className="border p-2">
+                    {row.status === "ready" && "Ready"}
+                    {row.status === "duplicate" && (
+                      <span className="text-red-600">
+                        Skipped: {row.message}
+                      </span>
+                    )}
+                    {/* Every field that's wrong in this row */}
+                    {row.status === "invalid" &&
+                      Object.entries(row.errors).map(([field, message]) => (
+                        <div key={field} className="text-red-600">
+                          {message}
+                        </div>
+                      ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Step 4: save everything that passed */}
+          {preview.readyCount > 0 && (
+            <button
+              onClick={handleImport}
+              disabled={working}
+              className="mt-4 px-4 py-2 border rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              Import {preview.readyCount} Book
+              {preview.readyCount === 1 ? "" : "s"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
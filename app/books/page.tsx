@@ -1,20 +1,52 @@
 /**
- * This is the main Books page component that displays all active books.
+ * This is the main Books page component that displays the active books.
+ * The search, filters, sort order and page number come from the URL
+ * (e.g. /books?genre=Fantasy&sort=newest&page=2), so any view can be bookmarked.
  * It uses the BookList component to show the books in a consistent way.
  * Located at app/books/page.tsx, this is the page users see at /books
  */
 
 // This is a server component
-import { getActiveBooks } from "../lib/actions/bookActions"; // Function to get non-deleted books
+import { searchBooks } from "../lib/actions/bookActions"; // Function to find books
+import { getGenreOptions } from "../lib/actions/genreActions"; // The library's genres
+import { getOverdueLoans } from "../lib/actions/fineActions"; // Function to find late loans
+import { getCopySummaries } from "../lib/actions/copyActions"; // Function to count each book's copies
+import { getCurrentUser } from "../lib/auth/session"; // Who is logged in
+import { can } from "../lib/auth/permissions"; // What they're allowed to do
+import {
+  parseBookQuery, // Reads the search from the URL
+  SearchParamValues,
+  toSearchParams, // Writes a search back into a URL
+} from "../lib/search/bookQuery";
 import BookList from "../ui/BookList"; // Our reusable book list component
+import BookSearchForm from "../ui/BookSearchForm"; // Search, filter and sort controls
+import ExportForm from "../ui/ExportForm"; // Download the search results as a file
+import Pagination from "../ui/Pagination"; // Previous/next page links
 import Link from "next/link"; // Next.js component for navigation
 
+// In Next.js 15, the URL's search params are a Promise
+type PageSearchParams = Promise<SearchParamValues>;
+
 // This is a Server Component (no "use client" directive)
 // It fetches data on the server before sending the page to the browser
-export default async function BooksPage() {
-  // Fetch the list of active books
+export default async function BooksPage({
+  searchParams,
+}: {
+  searchParams: PageSearchParams;
+}) {
+  // Work out what the user is looking for, then fetch that page of books
   // This runs on the server at request time
-  const books = await getActiveBooks();
+  const query = parseBookQuery(await searchParams);
+  const { books, total, page, pageSize, pageCount } = await searchBooks(query);
+  const genres = await getGenreOptions(); // For the genre filter
+  // Find which books are late so the list can flag them
+  // Only staff can see the overdue loans
+  const user = await getCurrentUser();
+  const overdueBookIds = can(user, "circulation")
+    ? (await getOverdueLoans()).map((loan) => loan.bookId)
+    : [];
+  // And how many copies of each book there are, and how many can be borrowed
+  const copySummaries = await getCopySummaries();
 
   return (
     // Main container with padding
@@ -22,18 +54,110 @@ export default async function BooksPage() {
       {/* Header section with title and Add New Book button */}
       <div className="flex justify-between items-center">
         <h1 className="text-2xl">Library Collection</h1>
-        {/* Link to the create new book page */}
-        <Link
-          href="/books/create"
-          className="border p-2 hover:bg-gray-100 transition-colors"
-        >
-          + Add New Book
-        </Link>
+        <div className="space-x-2">
+          {/* Link to the full-text search */}
+          <Link
+            href="/search"
+            className="border p-2 hover:bg-gray-100 transition-colors"
+          >
+            Full-Text Search
+          </Link>
+          {/* Link to the list of authors */}
+          <Link
+            href="/authors"
+            className="border p-2 hover:bg-gray-100 transition-colors"
+          >
+            Authors
+          </Link>
+          {/* Link to the overdue report (staff only) */}
+          {can(user, "circulation") && (
+            <Link
+              href="/reports/overdue"
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Overdue Report
+            </Link>
+          )}
+          {/* Link to the audit log (staff only) */}
+          {can(user, "audit:view") && (
+            <Link
+              href="/admin/audit"
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Audit Log
+            </Link>
+          )}
+          {/* Link to the trash (staff who can remove books only) */}
+          {can(user, "books:remove") && (
+            <Link
+              href="/admin/trash"
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Trash
+            </Link>
+          )}
+          {/* Link to the genres admin page (admins only) */}
+          {can(user, "genres:manage") && (
+            <Link
+              href="/admin/genres"
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Genres
+            </Link>
+          )}
+          {/* Link to the bulk import page (staff only) */}
+          {can(user, "books:edit") && (
+            <Link
+              href="/books/import"
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Import Books
+            </Link>
+          )}
+          {/* Link to the create new book page (staff only) */}
+          {can(user, "books:edit") && (
+            <Link
+              href="/books/create"
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              + Add New Book
+            </Link>
+          )}
+        </div>
       </div>
 
+      {/* Search, filter and sort controls */}
+      <BookSearchForm query={query} genres={genres} />
+
+      {/* How many books matched, and which ones we're showing */}
+      <p className="mt-4">
+        {total === 0
+          ? "No books match your search"
+          : `Showing ${(page - 1) * pageSize + 1}-${Math.min(
+              page * pageSize,
+              total
+            )} of ${total} books`}
+      </p>
+
       {/* Display the list of books using our BookList component */}
       {/* We pass the books we fetched as a prop to BookList */}
-      <BookList books={books} />
+      <BookList
+        books={books}
+        overdueBookIds={overdueBookIds}
+        copySummaries={copySummaries}
+      />
+
+      {/* Links to the other pages of results, keeping the same search */}
+      <Pagination
+        page={page}
+        pageCount={pageCount}
+        hrefForPage={(page) => `/books?${toSearchParams({ ...query, page })}`}
+      />
+
+      {/* Download every book matching the search (staff only) */}
+      {can(user, "books:edit") && (
+        <ExportForm query={query} canIncludeLoans={can(user, "circulation")} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,13 @@
+// The circulation desk is for staff only
+// This layout wraps every page under /desk
+import RequirePermission from "../ui/RequirePermission";
+
+export default function DeskLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="circulation">{children}</RequirePermission>
+  );
+}
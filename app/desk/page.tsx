@@ -0,0 +1,360 @@
+/**
+ * This is the circulation desk page, located at app/desk/page.tsx (/desk).
+ * It's built for a barcode scanner (or a fast typist): scan a copy's barcode or
+ * a book's ISBN, and the book shows up straight away with the obvious next step -
+ * checking the copy out to the chosen patron, or checking it back in.
+ * Pressing Enter again does that step - checking in asks what condition the copy
+ * came back in first, and Enter again confirms it. Every result beeps and flashes
+ * green or red.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useEffect, useRef, useState } from "react"; // React hooks for state and focusing the scan box
+import { BookCondition } from "../types/book"; // The conditions a copy can be in
+import { AssessmentData } from "../types/assessment"; // What the condition dialog gives us
+import {
+  lookupDeskCode, // Finds the book or copy a code belongs to
+  DeskCopy,
+  DeskLookupResult,
+} from "../lib/actions/deskActions";
+import { checkoutCopy, returnCopy } from "../lib/actions/loanActions"; // Functions to lend and return copies
+import { formatCents } from "../lib/circulation/fines"; // For showing fines
+import Link from "next/link"; // Next.js link component for navigation
+import PatronSelect from "../ui/PatronSelect"; // Dropdown for choosing the borrower
+import DeskBookPanel from "../ui/DeskBookPanel"; // Shows a book and its copies
+import ConditionDialog from "../ui/ConditionDialog"; // Asks what condition a copy came back in
+
+// What happened after the last scan or action - shown in a green, red or grey box
+type DeskMessage = { tone: "success" | "error" | "info"; text: string };
+
+// The step pressing Enter will take
+type DeskStep = { kind: "check_out" | "check_in"; copy: DeskCopy };
+
+// Work out the obvious next step for what was scanned, if there is one
+function nextStep(result: DeskLookupResult | null): DeskStep | undefined {
+  if (result?.status === "copy") {
+    // A copy's barcode: check it in if it's out, otherwise lend it
+    const copy = result.match.copies.find((copy) => copy.id === result.copyId);
+    if (!copy) return undefined;
+    return { kind: copy.isCheckedOut ? "check_in" : "check_out", copy };
+  }
+  if (result?.status === "book") {
+    // An ISBN: lend the first copy on the shelf, or check in the only copy that's out
+    const onShelf = result.match.copies.find((copy) => !copy.isCheckedOut);
+    if (onShelf && result.match.book.isActive) {
+      return { kind: "check_out", copy: onShelf };
+    }
+    const out = result.match.copies.filter((copy) => copy.isCheckedOut);
+    if (out.length === 1) return { kind: "check_in", copy: out[0] };
+  }
+  return undefined;
+}
+
+// Play a short beep - high for success, low and longer for a problem
+// Browsers only allow sound after a key press or click, which a scan always is
+function beep(ok: boolean) {
+  if (typeof window === "undefined" || !window.AudioContext) return;
+  const context = new AudioContext();
+  const oscillator = context.createOscillator();
+  const volume = context.createGain();
+  oscillator.type = ok ? "sine" : "square";
+  oscillator.frequency.value = ok ? 880 : 220;
+  volume.gain.value = 0.1;
+  oscillator.connect(volume);
+  volume.connect(context.destination);
+  oscillator.onended = () => context.close();
+  oscillator.start();
+  oscillator.stop(context.currentTime + (ok ? 0.12 : 0.4));
+}
+
+// The colours for each kind of message
+const MESSAGE_STYLES: Record<DeskMessage["tone"], string> = {
+  success: "bg-green-600 text-white",
+  error: "bg-red-600 text-white",
+  info: "border",
+};
+
+export default function DeskPage() {
+  const inputRef = useRef<HTMLInputElement>(null); // The scan box, so we can keep it focused
+  const [code, setCode] = useState(""); // What's in the scan box
+  const [lastCode, setLastCode] = useState(""); // The code that was looked up, for refreshing
+  const [patronId, setPatronId] = useState(""); // Who is borrowing - kept between scans
+  const [result, setResult] = useState<DeskLookupResult | null>(null); // What the last code matched
+  const [message, setMessage] = useState<DeskMessage | null>(null);
+  const [sound, setSound] = useState(true); // Some desks would rather not beep
+  const [busy, setBusy] = useState(false); // Ignore Enter while a request is running
+  const [copyToAssess, setCopyToAssess] = useState<DeskCopy | null>(null); // While the condition dialog is open
+  // Set once something has been done for the last scan, so pressing Enter twice
+  // can't check a copy out and straight back in - the next step needs a new scan
+  const [stepTaken, setStepTaken] = useState(false);
+
+  const step = stepTaken ? undefined : nextStep(result);
+
+  // Start with the cursor in the scan box, so the first scan just works
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Show a message, beep, and put the cursor back in the scan box for the next scan
+  const report = (tone: DeskMessage["tone"], text: string) => {
+    setMessage({ tone, text });
+    if (sound && tone !== "info") beep(tone === "success");
+    inputRef.current?.focus();
+  };
+
+  // The server couldn't be asked (e.g. the login expired or the network is down)
+  const reportFailure = (err: unknown) => {
+    report("error", `Something went wrong: ${(err as Error).message}`);
+  };
+
+  // Look up a code and show what it belongs to
+  const lookup = async (value: string) => {
+    const found = await lookupDeskCode(value);
+    setResult(found);
+    setLastCode(value);
+    return found;
+  };
+
+  // After checking a copy out or in, show its new status
+  const refresh = async () => {
+    setStepTaken(true);
+    try {
+      await lookup(lastCode);
+    } catch (err) {
+      reportFailure(err);
+    }
+  };
+
+  // Find what a scanned code belongs to
+  const handleScan = async (value: string) => {
+    setStepTaken(false);
+    const found = await lookup(value);
+    if (found.status === "not_found") {
+      report("error", `Nothing has the code "${value}"`);
+    } else if (found.status === "ambiguous") {
+      report(
+        "error",
+        `"${value}" matches ${found.matches.length} books - pick the copy below`
+      );
+    } else {
+      const next = nextStep(found);
+      report(
+        next ? "success" : "info",
+        next
+          ? `Found "${found.match.book.title}" - press Enter to ${
+              next.kind === "check_in" ? "check in" : "check out"
+            } copy ${next.copy.barcode}`
+          : `Found "${found.match.book.title}" - pick a copy below`
+      );
+    }
+  };
+
+  // Lend a copy to the patron chosen at the top of the page
+  const handleCheckOut = async (copy: DeskCopy) => {
+    if (!patronId) {
+      report("error", "Choose who is borrowing the book first");
+      return;
+    }
+    let checkout;
+    try {
+      checkout = await checkoutCopy(copy.id, patronId);
+    } catch (err) {
+      reportFailure(err);
+      return;
+    }
+    switch (checkout.status) {
+      case "checked_out":
+        report(
+          "success",
+          `Copy ${
+            copy.barcode
+          } checked out - due back ${checkout.loan.dueDate.toLocaleDateString()}`
+        );
+        break;
+      case "invalid":
+        report(
+          "error",
+          checkout.errors.patronId ??
+            checkout.errors.dueDate ??
+            "The copy couldn't be checked out"
+        );
+        break;
+      case "unavailable":
+        report("error", `Copy ${copy.barcode} can't be checked out right now`);
+        break;
+      case "not_found":
+        report("error", `Copy ${copy.barcode} no longer exists`);
+        break;
+    }
+    await refresh();
+  };
+
+  // Bring a copy back, optionally recording the condition it came back in
+  const handleCheckIn = async (copy: DeskCopy, assessment?: AssessmentData) => {
+    let checkin;
+    try {
+      checkin = await returnCopy(copy.id, assessment);
+    } catch (err) {
+      setCopyToAssess(null);
+      reportFailure(err);
+      return;
+    }
+    if (checkin.status === "invalid") {
+      return checkin.errors; // Keep the condition dialog open and show what's wrong
+    }
+    setCopyToAssess(null);
+    if (checkin.status === "returned") {
+      const shelf = checkin.withdrawn
+        ? "It was destroyed, so it has been withdrawn."
+        : checkin.heldFor
+        ? `Put it on the hold shelf for ${checkin.heldFor}.`
+        : "Put it back on the shelf.";
+      const fine = checkin.fineCents
+        ? ` Late - a fine of ${formatCents(checkin.fineCents)} was added.`
+        : "";
+      report("success", `Copy ${copy.barcode} is back. ${shelf}${fine}`);
+    } else if (checkin.status === "not_checked_out") {
+      report("error", `Copy ${copy.barcode} isn't checked out`);
+    } else {
+      report("error", `Copy ${copy.barcode} no longer exists`);
+    }
+    await refresh();
+  };
+
+  // Enter with a code looks it up; Enter on an empty box takes the next step
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault(); // Stop the page from reloading
+    if (busy) return;
+    setBusy(true);
+    try {
+      const value = code.trim();
+      setCode(""); // Clear the box, ready for the next scan
+      if (value) {
+        await handleScan(value);
+      } else if (step?.kind === "check_out") {
+        await handleCheckOut(step.copy);
+      } else if (step?.kind === "check_in") {
+        setCopyToAssess(step.copy); // Ask what condition it came back in first
+      } else {
+        report("info", "Scan a copy barcode or an ISBN");
+      }
+    } catch (err) {
+      reportFailure(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Escape clears everything, ready for the next patron
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      setCode("");
+      setResult(null);
+      setLastCode("");
+      setMessage(null);
+    }
+  };
+
+  // The books to show - one for a barcode or ISBN, several if the code was ambiguous
+  const matches =
+    result?.status === "ambiguous"
+      ? result.matches
+      : result?.status === "copy" || result?.status === "book"
+      ? [result.match]
+      : [];
+
+  return (
+    <div className="p-4 max-w-3xl">
+      <Link href="/" className="border p-2">
+        ← Home
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Circulation Desk</h1>
+
+      {/* The borrower stays chosen between scans, for patrons borrowing several books */}
+      <div className="mt-4">
+        <PatronSelect
+          value={patronId}
+          onChange={(id) => {
+            setPatronId(id);
+            inputRef.current?.focus(); // Back to the scan box for the next book
+          }}
+        />
+      </div>
+
+      {/* The scan box - scanners type the code and press Enter for us */}
+      <form onSubmit={handleSubmit}>
+        <label>
+          <div>Barcode or ISBN:</div>
+          <input
+            ref={inputRef}
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="w-full border p-2 text-black text-lg"
+            autoComplete="off"
+            aria-describedby="desk-help"
+          />
+        </label>
+        <p id="desk-help" className="mt-1 text-sm text-gray-500">
+          {step
+            ? `Press Enter to ${
+                step.kind === "check_in" ? "check in" : "check out"
+              } copy ${step.copy.barcode}. `
+            : ""}
+          Esc clears.
+        </p>
+        <label className="mt-1 inline-block text-sm">
+          <input
+            type="checkbox"
+            checked={sound}
+            onChange={(e) => setSound(e.target.checked)}
+            className="mr-1"
+          />
+          Beep on success and errors
+        </label>
+      </form>
+
+      {/* What just happened - screen readers announce it too */}
+      <div role="status" aria-live="polite">
+        {message && (
+          <p className={`mt-4 p-3 rounded ${MESSAGE_STYLES[message.tone]}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+
+      {matches.map((match) => (
+        <DeskBookPanel
+          key={match.book.id}
+          match={match}
+          highlightCopyId={step?.copy.id}
+          onCheckOut={handleCheckOut}
+          onCheckIn={(copy) => handleCheckIn(copy)}
+          onCheckInWithCondition={setCopyToAssess}
+        />
+      ))}
+
+      {/* Dialog asking what condition the copy came back in */}
+      {/* The key starts the form afresh for each copy */}
+      <ConditionDialog
+        key={copyToAssess?.id}
+        isOpen={copyToAssess !== null}
+        title={copyToAssess ? `Check In Copy ${copyToAssess.barcode}` : ""}
+        currentCondition={copyToAssess?.condition ?? BookCondition.GOOD}
+        confirmLabel="Check In"
+        isReturn
+        onConfirm={(data) =>
+          copyToAssess ? handleCheckIn(copyToAssess, data) : Promise.resolve()
+        }
+        onCancel={() => {
+          setCopyToAssess(null);
+          inputRef.current?.focus(); // Back to the scan box
+        }}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import Link from "next/link";
+import { getCurrentUser } from "./lib/auth/session";
+import { CurrentUserProvider } from "./ui/CurrentUserProvider";
+import UserMenu from "./ui/UserMenu";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -17,17 +21,29 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // Look up who is logged in once, and share it with every page below
+  const user = await getCurrentUser();
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <CurrentUserProvider user={user}>
+          {/* Header with a link home and who is logged in */}
+          <header className="p-4 flex justify-between border-b">
+            <Link href="/" className="hover:underline">
+              Library
+            </Link>
+            <UserMenu />
+          </header>
+          {children}
+        </CurrentUserProvider>
       </body>
     </html>
   );
@@ -0,0 +1,43 @@
+"use server";
+
+import { AuditEntry } from "../../types/audit";
+import { getAuditRepository, getBookRepository } from "../storage/repositories";
+import {
+  AuditFilter,
+  AuditLogPage,
+  filterAuditEntries,
+} from "../audit/auditQuery";
+import { requirePermission } from "../auth/session";
+
+// Get every change made to a book, newest first
+export async function getAuditForBook(bookId: string): Promise<AuditEntry[]> {
+  await requirePermission("audit:view");
+  return await getAuditRepository().getByBook(bookId);
+}
+
+// Get one page of the whole audit log, newest first, with each book's title
+// See auditQuery.ts for what can be filtered on
+export async function searchAuditLog(
+  filter: AuditFilter = {}
+): Promise<AuditLogPage> {
+  await requirePermission("audit:view");
+  const [entries, books] = await Promise.all([
+    getAuditRepository().getAll(),
+    getBookRepository().getAll(),
+  ]);
+  const titles = new Map(books.map((book) => [book.id, book.title]));
+  // Purged books are gone, but the log still has their titles
+  for (const entry of entries) {
+    const title = entry.changes.find((change) => change.field === "title");
+    if (!titles.has(entry.bookId) && title) {
+      titles.set(entry.bookId, String(title.after ?? title.before));
+    }
+  }
+  return filterAuditEntries(
+    entries.map((entry) => ({
+      ...entry,
+      bookTitle: titles.get(entry.bookId) ?? "Unknown book",
+    })),
+    filter
+  );
+}
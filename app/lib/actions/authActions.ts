@@ -0,0 +1,49 @@
+"use server";
+
+import { SessionUser } from "../../types/user";
+import { getUserRepository } from "../storage/repositories";
+import { hashPassword, verifyPassword } from "../auth/passwords";
+import { endSession, startSession, toSessionUser } from "../auth/session";
+
+// What login tells the page about how it went
+export type LoginResult =
+  | { status: "logged_in"; user: SessionUser }
+  | { status: "invalid"; error: string };
+
+// Made once and reused - see login() for why we need it
+let dummyHash: Promise<string> | null = null;
+
+// Check a username and password, and log the user in if they match
+export async function login(
+  username: string,
+  password: string
+): Promise<LoginResult> {
+  // The same message for every failure, so it doesn't give away which usernames exist
+  const invalid: LoginResult = {
+    status: "invalid",
+    error: "That username and password don't match",
+  };
+  if (typeof username !== "string" || typeof password !== "string") {
+    return invalid;
+  }
+
+  const user = await getUserRepository().getByUsername(username.trim());
+  if (!user || !user.isActive) {
+    // Check the password against a throwaway hash anyway, so a wrong username
+    // takes as long as a wrong password
+    dummyHash ??= hashPassword("not a real password");
+    await verifyPassword(password, await dummyHash);
+    return invalid;
+  }
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    return invalid;
+  }
+
+  await startSession(user);
+  return { status: "logged_in", user: toSessionUser(user) };
+}
+
+// Log the current user out
+export async function logout(): Promise<void> {
+  await endSession();
+}
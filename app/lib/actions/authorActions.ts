@@ -0,0 +1,170 @@
+"use server";
+
+import { Author } from "../../types/author";
+import { Book } from "../../types/book";
+import { revalidatePath } from "next/cache";
+import {
+  getAuthorRepository,
+  getBookRepository,
+} from "../storage/repositories";
+import { requirePermission } from "../auth/session";
+import { relinkBooks } from "../catalog/authors";
+import { bySurname, likelyDuplicates } from "../catalog/authorNames";
+
+// An author with how many of their books are in the library
+export type AuthorUsage = Author & { bookCount: number };
+
+// An author and the books they wrote or co-wrote
+export interface AuthorWorks {
+  author: Author;
+  books: Book[]; // Oldest first
+}
+
+// Everything the merge authors page shows
+export interface AuthorMergeData {
+  authors: AuthorUsage[]; // Sorted by surname
+  duplicates: [AuthorUsage, AuthorUsage][]; // Pairs that might be the same person
+}
+
+// What mergeAuthors tells the page about how it went
+// relinked is how many books moved to the author they were merged into
+export type MergeAuthorResult =
+  | { status: "merged"; relinked: number }
+  | { status: "invalid"; error: string }
+  | { status: "not_found" };
+
+// What deleteAuthor tells the page about how it went
+export type DeleteAuthorResult =
+  | { status: "deleted" }
+  | { status: "in_use"; error: string } // Books still credit them
+  | { status: "not_found" };
+
+// What deleteAuthor says when books still credit an author
+function inUseError(author: Author, bookCount: number): DeleteAuthorResult {
+  return {
+    status: "in_use",
+    error: `${bookCount} book${bookCount === 1 ? " credits" : "s credit"} ${
+      author.name
+    } - merge them into another author instead`,
+  };
+}
+
+// Count how many of these books credit each author
+function countBooks(books: Book[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const book of books) {
+    for (const id of book.authorIds) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Get every author's name, for the suggestions on the book form
+export async function getAuthorNames(): Promise<string[]> {
+  const authors = await getAuthorRepository().getAll();
+  return authors.map((author) => author.name);
+}
+
+// Get the authors with books in the catalog, sorted by surname
+// Browsing the catalog is open to everyone, so this is too - removed books
+// aren't counted, and authors with none left aren't listed
+export async function getAuthorDirectory(): Promise<AuthorUsage[]> {
+  const counts = countBooks(await getBookRepository().getActive());
+  const authors = await getAuthorRepository().getAll();
+  return authors
+    .filter((author) => counts.has(author.id))
+    .sort(bySurname)
+    .map((author) => ({ ...author, bookCount: counts.get(author.id) ?? 0 }));
+}
+
+// Get an author and their books in the catalog, or undefined if there's no such author
+export async function getAuthorWorks(
+  authorId: string
+): Promise<AuthorWorks | undefined> {
+  const author = await getAuthorRepository().getById(authorId);
+  if (!author) return undefined;
+  const books = await getBookRepository().getActive();
+  return {
+    author,
+    books: books
+      .filter((book) => book.authorIds.includes(authorId))
+      .sort(
+        (a, b) =>
+          a.publishedYear - b.publishedYear || a.title.localeCompare(b.title)
+      ),
+  };
+}
+
+// Get every author with how many books credit them, and the authors that might be duplicates
+// Books in the trash are counted too - they keep their authors if they're restored
+export async function getAuthorMergeData(): Promise<AuthorMergeData> {
+  await requirePermission("authors:manage");
+  const counts = countBooks(await getBookRepository().getAll());
+  const authors = (await getAuthorRepository().getAll())
+    .sort(bySurname)
+    .map((author) => ({ ...author, bookCount: counts.get(author.id) ?? 0 }));
+  return { authors, duplicates: likelyDuplicates(authors) };
+}
+
+// Tell Next.js the pages showing authors have changed
+function revalidateAuthorPages() {
+  revalidatePath("/authors", "layout"); // The list, every author's page and the merge page
+  revalidatePath("/books");
+}
+
+// Merge a duplicate author into another: every book by `fromId` is credited to
+// `intoId` instead, and `fromId` is deleted - their name is kept as one of
+// `intoId`'s aliases, so books saved or imported with it later link to `intoId`
+export async function mergeAuthors(
+  fromId: string,
+  intoId: string
+): Promise<MergeAuthorResult> {
+  const user = await requirePermission("authors:manage");
+  if (fromId === intoId) {
+    return {
+      status: "invalid",
+      error: "An author can't be merged into themselves",
+    };
+  }
+  const repository = getAuthorRepository();
+  const from = await repository.getById(fromId);
+  const into = await repository.getById(intoId);
+  if (!from || !into) return { status: "not_found" };
+
+  const relinked = await relinkBooks(from.id, into, user);
+  const merged = await repository.merge(from.id, into.id);
+  if (!merged) return { status: "not_found" };
+  // A book saved between the relink and the merge can still credit `fromId`,
+  // so look again now they're gone - books saved from here on find `intoId`
+  // by the merged name
+  const stragglers = await relinkBooks(from.id, merged, user);
+  revalidateAuthorPages();
+  return { status: "merged", relinked: relinked + stragglers };
+}
+
+// Delete an author no book credits, e.g. one left over after a book's authors were corrected
+// An author with books has to be merged into another one instead
+export async function deleteAuthor(
+  authorId: string
+): Promise<DeleteAuthorResult> {
+  await requirePermission("authors:manage");
+  const author = await getAuthorRepository().getById(authorId);
+  if (!author) return { status: "not_found" };
+
+  const books = await getBookRepository().getAll();
+  const bookCount = countBooks(books).get(authorId) ?? 0;
+  if (bookCount > 0) return inUseError(author, bookCount);
+
+  const removed = await getAuthorRepository().remove(authorId);
+  if (!removed) return { status: "not_found" };
+  // Books and authors are saved separately, so a book crediting them may have
+  // been saved since we counted. Count again now they're gone, and put them back
+  // if one was, so that book doesn't credit an author who's gone
+  const booksNow = await getBookRepository().getAll();
+  const countNow = countBooks(booksNow).get(authorId) ?? 0;
+  if (countNow > 0) {
+    await getAuthorRepository().importAuthors([removed]);
+    return inUseError(removed, countNow);
+  }
+  revalidateAuthorPages();
+  return { status: "deleted" };
+}
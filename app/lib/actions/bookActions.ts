@@ -1,169 +1,318 @@
 "use server";
 
-import { Book, BookCondition } from "../../types/book";
+import { AddBookData, Book, BookFieldErrors } from "../../types/book";
+import { Copy, CopyData, CopyFieldErrors } from "../../types/copy";
+import { AuditAction } from "../../types/audit";
 import { revalidatePath } from "next/cache";
-import fs from "fs/promises";
-import path from "path";
+import { randomUUID } from "crypto";
+// All reads and writes go through the configured repository
+// (a JSON file by default, or SQLite when BOOK_STORAGE=sqlite)
+import { getBookRepository, getCopyRepository } from "../storage/repositories";
+import { BookVersionConflictError } from "../storage/bookRepository";
+import { validateBookData } from "../validation/bookValidation";
+import { validateCopyData } from "../validation/copyValidation";
+import { BookQuery, BookSearchResult, queryBooks } from "../search/bookQuery";
+import { indexBook } from "../search/bookSearchIndex";
+import { requirePermission } from "../auth/session";
+import { recordBookAudit, recordCopyAudit } from "../audit/bookAudit";
+import {
+  purgeDateFor,
+  purgeExpiredBooks,
+  purgeRemovedBook,
+} from "../catalog/trash";
+import { addNewCopy, loadCopySummaries } from "../catalog/copies";
+import {
+  loadSubgenreNames,
+  UNKNOWN_GENRE_ERROR,
+  withLibraryGenre,
+} from "../catalog/genres";
+import { linkAuthors } from "../catalog/authors";
 
-// The path to our JSON file where we store the books
-const BOOKS_FILE_PATH = path.join(process.cwd(), "app/data/books.json");
-
-// Read all books from our JSON file
-// This is a helper function used by other functions to get the book data
-async function readBooksFromFile(): Promise<Book[]> {
-  try {
-    // Read and parse the JSON file
-    const jsonData = await fs.readFile(BOOKS_FILE_PATH, "utf-8");
-    const { books } = JSON.parse(jsonData);
-
-    // Convert date strings back to Date objects
-    return books.map((book: any) => ({
-      ...book,
-      addedDate: new Date(book.addedDate),
-      lastCheckedOutDate: book.lastCheckedOutDate
-        ? new Date(book.lastCheckedOutDate)
-        : undefined,
-    }));
-  } catch (error) {
-    console.error("Couldn't read books:", error);
-    return []; // Return empty array if something goes wrong
-  }
+// Get all books (active and inactive)
+// Removed books are only for staff to see
+export async function getBooks(): Promise<Book[]> {
+  await requirePermission("books:edit");
+  return await getBookRepository().getAll();
 }
 
-// Save books to our JSON file
-// This is a helper function used by other functions to save changes
-async function writeBooksToFile(books: Book[]): Promise<void> {
-  try {
-    // Convert dates to strings before saving
-    const booksToSave = books.map((book) => ({
-      ...book,
-      addedDate: book.addedDate.toISOString().split("T")[0], // Just get the date part
-      lastCheckedOutDate: book.lastCheckedOutDate
-        ? book.lastCheckedOutDate.toISOString().split("T")[0]
-        : undefined,
-    }));
-
-    // Save the books to the JSON file
-    await fs.writeFile(
-      BOOKS_FILE_PATH,
-      JSON.stringify({ books: booksToSave }, null, 2) // Pretty print with 2 spaces
-    );
-  } catch (error) {
-    console.error("Couldn't save books:", error);
-    throw new Error("Failed to save books");
-  }
-}
+// A removed book, with the date it will be purged automatically
+// purgeDate is missing when removed books are kept until someone purges them
+export type RemovedBook = Book & { purgeDate?: Date };
 
-// Get all books (active and inactive)
-export async function getBooks(): Promise<Book[]> {
-  return await readBooksFromFile();
+// Get the books in the trash, most recently removed first
+// Books past the retention period are purged first, so they don't show up
+export async function getRemovedBooks(): Promise<RemovedBook[]> {
+  await requirePermission("books:remove");
+  await purgeExpiredBooks();
+  const books = await getBookRepository().getAll();
+  return books
+    .filter((book) => !book.isActive)
+    .map((book) => ({ ...book, purgeDate: purgeDateFor(book) }))
+    .sort(
+      (a, b) =>
+        (b.removedDate ?? b.updatedAt).getTime() -
+        (a.removedDate ?? a.updatedAt).getTime()
+    );
 }
 
 // Get a single book by its ID
 export async function getBook(id: string): Promise<Book | undefined> {
-  const books = await readBooksFromFile();
-  return books.find((book) => book.id === id);
+  return await getBookRepository().getById(id);
 }
 
 // Get only active (non-deleted) books
 export async function getActiveBooks(): Promise<Book[]> {
-  const books = await readBooksFromFile();
-  return books.filter((book) => book.isActive);
+  return await getBookRepository().getActive();
 }
 
-// The data we need when adding or updating a book
-interface AddBookData {
-  title: string;
-  author: string;
-  isbn: string;
-  publishedYear: number;
-  genre: string;
-  description: string;
-  condition: BookCondition;
+// Search the active books, returning one page of results and the total count
+// See bookQuery.ts for what can be searched and filtered on
+export async function searchBooks(
+  query: BookQuery = {}
+): Promise<BookSearchResult> {
+  const books = await getBookRepository().getActive();
+  // Only the condition and status filters need to look at each book's copies
+  const copySummaries =
+    query.condition || query.status ? await loadCopySummaries() : {};
+  // Filtering by a genre finds the books in its sub-genres too
+  const subgenres = query.genre ? await loadSubgenreNames(query.genre) : [];
+  return queryBooks(books, query, copySummaries, subgenres);
 }
 
+// What addBook tells the page about how the save went
+// "invalid" means nothing was saved, and errors says what's wrong with each field
+// (including the fields for the first copy)
+export type AddBookResult =
+  | { status: "created"; book: Book; copy?: Copy }
+  | { status: "invalid"; errors: BookFieldErrors & CopyFieldErrors };
+
+// What updateBook tells the page about how the save went
+// "conflict" means someone else saved the book after the page loaded it,
+// and currentBook is what they saved
+export type UpdateBookResult =
+  | { status: "updated"; book: Book }
+  | { status: "invalid"; errors: BookFieldErrors }
+  | { status: "conflict"; currentBook: Book }
+  | { status: "not_found" };
+
 // Add a new book
-export async function addBook(data: AddBookData): Promise<void> {
-  const books = await readBooksFromFile();
+// firstCopy is optional - when it's there, the first physical copy is added along with the title
+export async function addBook(
+  input: AddBookData,
+  firstCopy?: CopyData
+): Promise<AddBookResult> {
+  const user = await requirePermission("books:edit");
+  // Check every field on the server - the types above aren't enforced at runtime
+  const validation = validateBookData(input);
+  const copyValidation =
+    firstCopy === undefined ? undefined : validateCopyData(firstCopy);
+  if (!validation.success || copyValidation?.success === false) {
+    return {
+      status: "invalid",
+      errors: {
+        ...(validation.success ? {} : validation.errors),
+        ...(copyValidation?.success === false ? copyValidation.errors : {}),
+      },
+    };
+  }
+  // The genre has to be one of the library's
+  const bookData = await withLibraryGenre(validation.data);
+  if (!bookData) {
+    return { status: "invalid", errors: { genre: UNKNOWN_GENRE_ERROR } };
+  }
+  const copyData = copyValidation?.data;
+  // Don't save the title if its copy can't be saved
+  if (
+    copyData?.barcode &&
+    (await getCopyRepository().getByBarcode(copyData.barcode))
+  ) {
+    return {
+      status: "invalid",
+      errors: {
+        barcode: `Barcode ${copyData.barcode} is already used by another copy`,
+      },
+    };
+  }
+
+  // Every author is linked to the library's record of them, added if they're new
   const newBook: Book = {
-    id: (books.length + 1).toString(),
-    ...data,
-    isCheckedOut: false,
+    ...(await linkAuthors(bookData)),
+    // A random UUID can't clash with any existing id, even after imports or hard deletes
+    id: randomUUID(),
     isActive: true,
     addedDate: new Date(),
+    version: 1,
+    updatedAt: new Date(),
   };
 
-  books.push(newBook);
-  await writeBooksToFile(books);
+  await getBookRepository().add(newBook);
+  await recordBookAudit(AuditAction.CREATED, undefined, newBook, user);
+  await indexBook(newBook); // So full-text search finds it straight away
+
+  let copy: Copy | undefined;
+  if (copyData) {
+    copy = await addNewCopy(newBook.id, copyData);
+    await recordCopyAudit(AuditAction.COPY_ADDED, undefined, copy, user);
+  }
   //revalidatePath is a function that tells Next.js to refresh the cache for the given path
   //this is used when data changes on the server
   revalidatePath("/books");
+  return { status: "created", book: newBook, copy };
 }
 
 // Update an existing book
+// expectedVersion is the version the edit page loaded. If the book has been
+// saved since then we don't overwrite it - we report a conflict instead
 export async function updateBook(
   bookId: string,
-  data: AddBookData
-): Promise<void> {
-  const books = await readBooksFromFile();
-  //find the book by id
-  const bookIndex = books.findIndex((b) => b.id === bookId);
-  //checkt to see it exists
-  if (bookIndex !== -1) {
-    const book = books[bookIndex];
-    books[bookIndex] = {
-      ...book,
-      ...data,
-      id: book.id,
-      isCheckedOut: book.isCheckedOut,
-      isActive: book.isActive,
-      addedDate: book.addedDate,
-      lastCheckedOutDate: book.lastCheckedOutDate,
-    };
-    await writeBooksToFile(books);
-    revalidatePath(`/books/${bookId}`);
-    revalidatePath("/books");
+  input: AddBookData,
+  expectedVersion?: number // Left out to save over whatever version is there
+): Promise<UpdateBookResult> {
+  const user = await requirePermission("books:edit");
+  const validation = validateBookData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
   }
-}
-
-// Toggle checkout status
-export async function toggleCheckoutStatus(bookId: string): Promise<void> {
-  const books = await readBooksFromFile();
-  const book = books.find((b) => b.id === bookId);
+  // The genre has to be one of the library's, unless the book already had it
+  const existing = await getBookRepository().getById(bookId);
+  const data = await withLibraryGenre(validation.data, existing?.genre);
+  if (!data) {
+    return { status: "invalid", errors: { genre: UNKNOWN_GENRE_ERROR } };
+  }
+  // Every author is linked to the library's record of them, added if they're new
+  const details = await linkAuthors(data);
 
-  if (book) {
-    book.isCheckedOut = !book.isCheckedOut;
-    book.lastCheckedOutDate = book.isCheckedOut ? new Date() : undefined;
-    await writeBooksToFile(books);
+  try {
+    // Only the fields from the form change, everything else is kept as it is
+    // We keep the book as it was too, so the audit log can say what changed
+    let before: Book | undefined;
+    const book = await getBookRepository().update(
+      bookId,
+      (book) => {
+        before = book;
+        return { ...book, ...details };
+      },
+      expectedVersion
+    );
+    //check to see it exists
+    if (!book) {
+      return { status: "not_found" };
+    }
+    await recordBookAudit(AuditAction.UPDATED, before, book, user);
+    await indexBook(book);
     revalidatePath(`/books/${bookId}`);
     revalidatePath("/books");
+    return { status: "updated", book };
+  } catch (error) {
+    if (error instanceof BookVersionConflictError) {
+      return { status: "conflict", currentBook: error.currentBook };
+    }
+    throw error;
   }
 }
 
-// Mark a book as inactive (soft delete)
-export async function markBookInactive(bookId: string): Promise<void> {
-  const books = await readBooksFromFile();
-  const book = books.find((b) => b.id === bookId);
+// What restoreBook tells the page about how it went
+export type RestoreBookResult =
+  | { status: "restored"; book: Book }
+  | { status: "not_found" }; // There's no removed book with that id
 
-  if (book) {
-    book.isActive = false;
-    await writeBooksToFile(books);
-    revalidatePath("/books");
+// What markBookInactive tells the page about how it went
+export type RemoveBookResult =
+  | { status: "removed"; book: Book }
+  | { status: "on_loan"; error: string } // A copy is checked out - it has to come back first
+  | { status: "conflict"; currentBook: Book } // Saved by someone else since expectedVersion
+  | { status: "not_found" };
+
+// What purgeBook tells the page about how it went
+export type PurgeBookResult =
+  | { status: "purged" }
+  | { status: "on_loan"; error: string } // A copy is still checked out
+  | { status: "not_found" }; // There's no removed book with that id
+
+// Why a book with copies out on loan can't be removed or purged
+const ON_LOAN_ERROR =
+  "A copy of this book is checked out - check it in before removing the book";
+
+// Thrown inside a book update when the book isn't in the trash,
+// so the update is cancelled without saving anything
+class NotRemovedError extends Error {}
+
+// Mark a book as inactive (soft delete) - it goes in the trash, where it can be restored
+// A book with a copy out on loan stays until the copy is checked in, so the loan
+// can always be closed
+// If expectedVersion is given, the book is only removed if nobody has saved it since
+export async function markBookInactive(
+  bookId: string,
+  expectedVersion?: number
+): Promise<RemoveBookResult> {
+  const user = await requirePermission("books:remove");
+  const copies = await getCopyRepository().getByBook(bookId);
+  if (copies.some((copy) => copy.isCheckedOut)) {
+    return { status: "on_loan", error: ON_LOAN_ERROR };
+  }
+
+  let before: Book | undefined;
+  let book: Book | undefined;
+  try {
+    book = await getBookRepository().update(
+      bookId,
+      (book) => {
+        before = book;
+        return { ...book, isActive: false, removedDate: new Date() };
+      },
+      expectedVersion
+    );
+  } catch (error) {
+    if (error instanceof BookVersionConflictError) {
+      return { status: "conflict", currentBook: error.currentBook };
+    }
+    throw error;
   }
+  if (!book) return { status: "not_found" };
+
+  await recordBookAudit(AuditAction.REMOVED, before, book, user);
+  await indexBook(book); // Removed books drop out of search results
+  await purgeExpiredBooks(); // Tidy up the trash while we're here
+  revalidatePath("/books");
+  revalidatePath("/admin/trash");
+  return { status: "removed", book };
 }
 
-// Update book condition
-export async function updateBookCondition(
-  bookId: string,
-  condition: BookCondition
-): Promise<void> {
-  const books = await readBooksFromFile();
-  const book = books.find((b) => b.id === bookId);
-
-  if (book) {
-    book.condition = condition;
-    await writeBooksToFile(books);
+// Take a book back out of the trash
+export async function restoreBook(bookId: string): Promise<RestoreBookResult> {
+  const user = await requirePermission("books:remove");
+  let before: Book | undefined;
+  try {
+    const book = await getBookRepository().update(bookId, (book) => {
+      if (book.isActive) throw new NotRemovedError();
+      before = book;
+      return { ...book, isActive: true, removedDate: undefined };
+    });
+    if (!book) {
+      return { status: "not_found" };
+    }
+    await recordBookAudit(AuditAction.RESTORED, before, book, user);
+    await indexBook(book); // Back in search results
     revalidatePath(`/books/${bookId}`);
     revalidatePath("/books");
+    revalidatePath("/admin/trash");
+    return { status: "restored", book };
+  } catch (error) {
+    if (error instanceof NotRemovedError) return { status: "not_found" };
+    throw error;
+  }
+}
+
+// Delete a book in the trash for good - this can't be undone
+export async function purgeBook(bookId: string): Promise<PurgeBookResult> {
+  const user = await requirePermission("books:remove");
+  const outcome = await purgeRemovedBook(bookId, user);
+  if (outcome.status === "on_loan") {
+    return { status: "on_loan", error: ON_LOAN_ERROR };
+  }
+  if (outcome.status === "not_found") {
+    return { status: "not_found" };
   }
+  revalidatePath("/admin/trash");
+  return { status: "purged" };
 }
@@ -0,0 +1,87 @@
+"use server";
+
+import {
+  AssessmentData,
+  AssessmentFieldErrors,
+  ConditionAssessment,
+} from "../../types/assessment";
+import { Copy } from "../../types/copy";
+import { revalidatePath } from "next/cache";
+import {
+  getAssessmentRepository,
+  getBookRepository,
+  getCopyRepository,
+} from "../storage/repositories";
+import { validateAssessmentData } from "../validation/copyValidation";
+import {
+  applyAssessment,
+  DegradedCopy,
+  findDegradedCopies,
+} from "../catalog/condition";
+import { requirePermission } from "../auth/session";
+
+// What assessCopy tells the page about how it went
+export type AssessCopyResult =
+  | { status: "assessed"; copy: Copy; assessment: ConditionAssessment }
+  | { status: "invalid"; errors: AssessmentFieldErrors }
+  | { status: "checked_out" } // Copies out on loan can only be marked destroyed once they're back
+  | { status: "not_found" }; // There's no copy with that id, or it's been withdrawn
+
+// An assessment together with the barcode of the copy, for showing a book's condition history
+export type BookAssessment = ConditionAssessment & { copyBarcode: string };
+
+// A row of the condition report: a copy that got worse, with its book's title
+export type ConditionReportRow = DegradedCopy & { bookTitle: string };
+
+// Get every condition assessment of a book's copies, newest first
+export async function getAssessmentsForBook(
+  bookId: string
+): Promise<BookAssessment[]> {
+  await requirePermission("circulation");
+  const [assessments, copies] = await Promise.all([
+    getAssessmentRepository().getByBook(bookId),
+    getCopyRepository().getByBook(bookId),
+  ]);
+  const barcodes = new Map(copies.map((copy) => [copy.id, copy.barcode]));
+  return assessments.map((assessment) => ({
+    ...assessment,
+    copyBarcode: barcodes.get(assessment.copyId) ?? "Unknown copy",
+  }));
+}
+
+// Record the condition a copy is in after looking it over
+// Copies found DESTROYED are withdrawn from circulation
+export async function assessCopy(
+  copyId: string,
+  input: AssessmentData
+): Promise<AssessCopyResult> {
+  const user = await requirePermission("books:edit");
+  const validation = validateAssessmentData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+
+  const result = await applyAssessment(copyId, validation.data, user);
+  if (result.status === "assessed") {
+    revalidatePath(`/books/${result.copy.bookId}`);
+    revalidatePath("/books");
+    revalidatePath("/reports/condition");
+  }
+  return result;
+}
+
+// Every copy whose condition has got worse since it was first assessed,
+// with the biggest drop first
+export async function getConditionReport(): Promise<ConditionReportRow[]> {
+  await requirePermission("circulation");
+  const [copies, assessments, books] = await Promise.all([
+    getCopyRepository().getAll(),
+    getAssessmentRepository().getAll(),
+    getBookRepository().getAll(),
+  ]);
+  const titles = new Map(books.map((book) => [book.id, book.title]));
+  return findDegradedCopies(copies, assessments).map((row) => ({
+    ...row,
+    bookTitle: titles.get(row.copy.bookId) ?? "Unknown book",
+  }));
+}
@@ -0,0 +1,168 @@
+"use server";
+
+import { Copy, CopyData, CopyFieldErrors, CopySummary } from "../../types/copy";
+import { AuditAction } from "../../types/audit";
+import { revalidatePath } from "next/cache";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getHoldRepository,
+} from "../storage/repositories";
+import { DuplicateBarcodeError } from "../storage/copyRepository";
+import { validateCopyData } from "../validation/copyValidation";
+import {
+  addNewCopy,
+  loadCopySummaries,
+  summarizeCopies,
+} from "../catalog/copies";
+import { countOwedCopies } from "../circulation/holdQueue";
+import { requirePermission } from "../auth/session";
+import { recordCopyAudit } from "../audit/bookAudit";
+
+// What addCopy tells the page about how the save went
+export type AddCopyResult =
+  | { status: "created"; copy: Copy }
+  | { status: "invalid"; errors: CopyFieldErrors }
+  | { status: "not_found" }; // There's no active book with that id
+
+// What updateCopy tells the page about how the save went
+export type UpdateCopyResult =
+  | { status: "updated"; copy: Copy }
+  | { status: "invalid"; errors: CopyFieldErrors }
+  | { status: "not_found" };
+
+// What withdrawCopy tells the page about how it went
+export type WithdrawCopyResult =
+  | { status: "withdrawn"; copy: Copy }
+  | { status: "checked_out" } // It has to come back before it can be withdrawn
+  | { status: "not_found" }; // There's no copy with that id, or it's already withdrawn
+
+// Thrown inside a copy update when the copy can't be withdrawn,
+// so the update is cancelled without saving anything
+class WithdrawError extends Error {
+  constructor(public readonly status: "checked_out" | "not_found") {
+    super(status);
+  }
+}
+
+// The error message for a barcode that's already on another copy
+function barcodeTaken(barcode: string): CopyFieldErrors {
+  return { barcode: `Barcode ${barcode} is already used by another copy` };
+}
+
+// Get every copy of a book, in barcode order
+// Withdrawn copies are included so staff can see what happened to them
+export async function getCopiesForBook(bookId: string): Promise<Copy[]> {
+  return await getCopyRepository().getByBook(bookId);
+}
+
+// How many copies of every book there are and how many are available, keyed by book id
+export async function getCopySummaries(): Promise<Record<string, CopySummary>> {
+  return await loadCopySummaries();
+}
+
+// How many copies of one book there are and how many are available
+// Anyone can ask, so this only reads - it doesn't move the hold queue along
+export async function getCopySummary(bookId: string): Promise<CopySummary> {
+  const [holds, copies] = await Promise.all([
+    getHoldRepository().getByBook(bookId),
+    getCopyRepository().getByBook(bookId),
+  ]);
+  return summarizeCopies(copies, countOwedCopies(holds));
+}
+
+// Add a copy of a book - an empty barcode gets the next free one
+export async function addCopy(
+  bookId: string,
+  input: CopyData
+): Promise<AddCopyResult> {
+  const user = await requirePermission("books:edit");
+  const validation = validateCopyData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+  const book = await getBookRepository().getById(bookId);
+  if (!book || !book.isActive) {
+    return { status: "not_found" };
+  }
+
+  try {
+    const copy = await addNewCopy(book.id, validation.data);
+    await recordCopyAudit(AuditAction.COPY_ADDED, undefined, copy, user);
+    revalidatePath(`/books/${book.id}`);
+    revalidatePath("/books");
+    return { status: "created", copy };
+  } catch (error) {
+    if (error instanceof DuplicateBarcodeError) {
+      return { status: "invalid", errors: barcodeTaken(error.barcode) };
+    }
+    throw error;
+  }
+}
+
+// Change a copy's barcode or shelf location
+// An empty barcode keeps the one it has. The condition in input is only checked,
+// not saved - condition changes go through assessCopy in conditionActions.ts,
+// so every one is kept in the copy's condition history
+export async function updateCopy(
+  copyId: string,
+  input: CopyData
+): Promise<UpdateCopyResult> {
+  const user = await requirePermission("books:edit");
+  const validation = validateCopyData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+  const data = validation.data;
+
+  try {
+    let before: Copy | undefined;
+    const copy = await getCopyRepository().update(copyId, (copy) => {
+      before = copy;
+      return {
+        ...copy,
+        barcode: data.barcode || copy.barcode,
+        shelfLocation: data.shelfLocation,
+      };
+    });
+    if (!copy || !before) {
+      return { status: "not_found" };
+    }
+    await recordCopyAudit(AuditAction.COPY_UPDATED, before, copy, user);
+    revalidatePath(`/books/${copy.bookId}`);
+    revalidatePath("/books");
+    return { status: "updated", copy };
+  } catch (error) {
+    if (error instanceof DuplicateBarcodeError) {
+      return { status: "invalid", errors: barcodeTaken(error.barcode) };
+    }
+    throw error;
+  }
+}
+
+// Take a copy out of circulation (lost, worn out or given away)
+// The copy is kept, so its loans still say which copy was borrowed
+export async function withdrawCopy(
+  copyId: string
+): Promise<WithdrawCopyResult> {
+  const user = await requirePermission("books:remove");
+  try {
+    let before: Copy | undefined;
+    const copy = await getCopyRepository().update(copyId, (copy) => {
+      if (!copy.isActive) throw new WithdrawError("not_found");
+      if (copy.isCheckedOut) throw new WithdrawError("checked_out");
+      before = copy;
+      return { ...copy, isActive: false };
+    });
+    if (!copy) {
+      return { status: "not_found" };
+    }
+    await recordCopyAudit(AuditAction.COPY_WITHDRAWN, before, copy, user);
+    revalidatePath(`/books/${copy.bookId}`);
+    revalidatePath("/books");
+    return { status: "withdrawn", copy };
+  } catch (error) {
+    if (error instanceof WithdrawError) return { status: error.status };
+    throw error;
+  }
+}
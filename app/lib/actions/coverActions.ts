@@ -0,0 +1,88 @@
+"use server";
+
+import { randomUUID } from "crypto";
+import { revalidatePath } from "next/cache";
+import { Book } from "../../types/book";
+import { SessionUser } from "../../types/user";
+import { AuditAction } from "../../types/audit";
+import { getBookRepository, getCoverStorage } from "../storage/repositories";
+import { validateCoverFile } from "../validation/coverValidation";
+import { createCoverImages } from "../covers/coverImages";
+import { requirePermission } from "../auth/session";
+import { recordBookAudit } from "../audit/bookAudit";
+
+// What uploadCover tells the page about how it went
+export type UploadCoverResult =
+  | { status: "uploaded"; book: Book }
+  | { status: "invalid"; error: string } // The file isn't a cover we accept
+  | { status: "not_found" }; // There's no book with that id
+
+// What removeCover tells the page about how it went
+export type RemoveCoverResult = { status: "removed" } | { status: "not_found" };
+
+// Point a book at a different cover (or none), and tidy up the one it had
+// Returns the saved book, or undefined if there's no book with that id
+async function setCover(
+  bookId: string,
+  coverId: string | undefined,
+  user: SessionUser
+): Promise<Book | undefined> {
+  let before: Book | undefined;
+  const book = await getBookRepository().update(bookId, (book) => {
+    before = book;
+    return { ...book, coverId };
+  });
+  if (!book) return undefined;
+
+  await recordBookAudit(AuditAction.UPDATED, before, book, user);
+  // The old cover's files aren't needed any more - nothing else uses a cover id
+  if (before?.coverId) {
+    await getCoverStorage().remove(before.coverId);
+  }
+  revalidatePath(`/books/${bookId}`);
+  revalidatePath("/books");
+  return book;
+}
+
+// Upload a new cover for a book, replacing the one it has
+// formData holds the image file under "cover"
+export async function uploadCover(
+  bookId: string,
+  formData: FormData
+): Promise<UploadCoverResult> {
+  const user = await requirePermission("books:edit");
+  const file = formData.get("cover");
+  if (!(file instanceof File)) {
+    return { status: "invalid", error: "Choose an image to upload" };
+  }
+  const error = validateCoverFile(file);
+  if (error) {
+    return { status: "invalid", error };
+  }
+
+  // The file's type is only what the browser said - check it really is an image
+  const images = await createCoverImages(Buffer.from(await file.arrayBuffer()));
+  if (!images) {
+    return {
+      status: "invalid",
+      error: "That file isn't an image we can read",
+    };
+  }
+
+  // Save the images first, so the book never points at a cover that isn't there
+  const coverId = randomUUID();
+  await getCoverStorage().save(coverId, images);
+  const book = await setCover(bookId, coverId, user);
+  if (!book) {
+    await getCoverStorage().remove(coverId); // Nobody will ever use it
+    return { status: "not_found" };
+  }
+  return { status: "uploaded", book };
+}
+
+// Take a book's cover away - it goes back to the placeholder
+export async function removeCover(bookId: string): Promise<RemoveCoverResult> {
+  const user = await requirePermission("books:edit");
+  const book = await setCover(bookId, undefined, user);
+  return book ? { status: "removed" } : { status: "not_found" };
+}
@@ -0,0 +1,97 @@
+"use server";
+
+import { Book } from "../../types/book";
+import { Copy, CopySummary } from "../../types/copy";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getLoanRepository,
+} from "../storage/repositories";
+import { normalizeBarcode } from "../validation/copyValidation";
+import { toIsbn13 } from "../validation/bookValidation";
+import { summarizeCopies } from "../catalog/copies";
+import { advanceHoldQueue } from "../circulation/holdQueue";
+import { requirePermission } from "../auth/session";
+
+// A copy as the circulation desk shows it - with who has it and when it's due, if it's out
+export type DeskCopy = Copy & { borrower?: string; dueDate?: Date };
+
+// A book and its copies, as the circulation desk shows them
+export interface DeskBook {
+  book: Book;
+  copies: DeskCopy[]; // Copies that can circulate (withdrawn ones are left out), in barcode order
+  summary: CopySummary;
+}
+
+// What a scanned code turned out to be
+export type DeskLookupResult =
+  | { status: "copy"; match: DeskBook; copyId: string } // A copy barcode - copyId is the copy that was scanned
+  | { status: "book"; match: DeskBook } // The ISBN of one book
+  | { status: "ambiguous"; matches: DeskBook[] } // More than one book (or a book and a copy) has this code
+  | { status: "not_found" }; // Nothing has this code
+
+// Load a book's copies, with the open loan of each one that's checked out
+async function loadDeskBook(book: Book): Promise<DeskBook> {
+  const ready = await advanceHoldQueue(book.id);
+  const copies = await getCopyRepository().getByBook(book.id);
+  const active = copies.filter((copy) => copy.isActive);
+  const withLoans = await Promise.all(
+    active.map(async (copy) => {
+      if (!copy.isCheckedOut) return copy;
+      const loan = await getLoanRepository().getOpenLoan(copy.id);
+      return { ...copy, borrower: loan?.borrower, dueDate: loan?.dueDate };
+    })
+  );
+  return {
+    book,
+    copies: withLoans,
+    summary: summarizeCopies(copies, ready.length),
+  };
+}
+
+// Find what a scanned or typed code belongs to
+// A code can be a copy's barcode or a book's ISBN (ISBN-10 or ISBN-13, with or without hyphens)
+export async function lookupDeskCode(code: string): Promise<DeskLookupResult> {
+  await requirePermission("circulation");
+  if (typeof code !== "string" || !code.trim()) {
+    return { status: "not_found" };
+  }
+
+  // Is it a copy's barcode? Withdrawn copies can't be lent, so they don't count
+  const copy = await getCopyRepository().getByBarcode(normalizeBarcode(code));
+  const copyBook = copy?.isActive
+    ? await getBookRepository().getById(copy.bookId)
+    : undefined;
+
+  // Is it a book's ISBN? Removed books can't be lent either
+  const isbn = toIsbn13(code.trim());
+  const isbnBooks = isbn
+    ? (await getBookRepository().getAll()).filter(
+        (book) =>
+          book.isActive &&
+          toIsbn13(book.isbn) === isbn &&
+          book.id !== copyBook?.id
+      )
+    : [];
+
+  if (copy && copyBook && isbnBooks.length === 0) {
+    return {
+      status: "copy",
+      match: await loadDeskBook(copyBook),
+      copyId: copy.id,
+    };
+  }
+  if (!copyBook && isbnBooks.length === 1) {
+    return { status: "book", match: await loadDeskBook(isbnBooks[0]) };
+  }
+  // A few libraries own different editions with the same ISBN, or a barcode
+  // that looks like an ISBN - the desk lists them all and lets staff pick
+  const books = copyBook ? [copyBook, ...isbnBooks] : isbnBooks;
+  if (books.length > 0) {
+    return {
+      status: "ambiguous",
+      matches: await Promise.all(books.map(loadDeskBook)),
+    };
+  }
+  return { status: "not_found" };
+}
@@ -0,0 +1,67 @@
+"use server";
+
+import { Copy } from "../../types/copy";
+import { Loan } from "../../types/loan";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getLoanRepository,
+} from "../storage/repositories";
+import { byBarcode } from "../storage/copyRepository";
+import { BookQuery, filterBooks } from "../search/bookQuery";
+import { ExportOptions, ExportRecord } from "../export/bookExport";
+import { loadCopySummaries } from "../catalog/copies";
+import { loadSubgenreNames } from "../catalog/genres";
+import { requirePermission } from "../auth/session";
+
+// Get every book that matches the search, ready to be exported
+// The page number and size are ignored - an export has every matching book
+// Loan history says who borrowed what, so it's only for circulation staff
+export async function getExportRecords(
+  query: BookQuery,
+  options: Omit<ExportOptions, "format">
+): Promise<ExportRecord[]> {
+  await requirePermission("books:edit");
+  if (options.includeLoans) await requirePermission("circulation");
+
+  const books = options.includeInactive
+    ? await getBookRepository().getAll()
+    : await getBookRepository().getActive();
+  const copySummaries =
+    query.condition || query.status ? await loadCopySummaries() : {};
+  const subgenres = query.genre ? await loadSubgenreNames(query.genre) : [];
+  const matching = filterBooks(books, query, copySummaries, subgenres);
+
+  // Group the copies by book - withdrawn copies only go in with the removed books
+  const copiesByBook = new Map<string, Copy[]>();
+  const copies = (await getCopyRepository().getAll()).sort(byBarcode);
+  for (const copy of copies) {
+    if (!copy.isActive && !options.includeInactive) continue;
+    copiesByBook.set(copy.bookId, [
+      ...(copiesByBook.get(copy.bookId) ?? []),
+      copy,
+    ]);
+  }
+  if (!options.includeLoans) {
+    return matching.map((book) => ({
+      book,
+      copies: copiesByBook.get(book.id) ?? [],
+    }));
+  }
+
+  // Group the loans by book, newest first, so each book's history is in order
+  const loansByBook = new Map<string, Loan[]>();
+  const loans = await getLoanRepository().getAll();
+  loans.sort((a, b) => b.checkoutDate.getTime() - a.checkoutDate.getTime());
+  for (const loan of loans) {
+    loansByBook.set(loan.bookId, [
+      ...(loansByBook.get(loan.bookId) ?? []),
+      loan,
+    ]);
+  }
+  return matching.map((book) => ({
+    book,
+    copies: copiesByBook.get(book.id) ?? [],
+    loans: loansByBook.get(book.id) ?? [],
+  }));
+}
@@ -0,0 +1,116 @@
+"use server";
+
+import { Fine, FineStatus } from "../../types/fine";
+import { Loan } from "../../types/loan";
+import { revalidatePath } from "next/cache";
+import {
+  getBookRepository,
+  getFineRepository,
+  getLoanRepository,
+} from "../storage/repositories";
+import {
+  calculateFineCents,
+  daysOverdue,
+  isOverdue,
+} from "../circulation/fines";
+import { requirePermission } from "../auth/session";
+
+// An overdue loan with everything the report needs to show it
+export type OverdueLoan = Loan & {
+  bookTitle: string;
+  daysLate: number;
+  fineCents: number; // What the fine will be if the book came back today
+};
+
+// A fine together with the title of the book, for showing on a patron's ledger
+export type PatronFine = Fine & { bookTitle: string };
+
+// What payFine and waiveFine tell the page about how it went
+export type ResolveFineResult =
+  | { status: "resolved"; fine: Fine }
+  | { status: "already_resolved" }
+  | { status: "not_found" };
+
+// Look up book titles by id
+async function getBookTitles(): Promise<Map<string, string>> {
+  const books = await getBookRepository().getAll();
+  return new Map(books.map((book) => [book.id, book.title]));
+}
+
+// Get every loan that is still out past its due date, most days late first
+export async function getOverdueLoans(): Promise<OverdueLoan[]> {
+  await requirePermission("circulation");
+  const now = new Date();
+  const [loans, titles] = await Promise.all([
+    getLoanRepository().getAllOpen(),
+    getBookTitles(),
+  ]);
+
+  return loans
+    .filter((loan) => isOverdue(loan, now))
+    .map((loan) => {
+      const daysLate = daysOverdue(loan, now);
+      return {
+        ...loan,
+        bookTitle: titles.get(loan.bookId) ?? "Unknown book",
+        daysLate,
+        fineCents: calculateFineCents(daysLate),
+      };
+    })
+    .sort((a, b) => b.daysLate - a.daysLate);
+}
+
+// Get a patron's fine ledger, newest first
+export async function getFinesForPatron(
+  patronId: string
+): Promise<PatronFine[]> {
+  await requirePermission("circulation");
+  const [fines, titles] = await Promise.all([
+    getFineRepository().getByPatron(patronId),
+    getBookTitles(),
+  ]);
+  return fines.map((fine) => ({
+    ...fine,
+    bookTitle: titles.get(fine.bookId) ?? "Unknown book",
+  }));
+}
+
+// Mark an outstanding fine as paid or waived
+async function resolveFine(
+  fineId: string,
+  status: FineStatus.PAID | FineStatus.WAIVED,
+  note?: string
+): Promise<ResolveFineResult> {
+  await requirePermission("circulation");
+  let alreadyResolved = false;
+  const fine = await getFineRepository().update(fineId, (fine) => {
+    if (fine.status !== FineStatus.OUTSTANDING) {
+      alreadyResolved = true;
+      return fine;
+    }
+    return {
+      ...fine,
+      status,
+      resolvedDate: new Date(),
+      note: typeof note === "string" && note.trim() ? note.trim() : fine.note,
+    };
+  });
+
+  if (!fine) return { status: "not_found" };
+  if (alreadyResolved) return { status: "already_resolved" };
+  revalidatePath(`/patrons/${fine.patronId}`);
+  return { status: "resolved", fine };
+}
+
+// Record that a patron paid a fine
+export async function payFine(fineId: string): Promise<ResolveFineResult> {
+  return await resolveFine(fineId, FineStatus.PAID);
+}
+
+// Let a patron off a fine, with an optional reason
+export async function waiveFine(
+  fineId: string,
+  note?: string
+): Promise<ResolveFineResult> {
+  return await resolveFine(fineId, FineStatus.WAIVED, note);
+}
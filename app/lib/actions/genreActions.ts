@@ -0,0 +1,230 @@
+"use server";
+
+import { Genre, GenreData, GenreFieldErrors } from "../../types/genre";
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import { getBookRepository, getGenreRepository } from "../storage/repositories";
+import { validateGenreData } from "../validation/genreValidation";
+import { requirePermission } from "../auth/session";
+import { relabelBooks } from "../catalog/genres";
+import {
+  descendantIds,
+  findGenreByName,
+  genreKey,
+  GenreOption,
+  toGenreOptions,
+} from "../catalog/genreTree";
+
+// One genre on the genres admin page, with how many books are in it
+// Books in the trash are counted too - they keep their genre if they're restored
+export type GenreUsage = GenreOption & { bookCount: number };
+
+// A genre name books use that isn't in the genre tree,
+// e.g. a spelling typed in before the library had one
+export interface UnmanagedGenre {
+  name: string;
+  bookCount: number;
+}
+
+// Everything the genres admin page shows
+export interface GenreAdminData {
+  genres: GenreUsage[]; // In tree order
+  unmanaged: UnmanagedGenre[]; // Sorted A-Z
+}
+
+// What addGenre and updateGenre tell the page about how the save went
+// relabeled is how many books were moved to a renamed genre's new name
+export type SaveGenreResult =
+  | { status: "saved"; genre: Genre; relabeled: number }
+  | { status: "invalid"; errors: GenreFieldErrors }
+  | { status: "not_found" };
+
+// What mergeGenre tells the page about how it went
+export type MergeGenreResult =
+  | { status: "merged"; relabeled: number }
+  | { status: "invalid"; error: string }
+  | { status: "not_found" };
+
+// What deleteGenre tells the page about how it went
+export type DeleteGenreResult =
+  | { status: "deleted" }
+  | { status: "in_use"; error: string } // Books or sub-genres still need it
+  | { status: "not_found" };
+
+// Get the library's genres in tree order, for the genre filter and the book form
+// Browsing the catalog is open to everyone, so this is too
+export async function getGenreOptions(): Promise<GenreOption[]> {
+  return toGenreOptions(await getGenreRepository().getAll());
+}
+
+// Get the genre tree with how many books are in each genre, and the genre names
+// books use that aren't in the tree
+export async function getGenreAdminData(): Promise<GenreAdminData> {
+  await requirePermission("genres:manage");
+  const genres = await getGenreRepository().getAll();
+  const books = await getBookRepository().getAll();
+
+  // Count the books under each spelling, ignoring case
+  const counts = new Map<string, { name: string; bookCount: number }>();
+  for (const book of books) {
+    const key = genreKey(book.genre);
+    const count = counts.get(key) ?? { name: book.genre, bookCount: 0 };
+    counts.set(key, { ...count, bookCount: count.bookCount + 1 });
+  }
+
+  const managed = new Set(genres.map((genre) => genreKey(genre.name)));
+  return {
+    genres: toGenreOptions(genres).map((genre) => ({
+      ...genre,
+      bookCount: counts.get(genreKey(genre.name))?.bookCount ?? 0,
+    })),
+    unmanaged: [...counts.entries()]
+      .filter(([key]) => !managed.has(key))
+      .map(([, count]) => count)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+// Check a genre's name is free and its parent makes sense
+// id is the genre being edited (missing for a new one) - it can keep its own name,
+// but it can't go under itself or one of its own sub-genres
+function checkGenre(
+  genres: Genre[],
+  data: GenreData,
+  id?: string
+): GenreFieldErrors {
+  const errors: GenreFieldErrors = {};
+  const sameName = findGenreByName(genres, data.name);
+  if (sameName && sameName.id !== id) {
+    errors.name = `There is already a genre called "${sameName.name}"`;
+  }
+  if (data.parentId !== undefined) {
+    if (!genres.some((genre) => genre.id === data.parentId)) {
+      errors.parentId = "That parent genre no longer exists";
+    } else if (
+      id !== undefined &&
+      (data.parentId === id || descendantIds(genres, id).has(data.parentId))
+    ) {
+      errors.parentId = "A genre can't go under itself or its own sub-genres";
+    }
+  }
+  return errors;
+}
+
+// Tell Next.js the pages showing genres have changed
+function revalidateGenrePages() {
+  revalidatePath("/admin/genres");
+  revalidatePath("/books");
+}
+
+// Add a new genre
+// Books that already use its name (in any case) become part of it straight away
+export async function addGenre(input: GenreData): Promise<SaveGenreResult> {
+  await requirePermission("genres:manage");
+  const validation = validateGenreData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+  const genres = await getGenreRepository().getAll();
+  const errors = checkGenre(genres, validation.data);
+  if (Object.keys(errors).length > 0) return { status: "invalid", errors };
+
+  const genre: Genre = { ...validation.data, id: randomUUID() };
+  await getGenreRepository().add(genre);
+  revalidateGenrePages();
+  return { status: "saved", genre, relabeled: 0 };
+}
+
+// Rename a genre or move it under a different parent
+// Renaming moves every book in the genre to the new name, with an audit entry for each
+export async function updateGenre(
+  genreId: string,
+  input: GenreData
+): Promise<SaveGenreResult> {
+  const user = await requirePermission("genres:manage");
+  const validation = validateGenreData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+
+  // The checks run on the genres as they're saved, in the same step as the change,
+  // so two genres moved at the same moment can't end up under each other
+  let current: Genre | undefined;
+  let errors: GenreFieldErrors = {};
+  const genre = await getGenreRepository().update(genreId, (genre, genres) => {
+    current = genre;
+    errors = checkGenre(genres, validation.data, genreId);
+    if (Object.keys(errors).length > 0) return genre; // Leave it as it is
+    return { ...genre, ...validation.data };
+  });
+  if (!genre || !current) return { status: "not_found" };
+  if (Object.keys(errors).length > 0) return { status: "invalid", errors };
+  // The genre is saved first, so a book saved meanwhile can already use the new name
+  const relabeled = await relabelBooks([current.name], genre.name, user);
+  revalidateGenrePages();
+  return { status: "saved", genre, relabeled };
+}
+
+// Merge one genre into another: every book in `fromName` moves to the other genre,
+// and if `fromName` is in the genre tree it's deleted, with its sub-genres moving
+// under the genre it was merged into
+// fromName can also be a name books use that isn't in the tree, to tidy up old spellings
+export async function mergeGenre(
+  fromName: string,
+  intoId: string
+): Promise<MergeGenreResult> {
+  const user = await requirePermission("genres:manage");
+  if (typeof fromName !== "string" || fromName.trim() === "") {
+    return { status: "invalid", error: "Choose the genre to merge" };
+  }
+  const genres = await getGenreRepository().getAll();
+  const into = genres.find((genre) => genre.id === intoId);
+  if (!into) return { status: "not_found" };
+  const from = findGenreByName(genres, fromName);
+  if (from?.id === into.id) {
+    return { status: "invalid", error: "A genre can't be merged into itself" };
+  }
+  if (from && descendantIds(genres, from.id).has(into.id)) {
+    return {
+      status: "invalid",
+      error: `"${from.name}" can't be merged into one of its own sub-genres`,
+    };
+  }
+
+  const relabeled = await relabelBooks([fromName], into.name, user);
+  if (from) await getGenreRepository().remove(from.id, into.id);
+  revalidateGenrePages();
+  return { status: "merged", relabeled };
+}
+
+// Delete a genre nobody uses
+// A genre with books or sub-genres has to be merged into another one instead,
+// so no book is ever left with a genre that's gone
+export async function deleteGenre(genreId: string): Promise<DeleteGenreResult> {
+  await requirePermission("genres:manage");
+  const genres = await getGenreRepository().getAll();
+  const genre = genres.find((g) => g.id === genreId);
+  if (!genre) return { status: "not_found" };
+
+  if (genres.some((g) => g.parentId === genreId)) {
+    return {
+      status: "in_use",
+      error: `"${genre.name}" has sub-genres - move them or merge it instead`,
+    };
+  }
+  const key = genreKey(genre.name);
+  const books = await getBookRepository().getAll();
+  const bookCount = books.filter((book) => genreKey(book.genre) === key).length;
+  if (bookCount > 0) {
+    return {
+      status: "in_use",
+      error: `${bookCount} book${bookCount === 1 ? " is" : "s are"} in "${
+        genre.name
+      }" - merge it into another genre instead`,
+    };
+  }
+
+  await getGenreRepository().remove(genreId);
+  revalidateGenrePages();
+  return { status: "deleted" };
+}
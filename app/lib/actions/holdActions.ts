@@ -0,0 +1,192 @@
+"use server";
+
+import { ACTIVE_HOLD_STATUSES, Hold, HoldStatus } from "../../types/hold";
+import { SessionUser } from "../../types/user";
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getHoldRepository,
+  getLoanRepository,
+  getPatronRepository,
+} from "../storage/repositories";
+import { advanceHoldQueue } from "../circulation/holdQueue";
+import {
+  AuthorizationError,
+  getCurrentUser,
+  requirePermission,
+} from "../auth/session";
+import { can } from "../auth/permissions";
+
+// Error messages for the place hold form
+export type HoldErrors = { patronId?: string };
+
+// What placeHold tells the page about how it went
+// position is where the patron is in the queue (1 means they're next)
+export type PlaceHoldResult =
+  | { status: "placed"; hold: Hold; position: number }
+  | { status: "invalid"; errors: HoldErrors }
+  | { status: "available" } // A copy is on the shelf - just check it out
+  | { status: "not_found" };
+
+// What cancelHold tells the page about how it went
+export type CancelHoldResult =
+  | { status: "cancelled"; hold: Hold }
+  | { status: "already_resolved" }
+  | { status: "not_found" };
+
+// A hold together with the patron's name, for showing a book's queue
+export type HoldQueueEntry = Hold & { patronName: string };
+
+// A hold together with the title of the book, for showing on a patron's page
+export type PatronHold = Hold & { bookTitle: string };
+
+// Make sure someone who can manage holds is logged in, and return them
+// Throws an AuthorizationError for anybody else
+async function requireHoldUser(): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) throw new AuthorizationError("unauthenticated");
+  if (!can(user, "circulation") && !can(user, "holds:own")) {
+    throw new AuthorizationError("forbidden");
+  }
+  return user;
+}
+
+// Staff can manage anyone's holds, and patrons can manage their own
+// Throws an AuthorizationError for anybody else
+async function requireHoldAccess(patronId: string): Promise<void> {
+  const user = await requireHoldUser();
+  if (!can(user, "circulation") && user.patronId !== patronId) {
+    throw new AuthorizationError("forbidden");
+  }
+}
+
+// Get the holds still waiting on a book, in queue order
+// The queue is brought up to date first, so expired holds drop off
+export async function getHoldQueue(bookId: string): Promise<HoldQueueEntry[]> {
+  await requirePermission("circulation");
+  await advanceHoldQueue(bookId);
+  const [holds, patrons] = await Promise.all([
+    getHoldRepository().getByBook(bookId),
+    getPatronRepository().getAll(),
+  ]);
+  const names = new Map(patrons.map((patron) => [patron.id, patron.name]));
+  return holds
+    .filter((hold) => ACTIVE_HOLD_STATUSES.includes(hold.status))
+    .map((hold) => ({
+      ...hold,
+      patronName: names.get(hold.patronId) ?? "Unknown patron",
+    }));
+}
+
+// Get every hold a patron has placed, oldest first, with each book's title
+export async function getHoldsForPatron(
+  patronId: string
+): Promise<PatronHold[]> {
+  await requireHoldAccess(patronId);
+  // Bring the queues this patron is in up to date, so expired holds show as expired
+  const active = (await getHoldRepository().getByPatron(patronId)).filter(
+    (hold) => ACTIVE_HOLD_STATUSES.includes(hold.status)
+  );
+  for (const hold of active) await advanceHoldQueue(hold.bookId);
+
+  const [holds, books] = await Promise.all([
+    getHoldRepository().getByPatron(patronId),
+    getBookRepository().getAll(),
+  ]);
+  const titles = new Map(books.map((book) => [book.id, book.title]));
+  return holds.map((hold) => ({
+    ...hold,
+    bookTitle: titles.get(hold.bookId) ?? "Unknown book",
+  }));
+}
+
+// Put a patron in the queue for a book whose copies are all out or kept for someone
+export async function placeHold(
+  bookId: string,
+  patronId: string
+): Promise<PlaceHoldResult> {
+  await requireHoldAccess(patronId);
+  const book = await getBookRepository().getById(bookId);
+  if (!book || !book.isActive) {
+    return { status: "not_found" };
+  }
+
+  // Check the patron on the server - the types above aren't enforced at runtime
+  const patron =
+    typeof patronId === "string"
+      ? await getPatronRepository().getById(patronId)
+      : undefined;
+  if (!patron || !patron.isActive) {
+    return {
+      status: "invalid",
+      errors: { patronId: "Choose who the hold is for" },
+    };
+  }
+
+  // There's nothing to wait for if a copy is in and not kept for anyone
+  const ready = await advanceHoldQueue(bookId);
+  const onShelf = (await getCopyRepository().getByBook(bookId)).filter(
+    (copy) => copy.isActive && !copy.isCheckedOut
+  ).length;
+  if (onShelf > ready.length) {
+    return { status: "available" };
+  }
+
+  const loans = await getLoanRepository().getByBook(bookId);
+  if (loans.some((loan) => !loan.returnDate && loan.patronId === patron.id)) {
+    return {
+      status: "invalid",
+      errors: { patronId: `${patron.name} already has this book checked out` },
+    };
+  }
+
+  const hold: Hold = {
+    id: randomUUID(),
+    bookId,
+    patronId: patron.id,
+    placedDate: new Date(),
+    status: HoldStatus.WAITING,
+  };
+  // Checked and saved in one step, so two quick clicks can't queue the patron twice
+  const position = await getHoldRepository().addToQueue(hold);
+  if (position === undefined) {
+    return {
+      status: "invalid",
+      errors: { patronId: `${patron.name} already has a hold on this book` },
+    };
+  }
+
+  revalidatePath(`/books/${bookId}`);
+  revalidatePath(`/patrons/${patron.id}`);
+  return { status: "placed", hold, position };
+}
+
+// Take a patron out of the queue
+// If the book was on the hold shelf for them, it moves on to the next patron
+export async function cancelHold(holdId: string): Promise<CancelHoldResult> {
+  // Log in first, so nobody can find out which holds exist without one
+  await requireHoldUser();
+  const existing = await getHoldRepository().getById(holdId);
+  if (!existing) return { status: "not_found" };
+  await requireHoldAccess(existing.patronId);
+
+  let alreadyResolved = false;
+  const hold = await getHoldRepository().update(holdId, (hold) => {
+    if (!ACTIVE_HOLD_STATUSES.includes(hold.status)) {
+      alreadyResolved = true;
+      return hold;
+    }
+    return { ...hold, status: HoldStatus.CANCELLED, resolvedDate: new Date() };
+  });
+
+  if (!hold) return { status: "not_found" };
+  if (alreadyResolved) return { status: "already_resolved" };
+
+  await advanceHoldQueue(hold.bookId);
+  revalidatePath(`/books/${hold.bookId}`);
+  revalidatePath("/books");
+  revalidatePath(`/patrons/${hold.patronId}`);
+  return { status: "cancelled", hold };
+}
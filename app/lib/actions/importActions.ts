@@ -0,0 +1,226 @@
+"use server";
+
+import { AddBookData, Book, BookFieldErrors } from "../../types/book";
+import { CopyData, CopyFieldErrors } from "../../types/copy";
+import { AuditAction } from "../../types/audit";
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getGenreRepository,
+} from "../storage/repositories";
+import { toIsbn13, validateBookData } from "../validation/bookValidation";
+import { validateCopyData } from "../validation/copyValidation";
+import {
+  ColumnMapping,
+  ImportRow,
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  rowToBookData,
+  rowToCopyData,
+} from "../import/bookImport";
+import { indexBook } from "../search/bookSearchIndex";
+import { addNewCopies } from "../catalog/copies";
+import { UNKNOWN_GENRE_ERROR } from "../catalog/genres";
+import { findGenreByName } from "../catalog/genreTree";
+import { linkBookAuthors } from "../catalog/authors";
+import { recordBookAudit, recordCopyAudit } from "../audit/bookAudit";
+import { requirePermission } from "../auth/session";
+
+// What we found when checking one row of the file
+// row is the row's number in the file, counting from 1 (not including the header)
+// Each ready row becomes a book and one copy of it
+export type ImportRowResult =
+  | { row: number; status: "ready"; book: AddBookData; copy: CopyData }
+  | {
+      row: number;
+      status: "invalid";
+      errors: BookFieldErrors & CopyFieldErrors;
+    }
+  | { row: number; status: "duplicate"; message: string }; // Already in the library, or earlier in the file
+
+// The dry run - what would happen if the rows were imported
+export interface ImportPreview {
+  rows: ImportRowResult[];
+  readyCount: number; // Rows that would be added
+  skippedCount: number; // Rows with errors or duplicates, which would be left out
+}
+
+// What previewImport tells the page
+export type PreviewImportResult =
+  | { status: "preview"; preview: ImportPreview }
+  | { status: "invalid"; error: string }; // The rows or mapping couldn't be used at all
+
+// What commitImport tells the page
+export type CommitImportResult =
+  | { status: "imported"; imported: number; skipped: number }
+  | { status: "invalid"; error: string };
+
+// Make sure the rows and mapping really are what the types say
+// Returns an error message, or undefined if they're fine
+function checkInput(rows: unknown, mapping: unknown): string | undefined {
+  if (
+    !Array.isArray(rows) ||
+    !rows.every((row) => typeof row === "object" && row !== null)
+  ) {
+    return "The file has no rows we can read";
+  }
+  if (rows.length === 0) return "The file has no rows";
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return `Import at most ${MAX_IMPORT_ROWS} books at a time - split the file into smaller ones`;
+  }
+  if (
+    typeof mapping !== "object" ||
+    mapping === null ||
+    !Object.entries(mapping).every(
+      ([field, column]) =>
+        Object.keys(IMPORT_FIELDS).includes(field) && typeof column === "string"
+    )
+  ) {
+    return "The column mapping isn't valid";
+  }
+  return undefined;
+}
+
+// Check every row: is it a valid book in one of the library's genres, and is its ISBN new?
+// ISBNs are compared in their 13 digit form, so 0-306-40615-2 and 9780306406157 match
+async function checkRows(
+  rows: ImportRow[],
+  mapping: ColumnMapping
+): Promise<ImportPreview> {
+  // Removed books count too - restoring one is better than adding it twice
+  const existing = new Map<string, Book>();
+  for (const book of await getBookRepository().getAll()) {
+    const isbn = toIsbn13(book.isbn);
+    if (isbn) existing.set(isbn, book);
+  }
+  const seen = new Map<string, number>(); // ISBN -> the row it was first seen in
+  const genres = await getGenreRepository().getAll();
+
+  const results = rows.map((row, index): ImportRowResult => {
+    const rowNumber = index + 1;
+    const validation = validateBookData(rowToBookData(row, mapping));
+    const copyValidation = validateCopyData(rowToCopyData(row, mapping));
+    if (!validation.success || !copyValidation.success) {
+      return {
+        row: rowNumber,
+        status: "invalid",
+        errors: {
+          ...(validation.success ? {} : validation.errors),
+          ...(copyValidation.success ? {} : copyValidation.errors),
+        },
+      };
+    }
+
+    const genre = findGenreByName(genres, validation.data.genre);
+    if (!genre) {
+      return {
+        row: rowNumber,
+        status: "invalid",
+        errors: { genre: UNKNOWN_GENRE_ERROR },
+      };
+    }
+
+    const isbn = toIsbn13(validation.data.isbn) as string; // Valid, so never undefined
+    const book = existing.get(isbn);
+    if (book) {
+      return {
+        row: rowNumber,
+        status: "duplicate",
+        message: `Already in the library as "${book.title}"${
+          book.isActive ? "" : " (in the trash)"
+        }`,
+      };
+    }
+    const firstRow = seen.get(isbn);
+    if (firstRow !== undefined) {
+      return {
+        row: rowNumber,
+        status: "duplicate",
+        message: `Same ISBN as row ${firstRow}`,
+      };
+    }
+    seen.set(isbn, rowNumber);
+    return {
+      row: rowNumber,
+      status: "ready",
+      book: { ...validation.data, genre: genre.name }, // The genre tree's spelling
+      copy: copyValidation.data,
+    };
+  });
+
+  const readyCount = results.filter((row) => row.status === "ready").length;
+  return {
+    rows: results,
+    readyCount,
+    skippedCount: results.length - readyCount,
+  };
+}
+
+// Dry run: check every row and report what would be imported, without saving anything
+export async function previewImport(
+  rows: ImportRow[],
+  mapping: ColumnMapping
+): Promise<PreviewImportResult> {
+  await requirePermission("books:edit");
+  const error = checkInput(rows, mapping);
+  if (error) return { status: "invalid", error };
+  return { status: "preview", preview: await checkRows(rows, mapping) };
+}
+
+// Import the rows that are ready, all in one write
+// The rows are checked again here - the library may have changed since the preview
+export async function commitImport(
+  rows: ImportRow[],
+  mapping: ColumnMapping
+): Promise<CommitImportResult> {
+  const user = await requirePermission("books:edit");
+  const error = checkInput(rows, mapping);
+  if (error) return { status: "invalid", error };
+
+  const preview = await checkRows(rows, mapping);
+  const ready = preview.rows.flatMap((row) =>
+    row.status === "ready" ? [row] : []
+  );
+  if (ready.length === 0) {
+    return { status: "invalid", error: "None of the rows can be imported" };
+  }
+  // Link every row's authors in one go, so authors new to the library are added once
+  const details = await linkBookAuthors(ready.map((row) => row.book));
+
+  const now = new Date();
+  const books: Book[] = ready.map((row, i) => ({
+    ...details[i],
+    id: randomUUID(),
+    isActive: true,
+    addedDate: now,
+    version: 1,
+    updatedAt: now,
+  }));
+
+  // The copies go in first, with barcodes handed out in row order - nothing shows
+  // a copy until its book is saved. Then one write for the whole batch of books:
+  // either every book is saved or none are, and if none are, their copies go too
+  const copies = await addNewCopies(
+    ready.map((row, i) => ({ bookId: books[i].id, data: row.copy })),
+    now
+  );
+  try {
+    await getBookRepository().importBooks(books);
+  } catch (error) {
+    for (const book of books) await getCopyRepository().removeByBook(book.id);
+    throw error;
+  }
+  for (const [i, book] of books.entries()) {
+    await recordBookAudit(AuditAction.CREATED, undefined, book, user);
+    await recordCopyAudit(AuditAction.COPY_ADDED, undefined, copies[i], user);
+    await indexBook(book);
+  }
+  revalidatePath("/books");
+  return {
+    status: "imported",
+    imported: books.length,
+    skipped: preview.skippedCount,
+  };
+}
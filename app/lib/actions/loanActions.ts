@@ -0,0 +1,325 @@
+"use server";
+
+import { Copy } from "../../types/copy";
+import { Loan } from "../../types/loan";
+import { AuditAction } from "../../types/audit";
+import { FineStatus } from "../../types/fine";
+import { HoldStatus } from "../../types/hold";
+import { AssessmentData, AssessmentFieldErrors } from "../../types/assessment";
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getFineRepository,
+  getHoldRepository,
+  getLoanRepository,
+  getPatronRepository,
+} from "../storage/repositories";
+import { calculateFineCents, daysOverdue } from "../circulation/fines";
+import { advanceHoldQueue } from "../circulation/holdQueue";
+import { applyAssessment } from "../catalog/condition";
+import { validateAssessmentData } from "../validation/copyValidation";
+import { requirePermission } from "../auth/session";
+import { recordCopyAudit } from "../audit/bookAudit";
+
+// How many days a book can be borrowed for, unless the librarian picks a due date
+// Set LOAN_PERIOD_DAYS to change it
+const DEFAULT_LOAN_PERIOD_DAYS = 14;
+
+function loanPeriodDays(): number {
+  const days = Number(process.env.LOAN_PERIOD_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_LOAN_PERIOD_DAYS;
+}
+
+// Thrown inside a copy update when the copy can't be checked out or returned,
+// so the update is cancelled without saving anything
+class CirculationError extends Error {
+  constructor(public readonly status: "unavailable" | "not_checked_out") {
+    super(status);
+  }
+}
+
+// Error messages for the checkout form fields
+export type CheckoutErrors = { patronId?: string; dueDate?: string };
+
+// What checkoutCopy tells the page about how it went
+export type CheckoutResult =
+  | { status: "checked_out"; loan: Loan }
+  | { status: "invalid"; errors: CheckoutErrors }
+  | { status: "unavailable" } // Already checked out, withdrawn, or its book was removed
+  | { status: "not_found" }; // There's no copy with that id
+
+// What returnCopy tells the page about how it went
+// fineCents is set when the book came back late and the patron was fined
+// heldFor is set when the copy should go on the hold shelf for the named patron
+// damaged is set when the copy came back in worse condition than it went out,
+// and withdrawn when it came back destroyed (so it isn't kept for anyone)
+export type ReturnResult =
+  | {
+      status: "returned";
+      loan?: Loan; // Missing for books checked out before loans were tracked
+      fineCents?: number;
+      heldFor?: string;
+      damaged?: boolean;
+      withdrawn?: boolean;
+    }
+  | { status: "invalid"; errors: AssessmentFieldErrors }
+  | { status: "not_checked_out" }
+  | { status: "not_found" };
+
+// A loan together with the title of the book, for showing on a patron's page
+export type PatronLoan = Loan & { bookTitle: string };
+
+// A loan together with the barcode of the copy, for showing a book's history
+export type BookLoan = Loan & { copyBarcode?: string };
+
+// Get every loan for a book, newest first, with the barcode of the copy that was borrowed
+// This is the book's borrowing history
+export async function getLoansForBook(bookId: string): Promise<BookLoan[]> {
+  await requirePermission("circulation");
+  const [loans, copies] = await Promise.all([
+    getLoanRepository().getByBook(bookId),
+    getCopyRepository().getByBook(bookId),
+  ]);
+  const barcodes = new Map(copies.map((copy) => [copy.id, copy.barcode]));
+  return loans.map((loan) => ({
+    ...loan,
+    copyBarcode: loan.copyId ? barcodes.get(loan.copyId) : undefined,
+  }));
+}
+
+// Get every loan a patron has made, newest first, with each book's title
+export async function getLoansForPatron(
+  patronId: string
+): Promise<PatronLoan[]> {
+  await requirePermission("circulation");
+  const [loans, books] = await Promise.all([
+    getLoanRepository().getByPatron(patronId),
+    getBookRepository().getAll(),
+  ]);
+  const titles = new Map(books.map((book) => [book.id, book.title]));
+  return loans.map((loan) => ({
+    ...loan,
+    bookTitle: titles.get(loan.bookId) ?? "Unknown book",
+  }));
+}
+
+// Check a copy of a book out to a patron
+// dueDate is optional - if it's left out the copy is due back after the loan period
+export async function checkoutCopy(
+  copyId: string,
+  patronId: string,
+  dueDate?: Date
+): Promise<CheckoutResult> {
+  const user = await requirePermission("circulation");
+  const checkoutDate = new Date();
+  const due =
+    dueDate ??
+    new Date(checkoutDate.getTime() + loanPeriodDays() * 24 * 60 * 60 * 1000);
+
+  // Check the input on the server - the types above aren't enforced at runtime
+  const errors: CheckoutErrors = {};
+  const patron =
+    typeof patronId === "string"
+      ? await getPatronRepository().getById(patronId)
+      : undefined;
+  if (!patron || !patron.isActive) {
+    errors.patronId = "Choose who is borrowing this book";
+  }
+  if (!(due instanceof Date) || Number.isNaN(due.getTime())) {
+    errors.dueDate = "Due date must be a valid date";
+  } else if (due <= checkoutDate) {
+    errors.dueDate = "Due date must be in the future";
+  }
+  if (!patron || Object.keys(errors).length > 0) {
+    return { status: "invalid", errors };
+  }
+
+  const copy =
+    typeof copyId === "string"
+      ? await getCopyRepository().getById(copyId)
+      : undefined;
+  if (!copy) {
+    return { status: "not_found" };
+  }
+  const book = await getBookRepository().getById(copy.bookId);
+  if (!book?.isActive || !copy.isActive || copy.isCheckedOut) {
+    return { status: "unavailable" };
+  }
+
+  // Copies on the hold shelf are kept for the patrons at the front of the queue.
+  // The patron can have one if they're one of them, or if a copy is left over
+  const ready = await advanceHoldQueue(book.id);
+  const hold = ready.find((hold) => hold.patronId === patron.id);
+  if (!hold && ready.length > 0) {
+    const onShelf = (await getCopyRepository().getByBook(book.id)).filter(
+      (copy) => copy.isActive && !copy.isCheckedOut
+    ).length;
+    if (ready.length >= onShelf) {
+      const holder =
+        ready.length === 1
+          ? await getPatronRepository().getById(ready[0].patronId)
+          : undefined;
+      return {
+        status: "invalid",
+        errors: {
+          patronId: holder
+            ? `This book is on hold for ${holder.name}`
+            : "Every copy on the shelf is on hold for another patron",
+        },
+      };
+    }
+  }
+
+  const loan: Loan = {
+    id: randomUUID(),
+    bookId: book.id,
+    copyId: copy.id,
+    patronId: patron.id,
+    borrower: patron.name,
+    checkoutDate,
+    dueDate: due,
+  };
+
+  try {
+    // Mark the copy as out first. The check and the change happen as one step,
+    // so two librarians can't both check out the same copy
+    let before: Copy | undefined;
+    const saved = await getCopyRepository().update(copy.id, (copy) => {
+      if (copy.isCheckedOut || !copy.isActive) {
+        throw new CirculationError("unavailable");
+      }
+      before = copy;
+      return { ...copy, isCheckedOut: true, lastCheckedOutDate: checkoutDate };
+    });
+    if (!saved) {
+      return { status: "not_found" };
+    }
+    await recordCopyAudit(AuditAction.CHECKED_OUT, before, saved, user);
+  } catch (error) {
+    if (error instanceof CirculationError) return { status: "unavailable" };
+    throw error;
+  }
+
+  await getLoanRepository().add(loan);
+  // The patron picked up the book they were waiting for
+  if (hold) {
+    await getHoldRepository().update(hold.id, (hold) => ({
+      ...hold,
+      status: HoldStatus.FULFILLED,
+      resolvedDate: checkoutDate,
+    }));
+  }
+  revalidatePath(`/books/${book.id}`);
+  revalidatePath("/books");
+  revalidatePath(`/patrons/${patron.id}`);
+  return { status: "checked_out", loan };
+}
+
+// Return a copy that is checked out, closing its open loan
+// assessment is optional - it's the condition the copy came back in, which is
+// saved in the copy's condition history
+export async function returnCopy(
+  copyId: string,
+  assessment?: AssessmentData
+): Promise<ReturnResult> {
+  const user = await requirePermission("circulation");
+  // Check the assessment before anything is changed
+  const validation =
+    assessment === undefined ? undefined : validateAssessmentData(assessment);
+  if (validation && !validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+  const copy =
+    typeof copyId === "string"
+      ? await getCopyRepository().getById(copyId)
+      : undefined;
+  if (!copy) {
+    return { status: "not_found" };
+  }
+  const bookId = copy.bookId;
+  // Who the book's copies are kept for before this one comes back,
+  // so we can tell who this copy goes to afterwards
+  const readyBefore = (await advanceHoldQueue(bookId)).map((hold) => hold.id);
+
+  try {
+    let before: Copy | undefined;
+    const saved = await getCopyRepository().update(copy.id, (copy) => {
+      if (!copy.isCheckedOut) {
+        throw new CirculationError("not_checked_out");
+      }
+      before = copy;
+      // lastCheckedOutDate stays as it is - the loan history keeps the details
+      return { ...copy, isCheckedOut: false };
+    });
+    if (!saved) {
+      return { status: "not_found" };
+    }
+    await recordCopyAudit(AuditAction.RETURNED, before, saved, user);
+  } catch (error) {
+    if (error instanceof CirculationError) return { status: "not_checked_out" };
+    throw error;
+  }
+
+  // Copies checked out before we tracked loans won't have an open loan to close
+  const openLoan = await getLoanRepository().getOpenLoan(copy.id);
+  const loan = openLoan
+    ? await getLoanRepository().update(openLoan.id, (loan) => ({
+        ...loan,
+        returnDate: new Date(),
+      }))
+    : undefined;
+
+  // Late books go on the patron's fine ledger
+  let fineCents: number | undefined;
+  if (loan?.patronId) {
+    const daysLate = daysOverdue(loan);
+    fineCents = daysLate > 0 ? calculateFineCents(daysLate) : undefined;
+    if (fineCents) {
+      await getFineRepository().add({
+        id: randomUUID(),
+        patronId: loan.patronId,
+        loanId: loan.id,
+        bookId,
+        amountCents: fineCents,
+        daysLate,
+        assessedDate: new Date(),
+        status: FineStatus.OUTSTANDING,
+      });
+    }
+  }
+
+  // Note the condition it came back in - a destroyed copy is withdrawn here,
+  // before anyone's hold can be given it
+  let damaged: boolean | undefined;
+  let withdrawn: boolean | undefined;
+  if (validation) {
+    const assessed = await applyAssessment(
+      copy.id,
+      validation.data,
+      user,
+      loan?.id
+    );
+    if (assessed.status === "assessed") {
+      damaged = assessed.assessment.damaged || undefined;
+      withdrawn = !assessed.copy.isActive || undefined;
+    }
+  }
+
+  // If anyone is waiting for this book, keep the copy on the hold shelf for them
+  const hold = (await advanceHoldQueue(bookId)).find(
+    (hold) => !readyBefore.includes(hold.id)
+  );
+  const heldFor = hold
+    ? (await getPatronRepository().getById(hold.patronId))?.name
+    : undefined;
+
+  revalidatePath(`/books/${bookId}`);
+  revalidatePath("/books");
+  revalidatePath("/reports/overdue");
+  revalidatePath("/reports/condition");
+  if (loan?.patronId) revalidatePath(`/patrons/${loan.patronId}`);
+  if (hold) revalidatePath(`/patrons/${hold.patronId}`);
+  return { status: "returned", loan, fineCents, heldFor, damaged, withdrawn };
+}
@@ -0,0 +1,37 @@
+"use server";
+
+import { BookMetadata } from "../../types/metadata";
+import { getMetadataProvider } from "../metadata/providers";
+import { toIsbn13 } from "../validation/bookValidation";
+import { requirePermission } from "../auth/session";
+
+// What lookupIsbn tells the form
+export type IsbnLookupResult =
+  | { status: "found"; metadata: BookMetadata }
+  | { status: "invalid_isbn" } // Not a valid ISBN-10 or ISBN-13
+  | { status: "not_found"; source: string } // The provider doesn't know this ISBN
+  | { status: "unavailable"; source: string }; // The provider couldn't be reached
+
+// Look a book's details up by its ISBN, for the add and edit book forms
+export async function lookupIsbn(isbn: string): Promise<IsbnLookupResult> {
+  await requirePermission("books:edit");
+  const isbn13 = typeof isbn === "string" ? toIsbn13(isbn.trim()) : undefined;
+  if (!isbn13) {
+    return { status: "invalid_isbn" };
+  }
+
+  const provider = getMetadataProvider();
+  try {
+    const metadata = await provider.lookup(isbn13);
+    return metadata
+      ? { status: "found", metadata }
+      : { status: "not_found", source: provider.name };
+  } catch (error) {
+    // A lookup is only a convenience - the form can still be filled in by hand
+    console.error(
+      `Looking up ${isbn13} in the ${provider.name} failed:`,
+      error
+    );
+    return { status: "unavailable", source: provider.name };
+  }
+}
@@ -0,0 +1,96 @@
+"use server";
+
+import { AddPatronData, Patron, PatronFieldErrors } from "../../types/patron";
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import { getPatronRepository } from "../storage/repositories";
+import { validatePatronData } from "../validation/patronValidation";
+import { requirePermission } from "../auth/session";
+
+// What addPatron tells the page about how the save went
+export type AddPatronResult =
+  | { status: "created"; patron: Patron }
+  | { status: "invalid"; errors: PatronFieldErrors };
+
+// What updatePatron tells the page about how the save went
+export type UpdatePatronResult =
+  | { status: "updated"; patron: Patron }
+  | { status: "invalid"; errors: PatronFieldErrors }
+  | { status: "not_found" };
+
+// Get all patrons (active and inactive), sorted by name
+export async function getPatrons(): Promise<Patron[]> {
+  await requirePermission("patrons:manage");
+  return await getPatronRepository().getAll();
+}
+
+// Get only active (non-deleted) patrons, sorted by name
+export async function getActivePatrons(): Promise<Patron[]> {
+  await requirePermission("patrons:manage");
+  return await getPatronRepository().getActive();
+}
+
+// Get a single patron by their ID
+export async function getPatron(id: string): Promise<Patron | undefined> {
+  await requirePermission("patrons:manage");
+  return await getPatronRepository().getById(id);
+}
+
+// Add a new patron
+export async function addPatron(
+  input: AddPatronData
+): Promise<AddPatronResult> {
+  await requirePermission("patrons:manage");
+  const validation = validatePatronData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+
+  const patron: Patron = {
+    ...validation.data,
+    id: randomUUID(),
+    isActive: true,
+    joinedDate: new Date(),
+  };
+  await getPatronRepository().add(patron);
+  revalidatePath("/patrons");
+  return { status: "created", patron };
+}
+
+// Update an existing patron
+export async function updatePatron(
+  patronId: string,
+  input: AddPatronData
+): Promise<UpdatePatronResult> {
+  await requirePermission("patrons:manage");
+  const validation = validatePatronData(input);
+  if (!validation.success) {
+    return { status: "invalid", errors: validation.errors };
+  }
+
+  // Only the fields from the form change, everything else is kept as it is
+  const patron = await getPatronRepository().update(patronId, (patron) => ({
+    ...patron,
+    ...validation.data,
+  }));
+  if (!patron) {
+    return { status: "not_found" };
+  }
+  revalidatePath(`/patrons/${patronId}`);
+  revalidatePath("/patrons");
+  return { status: "updated", patron };
+}
+
+// Mark a patron as inactive (soft delete)
+// Their loan history is kept, but they can't borrow any more books
+export async function markPatronInactive(patronId: string): Promise<void> {
+  await requirePermission("patrons:manage");
+  const patron = await getPatronRepository().update(patronId, (patron) => ({
+    ...patron,
+    isActive: false,
+  }));
+
+  if (patron) {
+    revalidatePath("/patrons");
+  }
+}
@@ -0,0 +1,58 @@
+"use server";
+
+import { Book } from "../../types/book";
+import { getBookRepository } from "../storage/repositories";
+import { getBookSearchIndex } from "../search/bookSearchIndex";
+import { highlight, HighlightPart } from "../search/textIndex";
+
+// How many results a search returns unless it asks for a different number
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+// One full-text search result
+// highlights has each searched field split into pieces, with the matching words marked
+export type BookSearchHit = {
+  book: Book;
+  score: number; // Higher is a better match
+  highlights: Record<"title" | "author" | "description", HighlightPart[]>;
+};
+
+// Search the title, author and description of every active book
+// Results are ranked best match first
+export async function fullTextSearch(
+  q: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<BookSearchHit[]> {
+  // Check the input on the server - the types above aren't enforced at runtime
+  if (typeof q !== "string" || !q.trim()) return [];
+  const max =
+    Number.isInteger(limit) && limit > 0
+      ? Math.min(limit, MAX_SEARCH_LIMIT)
+      : DEFAULT_SEARCH_LIMIT;
+
+  const index = await getBookSearchIndex();
+  const hits = index.search(q, max);
+
+  // The index only knows ids - load just those books, so the results show their
+  // latest status. Books removed or purged since they were indexed are left out
+  const books = await getBookRepository().getByIds(hits.map((hit) => hit.id));
+  const byId = new Map(
+    books.filter((book) => book.isActive).map((book) => [book.id, book])
+  );
+
+  return hits.flatMap((hit) => {
+    const book = byId.get(hit.id);
+    if (!book) return [];
+    return [
+      {
+        book,
+        score: hit.score,
+        highlights: {
+          title: highlight(book.title, q),
+          author: highlight(book.author, q),
+          description: highlight(book.description, q),
+        },
+      },
+    ];
+  });
+}
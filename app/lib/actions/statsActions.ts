@@ -0,0 +1,25 @@
+"use server";
+
+import {
+  getBookRepository,
+  getCopyRepository,
+  getLoanRepository,
+} from "../storage/repositories";
+import {
+  computeLibraryStats,
+  LibraryStats,
+  StatsRange,
+} from "../stats/libraryStats";
+
+// Work out the numbers for the home page dashboard
+// Anyone can see these - they're totals, and say nothing about who borrowed what
+export async function getLibraryStats(
+  range: StatsRange
+): Promise<LibraryStats> {
+  const [books, copies, loans] = await Promise.all([
+    getBookRepository().getAll(),
+    getCopyRepository().getAll(),
+    getLoanRepository().getAll(),
+  ]);
+  return computeLibraryStats(books, copies, loans, range);
+}
@@ -0,0 +1,97 @@
+/**
+ * Small helpers shared by the REST API route handlers in app/api/v1.
+ * Every error the API sends back has the same JSON shape:
+ *   { "error": { "code": "not_found", "message": "...", "details": {...} } }
+ * so callers can check `code` instead of parsing messages.
+ */
+
+import { NextResponse } from "next/server";
+import { Book } from "../../types/book";
+import { getCurrentUser } from "../auth/session";
+import { can, Permission } from "../auth/permissions";
+
+// The error codes the API can send back
+export const API_ERROR_CODES = [
+  "bad_request", // The request couldn't be understood (e.g. broken JSON)
+  "validation_failed", // The JSON was fine but some fields are wrong
+  "not_found",
+  "conflict", // The request clashes with the book's current state
+  "precondition_failed", // If-Match didn't match the book's current ETag
+  "precondition_required", // A change was sent without If-Match
+  "unauthenticated", // Nobody is logged in
+  "forbidden", // The logged in user's role can't do this
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Send back a JSON error with the given HTTP status
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, string>,
+  headers?: HeadersInit
+): NextResponse {
+  return NextResponse.json(
+    { error: { code, message, ...(details && { details }) } },
+    { status, headers }
+  );
+}
+
+// Check the logged in user has a permission before changing anything
+// Returns the error to send back, or null if they're allowed
+export async function authorize(
+  permission: Permission
+): Promise<NextResponse | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return apiError(401, "unauthenticated", "You need to log in to do that");
+  }
+  if (!can(user, permission)) {
+    return apiError(403, "forbidden", "You don't have permission to do that");
+  }
+  return null;
+}
+
+// The ETag for a book - it changes every time the book is saved,
+// because the version goes up by one on every save
+export function bookEtag(book: Book): string {
+  return `"${book.version}"`;
+}
+
+// Read the version out of an If-Match or If-None-Match header
+// Returns undefined if there's no header or it isn't one of our ETags
+export function versionFromEtag(header: string | null): number | undefined {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+// What versionFromIfMatch returns for "If-Match: *", which matches whatever
+// version the book is at now
+export const ANY_VERSION = "*";
+
+// Read the version out of an If-Match header
+// If-Match needs the exact ETag, so a weak one (W/"3") doesn't count either
+// Returns undefined if it isn't one of our ETags (so it can't match)
+export function versionFromIfMatch(
+  header: string
+): number | typeof ANY_VERSION | undefined {
+  const value = header.trim();
+  if (value === ANY_VERSION) return ANY_VERSION;
+  return value.startsWith("W/") ? undefined : versionFromEtag(value);
+}
+
+// Read the request body as JSON
+// Returns undefined if the body is missing or isn't valid JSON
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+// Is this a plain JSON object (not an array, string, null, ...)?
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,548 @@
+/**
+ * Builds the OpenAPI 3.1 description of the REST API, served at /api/v1/openapi.json.
+ * The enums, limits and defaults come from the same constants the API itself uses,
+ * so the document can't drift from what the code actually accepts.
+ */
+
+import { BookCondition } from "../../types/book";
+import { UserRole } from "../../types/user";
+import { SESSION_COOKIE } from "../auth/session";
+import { API_ERROR_CODES } from "./http";
+import {
+  MAX_AUTHORS,
+  MAX_LENGTHS,
+  MAX_TAG_LENGTH,
+  MAX_TAGS,
+  MIN_PUBLISHED_YEAR,
+} from "../validation/bookValidation";
+import {
+  BARCODE_PATTERN,
+  MAX_SHELF_LOCATION_LENGTH,
+} from "../validation/copyValidation";
+import {
+  BOOK_SORT_OPTIONS,
+  BOOK_STATUS_OPTIONS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "../search/bookQuery";
+
+// A reference to one of the schemas under components.schemas
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// A JSON response with the given schema
+const json = (description: string, schema: object) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+// An error response - they all share the Error schema
+const error = (description: string) => json(description, ref("Error"));
+
+// Operations that need a logged in user with the right role
+// Log in with POST /session first - the browser keeps the session cookie
+const secured = {
+  security: [{ sessionCookie: [] }],
+};
+const authErrors = {
+  401: error("Nobody is logged in"),
+  403: error("The logged in user's role can't do this"),
+};
+
+// The book id in the URL
+const idParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+// The fields a person can set on a book, with the same rules as validateBookData
+const bookFields = {
+  title: { type: "string", minLength: 1, maxLength: MAX_LENGTHS.title },
+  authors: {
+    type: "array",
+    items: { type: "string", minLength: 1, maxLength: MAX_LENGTHS.author },
+    minItems: 1,
+    maxItems: MAX_AUTHORS,
+    description:
+      'Each author\'s name, in the order they\'re credited. Names are matched to the library\'s authors, so "Fitzgerald, F. Scott" and "F. Scott Fitzgerald" are the same person',
+  },
+  isbn: {
+    type: "string",
+    description: "ISBN-10 or ISBN-13 with a valid check digit",
+  },
+  publishedYear: {
+    type: "integer",
+    minimum: MIN_PUBLISHED_YEAR,
+    description: "No later than next year",
+  },
+  genre: {
+    type: "string",
+    minLength: 1,
+    maxLength: MAX_LENGTHS.genre,
+    description:
+      "The name of one of the library's genres (case doesn't matter)",
+  },
+  description: {
+    type: "string",
+    minLength: 1,
+    maxLength: MAX_LENGTHS.description,
+  },
+  tags: {
+    type: "array",
+    items: { type: "string", minLength: 1, maxLength: MAX_TAG_LENGTH },
+    maxItems: MAX_TAGS,
+    description:
+      "Optional free-form labels - repeats that differ only in case are dropped",
+  },
+};
+
+// The old way of sending a book's authors, still accepted in place of authors
+const legacyAuthorField = {
+  type: "string",
+  deprecated: true,
+  description:
+    "Every author in one piece of text, separated by semicolons - only used when authors is left out",
+};
+
+// The fields a person can set on a copy, with the same rules as validateCopyData
+const copyFields = {
+  barcode: {
+    type: "string",
+    pattern: BARCODE_PATTERN.source,
+    description:
+      "Stored in capitals. Leave it out to get the next free barcode (or keep the current one)",
+  },
+  condition: { type: "string", enum: Object.values(BookCondition) },
+  shelfLocation: { type: "string", maxLength: MAX_SHELF_LOCATION_LENGTH },
+};
+
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Library Catalog API",
+      version: "1.0.0",
+      description:
+        "Read and change the library's books. Errors always come back as an Error object.",
+    },
+    servers: [{ url: "/api/v1" }],
+    paths: {
+      "/books": {
+        get: {
+          summary: "List active books",
+          parameters: [
+            { name: "q", in: "query", schema: { type: "string" } },
+            {
+              name: "genre",
+              in: "query",
+              description: "Books in this genre or any of its sub-genres",
+              schema: { type: "string" },
+            },
+            { name: "tag", in: "query", schema: { type: "string" } },
+            {
+              name: "condition",
+              in: "query",
+              description: "Books with at least one copy in this condition",
+              schema: copyFields.condition,
+            },
+            {
+              name: "status",
+              in: "query",
+              schema: {
+                type: "string",
+                enum: Object.keys(BOOK_STATUS_OPTIONS),
+              },
+            },
+            { name: "yearFrom", in: "query", schema: { type: "integer" } },
+            { name: "yearTo", in: "query", schema: { type: "integer" } },
+            {
+              name: "sort",
+              in: "query",
+              schema: {
+                type: "string",
+                enum: Object.keys(BOOK_SORT_OPTIONS),
+                default: "title",
+              },
+            },
+            {
+              name: "page",
+              in: "query",
+              schema: { type: "integer", minimum: 1, default: 1 },
+            },
+            {
+              name: "pageSize",
+              in: "query",
+              schema: {
+                type: "integer",
+                minimum: 1,
+                maximum: MAX_PAGE_SIZE,
+                default: DEFAULT_PAGE_SIZE,
+              },
+            },
+          ],
+          responses: {
+            200: json("One page of books", ref("BookPage")),
+          },
+        },
+        post: {
+          summary: "Add a book",
+          ...secured,
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("NewBook") } },
+          },
+          responses: {
+            201: {
+              ...json("The new book", ref("Book")),
+              headers: {
+                Location: { schema: { type: "string" } },
+                ETag: { schema: { type: "string" } },
+              },
+            },
+            400: error("The body isn't a JSON object"),
+            ...authErrors,
+            422: error("Some fields are not valid"),
+          },
+        },
+      },
+      "/books/{id}": {
+        parameters: [idParameter],
+        get: {
+          summary: "Get a book",
+          parameters: [
+            { name: "If-None-Match", in: "header", schema: { type: "string" } },
+          ],
+          responses: {
+            200: {
+              ...json("The book", ref("Book")),
+              headers: { ETag: { schema: { type: "string" } } },
+            },
+            304: { description: "The book hasn't changed since that ETag" },
+            404: error("There is no active book with that id"),
+          },
+        },
+        patch: {
+          summary: "Change some of a book's fields",
+          ...secured,
+          parameters: [
+            {
+              name: "If-Match",
+              in: "header",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("BookPatch") } },
+          },
+          responses: {
+            200: json("The saved book", ref("Book")),
+            400: error("The body isn't a JSON object"),
+            ...authErrors,
+            404: error("There is no active book with that id"),
+            412: error(
+              "The book has changed since that ETag, or it isn't one of ours"
+            ),
+            422: error("Some fields are not valid or can't be changed"),
+            428: error("If-Match is missing"),
+          },
+        },
+        delete: {
+          summary: "Remove a book (it's kept, but marked inactive)",
+          ...secured,
+          parameters: [
+            { name: "If-Match", in: "header", schema: { type: "string" } },
+          ],
+          responses: {
+            204: { description: "The book was removed" },
+            ...authErrors,
+            404: error("There is no active book with that id"),
+            409: error("A copy of the book is checked out"),
+            412: error(
+              "The book has changed since that ETag, or it isn't one of ours"
+            ),
+          },
+        },
+      },
+      "/books/{id}/checkout": {
+        parameters: [idParameter],
+        post: {
+          summary: "Check a copy of a book out to a patron",
+          ...secured,
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("CheckoutRequest") } },
+          },
+          responses: {
+            201: json("The new loan", ref("Loan")),
+            400: error("The body isn't a JSON object"),
+            ...authErrors,
+            404: error("There is no book, or no copy of it, with that id"),
+            409: error(
+              "Every copy is checked out, or the copy or book has been removed"
+            ),
+            422: error(
+              "The patron or due date is not valid, or the book is on hold for someone else"
+            ),
+          },
+        },
+      },
+      "/session": {
+        post: {
+          summary: "Log in",
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("LoginRequest") } },
+          },
+          responses: {
+            200: {
+              ...json("Logged in", ref("SessionUser")),
+              headers: { "Set-Cookie": { schema: { type: "string" } } },
+            },
+            400: error("The body isn't a JSON object"),
+            401: error("The username or password is wrong"),
+          },
+        },
+        delete: {
+          summary: "Log out",
+          responses: {
+            204: { description: "Logged out" },
+          },
+        },
+      },
+      "/books/{id}/return": {
+        parameters: [idParameter],
+        post: {
+          summary: "Return a copy of a book",
+          ...secured,
+          requestBody: {
+            description: "Can be left out when only one copy is checked out",
+            content: { "application/json": { schema: ref("ReturnRequest") } },
+          },
+          responses: {
+            200: json("The copy was returned", ref("ReturnResult")),
+            400: error("The body isn't a JSON object"),
+            ...authErrors,
+            404: error("There is no book, or no copy of it, with that id"),
+            409: error("The copy isn't checked out"),
+            422: error(
+              "More than one copy is checked out and copyId is missing, or the condition isn't valid"
+            ),
+          },
+        },
+      },
+      "/books/{id}/copies": {
+        parameters: [idParameter],
+        get: {
+          summary: "List a book's copies, withdrawn ones too",
+          responses: {
+            200: json("Every copy, in barcode order", {
+              type: "object",
+              properties: { data: { type: "array", items: ref("Copy") } },
+            }),
+            404: error("There is no active book with that id"),
+          },
+        },
+        post: {
+          summary: "Add a copy of a book",
+          ...secured,
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("NewCopy") } },
+          },
+          responses: {
+            201: json("The new copy", ref("Copy")),
+            400: error("The body isn't a JSON object"),
+            ...authErrors,
+            404: error("There is no active book with that id"),
+            422: error("Some fields are not valid, or the barcode is taken"),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        sessionCookie: { type: "apiKey", in: "cookie", name: SESSION_COOKIE },
+      },
+      schemas: {
+        NewBook: {
+          type: "object",
+          properties: {
+            ...bookFields,
+            author: legacyAuthorField,
+            copy: { ...ref("NewCopy"), description: "The first copy, if any" },
+          },
+          required: Object.keys(bookFields).filter((field) => field !== "tags"),
+          additionalProperties: false,
+        },
+        NewCopy: {
+          type: "object",
+          properties: copyFields,
+          required: ["condition"],
+          additionalProperties: false,
+        },
+        Copy: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            bookId: { type: "string" },
+            ...copyFields,
+            isCheckedOut: { type: "boolean" },
+            isActive: {
+              type: "boolean",
+              description: "false once the copy is withdrawn",
+            },
+            lastCheckedOutDate: { type: "string", format: "date-time" },
+            addedDate: { type: "string", format: "date-time" },
+          },
+        },
+        BookPatch: {
+          type: "object",
+          properties: { ...bookFields, author: legacyAuthorField },
+          additionalProperties: false,
+        },
+        Book: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            // A saved book has its authors' names and ids instead of authors
+            ...Object.fromEntries(
+              Object.entries(bookFields).filter(
+                ([field]) => field !== "authors"
+              )
+            ),
+            author: {
+              type: "string",
+              description:
+                "Every author's name, in the order they're credited, separated by \"; \"",
+            },
+            authorIds: {
+              type: "array",
+              items: { type: "string" },
+              description: "The ids of the book's authors, in the same order",
+            },
+            coverId: {
+              type: "string",
+              description:
+                "Missing if the book has no cover. The image is at /api/covers/{coverId} (add ?size=thumbnail for the small one)",
+            },
+            isActive: { type: "boolean" },
+            addedDate: { type: "string", format: "date-time" },
+            version: { type: "integer" },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        BookPage: {
+          type: "object",
+          properties: {
+            data: { type: "array", items: ref("Book") },
+            total: { type: "integer" },
+            page: { type: "integer" },
+            pageSize: { type: "integer" },
+            pageCount: { type: "integer" },
+          },
+        },
+        CheckoutRequest: {
+          type: "object",
+          properties: {
+            patronId: { type: "string" },
+            copyId: {
+              type: "string",
+              description: "Leave it out to lend the first copy on the shelf",
+            },
+            dueDate: { type: "string", format: "date-time" },
+          },
+          required: ["patronId"],
+        },
+        ReturnRequest: {
+          type: "object",
+          properties: {
+            copyId: { type: "string" },
+            condition: {
+              type: "string",
+              enum: Object.values(BookCondition),
+              description:
+                "The condition the copy came back in - DESTROYED withdraws it",
+            },
+            notes: {
+              type: "string",
+              description: "What was noticed about the copy's condition",
+            },
+          },
+        },
+        Loan: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            bookId: { type: "string" },
+            copyId: { type: "string" },
+            patronId: { type: "string" },
+            borrower: { type: "string" },
+            checkoutDate: { type: "string", format: "date-time" },
+            dueDate: { type: "string", format: "date-time" },
+            returnDate: { type: "string", format: "date-time" },
+          },
+        },
+        ReturnResult: {
+          type: "object",
+          properties: {
+            loan: { oneOf: [ref("Loan"), { type: "null" }] },
+            fineCents: { type: "integer" },
+            heldFor: {
+              type: ["string", "null"],
+              description: "The patron the copy should be kept for",
+            },
+            damaged: {
+              type: "boolean",
+              description: "The copy came back in worse condition",
+            },
+            withdrawn: {
+              type: "boolean",
+              description: "The copy came back destroyed and was withdrawn",
+            },
+          },
+        },
+        LoginRequest: {
+          type: "object",
+          properties: {
+            username: { type: "string" },
+            password: { type: "string" },
+          },
+          required: ["username", "password"],
+        },
+        SessionUser: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            username: { type: "string" },
+            role: { type: "string", enum: Object.values(UserRole) },
+            patronId: { type: "string" },
+          },
+        },
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: {
+                code: {
+                  type: "string",
+                  enum: API_ERROR_CODES,
+                },
+                message: { type: "string" },
+                details: {
+                  type: "object",
+                  description: "An error message for each field that's wrong",
+                  additionalProperties: { type: "string" },
+                },
+              },
+              required: ["code", "message"],
+            },
+          },
+        },
+      },
+    },
+  };
+}
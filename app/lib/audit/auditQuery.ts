@@ -0,0 +1,141 @@
+/**
+ * Filtering and paging the audit log, and showing its values.
+ * On the /admin/audit page the filter lives in the URL
+ * (e.g. /admin/audit?action=REMOVED&actor=sam), like the search on /books.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { AuditAction, AuditEntry, AuditValue } from "../../types/audit";
+import { intParam, param, SearchParamValues } from "../search/bookQuery";
+
+// Labels for each kind of change, in the order they should be offered
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [AuditAction.CREATED]: "Added",
+  [AuditAction.UPDATED]: "Edited",
+  [AuditAction.CONDITION_CHANGED]: "Condition changed",
+  [AuditAction.REMOVED]: "Removed",
+  [AuditAction.RESTORED]: "Restored",
+  [AuditAction.PURGED]: "Purged",
+  [AuditAction.CHECKED_OUT]: "Checked out",
+  [AuditAction.RETURNED]: "Returned",
+  [AuditAction.COPY_ADDED]: "Copy added",
+  [AuditAction.COPY_UPDATED]: "Copy edited",
+  [AuditAction.COPY_WITHDRAWN]: "Copy withdrawn",
+};
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Everything the audit log can be filtered on - every field is optional
+export interface AuditFilter {
+  book?: string; // Text to look for in the book's title, or its exact id
+  actor?: string; // Text to look for in the username
+  action?: AuditAction;
+  from?: string; // The first day to show, as YYYY-MM-DD
+  to?: string; // The last day to show, as YYYY-MM-DD (inclusive)
+  page?: number; // Starts at 1
+}
+
+// An entry together with the title of its book, for the log page
+export type AuditLogEntry = AuditEntry & { bookTitle: string };
+
+// One page of the filtered log
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number; // How many entries matched altogether
+  page: number; // The page we're on (moved back if it was past the end)
+  pageCount: number; // How many pages there are (at least 1)
+}
+
+// Is this a date from a date input (YYYY-MM-DD)?
+export function isDay(value: string | undefined): value is string {
+  return (
+    !!value &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(new Date(value).getTime())
+  );
+}
+
+// Build an AuditFilter from a URL's search params
+// Anything we don't understand is ignored, like on the /books page
+export function parseAuditFilter(params: SearchParamValues): AuditFilter {
+  const action = param(params, "action");
+  const from = param(params, "from");
+  const to = param(params, "to");
+  return {
+    book: param(params, "book"),
+    actor: param(params, "actor"),
+    action:
+      action && Object.keys(AUDIT_ACTION_LABELS).includes(action)
+        ? (action as AuditAction)
+        : undefined,
+    from: isDay(from) ? from : undefined,
+    to: isDay(to) ? to : undefined,
+    page: intParam(params, "page"),
+  };
+}
+
+// Turn an AuditFilter back into search params, for the page links
+export function toAuditSearchParams(filter: AuditFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.book) params.set("book", filter.book);
+  if (filter.actor) params.set("actor", filter.actor);
+  if (filter.action) params.set("action", filter.action);
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  if (filter.page && filter.page > 1) params.set("page", String(filter.page));
+  return params;
+}
+
+// Does the entry match every filter?
+// The days are compared in UTC, the same way the timestamps are saved
+function matches(entry: AuditLogEntry, filter: AuditFilter): boolean {
+  if (filter.book) {
+    const text = filter.book.toLowerCase();
+    if (
+      entry.bookId !== filter.book &&
+      !entry.bookTitle.toLowerCase().includes(text)
+    ) {
+      return false;
+    }
+  }
+  if (
+    filter.actor &&
+    !entry.actorName.toLowerCase().includes(filter.actor.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.action && entry.action !== filter.action) return false;
+  const day = entry.timestamp.toISOString().slice(0, 10);
+  if (filter.from && day < filter.from) return false;
+  if (filter.to && day > filter.to) return false;
+  return true;
+}
+
+// Filter and page the log (entries should already be newest first)
+export function filterAuditEntries(
+  entries: AuditLogEntry[],
+  filter: AuditFilter
+): AuditLogPage {
+  const matching = entries.filter((entry) => matches(entry, filter));
+  const pageCount = Math.max(Math.ceil(matching.length / AUDIT_PAGE_SIZE), 1);
+  const page = Math.min(Math.max(filter.page ?? 1, 1), pageCount);
+  const start = (page - 1) * AUDIT_PAGE_SIZE;
+  return {
+    entries: matching.slice(start, start + AUDIT_PAGE_SIZE),
+    total: matching.length,
+    page,
+    pageCount,
+  };
+}
+
+// Show a saved value in a readable way
+// Dates were saved as ISO strings, so we show them as dates again
+export function formatAuditValue(value: AuditValue): string {
+  if (value === null || value === "") return "(none)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleDateString();
+  }
+  return String(value);
+}
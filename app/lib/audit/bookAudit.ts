@@ -0,0 +1,101 @@
+/**
+ * Writes the audit log of book changes.
+ * Every action that changes a book calls recordBookAudit with the book as it was
+ * before and after, and we save which fields changed, who changed them and when.
+ * Changes to one copy of a book go through recordCopyAudit, and are logged against the book.
+ *
+ * This runs on the server only.
+ */
+
+import { randomUUID } from "crypto";
+import { Book } from "../../types/book";
+import { Copy } from "../../types/copy";
+import { AuditAction, AuditChange, AuditValue } from "../../types/audit";
+import { SessionUser } from "../../types/user";
+import { getAuditRepository } from "../storage/repositories";
+
+// Fields the server changes on every save - a change to these alone isn't worth recording
+// A book's authorIds always change along with its author names, which say it better
+const IGNORED_FIELDS = ["id", "version", "updatedAt", "authorIds"];
+
+// Turn a field value into something we can save as JSON and compare
+function toAuditValue(value: unknown): AuditValue {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  // Lists (like a book's tags) are saved as text, and an empty list counts as not set
+  if (Array.isArray(value)) return value.length === 0 ? null : value.join(", ");
+  return value as AuditValue;
+}
+
+// List every field that's different between two versions of a book or copy
+// before is undefined for a brand new record, and after is undefined for a deleted one,
+// so every field the other one has is listed
+export function diffRecords<T extends Book | Copy>(
+  before: T | undefined,
+  after: T | undefined
+): AuditChange[] {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]) as Set<keyof T & string>;
+
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const oldValue = toAuditValue(before?.[field]);
+    const newValue = toAuditValue(after?.[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+  return changes;
+}
+
+// Save an audit entry for a change to a book
+// actor is the logged in user who made the change (null for scripts)
+// Nothing is saved if no fields actually changed
+export async function recordBookAudit(
+  action: AuditAction,
+  before: Book | undefined,
+  after: Book | undefined,
+  actor: SessionUser | null
+): Promise<void> {
+  const bookId = after?.id ?? before?.id;
+  const changes = diffRecords(before, after);
+  if (!bookId || changes.length === 0) return;
+
+  await getAuditRepository().add({
+    id: randomUUID(),
+    bookId,
+    actorId: actor?.id,
+    actorName: actor?.username ?? "system",
+    timestamp: new Date(),
+    action,
+    changes,
+  });
+}
+
+// Save an audit entry for a change to one copy of a book
+// The entry belongs to the copy's book, and remembers which copy it was
+export async function recordCopyAudit(
+  action: AuditAction,
+  before: Copy | undefined,
+  after: Copy | undefined,
+  actor: SessionUser | null
+): Promise<void> {
+  const copy = after ?? before;
+  const changes = diffRecords(before, after);
+  if (!copy || changes.length === 0) return;
+
+  await getAuditRepository().add({
+    id: randomUUID(),
+    bookId: copy.bookId,
+    copyId: copy.id,
+    copyBarcode: copy.barcode,
+    actorId: actor?.id,
+    actorName: actor?.username ?? "system",
+    timestamp: new Date(),
+    action,
+    changes,
+  });
+}
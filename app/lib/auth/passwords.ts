@@ -0,0 +1,41 @@
+/**
+ * Password hashing with scrypt (built into Node.js, no extra packages).
+ * We never store passwords, only a hash of them mixed with a random salt,
+ * saved as "scrypt$<salt>$<hash>" so the format can change later if needed.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Hash a password for storing
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+// Check a password against a stored hash
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length
+  );
+  // timingSafeEqual takes the same time however many characters match,
+  // so the response time doesn't give away how close a guess was
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,51 @@
+/**
+ * What each role is allowed to do.
+ * The server checks these in every action and API route (see session.ts),
+ * and the pages use the same table to hide buttons people can't use.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { SessionUser, UserRole } from "../../types/user";
+
+// The things that need permission
+// Browsing and searching the catalog is open to everyone, even without logging in
+export type Permission =
+  | "books:edit" // Add books and change their details
+  | "books:remove" // Remove books from the library
+  | "circulation" // Check books out and in, and see loans, holds and fines
+  | "patrons:manage" // See, add, edit and remove patrons
+  | "holds:own" // Place and cancel holds for yourself
+  | "audit:view" // See who changed which books, and when
+  | "genres:manage" // Add, rename, move, merge and delete the library's genres
+  | "authors:manage"; // Merge duplicate authors and delete unused ones
+
+// The permissions each role has
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: [
+    "books:edit",
+    "books:remove",
+    "circulation",
+    "patrons:manage",
+    "holds:own",
+    "audit:view",
+    "genres:manage",
+    "authors:manage",
+  ],
+  [UserRole.LIBRARIAN]: [
+    "books:edit",
+    "circulation",
+    "patrons:manage",
+    "audit:view",
+    "authors:manage",
+  ],
+  [UserRole.PATRON]: ["holds:own"],
+};
+
+// Can this user do this? Someone who isn't logged in (null) can't do anything here
+export function can(
+  user: SessionUser | null | undefined,
+  permission: Permission
+): boolean {
+  return user ? ROLE_PERMISSIONS[user.role].includes(permission) : false;
+}
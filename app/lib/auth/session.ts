@@ -0,0 +1,118 @@
+/**
+ * Logging in and out, and finding out who is logged in.
+ * When someone logs in we give their browser a random token in an httpOnly cookie
+ * and save a session on the server. Each request looks the session up again,
+ * so logging out (or removing the user) takes effect straight away.
+ *
+ * This runs on the server only.
+ */
+
+import { cache } from "react";
+import { cookies } from "next/headers";
+import { createHash, randomBytes } from "crypto";
+import { SessionUser, User } from "../../types/user";
+import {
+  getSessionRepository,
+  getUserRepository,
+} from "../storage/repositories";
+import { can, Permission } from "./permissions";
+
+// The name of the cookie that holds the session token
+export const SESSION_COOKIE = "library_session";
+
+// How many days someone stays logged in
+// Set SESSION_DAYS to change it
+const DEFAULT_SESSION_DAYS = 7;
+
+function sessionDays(): number {
+  const days = Number(process.env.SESSION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_SESSION_DAYS;
+}
+
+// Thrown when someone tries to do something they aren't allowed to
+// "unauthenticated" means nobody is logged in, "forbidden" means their role can't do it
+export class AuthorizationError extends Error {
+  constructor(public readonly reason: "unauthenticated" | "forbidden") {
+    super(
+      reason === "unauthenticated"
+        ? "You need to log in to do that"
+        : "You don't have permission to do that"
+    );
+  }
+}
+
+// The session id we store is a hash of the token, so the stored sessions
+// can't be used to log in even if someone reads them
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The parts of a user that are safe to hand to pages and the browser
+export function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    patronId: user.patronId,
+  };
+}
+
+// Log a user in: save a session and give the browser its cookie
+export async function startSession(user: User): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresDate = new Date(now);
+  expiresDate.setDate(expiresDate.getDate() + sessionDays());
+
+  const sessions = getSessionRepository();
+  await sessions.removeExpired(now); // Tidy up while we're here
+  await sessions.add({
+    id: hashToken(token),
+    userId: user.id,
+    createdDate: now,
+    expiresDate,
+  });
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true, // Page scripts can't read it
+    sameSite: "lax", // Other sites can't send it along with their forms
+    secure: process.env.NODE_ENV === "production", // HTTPS only in production
+    path: "/",
+    expires: expiresDate,
+  });
+}
+
+// Log out: forget the session and clear the cookie
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await getSessionRepository().remove(hashToken(token));
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// Who is logged in for this request? null if nobody is
+// cache() means we only look it up once per request, however many times it's called
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await getSessionRepository().getById(hashToken(token));
+  if (!session || session.expiresDate <= new Date()) return null;
+
+  const user = await getUserRepository().getById(session.userId);
+  if (!user || !user.isActive) return null;
+  return toSessionUser(user);
+});
+
+// Make sure the current user has a permission, and return them
+// Throws an AuthorizationError if they don't
+export async function requirePermission(
+  permission: Permission
+): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) throw new AuthorizationError("unauthenticated");
+  if (!can(user, permission)) throw new AuthorizationError("forbidden");
+  return user;
+}
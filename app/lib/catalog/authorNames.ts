@@ -0,0 +1,144 @@
+/**
+ * Working with author names: recognising two spellings of the same person,
+ * splitting a list of authors, and spotting authors that might be duplicates.
+ * Catalogs often write names surname first, so "Fitzgerald, F. Scott" and
+ * "F. Scott Fitzgerald" are the same author, and so is "F Scott Fitzgerald".
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { Author } from "../../types/author";
+import { Book } from "../../types/book";
+
+// How a book's authors are separated in its author field, exports and imports
+// Not a comma, because "Fitzgerald, F. Scott" is one author
+export const AUTHOR_SEPARATOR = "; ";
+
+// Endings that come after a comma without the name being written surname first
+const NAME_SUFFIXES = ["jr", "sr", "ii", "iii", "iv", "phd"];
+
+// One of a book's authors - id is missing for books that haven't been linked to authors yet
+export interface BookAuthor {
+  id?: string;
+  name: string;
+}
+
+// Trim a name and collapse the spaces inside it
+function tidy(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+// Is this word (or the part of a name after a comma) one of NAME_SUFFIXES?
+function isSuffix(text: string): boolean {
+  return NAME_SUFFIXES.includes(text.toLowerCase().replace(/[.\s]/g, ""));
+}
+
+// Write a name first name first: "Fitzgerald, F. Scott" -> "F. Scott Fitzgerald"
+// Names with no comma, or with a suffix after it ("Martin Luther King, Jr."), are only tidied
+export function displayAuthorName(name: string): string {
+  const parts = tidy(name).split(",");
+  if (parts.length !== 2 || parts[1].trim() === "" || isSuffix(parts[1])) {
+    return tidy(name);
+  }
+  return `${parts[1].trim()} ${parts[0].trim()}`;
+}
+
+// Make a name easy to compare: "Fitzgerald, F. Scott" -> "f scott fitzgerald"
+export function authorKey(name: string): string {
+  return displayAuthorName(name)
+    .toLowerCase()
+    .replace(/[.,]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Tidy a list of author names: trim them, split any with a semicolon in them,
+// drop empty ones, and keep only the first spelling of each person
+export function normalizeAuthors(names: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const name of names.flatMap((name) => name.split(";"))) {
+    const clean = tidy(name);
+    const key = authorKey(clean);
+    if (key === "" || seen.has(key)) continue;
+    seen.add(key);
+    result.push(clean);
+  }
+  return result;
+}
+
+// Split typed or imported text into authors, e.g.
+// "Terry Pratchett; Gaiman, Neil" -> ["Terry Pratchett", "Gaiman, Neil"]
+export function parseAuthorList(text: string): string[] {
+  return normalizeAuthors([text]);
+}
+
+// A book's authors, with the id of each one when the book is linked to them
+export function bookAuthors(
+  book: Pick<Book, "author" | "authorIds">
+): BookAuthor[] {
+  const names = book.author
+    .split(";")
+    .map(tidy)
+    .filter((name) => name !== "");
+  // The server keeps the names and ids in step - if they ever don't match, show the names alone
+  if (names.length !== book.authorIds.length) {
+    return names.map((name) => ({ name }));
+  }
+  return names.map((name, i) => ({ id: book.authorIds[i], name }));
+}
+
+// The words of a name, without any suffix on the end
+function nameWords(name: string): string[] {
+  const words = authorKey(name).split(" ");
+  while (words.length > 1 && isSuffix(words[words.length - 1])) words.pop();
+  return words;
+}
+
+// What to sort an author by - their surname, then their other names
+// e.g. "F. Scott Fitzgerald" -> "fitzgerald f scott"
+export function authorSortKey(name: string): string {
+  const words = nameWords(name);
+  return [words[words.length - 1], ...words.slice(0, -1)].join(" ");
+}
+
+// Sort authors by surname, then by their other names
+export function bySurname(a: Author, b: Author): number {
+  return authorSortKey(a.name).localeCompare(authorSortKey(b.name));
+}
+
+// Is every item of `short` in `long`, in the same order?
+function isSubsequence(short: string[], long: string[]): boolean {
+  let i = 0;
+  for (const item of long) {
+    if (i < short.length && item === short[i]) i++;
+  }
+  return i === short.length;
+}
+
+// Could these two authors be the same person? They need the same surname, and
+// the initials of one's other names have to fit into the other's:
+// "Scott Fitzgerald" and "F. Scott Fitzgerald" could be, "Charlotte Brontë" and
+// "Emily Brontë" can't. It's only a hint - a person decides whether to merge them
+function mightBeSamePerson(a: string, b: string): boolean {
+  const wordsA = nameWords(a);
+  const wordsB = nameWords(b);
+  if (wordsA[wordsA.length - 1] !== wordsB[wordsB.length - 1]) return false;
+  const initialsA = wordsA.slice(0, -1).map((word) => word[0]);
+  const initialsB = wordsB.slice(0, -1).map((word) => word[0]);
+  return initialsA.length <= initialsB.length
+    ? isSubsequence(initialsA, initialsB)
+    : isSubsequence(initialsB, initialsA);
+}
+
+// Find the pairs of authors that might be the same person, sorted by surname
+export function likelyDuplicates<T extends Author>(authors: T[]): [T, T][] {
+  const sorted = [...authors].sort(bySurname);
+  const pairs: [T, T][] = [];
+  for (const [i, a] of sorted.entries()) {
+    for (const b of sorted.slice(i + 1)) {
+      if (mightBeSamePerson(a.name, b.name)) pairs.push([a, b]);
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,115 @@
+/**
+ * Helpers for the library's authors: linking the author names typed on a book
+ * to the author records (adding the ones we haven't seen before), and moving
+ * books from one author to another when duplicates are merged.
+ * A merged duplicate's name is kept as an alias of the author it was merged
+ * into, so books that still use that spelling link to the right author.
+ *
+ * This runs on the server only - it's shared by the book, import and author
+ * actions, and by the authors migration script.
+ */
+
+import { randomUUID } from "crypto";
+import { Author } from "../../types/author";
+import { AddBookData, Book } from "../../types/book";
+import { AuditAction } from "../../types/audit";
+import { SessionUser } from "../../types/user";
+import {
+  getAuthorRepository,
+  getBookRepository,
+} from "../storage/repositories";
+import { recordBookAudit } from "../audit/bookAudit";
+import { indexBook } from "../search/bookSearchIndex";
+import { AUTHOR_SEPARATOR, authorKey, displayAuthorName } from "./authorNames";
+
+// The fields of a book that say who wrote it
+export type BookAuthorFields = Pick<Book, "author" | "authorIds">;
+
+// The author fields for a book by these authors, in this order
+function toAuthorFields(authors: Author[]): BookAuthorFields {
+  return {
+    author: authors.map((author) => author.name).join(AUTHOR_SEPARATOR),
+    authorIds: authors.map((author) => author.id),
+  };
+}
+
+// Link the author names of several books to the library's authors at once
+// A name matches an author if it's the same person written another way
+// ("Fitzgerald, F. Scott" finds "F. Scott Fitzgerald"), or one of the spellings
+// merged into them. Names that match nobody become new authors, written first
+// name first. Matching and adding happen in one step, so two saves at once
+// can't add the same person twice
+// Returns each book with its author names swapped for its author fields, in the same order
+export async function linkBookAuthors<T extends { authors: string[] }>(
+  books: T[]
+): Promise<(Omit<T, "authors"> & BookAuthorFields)[]> {
+  let linked: (Omit<T, "authors"> & BookAuthorFields)[] = [];
+  await getAuthorRepository().addMissing((authors) => {
+    const known = new Map<string, Author>();
+    for (const author of authors) {
+      for (const alias of author.aliases) known.set(authorKey(alias), author);
+    }
+    // Set after the aliases, so an author's own name always wins
+    for (const author of authors) known.set(authorKey(author.name), author);
+
+    const added: Author[] = [];
+    linked = books.map(({ authors: names, ...book }) => {
+      const found = names.map((name) => {
+        const key = authorKey(name);
+        let author = known.get(key);
+        if (!author) {
+          author = {
+            id: randomUUID(),
+            name: displayAuthorName(name),
+            aliases: [],
+          };
+          known.set(key, author); // So the next book by them links to the same author
+          added.push(author);
+        }
+        return author;
+      });
+      return { ...book, ...toAuthorFields(found) };
+    });
+    return added;
+  });
+  return linked;
+}
+
+// Link one book's author names to the library's authors - see linkBookAuthors
+export async function linkAuthors(
+  data: AddBookData
+): Promise<Omit<AddBookData, "authors"> & BookAuthorFields> {
+  const [linked] = await linkBookAuthors([data]);
+  return linked;
+}
+
+// Move every book by the author `fromId` to the author `into` instead
+// Removed books move too, so they're right if they're ever restored
+// A book by both of them keeps `into` once, where it was first credited
+// The books are all saved in one write, then each one that changed gets an
+// audit entry. Returns how many books changed
+export async function relinkBooks(
+  fromId: string,
+  into: Author,
+  actor: SessionUser | null
+): Promise<number> {
+  const authors = new Map(
+    (await getAuthorRepository().getAll()).map((author) => [author.id, author])
+  );
+  authors.set(into.id, into);
+  const updates = await getBookRepository().updateMatching(
+    (book) => book.authorIds.includes(fromId),
+    (book) => {
+      const ids = book.authorIds.map((id) => (id === fromId ? into.id : id));
+      const linked = [...new Set(ids)]
+        .map((id) => authors.get(id))
+        .filter((author): author is Author => author !== undefined);
+      return { ...book, ...toAuthorFields(linked) };
+    }
+  );
+  for (const { before, saved } of updates) {
+    await recordBookAudit(AuditAction.UPDATED, before, saved, actor);
+    await indexBook(saved); // The author's name is searched
+  }
+  return updates.length;
+}
@@ -0,0 +1,158 @@
+/**
+ * Helpers for the condition of copies: recording an assessment, withdrawing
+ * copies that are found destroyed, and finding copies that have got worse
+ * over time.
+ *
+ * This runs on the server only - it's shared by the copy, loan and condition actions.
+ */
+
+import { randomUUID } from "crypto";
+import { BookCondition } from "../../types/book";
+import { Copy } from "../../types/copy";
+import { AuditAction } from "../../types/audit";
+import { AssessmentData, ConditionAssessment } from "../../types/assessment";
+import { SessionUser } from "../../types/user";
+import {
+  getAssessmentRepository,
+  getCopyRepository,
+} from "../storage/repositories";
+import { recordCopyAudit } from "../audit/bookAudit";
+
+// The conditions from best to worst
+const CONDITION_ORDER = [
+  BookCondition.EXCELLENT,
+  BookCondition.GOOD,
+  BookCondition.FAIR,
+  BookCondition.POOR,
+  BookCondition.DESTROYED,
+];
+
+// How many steps worse than EXCELLENT a condition is (EXCELLENT is 0, DESTROYED is 4)
+export function conditionRank(condition: BookCondition): number {
+  return CONDITION_ORDER.indexOf(condition);
+}
+
+// Is condition worse than the other one?
+export function isWorse(
+  condition: BookCondition,
+  than: BookCondition
+): boolean {
+  return conditionRank(condition) > conditionRank(than);
+}
+
+// What applyAssessment tells the caller about how it went
+export type AssessmentResult =
+  | { status: "assessed"; copy: Copy; assessment: ConditionAssessment }
+  | { status: "checked_out" } // Only copies on the shelf can be marked destroyed
+  | { status: "not_found" }; // There's no copy with that id, or it's been withdrawn
+
+// Thrown inside a copy update when the copy can't be assessed,
+// so the update is cancelled without saving anything
+class AssessmentError extends Error {
+  constructor(public readonly status: "checked_out" | "not_found") {
+    super(status);
+  }
+}
+
+// Record what condition a copy is in, and save it as the copy's condition
+// A copy found DESTROYED is withdrawn from circulation straight away.
+// loanId is set when the copy is assessed as it comes back from a loan -
+// if it came back in worse condition, the assessment is flagged as damage
+export async function applyAssessment(
+  copyId: string,
+  data: AssessmentData,
+  actor: SessionUser | null,
+  loanId?: string
+): Promise<AssessmentResult> {
+  const destroyed = data.condition === BookCondition.DESTROYED;
+  let before: Copy | undefined;
+  let copy: Copy | undefined;
+  try {
+    copy = await getCopyRepository().update(copyId, (copy) => {
+      if (!copy.isActive) throw new AssessmentError("not_found");
+      // A destroyed copy can't stay on loan - it has to be checked in first
+      if (destroyed && copy.isCheckedOut) {
+        throw new AssessmentError("checked_out");
+      }
+      before = copy;
+      return {
+        ...copy,
+        condition: data.condition,
+        isActive: !destroyed,
+      };
+    });
+  } catch (error) {
+    if (error instanceof AssessmentError) return { status: error.status };
+    throw error;
+  }
+  if (!copy || !before) {
+    return { status: "not_found" };
+  }
+  // Nothing is logged if the condition didn't change - the assessment still is
+  await recordCopyAudit(
+    destroyed ? AuditAction.COPY_WITHDRAWN : AuditAction.CONDITION_CHANGED,
+    before,
+    copy,
+    actor
+  );
+
+  const assessment: ConditionAssessment = {
+    id: randomUUID(),
+    copyId: copy.id,
+    bookId: copy.bookId,
+    condition: data.condition,
+    previousCondition: before.condition,
+    assessedDate: new Date(),
+    assessorId: actor?.id,
+    assessorName: actor?.username ?? "system",
+    notes: data.notes,
+    loanId,
+    damaged: !!loanId && isWorse(data.condition, before.condition),
+  };
+  await getAssessmentRepository().add(assessment);
+  return { status: "assessed", copy, assessment };
+}
+
+// A copy whose condition is worse now than when it was first assessed
+export interface DegradedCopy {
+  copy: Copy;
+  firstCondition: BookCondition; // What it was in before its first assessment
+  stepsWorse: number; // How many conditions it has dropped, e.g. GOOD to POOR is 2
+  damageReports: number; // How many times it came back from a loan damaged
+  lastAssessedDate: Date;
+}
+
+// Find every copy that has got worse since it was first assessed, worst drop first
+// assessments should be every assessment, oldest first (like AssessmentRepository.getAll)
+export function findDegradedCopies(
+  copies: Copy[],
+  assessments: ConditionAssessment[]
+): DegradedCopy[] {
+  // Group each copy's assessments together, keeping them oldest first
+  const byCopy = new Map<string, ConditionAssessment[]>();
+  for (const assessment of assessments) {
+    const list = byCopy.get(assessment.copyId) ?? [];
+    list.push(assessment);
+    byCopy.set(assessment.copyId, list);
+  }
+
+  const degraded: DegradedCopy[] = [];
+  for (const copy of copies) {
+    const history = byCopy.get(copy.id);
+    if (!history) continue; // Never assessed, so we don't know how it started
+    const firstCondition = history[0].previousCondition;
+    if (!isWorse(copy.condition, firstCondition)) continue;
+    degraded.push({
+      copy,
+      firstCondition,
+      stepsWorse: conditionRank(copy.condition) - conditionRank(firstCondition),
+      damageReports: history.filter((assessment) => assessment.damaged).length,
+      lastAssessedDate: history[history.length - 1].assessedDate,
+    });
+  }
+  return degraded.sort(
+    (a, b) =>
+      b.stepsWorse - a.stepsWorse ||
+      b.lastAssessedDate.getTime() - a.lastAssessedDate.getTime()
+  );
+}
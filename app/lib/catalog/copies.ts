@@ -0,0 +1,139 @@
+/**
+ * Helpers for the physical copies of each book: giving new copies a barcode,
+ * and working out how many copies of each book can be borrowed right now.
+ *
+ * This runs on the server only - it's shared by the book, copy, import and export
+ * actions, and by the copies migration script.
+ */
+
+import { Copy, CopyData, CopySummary } from "../../types/copy";
+import { Hold } from "../../types/hold";
+import { randomUUID } from "crypto";
+import { getCopyRepository, getHoldRepository } from "../storage/repositories";
+import { DuplicateBarcodeError } from "../storage/copyRepository";
+import { countOwedCopies } from "../circulation/holdQueue";
+
+// Barcodes we hand out are numbers padded to this many digits (000001, 000002, ...)
+const BARCODE_DIGITS = 6;
+
+// The next barcode to hand out: one more than the highest numeric barcode in use
+// Barcodes people typed in themselves (like LIB-0042) are skipped over
+export function nextBarcode(copies: Copy[]): string {
+  const highest = copies
+    .filter((copy) => /^[0-9]+$/.test(copy.barcode))
+    .reduce((max, copy) => Math.max(max, Number(copy.barcode)), 0);
+  return String(highest + 1).padStart(BARCODE_DIGITS, "0");
+}
+
+// Build a new copy of a book from the form data
+// The barcode must already be filled in (see nextBarcode)
+export function newCopy(bookId: string, data: CopyData, now: Date): Copy {
+  return {
+    id: randomUUID(),
+    bookId,
+    barcode: data.barcode,
+    condition: data.condition,
+    shelfLocation: data.shelfLocation,
+    isCheckedOut: false,
+    isActive: true,
+    addedDate: now,
+  };
+}
+
+// Count a book's copies, given how many of them are being kept for holds
+// (never more than are on the shelf)
+export function summarizeCopies(
+  copies: Copy[],
+  readyHolds: number
+): CopySummary {
+  const active = copies.filter((copy) => copy.isActive);
+  const onShelf = active.filter((copy) => !copy.isCheckedOut).length;
+  const onHoldShelf = Math.min(readyHolds, onShelf);
+  return {
+    total: active.length,
+    available: onShelf - onHoldShelf,
+    onHoldShelf,
+    conditions: active.map((copy) => copy.condition),
+  };
+}
+
+// Count the copies of every book, keyed by book id
+// This only reads - copies kept for expired holds count as free, but the holds
+// themselves are moved along by the circulation actions, not here
+// Books with no copies aren't in the result
+export async function loadCopySummaries(): Promise<
+  Record<string, CopySummary>
+> {
+  const holdsByBook = new Map<string, Hold[]>();
+  for (const hold of await getHoldRepository().getAllActive()) {
+    holdsByBook.set(hold.bookId, [
+      ...(holdsByBook.get(hold.bookId) ?? []),
+      hold,
+    ]);
+  }
+
+  const copiesByBook = new Map<string, Copy[]>();
+  for (const copy of await getCopyRepository().getAll()) {
+    copiesByBook.set(copy.bookId, [
+      ...(copiesByBook.get(copy.bookId) ?? []),
+      copy,
+    ]);
+  }
+
+  const now = new Date();
+  const summaries: Record<string, CopySummary> = {};
+  for (const [bookId, copies] of copiesByBook) {
+    summaries[bookId] = summarizeCopies(
+      copies,
+      countOwedCopies(holdsByBook.get(bookId) ?? [], now)
+    );
+  }
+  return summaries;
+}
+
+// Save a first copy for each of several new books in one write, giving them the
+// next free barcodes in order. If another copy takes one of those barcodes at the
+// same moment, nothing is saved and they're handed out again
+export async function addNewCopies(
+  entries: { bookId: string; data: CopyData }[],
+  now: Date = new Date()
+): Promise<Copy[]> {
+  const repository = getCopyRepository();
+  for (;;) {
+    const copies: Copy[] = [];
+    const existing = await repository.getAll();
+    for (const { bookId, data } of entries) {
+      const barcode = nextBarcode([...existing, ...copies]);
+      copies.push(newCopy(bookId, { ...data, barcode }, now));
+    }
+    try {
+      await repository.importCopies(copies);
+      return copies;
+    } catch (error) {
+      if (error instanceof DuplicateBarcodeError) continue;
+      throw error;
+    }
+  }
+}
+
+// Save a new copy of a book, giving it the next free barcode if none was typed in
+// Throws a DuplicateBarcodeError if the barcode that was typed in is already used
+export async function addNewCopy(
+  bookId: string,
+  data: CopyData,
+  now: Date = new Date()
+): Promise<Copy> {
+  const repository = getCopyRepository();
+  for (;;) {
+    const barcode = data.barcode || nextBarcode(await repository.getAll());
+    const copy = newCopy(bookId, { ...data, barcode }, now);
+    try {
+      await repository.add(copy);
+      return copy;
+    } catch (error) {
+      // Someone else took the barcode we picked at the same moment - pick again
+      if (error instanceof DuplicateBarcodeError && !data.barcode) continue;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Working with the library's genre tree: putting the genres in tree order for
+ * the pickers, finding a genre's sub-genres, and matching the genre names books use.
+ * Books keep the name of their genre, so names are compared ignoring case and
+ * extra spaces - "science fiction" and "Science  Fiction" are the same genre.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { Genre } from "../../types/genre";
+
+// A genre as the pickers show it
+export interface GenreOption extends Genre {
+  depth: number; // 0 for a top-level genre, 1 for its sub-genres, and so on
+}
+
+// Make a genre name easy to compare: "  Science  fiction " -> "science fiction"
+export function genreKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Find the genre with this name, or undefined if there isn't one
+export function findGenreByName(
+  genres: Genre[],
+  name: string
+): Genre | undefined {
+  const key = genreKey(name);
+  return genres.find((genre) => genreKey(genre.name) === key);
+}
+
+// Put the genres in tree order: every genre is followed by its sub-genres,
+// sorted A-Z at each level
+// A genre whose parent has gone is shown as a top-level genre, and so is one
+// caught in a loop (A under B under A) that never reaches the top, so none are hidden
+export function toGenreOptions(genres: Genre[]): GenreOption[] {
+  const ids = new Set(genres.map((genre) => genre.id));
+  const children = new Map<string | undefined, Genre[]>();
+  for (const genre of genres) {
+    const parentId =
+      genre.parentId && ids.has(genre.parentId) ? genre.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), genre]);
+  }
+
+  const options: GenreOption[] = [];
+  const placed = new Set<string>();
+  const addGenre = (genre: Genre, depth: number) => {
+    if (placed.has(genre.id)) return; // Already shown - we've gone round a loop
+    placed.add(genre.id);
+    options.push({ ...genre, depth });
+    const level = [...(children.get(genre.id) ?? [])].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const child of level) addGenre(child, depth + 1);
+  };
+  const topLevel = [...(children.get(undefined) ?? [])].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  for (const genre of topLevel) addGenre(genre, 0);
+  // Anything left over is in a loop - show each loop from its first genre A-Z
+  const sorted = [...genres].sort((a, b) => a.name.localeCompare(b.name));
+  for (const genre of sorted) addGenre(genre, 0);
+  return options;
+}
+
+// The ids of a genre's sub-genres, their sub-genres and so on (not the genre itself)
+export function descendantIds(genres: Genre[], id: string): Set<string> {
+  const found = new Set<string>();
+  let level = [id];
+  while (level.length > 0) {
+    level = genres
+      .filter(
+        (genre) =>
+          genre.parentId !== undefined &&
+          level.includes(genre.parentId) &&
+          !found.has(genre.id) // Never loop forever, even if the data has a cycle
+      )
+      .map((genre) => genre.id);
+    for (const child of level) found.add(child);
+  }
+  found.delete(id);
+  return found;
+}
+
+// The names of every sub-genre below the genre with this name
+// (none if it isn't in the tree) - filtering by Fiction also finds Mystery books
+export function subgenreNames(genres: Genre[], name: string): string[] {
+  const genre = findGenreByName(genres, name);
+  if (!genre) return [];
+  const below = descendantIds(genres, genre.id);
+  return genres.filter((g) => below.has(g.id)).map((g) => g.name);
+}
@@ -0,0 +1,59 @@
+/**
+ * Helpers for the library's genres: making sure a book's genre is one of them,
+ * finding a genre's sub-genres for the genre filter, and moving books from one
+ * genre to another when genres are renamed or merged.
+ *
+ * This runs on the server only - it's shared by the book, import, export and genre
+ * actions, and by the genres migration script.
+ */
+
+import { AddBookData } from "../../types/book";
+import { AuditAction } from "../../types/audit";
+import { SessionUser } from "../../types/user";
+import { getBookRepository, getGenreRepository } from "../storage/repositories";
+import { recordBookAudit } from "../audit/bookAudit";
+import { findGenreByName, genreKey, subgenreNames } from "./genreTree";
+
+// What a book is told when its genre isn't one of the library's
+export const UNKNOWN_GENRE_ERROR =
+  "Genre must be one of the library's genres - ask an admin to add it";
+
+// Check the genre of some validated book data is one of the library's, and
+// switch it to the genre tree's spelling ("science fiction" -> "Science Fiction")
+// keepGenre is the genre the book has now - a book whose genre isn't in the tree
+// (e.g. from before there was one) can keep it until someone changes it
+// Returns the data to save, or undefined if the genre isn't one of ours
+export async function withLibraryGenre(
+  data: AddBookData,
+  keepGenre?: string
+): Promise<AddBookData | undefined> {
+  if (keepGenre !== undefined && data.genre === keepGenre) return data;
+  const genres = await getGenreRepository().getAll();
+  const genre = findGenreByName(genres, data.genre);
+  return genre ? { ...data, genre: genre.name } : undefined;
+}
+
+// The names of every sub-genre below a genre, for the genre filter
+export async function loadSubgenreNames(name: string): Promise<string[]> {
+  return subgenreNames(await getGenreRepository().getAll(), name);
+}
+
+// Give every book whose genre is one of the names in `from` the genre `to` instead
+// Removed books move too, so they're right if they're ever restored
+// The books are all saved in one write, then each one that changed gets an
+// audit entry. Returns how many books changed
+export async function relabelBooks(
+  from: string[],
+  to: string,
+  actor: SessionUser | null
+): Promise<number> {
+  const keys = new Set(from.map(genreKey));
+  const updates = await getBookRepository().updateMatching(
+    (book) => keys.has(genreKey(book.genre)) && book.genre !== to,
+    (book) => ({ ...book, genre: to })
+  );
+  for (const { before, saved } of updates) {
+    await recordBookAudit(AuditAction.UPDATED, before, saved, actor);
+  }
+  return updates.length;
+}
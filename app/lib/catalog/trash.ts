@@ -0,0 +1,106 @@
+/**
+ * The rules for the trash - books that have been removed but not deleted yet.
+ * A removed book stays in the trash, where it can be restored, for a number of
+ * days. After that it's purged (deleted for good) the next time the trash is tidied.
+ *
+ * This runs on the server only - it's shared by bookActions and the purge script.
+ */
+
+import { Book } from "../../types/book";
+import { AuditAction } from "../../types/audit";
+import { HoldStatus, ACTIVE_HOLD_STATUSES } from "../../types/hold";
+import { SessionUser } from "../../types/user";
+import {
+  getAssessmentRepository,
+  getBookRepository,
+  getCopyRepository,
+  getCoverStorage,
+  getHoldRepository,
+  getLoanRepository,
+} from "../storage/repositories";
+import { recordBookAudit } from "../audit/bookAudit";
+
+// How many days a removed book stays in the trash before it's purged
+// Set TRASH_RETENTION_DAYS to change it - 0 keeps removed books until someone purges them
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function trashRetentionDays(): number {
+  const value = process.env.TRASH_RETENTION_DAYS;
+  const days = Number(value);
+  return value && Number.isInteger(days) && days >= 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// When a removed book will be purged, or undefined if it's kept until someone purges it
+// Books removed before we recorded the date are never purged automatically -
+// we can't tell how long they've been in the trash
+export function purgeDateFor(book: Book): Date | undefined {
+  const days = trashRetentionDays();
+  if (days === 0 || !book.removedDate) return undefined;
+  const purgeDate = new Date(book.removedDate);
+  purgeDate.setDate(purgeDate.getDate() + days);
+  return purgeDate;
+}
+
+// What purgeRemovedBook did
+export type PurgeOutcome =
+  | { status: "purged"; book: Book }
+  | { status: "on_loan" } // A copy is still out - it waits until the copy comes back
+  | { status: "not_found" }; // There's no removed book with that id
+
+// Is any copy of this book out on a loan that hasn't been closed?
+export async function hasOpenLoans(bookId: string): Promise<boolean> {
+  const loans = await getLoanRepository().getByBook(bookId);
+  return loans.some((loan) => !loan.returnDate);
+}
+
+// Delete a removed book, its copies, their condition history and its cover for good, and record who did it
+// Anyone still waiting for it is taken out of the queue
+// A book with a copy still out on loan isn't purged - deleting the copy would
+// leave a loan that can never be returned
+export async function purgeRemovedBook(
+  bookId: string,
+  actor: SessionUser | null,
+  now: Date = new Date()
+): Promise<PurgeOutcome> {
+  if (await hasOpenLoans(bookId)) return { status: "on_loan" };
+  const book = await getBookRepository().purge(bookId);
+  if (!book) return { status: "not_found" };
+  await getCopyRepository().removeByBook(bookId);
+  await getAssessmentRepository().removeByBook(bookId);
+  if (book.coverId) await getCoverStorage().remove(book.coverId);
+
+  const holdRepository = getHoldRepository();
+  for (const hold of await holdRepository.getByBook(bookId)) {
+    if (ACTIVE_HOLD_STATUSES.includes(hold.status)) {
+      await holdRepository.update(hold.id, (hold) => ({
+        ...hold,
+        status: HoldStatus.CANCELLED,
+        resolvedDate: now,
+      }));
+    }
+  }
+
+  await recordBookAudit(AuditAction.PURGED, book, undefined, actor);
+  return { status: "purged", book };
+}
+
+// Purge every removed book that has been in the trash longer than the retention period
+// Books with a copy still out on loan are skipped until it comes back
+// Returns how many books were purged
+export async function purgeExpiredBooks(
+  now: Date = new Date()
+): Promise<number> {
+  const books = await getBookRepository().getAll();
+  let purged = 0;
+  for (const book of books) {
+    const purgeDate = book.isActive ? undefined : purgeDateFor(book);
+    if (purgeDate && purgeDate <= now) {
+      // null actor - the audit log shows these as done by "system"
+      const outcome = await purgeRemovedBook(book.id, null, now);
+      if (outcome.status === "purged") purged++;
+    }
+  }
+  return purged;
+}
@@ -0,0 +1,62 @@
+/**
+ * The rules for overdue books and the fines they cost.
+ * These are plain functions with no storage, so the report page, the
+ * return flow and the patron ledger all work things out the same way.
+ */
+
+import { Loan } from "../../types/loan";
+
+// How fines are worked out
+export interface FinePolicy {
+  perDayCents: number; // Charged for each day a book is late
+  capCents: number; // The most a single loan can ever cost
+}
+
+// 25 cents a day, never more than $10 for one loan
+// Set FINE_PER_DAY_CENTS and FINE_CAP_CENTS to change them
+const DEFAULT_POLICY: FinePolicy = { perDayCents: 25, capCents: 1000 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read a whole number of cents from the environment, or use the fallback
+function centsFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+// Get the fine policy from the environment
+export function getFinePolicy(): FinePolicy {
+  return {
+    perDayCents: centsFromEnv("FINE_PER_DAY_CENTS", DEFAULT_POLICY.perDayCents),
+    capCents: centsFromEnv("FINE_CAP_CENTS", DEFAULT_POLICY.capCents),
+  };
+}
+
+// How many whole days late a loan is (or was, if it's been returned)
+// Returns 0 for loans that are on time
+export function daysOverdue(loan: Loan, now: Date = new Date()): number {
+  const end = loan.returnDate ?? now;
+  const late = end.getTime() - loan.dueDate.getTime();
+  return late > 0 ? Math.ceil(late / DAY_MS) : 0;
+}
+
+// Is this loan still out and past its due date?
+export function isOverdue(loan: Loan, now: Date = new Date()): boolean {
+  return !loan.returnDate && daysOverdue(loan, now) > 0;
+}
+
+// How much a number of late days costs under a policy
+export function calculateFineCents(
+  daysLate: number,
+  policy: FinePolicy = getFinePolicy()
+): number {
+  return Math.min(daysLate * policy.perDayCents, policy.capCents);
+}
+
+// Show an amount in cents as money, e.g. 125 -> "$1.25"
+export function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * The rules for moving a book's hold queue along.
+ * Holds are on the book, not on one copy - any copy will do. When a copy comes
+ * back and someone is waiting, it goes on the hold shelf for the first patron
+ * in line, who has a few days to pick it up. If they don't, their hold expires
+ * and the copy is kept for the next patron instead.
+ *
+ * This runs on the server only - it's shared by loanActions and holdActions,
+ * and lives outside those files so it can't be called from the browser.
+ */
+
+import { Hold, HoldStatus } from "../../types/hold";
+import {
+  getBookRepository,
+  getCopyRepository,
+  getHoldRepository,
+} from "../storage/repositories";
+
+// How many days a patron has to pick up a book on the hold shelf
+// Set HOLD_PICKUP_DAYS to change it
+const DEFAULT_HOLD_PICKUP_DAYS = 7;
+
+export function holdPickupDays(): number {
+  const days = Number(process.env.HOLD_PICKUP_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_HOLD_PICKUP_DAYS;
+}
+
+// How many of a book's copies its holds are owed, without saving anything - for
+// pages that only show the counts. Ready holds still inside their pickup time are
+// counted, and so are waiting ones, since the next copy on the shelf goes to them.
+// Expiring and promoting holds is left to advanceHoldQueue on the circulation paths
+export function countOwedCopies(holds: Hold[], now: Date = new Date()): number {
+  return holds.filter(
+    (hold) =>
+      hold.status === HoldStatus.WAITING ||
+      (hold.status === HoldStatus.READY &&
+        !(hold.pickupBy && hold.pickupBy <= now))
+  ).length;
+}
+
+// Bring a book's hold queue up to date and return the holds it's being kept for,
+// in queue order - one copy on the hold shelf for each.
+// Holds that weren't picked up in time expire, and while there are copies on the
+// shelf (not checked out) that nobody is being kept, the next patron in line gets one.
+// Returns an empty list when no copies are being kept for anyone.
+export async function advanceHoldQueue(
+  bookId: string,
+  now: Date = new Date()
+): Promise<Hold[]> {
+  const holdRepository = getHoldRepository();
+  const holds = await holdRepository.getByBook(bookId); // Already in queue order
+
+  // Expire any hold that wasn't picked up in time
+  for (const hold of holds) {
+    if (
+      hold.status === HoldStatus.READY &&
+      hold.pickupBy &&
+      hold.pickupBy <= now
+    ) {
+      await holdRepository.update(hold.id, (hold) =>
+        hold.status === HoldStatus.READY
+          ? { ...hold, status: HoldStatus.EXPIRED, resolvedDate: now }
+          : hold
+      );
+      hold.status = HoldStatus.EXPIRED;
+    }
+  }
+
+  const ready = holds.filter((hold) => hold.status === HoldStatus.READY);
+  const waiting = holds.filter((hold) => hold.status === HoldStatus.WAITING);
+  if (waiting.length === 0) return ready;
+
+  // Only copies that are sitting in the library can go on the hold shelf
+  const book = await getBookRepository().getById(bookId);
+  if (!book || !book.isActive) return ready;
+  const onShelf = (await getCopyRepository().getByBook(bookId)).filter(
+    (copy) => copy.isActive && !copy.isCheckedOut
+  ).length;
+
+  const pickupBy = new Date(now);
+  pickupBy.setDate(pickupBy.getDate() + holdPickupDays());
+  for (const next of waiting) {
+    if (ready.length >= onShelf) break; // Every copy on the shelf is spoken for
+    // Leave the hold alone if it was cancelled since we looked
+    const promoted = await holdRepository.update(next.id, (hold) =>
+      hold.status === HoldStatus.WAITING
+        ? { ...hold, status: HoldStatus.READY, readyDate: now, pickupBy }
+        : hold
+    );
+    if (promoted?.status === HoldStatus.READY) ready.push(promoted);
+  }
+  return ready;
+}
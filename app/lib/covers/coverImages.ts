@@ -0,0 +1,58 @@
+/**
+ * Turning an uploaded cover into the images we keep: one at full size for the
+ * book's page and a small thumbnail for the book list. Both are saved as WebP,
+ * whatever was uploaded, so they're small and the browser always knows the type.
+ *
+ * This runs on the server only - it uses sharp to read and resize images.
+ */
+
+import sharp from "sharp";
+import { CoverImages, CoverSize } from "../storage/coverStorage";
+
+// The largest each size can be - covers are shrunk to fit, keeping their shape,
+// and never made bigger than they were uploaded
+export const COVER_DIMENSIONS: Record<
+  CoverSize,
+  { width: number; height: number }
+> = {
+  full: { width: 600, height: 900 },
+  thumbnail: { width: 120, height: 180 },
+};
+
+// The formats sharp must find in the file - a file's type can say anything,
+// so we look at what's really inside it
+const ACCEPTED_FORMATS = ["jpeg", "png", "webp", "gif"];
+
+// Refuse images bigger than this many pixels, so a tiny file that unpacks into
+// an enormous image can't use up the server's memory
+const MAX_INPUT_PIXELS = 40_000_000;
+
+// Make every size of a cover from the uploaded file
+// Returns undefined if the file isn't an image we can read
+export async function createCoverImages(
+  data: Buffer
+): Promise<CoverImages | undefined> {
+  try {
+    const image = sharp(data, { limitInputPixels: MAX_INPUT_PIXELS });
+    const { format } = await image.metadata();
+    if (!format || !ACCEPTED_FORMATS.includes(format)) return undefined;
+
+    // Resize one size, turning photos the right way up first (phones save
+    // the rotation separately from the picture)
+    const resize = (size: CoverSize) =>
+      image
+        .clone()
+        .rotate()
+        .resize({
+          ...COVER_DIMENSIONS[size],
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .webp()
+        .toBuffer();
+
+    return { full: await resize("full"), thumbnail: await resize("thumbnail") };
+  } catch {
+    return undefined; // Broken or too big to open
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Drafts of the book form, kept in the browser's local storage so a half-filled
+ * form survives a closed tab, a reload or a crash.
+ * Each form has its own key - one for a new book, and one per book being edited.
+ *
+ * This only works in the browser (the server has no localStorage), so only call
+ * it from event handlers and effects.
+ */
+
+import { AddBookData } from "../../types/book";
+import { CopyData } from "../../types/copy";
+import { parseAuthorList } from "../catalog/authorNames";
+
+// Everything we keep in a draft
+export interface BookDraft {
+  book: AddBookData;
+  copy?: CopyData; // The first copy's fields, on the add book form
+  version?: number; // The version of the book the edits started from, on the edit form
+  savedAt: string; // When the draft was saved, as an ISO string
+}
+
+// The local storage key for a form's draft
+// bookId is left out for the add book form
+export function bookDraftKey(bookId?: string): string {
+  return `library:book-draft:${bookId ?? "new"}`;
+}
+
+// Read a draft, or undefined if there isn't one (or it can't be read)
+export function loadBookDraft(key: string): BookDraft | undefined {
+  try {
+    const saved = window.localStorage.getItem(key);
+    if (!saved) return undefined;
+    const draft = JSON.parse(saved) as BookDraft;
+    // Ignore anything that doesn't look like one of our drafts
+    if (!draft || typeof draft.book !== "object") return undefined;
+    // Drafts from before books had several authors kept them as one piece of text
+    const { author, ...book } = draft.book as AddBookData & {
+      author?: unknown;
+    };
+    if (!Array.isArray(book.authors) && typeof author === "string") {
+      return { ...draft, book: { ...book, authors: parseAuthorList(author) } };
+    }
+    return draft;
+  } catch {
+    return undefined;
+  }
+}
+
+// Save a draft - if storage is full or turned off, the form still works without one
+export function saveBookDraft(key: string, draft: BookDraft): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(draft));
+  } catch {
+    // Nothing else we can do - drafts are a convenience
+  }
+}
+
+// Throw a draft away, once it's been saved for real or the user discarded it
+export function clearBookDraft(key: string): void {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Nothing else we can do - drafts are a convenience
+  }
+}
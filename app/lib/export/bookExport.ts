@@ -0,0 +1,264 @@
+/**
+ * Writing books out as CSV, JSON or a MARC-like text format, for other systems
+ * and for auditors. Each format is written one book at a time, so the export
+ * route can stream it instead of building the whole file in memory.
+ *
+ * Every date is written the same way: a full ISO 8601 timestamp in UTC
+ * (e.g. 2025-03-01T14:30:00.000Z), never cut down to just the day.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { Book } from "../../types/book";
+import { Copy } from "../../types/copy";
+import { Loan } from "../../types/loan";
+import { param, SearchParamValues } from "../search/bookQuery";
+import { bookAuthors } from "../catalog/authorNames";
+
+// The formats we can export
+export type ExportFormat = "csv" | "json" | "marc";
+
+// Labels, file extensions and content types for each format
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; contentType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", contentType: "text/csv" },
+  json: { label: "JSON", extension: "json", contentType: "application/json" },
+  marc: {
+    label: "MARC-style text",
+    extension: "mrk",
+    contentType: "text/plain",
+  },
+};
+
+// What to put in the export, on top of the search filters
+export interface ExportOptions {
+  format: ExportFormat;
+  includeInactive: boolean; // Removed books and withdrawn copies too, not just the active ones
+  includeLoans: boolean; // Each book's borrowing history
+}
+
+// A book, its copies (in barcode order) and, if they were asked for, its loans (newest first)
+export interface ExportRecord {
+  book: Book;
+  copies: Copy[];
+  loans?: Loan[];
+}
+
+// Read the export options from a URL's search params
+// (?format=json&inactive=1&loans=1) - anything we don't understand gets the default
+export function parseExportOptions(params: SearchParamValues): ExportOptions {
+  const format = param(params, "format");
+  return {
+    format:
+      format && Object.keys(EXPORT_FORMATS).includes(format)
+        ? (format as ExportFormat)
+        : "csv",
+    includeInactive: param(params, "inactive") === "1",
+    includeLoans: param(params, "loans") === "1",
+  };
+}
+
+// Write a date the one way every export uses - empty if there's no date
+export function serializeDate(date: Date | undefined): string {
+  return date ? date.toISOString() : "";
+}
+
+// The book fields in the order they're written
+const BOOK_COLUMNS: (keyof Book)[] = [
+  "id",
+  "title",
+  "author",
+  "authorIds",
+  "isbn",
+  "publishedYear",
+  "genre",
+  "description",
+  "tags",
+  "isActive",
+  "addedDate",
+  "updatedAt",
+  "removedDate",
+  "version",
+];
+
+// Turn any field value into text, with dates in the standard form
+// Lists (the tags and author ids) are separated with semicolons, the way the import reads them
+function valueToText(value: Book[keyof Book] | undefined): string {
+  if (value instanceof Date) return serializeDate(value);
+  if (Array.isArray(value)) return value.join("; ");
+  return value === undefined ? "" : String(value);
+}
+
+// Quote a CSV cell if it has a comma, quote or line break in it
+// Spreadsheets run a cell starting with =, +, - or @ as a formula, so those
+// get a ' in front to make sure they're shown as plain text
+function csvCell(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Where a copy is right now, in a word or two
+function copyStatus(copy: Copy): string {
+  if (!copy.isActive) return "withdrawn";
+  return copy.isCheckedOut ? "checked out" : "available";
+}
+
+// One copy on one line, for the CSV format
+// e.g. "000012 GOOD at Fiction A-F (checked out)"
+function copySummary(copy: Copy): string {
+  const shelf = copy.shelfLocation ? ` at ${copy.shelfLocation}` : "";
+  return `${copy.barcode} ${copy.condition}${shelf} (${copyStatus(copy)})`;
+}
+
+// A book, its copies and its loans as plain JSON, with dates in the standard form
+function toJson(record: ExportRecord, options: ExportOptions) {
+  const book = {
+    ...Object.fromEntries(
+      BOOK_COLUMNS.map((column) => {
+        const value = record.book[column];
+        return [column, value instanceof Date ? serializeDate(value) : value];
+      })
+    ),
+    copies: record.copies.map((copy) => ({
+      id: copy.id,
+      barcode: copy.barcode,
+      condition: copy.condition,
+      shelfLocation: copy.shelfLocation,
+      isCheckedOut: copy.isCheckedOut,
+      isActive: copy.isActive,
+      lastCheckedOutDate: serializeDate(copy.lastCheckedOutDate) || null,
+      addedDate: serializeDate(copy.addedDate),
+    })),
+  };
+  if (!options.includeLoans) return book;
+  return {
+    ...book,
+    loans: (record.loans ?? []).map((loan) => ({
+      id: loan.id,
+      copyId: loan.copyId ?? null,
+      patronId: loan.patronId,
+      borrower: loan.borrower,
+      checkoutDate: serializeDate(loan.checkoutDate),
+      dueDate: serializeDate(loan.dueDate),
+      returnDate: serializeDate(loan.returnDate) || null,
+    })),
+  };
+}
+
+// One loan on one line, for the CSV and MARC formats
+// e.g. "Jane Smith 2025-01-02T10:00:00.000Z to 2025-01-10T09:00:00.000Z (due ...)"
+function loanSummary(loan: Loan): string {
+  return `${loan.borrower} ${serializeDate(loan.checkoutDate)} to ${
+    serializeDate(loan.returnDate) || "not returned"
+  } (due ${serializeDate(loan.dueDate)})`;
+}
+
+// One MARC-style record, in the text form MarcEdit uses (.mrk)
+// Each line is "=TAG  indicators$subfield..." and "\" means a blank indicator
+function marcRecord(record: ExportRecord, options: ExportOptions): string {
+  const { book, copies } = record;
+  // $ starts a subfield, so a literal $ in our data is written as {dollar}
+  // Each field is one line, so line breaks (e.g. in a description) become spaces
+  const text = (value: string | number) =>
+    String(value)
+      .replace(/\$/g, "{dollar}")
+      .replace(/\r\n|[\r\n]/g, " ");
+  const lines = [
+    "=LDR  00000nam a2200000 a 4500",
+    `=001  ${book.id}`,
+    `=020  \\\\$a${text(book.isbn)}`,
+    // 100 is the main author, and 700 each of the others
+    ...bookAuthors(book).map(
+      (author, i) => `=${i === 0 ? "100" : "700"}  1\\$a${text(author.name)}`
+    ),
+    `=245  10$a${text(book.title)}`,
+    `=264  \\1$c${text(book.publishedYear)}`,
+    `=520  \\\\$a${text(book.description)}`,
+    `=655  \\4$a${text(book.genre)}`,
+    // 653 is for uncontrolled index terms - our free-form tags
+    ...book.tags.map((tag) => `=653  \\\\$a${text(tag)}`),
+  ];
+  // 852 is the holdings field - one per copy, with its shelf ($b), barcode ($p),
+  // condition ($x, a staff note) and where it is now ($z)
+  for (const copy of copies) {
+    lines.push(
+      `=852  \\\\$b${text(copy.shelfLocation)}$p${text(copy.barcode)}$x${text(
+        copy.condition
+      )}$z${copyStatus(copy)}`
+    );
+  }
+  // 59X fields are for local notes - we keep the library's own details there
+  const active = copies.filter((copy) => copy.isActive);
+  const out = active.filter((copy) => copy.isCheckedOut).length;
+  lines.push(
+    `=590  \\\\$aStatus: ${
+      book.isActive
+        ? `${active.length - out} of ${active.length} copies available`
+        : "removed"
+    }`,
+    `=591  \\\\$aAdded: ${serializeDate(book.addedDate)}`
+  );
+  if (book.removedDate) {
+    lines.push(`=592  \\\\$aRemoved: ${serializeDate(book.removedDate)}`);
+  }
+  if (options.includeLoans) {
+    for (const loan of record.loans ?? []) {
+      lines.push(`=593  \\\\$aLoan: ${text(loanSummary(loan))}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Write the export one piece at a time
+// The pieces joined together make the whole file
+export function* exportChunks(
+  records: Iterable<ExportRecord>,
+  options: ExportOptions,
+  exportedAt: Date = new Date()
+): Generator<string> {
+  switch (options.format) {
+    case "csv": {
+      const columns = [
+        ...BOOK_COLUMNS,
+        "copies",
+        ...(options.includeLoans ? ["loans"] : []),
+      ];
+      yield columns.join(",") + "\r\n";
+      for (const record of records) {
+        const cells = BOOK_COLUMNS.map((column) =>
+          valueToText(record.book[column])
+        );
+        // All of a book's copies (and loans) go in one cell, separated by semicolons
+        cells.push(record.copies.map(copySummary).join("; "));
+        if (options.includeLoans) {
+          cells.push((record.loans ?? []).map(loanSummary).join("; "));
+        }
+        yield cells.map(csvCell).join(",") + "\r\n";
+      }
+      return;
+    }
+
+    case "json": {
+      yield `{"exportedAt":${JSON.stringify(
+        serializeDate(exportedAt)
+      )},"books":[`;
+      let first = true;
+      for (const record of records) {
+        yield (first ? "\n" : ",\n") + JSON.stringify(toJson(record, options));
+        first = false;
+      }
+      yield "\n]}\n";
+      return;
+    }
+
+    case "marc": {
+      // Records are separated by a blank line
+      for (const record of records) {
+        yield marcRecord(record, options) + "\n\n";
+      }
+      return;
+    }
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Reading a CSV or JSON file of books and matching its columns to our book fields.
+ * Each row becomes a title and one physical copy of it (the condition and
+ * shelf location columns describe the copy).
+ * The import page parses the file in the browser and sends the rows to the server,
+ * which checks every row again (see importActions.ts) before anything is saved.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { AddBookData, BookCondition } from "../../types/book";
+import { CopyData } from "../../types/copy";
+import { parseTagList } from "../validation/bookValidation";
+import { parseAuthorList } from "../catalog/authorNames";
+
+// The file formats we can read
+export type ImportFormat = "csv" | "json";
+
+// One row of the file, keyed by column name
+export type ImportRow = Record<string, unknown>;
+
+// The rows of a file and the column names found in it
+export interface ParsedImport {
+  columns: string[];
+  rows: ImportRow[];
+}
+
+// The fields a column can be mapped to: the book's fields, and the copy's condition
+// and shelf location (barcodes are always handed out by the library)
+export type ImportField = keyof AddBookData | "condition" | "shelfLocation";
+
+// Which column holds each field - a field with no column is left empty
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// The fields a column can be mapped to, with their labels
+export const IMPORT_FIELDS: Record<ImportField, string> = {
+  title: "Title",
+  authors: "Authors",
+  isbn: "ISBN",
+  publishedYear: "Published Year",
+  genre: "Genre",
+  description: "Description",
+  tags: "Tags",
+  condition: "Condition",
+  shelfLocation: "Shelf Location",
+};
+
+// The most rows one import can have - bigger donations can be split into several files
+export const MAX_IMPORT_ROWS = 1000;
+
+// Rows with no condition get this one
+export const DEFAULT_IMPORT_CONDITION = BookCondition.GOOD;
+
+// Split CSV text into rows of cells
+// Handles quoted cells with commas, line breaks and "" (an escaped quote) inside them
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'; // An escaped quote
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++; // Windows line endings
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  // The last line might not end with a line break
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+// Read the text of an import file
+// CSV files need a header row. JSON files can be a list of books, or { "books": [...] }
+// like our own books.json. Throws an Error with a readable message if the file can't be read
+export function parseImportFile(
+  text: string,
+  format: ImportFormat
+): ParsedImport {
+  if (format === "csv") {
+    const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, "")); // Drop Excel's byte order mark
+    if (!header) throw new Error("The file is empty");
+    const columns = header.map((column) => column.trim());
+    const rows = lines.map((cells) =>
+      Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]))
+    );
+    return { columns, rows };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+  const list =
+    typeof data === "object" && data !== null && !Array.isArray(data)
+      ? (data as { books?: unknown }).books
+      : data;
+  if (
+    !Array.isArray(list) ||
+    !list.every((item) => typeof item === "object" && item !== null)
+  ) {
+    throw new Error('The JSON must be a list of books, or { "books": [...] }');
+  }
+  const rows = list as ImportRow[];
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return { columns, rows };
+}
+
+// Guess the format from the file name, or from the text if the name doesn't say
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  if (/\.json$/i.test(fileName)) return "json";
+  if (/\.csv$/i.test(fileName)) return "csv";
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+// Make column names easy to compare: "Published Year", "published_year" -> "publishedyear"
+function simplify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Other names a column is often given for each field
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  title: ["title", "name", "booktitle"],
+  authors: ["authors", "author", "writer", "writers", "by"],
+  isbn: ["isbn", "isbn13", "isbn10"],
+  publishedYear: ["publishedyear", "year", "published", "publicationyear"],
+  genre: ["genre", "category", "subject"],
+  description: ["description", "summary", "synopsis", "notes"],
+  tags: ["tags", "tag", "keywords", "labels"],
+  condition: ["condition", "state"],
+  shelfLocation: ["shelflocation", "shelf", "location", "callnumber"],
+};
+
+// Match the file's columns to our fields by name, as a starting point for the user
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+    const column = columns.find((column) =>
+      COLUMN_ALIASES[field].includes(simplify(column))
+    );
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+// Read a cell as trimmed text (numbers in JSON files become text)
+function text(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+// Read one field of a row using the mapping
+function fieldValue(
+  row: ImportRow,
+  mapping: ColumnMapping,
+  field: ImportField
+): string {
+  const column = mapping[field];
+  return column === undefined ? "" : text(row[column]);
+}
+
+// Read the tags of a row - a list in a JSON file, or text like "book club; signed"
+function tagsValue(row: ImportRow, mapping: ColumnMapping): string[] {
+  const column = mapping.tags;
+  const cell = column === undefined ? undefined : row[column];
+  if (Array.isArray(cell)) {
+    return cell.filter((tag): tag is string => typeof tag === "string");
+  }
+  return parseTagList(text(cell));
+}
+
+// Read the authors of a row - a list in a JSON file, or text like "Terry Pratchett; Neil Gaiman"
+// (not separated by commas, because "Fitzgerald, F. Scott" is one author)
+function authorsValue(row: ImportRow, mapping: ColumnMapping): string[] {
+  const column = mapping.authors;
+  const cell = column === undefined ? undefined : row[column];
+  if (Array.isArray(cell)) {
+    return cell.filter(
+      (author): author is string => typeof author === "string"
+    );
+  }
+  return parseAuthorList(text(cell));
+}
+
+// Build the book data for one row using the mapping
+// The result still has to go through validateBookData - this only converts types
+// (the year becomes a number, and the authors and tags lists)
+export function rowToBookData(
+  row: ImportRow,
+  mapping: ColumnMapping
+): Record<keyof AddBookData, unknown> {
+  const value = (field: ImportField) => fieldValue(row, mapping, field);
+  const year = value("publishedYear");
+  return {
+    title: value("title"),
+    authors: authorsValue(row, mapping),
+    isbn: value("isbn"),
+    publishedYear: year === "" ? undefined : Number(year),
+    genre: value("genre"),
+    description: value("description"),
+    tags: tagsValue(row, mapping),
+  };
+}
+
+// Build the data for the row's copy using the mapping
+// The result still has to go through validateCopyData - the condition is upper-cased,
+// and the barcode is left empty so the next free one is handed out
+export function rowToCopyData(
+  row: ImportRow,
+  mapping: ColumnMapping
+): Record<keyof CopyData, unknown> {
+  const value = (field: ImportField) => fieldValue(row, mapping, field);
+  return {
+    barcode: "",
+    condition: value("condition").toUpperCase() || DEFAULT_IMPORT_CONDITION,
+    shelfLocation: value("shelfLocation"),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Reading a catalog dump - a CSV or JSON file of book records from another
+ * catalog - into records for the offline metadata provider.
+ * Columns are matched to our fields by name, the same way the book import does it
+ * (so "Title", "book_title" and "name" all work), and ISBNs are stored as ISBN-13s.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { MetadataRecord } from "../../types/metadata";
+import {
+  detectFormat,
+  guessMapping,
+  parseImportFile,
+  rowToBookData,
+} from "../import/bookImport";
+import { MAX_LENGTHS, toIsbn13 } from "../validation/bookValidation";
+import { AUTHOR_SEPARATOR } from "../catalog/authorNames";
+
+// What came out of a dump
+export interface ParsedCatalogDump {
+  records: MetadataRecord[];
+  skipped: number; // Rows with no valid ISBN or no title
+}
+
+// A text field of a row, cut down to the length our own books allow
+// Empty text becomes undefined - the source doesn't know it
+function optionalText(value: unknown, maxLength: number): string | undefined {
+  return typeof value === "string" && value !== ""
+    ? value.slice(0, maxLength)
+    : undefined;
+}
+
+// Read the text of a dump file
+// Throws an Error with a readable message if the file can't be read at all
+export function parseCatalogDump(
+  text: string,
+  fileName: string
+): ParsedCatalogDump {
+  const { columns, rows } = parseImportFile(text, detectFormat(fileName, text));
+  const mapping = guessMapping(columns);
+  if (!mapping.isbn || !mapping.title) {
+    throw new Error("The dump needs an ISBN column and a title column");
+  }
+
+  const records: MetadataRecord[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const data = rowToBookData(row, mapping);
+    const isbn =
+      typeof data.isbn === "string" ? toIsbn13(data.isbn) : undefined;
+    const title = optionalText(data.title, MAX_LENGTHS.title);
+    if (!isbn || !title) {
+      skipped++;
+      continue;
+    }
+    const year = data.publishedYear;
+    records.push({
+      isbn,
+      title,
+      // Several authors are kept as one piece of text, the way books keep them
+      author: optionalText(
+        (data.authors as string[]).join(AUTHOR_SEPARATOR),
+        MAX_LENGTHS.author
+      ),
+      publishedYear:
+        typeof year === "number" && Number.isInteger(year) ? year : undefined,
+      genre: optionalText(data.genre, MAX_LENGTHS.genre),
+      description: optionalText(data.description, MAX_LENGTHS.description),
+    });
+  }
+  return { records, skipped };
+}
@@ -0,0 +1,89 @@
+/**
+ * Comparing what's in the book form with what a metadata provider found:
+ * filling the add book form in from a lookup, and finding the fields where
+ * our record differs from the catalog on the edit form.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { AddBookData } from "../../types/book";
+import { BookMetadata } from "../../types/metadata";
+import { toIsbn13 } from "../validation/bookValidation";
+import {
+  AUTHOR_SEPARATOR,
+  authorKey,
+  parseAuthorList,
+} from "../catalog/authorNames";
+
+// The book fields a lookup can fill in (the ISBN is what we looked up, so it stays as typed)
+// "author" fills in the book's list of authors
+export const METADATA_FIELDS = [
+  "title",
+  "author",
+  "publishedYear",
+  "genre",
+  "description",
+] as const;
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+
+// The catalog's value for each field that differs from ours, ready to show
+export type MetadataMismatches = Partial<Record<MetadataField, string>>;
+
+// Make text easy to compare: "  The  Hobbit" and "the hobbit" are the same
+function simplify(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// The book's value for a field, as text to compare with the catalog's
+// The catalog keeps every author in one piece of text, so the book's are joined up the same way
+function bookValue(book: AddBookData, field: MetadataField): string {
+  return field === "author"
+    ? book.authors.map(authorKey).join(AUTHOR_SEPARATOR)
+    : simplify(String(book[field]));
+}
+
+// Copy the catalog's values into the book
+// Only the fields listed are copied, and only if the catalog has a value for them
+export function fillFromMetadata(
+  book: AddBookData,
+  metadata: BookMetadata,
+  fields: readonly MetadataField[] = METADATA_FIELDS
+): AddBookData {
+  const filled = { ...book };
+  for (const field of fields) {
+    const value = metadata[field];
+    if (value === undefined) continue;
+    if (field === "author") {
+      filled.authors = parseAuthorList(String(value));
+    } else {
+      // Each field has the same type in both, TypeScript just can't tell
+      (filled as Record<Exclude<MetadataField, "author">, unknown>)[field] =
+        value;
+    }
+  }
+  return filled;
+}
+
+// Find the fields where the book differs from the catalog
+// Fields the catalog doesn't know aren't flagged, and neither is anything if the
+// book's ISBN has been changed since the lookup - the catalog is about a different book
+export function findMismatches(
+  book: AddBookData,
+  metadata: BookMetadata
+): MetadataMismatches {
+  const mismatches: MetadataMismatches = {};
+  if (toIsbn13(book.isbn) !== metadata.isbn) return mismatches;
+
+  for (const field of METADATA_FIELDS) {
+    const theirs = metadata[field];
+    if (theirs === undefined) continue;
+    const theirValue =
+      field === "author"
+        ? parseAuthorList(String(theirs)).map(authorKey).join(AUTHOR_SEPARATOR)
+        : simplify(String(theirs));
+    if (bookValue(book, field) !== theirValue) {
+      mismatches[field] = String(theirs);
+    }
+  }
+  return mismatches;
+}
@@ -0,0 +1,18 @@
+/**
+ * A MetadataProvider is somewhere we can look up a book's details by its ISBN,
+ * so the add book form can fill itself in and the edit form can point out
+ * where our record differs.
+ * The app ships with an offline provider that reads a catalog dump from disk
+ * (see offlineMetadataProvider.ts). Which provider is used is decided in providers.ts,
+ * so a remote one (an online catalog service, say) can be added there later.
+ */
+
+import { BookMetadata } from "../../types/metadata";
+
+// Every provider has to provide these
+export interface MetadataProvider {
+  name: string; // Shown to staff next to what it found, e.g. "offline catalog"
+  // Find the book with this ISBN-13 (digits only), or undefined if the provider doesn't know it
+  // Providers that can fail (e.g. over the network) should throw, not return undefined
+  lookup(isbn13: string): Promise<BookMetadata | undefined>;
+}
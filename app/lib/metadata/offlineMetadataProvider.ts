@@ -0,0 +1,63 @@
+/**
+ * The offline metadata provider - it looks ISBNs up in a catalog dump kept in
+ * a JSON file, e.g. { "records": [...] }, so it works without a network connection.
+ * The app comes with a small dump in app/data/metadata.json, and bigger ones
+ * can be added with: npm run metadata:import -- path/to/dump.csv
+ */
+
+import { MetadataRecord } from "../../types/metadata";
+import { createJsonFileStore } from "../storage/jsonFileStore";
+import { MetadataProvider } from "./metadataProvider";
+
+// What staff see as the source of what the lookup found
+const PROVIDER_NAME = "offline catalog";
+
+// The offline provider can also take in new records from a dump
+export interface OfflineMetadataProvider extends MetadataProvider {
+  // Add records to the catalog - a record for an ISBN it already has replaces the old one
+  importRecords(
+    records: MetadataRecord[]
+  ): Promise<{ added: number; replaced: number }>;
+}
+
+// Create an offline provider for the catalog dump at filePath
+export function createOfflineMetadataProvider(
+  filePath: string
+): OfflineMetadataProvider {
+  // Records are saved just as they are - there are no dates to convert
+  const store = createJsonFileStore<MetadataRecord, MetadataRecord>(filePath, {
+    key: "records",
+    fromStored: (record) => record,
+    toStored: (record) => record,
+  });
+
+  return {
+    name: PROVIDER_NAME,
+
+    async lookup(isbn13) {
+      // The file is read every time, so a fresh import is picked up straight away
+      const record = (await store.read()).find(
+        (record) => record.isbn === isbn13
+      );
+      return record ? { ...record, source: PROVIDER_NAME } : undefined;
+    },
+
+    async importRecords(records) {
+      return store.mutate((existing) => {
+        let added = 0;
+        let replaced = 0;
+        for (const record of records) {
+          const index = existing.findIndex((item) => item.isbn === record.isbn);
+          if (index === -1) {
+            existing.push(record);
+            added++;
+          } else {
+            existing[index] = record;
+            replaced++;
+          }
+        }
+        return { added, replaced };
+      });
+    },
+  };
+}
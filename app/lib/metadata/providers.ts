@@ -0,0 +1,55 @@
+/**
+ * Picks which metadata provider ISBN lookups use, based on environment variables.
+ * METADATA_PROVIDER chooses the provider - only "offline" for now.
+ * METADATA_CATALOG_PATH can point the offline provider at a different catalog dump.
+ *
+ * To plug in a remote provider later, write a createXxxMetadataProvider() that
+ * implements MetadataProvider and add it to the switch in getMetadataProvider().
+ */
+
+import path from "path";
+import type { MetadataProvider } from "./metadataProvider";
+import {
+  createOfflineMetadataProvider,
+  OfflineMetadataProvider,
+} from "./offlineMetadataProvider";
+
+// The providers we know how to create
+export type MetadataProviderType = "offline";
+
+// Default location of the offline catalog dump
+export const DEFAULT_METADATA_CATALOG_PATH = path.join(
+  process.cwd(),
+  "app/data/metadata.json"
+);
+
+// Work out which provider to use from the environment
+// METADATA_PROVIDER can only be "offline" (the default) for now
+export function getMetadataProviderType(): MetadataProviderType {
+  const provider = (process.env.METADATA_PROVIDER || "offline").toLowerCase();
+  if (provider !== "offline") {
+    throw new Error(`Unknown METADATA_PROVIDER "${provider}". Use "offline".`);
+  }
+  return provider;
+}
+
+// We only want one of each provider per server process, so we keep them here once created
+let offlineProvider: OfflineMetadataProvider | null = null;
+
+// The offline provider - the import script uses it directly, whichever provider lookups use
+export function getOfflineMetadataProvider(): OfflineMetadataProvider {
+  if (!offlineProvider) {
+    offlineProvider = createOfflineMetadataProvider(
+      process.env.METADATA_CATALOG_PATH || DEFAULT_METADATA_CATALOG_PATH
+    );
+  }
+  return offlineProvider;
+}
+
+// The provider ISBN lookups use
+export function getMetadataProvider(): MetadataProvider {
+  switch (getMetadataProviderType()) {
+    case "offline":
+      return getOfflineMetadataProvider();
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Searching, filtering, sorting and paging a list of books.
+ * A BookQuery describes what the user asked for. On the /books page it lives in
+ * the URL (e.g. /books?q=tolkien&genre=Fantasy&page=2), so a filtered view can be
+ * bookmarked or shared - parseBookQuery and toSearchParams convert between the two.
+ * Filtering by a genre also finds the books in its sub-genres - the caller looks
+ * those up in the genre tree and passes their names in.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { Book, BookCondition } from "../../types/book";
+import { CopySummary } from "../../types/copy";
+import { isBookCondition } from "../validation/bookValidation";
+import { genreKey } from "../catalog/genreTree";
+
+// Where a book's copies are right now
+// A book with copies in more than one place matches more than one status
+export type BookStatusFilter = "available" | "checked_out" | "on_hold_shelf";
+
+// The orders the list can be shown in
+export type BookSort =
+  | "title"
+  | "author"
+  | "newest" // Most recently published first
+  | "oldest" // Earliest published first
+  | "recently_added"; // Most recently added to the library first
+
+// Labels for the sort dropdown, in the order they should be offered
+export const BOOK_SORT_OPTIONS: Record<BookSort, string> = {
+  title: "Title (A-Z)",
+  author: "Author (A-Z)",
+  newest: "Newest published",
+  oldest: "Oldest published",
+  recently_added: "Recently added",
+};
+
+// Labels for the status dropdown
+export const BOOK_STATUS_OPTIONS: Record<BookStatusFilter, string> = {
+  available: "Available",
+  checked_out: "Checked Out",
+  on_hold_shelf: "On Hold Shelf",
+};
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Everything a search can ask for - every field is optional
+export interface BookQuery {
+  q?: string; // Text to look for in the title, author, ISBN, genre or tags
+  genre?: string; // The genre, or any of its sub-genres
+  tag?: string; // Books with this tag (case doesn't matter)
+  condition?: BookCondition; // At least one copy is in this condition
+  status?: BookStatusFilter;
+  yearRange?: { from?: number; to?: number }; // Published between these years (inclusive)
+  sort?: BookSort; // Defaults to "title"
+  page?: number; // Starts at 1
+  pageSize?: number; // Defaults to DEFAULT_PAGE_SIZE
+}
+
+// One page of search results
+export interface BookSearchResult {
+  books: Book[]; // The books on this page
+  total: number; // How many books matched altogether
+  page: number; // The page we're on (moved back if it was past the end)
+  pageSize: number;
+  pageCount: number; // How many pages there are (at least 1)
+}
+
+// The values in a URL's search params, as Next.js hands them to a page
+export type SearchParamValues = Record<string, string | string[] | undefined>;
+
+// Get a single value from the search params (the first one if it's repeated)
+export function param(
+  params: SearchParamValues,
+  name: string
+): string | undefined {
+  const value = params[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+// Turn a param into a whole number, or undefined if it isn't one
+export function intParam(
+  params: SearchParamValues,
+  name: string
+): number | undefined {
+  const value = Number(param(params, name));
+  return Number.isInteger(value) ? value : undefined;
+}
+
+// Build a BookQuery from a URL's search params
+// Anything that isn't a value we understand is ignored rather than reported,
+// because people edit URLs by hand
+export function parseBookQuery(params: SearchParamValues): BookQuery {
+  const condition = param(params, "condition");
+  const status = param(params, "status");
+  const sort = param(params, "sort");
+  const from = intParam(params, "yearFrom");
+  const to = intParam(params, "yearTo");
+
+  return {
+    q: param(params, "q"),
+    genre: param(params, "genre"),
+    tag: param(params, "tag"),
+    condition: isBookCondition(condition) ? condition : undefined,
+    status:
+      status && Object.keys(BOOK_STATUS_OPTIONS).includes(status)
+        ? (status as BookStatusFilter)
+        : undefined,
+    yearRange:
+      from !== undefined || to !== undefined ? { from, to } : undefined,
+    sort:
+      sort && Object.keys(BOOK_SORT_OPTIONS).includes(sort)
+        ? (sort as BookSort)
+        : undefined,
+    page: intParam(params, "page"),
+    pageSize: intParam(params, "pageSize"),
+  };
+}
+
+// Turn a BookQuery back into search params, for links like "next page"
+// Empty fields are left out to keep the URL short
+export function toSearchParams(query: BookQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  if (query.genre) params.set("genre", query.genre);
+  if (query.tag) params.set("tag", query.tag);
+  if (query.condition) params.set("condition", query.condition);
+  if (query.status) params.set("status", query.status);
+  if (query.yearRange?.from !== undefined) {
+    params.set("yearFrom", String(query.yearRange.from));
+  }
+  if (query.yearRange?.to !== undefined) {
+    params.set("yearTo", String(query.yearRange.to));
+  }
+  if (query.sort) params.set("sort", query.sort);
+  if (query.page && query.page > 1) params.set("page", String(query.page));
+  if (query.pageSize) params.set("pageSize", String(query.pageSize));
+  return params;
+}
+
+// Does a book's copies match the status filter?
+// "checked_out" means every copy is out, so there's nothing to borrow or pick up
+function hasStatus(summary: CopySummary, status: BookStatusFilter): boolean {
+  switch (status) {
+    case "available":
+      return summary.available > 0;
+    case "on_hold_shelf":
+      return summary.onHoldShelf > 0;
+    case "checked_out":
+      return summary.total > 0 && summary.available + summary.onHoldShelf === 0;
+  }
+}
+
+// What we count for a book that has no copies yet
+const NO_COPIES: CopySummary = {
+  total: 0,
+  available: 0,
+  onHoldShelf: 0,
+  conditions: [],
+};
+
+// Does the book match every filter in the query?
+// genres is the genre filter and the names of its sub-genres
+function matches(
+  book: Book,
+  query: BookQuery,
+  summary: CopySummary,
+  genres: Set<string>
+): boolean {
+  if (query.q) {
+    const text = query.q.toLowerCase();
+    const fields = [
+      book.title,
+      book.author,
+      book.isbn,
+      book.genre,
+      ...book.tags,
+    ];
+    if (!fields.some((field) => field.toLowerCase().includes(text))) {
+      return false;
+    }
+  }
+  if (query.genre && !genres.has(genreKey(book.genre))) return false;
+  if (
+    query.tag &&
+    !book.tags.some((tag) => tag.toLowerCase() === query.tag?.toLowerCase())
+  ) {
+    return false;
+  }
+  if (query.condition && !summary.conditions.includes(query.condition)) {
+    return false;
+  }
+  if (query.status && !hasStatus(summary, query.status)) return false;
+  const { from, to } = query.yearRange ?? {};
+  if (from !== undefined && book.publishedYear < from) return false;
+  if (to !== undefined && book.publishedYear > to) return false;
+  return true;
+}
+
+// Compare two books for the chosen sort order
+// Ties fall back to the title so the order is always the same
+function compareBooks(a: Book, b: Book, sort: BookSort): number {
+  const byTitle = a.title.localeCompare(b.title, undefined, {
+    sensitivity: "base",
+  });
+  switch (sort) {
+    case "author":
+      return (
+        a.author.localeCompare(b.author, undefined, { sensitivity: "base" }) ||
+        byTitle
+      );
+    case "newest":
+      return b.publishedYear - a.publishedYear || byTitle;
+    case "oldest":
+      return a.publishedYear - b.publishedYear || byTitle;
+    case "recently_added":
+      return b.addedDate.getTime() - a.addedDate.getTime() || byTitle;
+    default:
+      return byTitle;
+  }
+}
+
+// Filter and sort a list of books, without splitting it into pages
+// (the export uses this to get every matching book)
+export function filterBooks(
+  books: Book[],
+  query: BookQuery,
+  copySummaries: Record<string, CopySummary> = {},
+  subgenres: string[] = []
+): Book[] {
+  const sort = query.sort ?? "title";
+  const genres = new Set(
+    query.genre ? [query.genre, ...subgenres].map(genreKey) : []
+  );
+  return books
+    .filter((book) =>
+      matches(book, query, copySummaries[book.id] ?? NO_COPIES, genres)
+    )
+    .sort((a, b) => compareBooks(a, b, sort));
+}
+
+// Filter, sort and page a list of books
+// copySummaries counts each book's copies, keyed by book id (for the condition and status filters)
+// subgenres are the names of the genre filter's sub-genres, whose books match it too
+export function queryBooks(
+  books: Book[],
+  query: BookQuery,
+  copySummaries: Record<string, CopySummary> = {},
+  subgenres: string[] = []
+): BookSearchResult {
+  const pageSize = Math.min(
+    Math.max(query.pageSize ?? DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+
+  const matching = filterBooks(books, query, copySummaries, subgenres);
+
+  const total = matching.length;
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+  // Asking for a page past the end shows the last page instead of nothing
+  const page = Math.min(Math.max(query.page ?? 1, 1), pageCount);
+  const start = (page - 1) * pageSize;
+
+  return {
+    books: matching.slice(start, start + pageSize),
+    total,
+    page,
+    pageSize,
+    pageCount,
+  };
+}
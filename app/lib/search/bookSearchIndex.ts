@@ -0,0 +1,67 @@
+/**
+ * The full-text index of the library's books.
+ * It's built from the book repository the first time someone searches, and then
+ * kept up to date by the book actions (addBook, updateBook and so on) calling
+ * indexBook whenever they save a book, so searches never have to reread the store.
+ *
+ * This runs on the server only.
+ */
+
+import { Book } from "../../types/book";
+import { getBookRepository } from "../storage/repositories";
+import { createTextIndex, TextIndex } from "./textIndex";
+
+// The fields we search, and how much a match in each one counts
+const BOOK_FIELD_WEIGHTS = { title: 3, author: 2, description: 1 };
+type BookField = keyof typeof BOOK_FIELD_WEIGHTS;
+
+// The index, once it has started being built
+// We keep the promise (not the index) so two searches at once don't build it twice
+let indexPromise: Promise<TextIndex<BookField>> | null = null;
+
+// The text of a book that goes into the index
+function toDocument(book: Book) {
+  return {
+    id: book.id,
+    fields: {
+      title: book.title,
+      author: book.author,
+      description: book.description,
+    },
+  };
+}
+
+// Build the index from every active book
+async function buildIndex(): Promise<TextIndex<BookField>> {
+  const index = createTextIndex(BOOK_FIELD_WEIGHTS);
+  for (const book of await getBookRepository().getActive()) {
+    index.add(toDocument(book));
+  }
+  return index;
+}
+
+// Get the book index, building it the first time
+export function getBookSearchIndex(): Promise<TextIndex<BookField>> {
+  if (!indexPromise) {
+    indexPromise = buildIndex();
+    // If building fails, try again on the next search instead of failing forever
+    indexPromise.catch(() => {
+      indexPromise = null;
+    });
+  }
+  return indexPromise;
+}
+
+// Bring a book's entry up to date after it was saved
+// Removed (inactive) books are taken out of the index so they stop showing up
+export async function indexBook(book: Book): Promise<void> {
+  // If the index hasn't been built yet there's nothing to update -
+  // it will read the saved book when it is built
+  if (!indexPromise) return;
+  const index = await indexPromise;
+  if (book.isActive) {
+    index.add(toDocument(book));
+  } else {
+    index.remove(book.id);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * A small full-text search index that lives in memory.
+ * It's an "inverted index": for every word it remembers which documents contain it
+ * and how often, so a search only has to look at the documents that share a word
+ * with the query instead of reading every document.
+ *
+ * - Text is split into words, lowercased and has accents removed ("Brontë" -> "bronte")
+ * - Every query word must match, either the whole word or the start of one ("tolk" finds "Tolkien")
+ * - Results are ranked: rare words, whole-word matches and matches in heavier fields score higher
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+// Put text into a form where "Émile", "EMILE" and "emile" are all the same
+// NFKD splits accented letters into the letter plus a separate accent mark,
+// and then we throw the marks away
+export function foldText(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+// Letters and digits make up words - everything else separates them
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Split text into folded words
+export function tokenize(text: string): string[] {
+  return foldText(text).match(WORD) ?? [];
+}
+
+// A piece of highlighted text - match is true for the words that matched the query
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Split text into pieces so the words that match the query can be highlighted
+// The pieces join back together into exactly the original text
+export function highlight(text: string, query: string): HighlightPart[] {
+  const terms = tokenize(query);
+  const parts: HighlightPart[] = [];
+  let last = 0;
+
+  for (const word of text.matchAll(WORD)) {
+    const folded = foldText(word[0]);
+    if (!terms.some((term) => folded.startsWith(term))) continue;
+    if (word.index > last) {
+      parts.push({ text: text.slice(last, word.index), match: false });
+    }
+    parts.push({ text: word[0], match: true });
+    last = word.index + word[0].length;
+  }
+  if (last < text.length) {
+    parts.push({ text: text.slice(last), match: false });
+  }
+  return parts;
+}
+
+// One search result - the id of the matching document and how well it matched
+export interface TextSearchHit {
+  id: string;
+  score: number;
+}
+
+// A document to index: its id, and the text of each field
+export interface TextDocument<Field extends string> {
+  id: string;
+  fields: Record<Field, string>;
+}
+
+export interface TextIndex<Field extends string> {
+  add(document: TextDocument<Field>): void; // Add a document, replacing any with the same id
+  remove(id: string): void; // Take a document out of the index
+  search(query: string, limit?: number): TextSearchHit[]; // Best matches first
+  readonly size: number; // How many documents are indexed
+}
+
+// A word that only matches the start of a longer word counts for less
+// than a whole-word match
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+// Create an empty index
+// weights says how much a match in each field counts, e.g. { title: 3, description: 1 }
+export function createTextIndex<Field extends string>(
+  weights: Record<Field, number>
+): TextIndex<Field> {
+  // word -> (document id -> weighted number of times the word appears in it)
+  const postings = new Map<string, Map<string, number>>();
+  // document id -> the words it contains, so it can be removed again
+  const documentWords = new Map<string, Set<string>>();
+
+  function remove(id: string) {
+    const words = documentWords.get(id);
+    if (!words) return;
+    for (const word of words) {
+      const documents = postings.get(word);
+      documents?.delete(id);
+      if (documents?.size === 0) postings.delete(word);
+    }
+    documentWords.delete(id);
+  }
+
+  function add({ id, fields }: TextDocument<Field>) {
+    remove(id);
+    const words = new Set<string>();
+    for (const field of Object.keys(weights) as Field[]) {
+      for (const word of tokenize(fields[field] ?? "")) {
+        const documents = postings.get(word) ?? new Map<string, number>();
+        documents.set(id, (documents.get(id) ?? 0) + weights[field]);
+        postings.set(word, documents);
+        words.add(word);
+      }
+    }
+    documentWords.set(id, words);
+  }
+
+  // Score every document that contains a word starting with term
+  // Rarer words are worth more (this is the "inverse document frequency" idea)
+  function scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const [word, documents] of postings) {
+      if (!word.startsWith(term)) continue;
+      const rarity = Math.log(1 + documentWords.size / documents.size);
+      const matchWeight = word === term ? 1 : PREFIX_MATCH_WEIGHT;
+      for (const [id, count] of documents) {
+        scores.set(id, (scores.get(id) ?? 0) + count * rarity * matchWeight);
+      }
+    }
+    return scores;
+  }
+
+  function search(query: string, limit = 20): TextSearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    // Start with the documents matching the first word, then keep only
+    // the ones that also match each of the other words
+    let totals: Map<string, number> | null = null;
+    for (const term of terms) {
+      const scores = scoreTerm(term);
+      const next = new Map<string, number>();
+      for (const [id, score] of scores) {
+        if (totals === null) next.set(id, score);
+        else if (totals.has(id)) next.set(id, totals.get(id)! + score);
+      }
+      totals = next;
+      if (totals.size === 0) break;
+    }
+
+    return [...(totals ?? [])]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  return {
+    add,
+    remove,
+    search,
+    get size() {
+      return documentWords.size;
+    },
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * The numbers on the home page dashboard: how big the collection is, what's
+ * out right now, what gets borrowed and when books were added.
+ * The date range lives in the URL (e.g. /?from=2025-01-01&to=2025-06-30),
+ * like the filters on /books and /admin/audit.
+ *
+ * Nothing in here touches storage, so it's safe to use on the server or in the browser.
+ */
+
+import { Book, BookCondition } from "../../types/book";
+import { Copy } from "../../types/copy";
+import { Loan } from "../../types/loan";
+import { isDay } from "../audit/auditQuery";
+import { param, SearchParamValues, toSearchParams } from "../search/bookQuery";
+
+// How many of the most borrowed titles to list
+export const MOST_BORROWED_LIMIT = 10;
+
+// The additions chart shows at most this many months (the latest ones)
+export const MAX_CHART_MONTHS = 60;
+
+// Dates outside these years can't be in the library's records, so they're ignored
+export const MIN_STATS_YEAR = 1900;
+export const MAX_STATS_YEAR = 2100;
+
+// The days the borrowing and additions figures cover - both are optional
+export interface StatsRange {
+  from?: string; // The first day, as YYYY-MM-DD
+  to?: string; // The last day, as YYYY-MM-DD (inclusive)
+}
+
+// One bar of a chart: what it's for, how many, and where clicking it goes
+export interface CountRow {
+  label: string;
+  count: number;
+  href?: string;
+}
+
+// Everything the dashboard shows
+export interface LibraryStats {
+  titleCount: number; // Books in the catalog (not counting removed ones)
+  copyCount: number; // Their copies that can circulate
+  checkedOutCount: number; // Copies out on loan right now
+  checkedOutPercent: number; // ...as a whole number percentage of copyCount
+  byGenre: CountRow[]; // Titles in each genre, biggest first
+  byCondition: CountRow[]; // Copies in each condition, best first
+  loanCount: number; // Loans made in the date range
+  mostBorrowed: CountRow[]; // The titles borrowed most in the date range
+  neverBorrowed: Book[]; // Titles nobody borrowed in the date range, by title
+  additionsByMonth: CountRow[]; // Titles added each month in the date range, oldest first
+}
+
+// Is this a YYYY-MM-DD day between MIN_STATS_YEAR and MAX_STATS_YEAR?
+function isStatsDay(value: string | undefined): value is string {
+  if (!isDay(value)) return false;
+  const year = Number(value.slice(0, 4));
+  return year >= MIN_STATS_YEAR && year <= MAX_STATS_YEAR;
+}
+
+// Build a StatsRange from a URL's search params
+// Dates we don't understand are ignored, like on the /books page
+export function parseStatsRange(params: SearchParamValues): StatsRange {
+  const from = param(params, "from");
+  const to = param(params, "to");
+  return {
+    from: isStatsDay(from) ? from : undefined,
+    to: isStatsDay(to) ? to : undefined,
+  };
+}
+
+// Is a date inside the range? Days are compared in UTC, the way dates are saved
+function inRange(date: Date, range: StatsRange): boolean {
+  const day = date.toISOString().slice(0, 10);
+  if (range.from && day < range.from) return false;
+  if (range.to && day > range.to) return false;
+  return true;
+}
+
+// Count how many times each key comes up
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// "2025-03" -> "Mar 2025"
+function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Every month from first to last (both "YYYY-MM"), so months with nothing added still get a bar
+// Counts back from the last month, so there are never more than MAX_CHART_MONTHS
+function monthsBetween(first: string, last: string): string[] {
+  const months: string[] = [];
+  let year = Number(last.slice(0, 4));
+  let month = Number(last.slice(5, 7));
+  while (months.length < MAX_CHART_MONTHS) {
+    const current = `${year}-${String(month).padStart(2, "0")}`;
+    if (current < first) break;
+    months.unshift(current);
+    month--;
+    if (month === 0) {
+      month = 12;
+      year--;
+    }
+  }
+  return months;
+}
+
+// Work out the dashboard numbers
+// Totals and what's checked out are as of now; the date range only applies to
+// the borrowing figures and the additions chart
+export function computeLibraryStats(
+  books: Book[],
+  copies: Copy[],
+  loans: Loan[],
+  range: StatsRange,
+  now: Date = new Date()
+): LibraryStats {
+  // Removed books and withdrawn copies aren't part of the collection any more
+  const activeBooks = books.filter((book) => book.isActive);
+  const activeIds = new Set(activeBooks.map((book) => book.id));
+  const activeCopies = copies.filter(
+    (copy) => copy.isActive && activeIds.has(copy.bookId)
+  );
+  const checkedOutCount = activeCopies.filter(
+    (copy) => copy.isCheckedOut
+  ).length;
+
+  const genres = countBy(activeBooks, (book) => book.genre);
+  const byGenre = [...genres.entries()]
+    .map(([genre, count]) => ({
+      label: genre,
+      count,
+      href: `/books?${toSearchParams({ genre })}`,
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  // Destroyed copies are always withdrawn, so they never show up here
+  const conditions = countBy(activeCopies, (copy) => copy.condition);
+  const byCondition = Object.values(BookCondition)
+    .filter((condition) => condition !== BookCondition.DESTROYED)
+    .map((condition) => ({
+      label: condition,
+      count: conditions.get(condition) ?? 0,
+      href: `/books?${toSearchParams({ condition })}`,
+    }));
+
+  // Borrowing in the date range
+  const rangeLoans = loans.filter((loan) => inRange(loan.checkoutDate, range));
+  const borrowed = countBy(rangeLoans, (loan) => loan.bookId);
+  const mostBorrowed = activeBooks
+    .filter((book) => borrowed.has(book.id))
+    .map((book) => ({
+      label: book.title,
+      count: borrowed.get(book.id) ?? 0,
+      href: `/books/${book.id}`,
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, MOST_BORROWED_LIMIT);
+  const neverBorrowed = activeBooks
+    .filter((book) => !borrowed.has(book.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  // Additions per month - from the start of the range (or the first addition)
+  // to the end of the range (or this month)
+  const added = activeBooks.filter((book) => inRange(book.addedDate, range));
+  const perMonth = countBy(added, (book) =>
+    book.addedDate.toISOString().slice(0, 7)
+  );
+  const firstMonth = range.from?.slice(0, 7) ?? [...perMonth.keys()].sort()[0];
+  const lastMonth = range.to?.slice(0, 7) ?? now.toISOString().slice(0, 7);
+  const additionsByMonth = firstMonth
+    ? monthsBetween(firstMonth, lastMonth).map((month) => ({
+        label: monthLabel(month),
+        count: perMonth.get(month) ?? 0,
+      }))
+    : [];
+
+  return {
+    titleCount: activeBooks.length,
+    copyCount: activeCopies.length,
+    checkedOutCount,
+    checkedOutPercent:
+      activeCopies.length === 0
+        ? 0
+        : Math.round((checkedOutCount / activeCopies.length) * 100),
+    byGenre,
+    byCondition,
+    loanCount: rangeLoans.length,
+    mostBorrowed,
+    neverBorrowed,
+    additionsByMonth,
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * The AssessmentRepository is the one place the rest of the app goes to load and
+ * save condition assessments of copies.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { ConditionAssessment } from "../../types/assessment";
+
+// Every storage backend has to provide these functions
+// Assessments are never changed once they're saved, so there's no update
+export interface AssessmentRepository {
+  getAll(): Promise<ConditionAssessment[]>; // Every assessment ever made, oldest first
+  getByBook(bookId: string): Promise<ConditionAssessment[]>; // Every assessment of a book's copies, newest first
+  add(assessment: ConditionAssessment): Promise<void>; // Save a brand new assessment
+  importAssessments(assessments: ConditionAssessment[]): Promise<void>; // Bulk insert/replace, used by the migration command
+  removeByBook(bookId: string): Promise<void>; // Delete a book's assessments, when the book is purged
+}
+
+// Sort assessments so the oldest comes first
+export function oldestFirst(
+  a: ConditionAssessment,
+  b: ConditionAssessment
+): number {
+  return a.assessedDate.getTime() - b.assessedDate.getTime();
+}
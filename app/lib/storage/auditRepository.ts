@@ -0,0 +1,22 @@
+/**
+ * The AuditRepository is the one place the rest of the app goes to load and save
+ * the audit log of book changes.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ * Entries can only be added - the log is never edited.
+ */
+
+import { AuditEntry } from "../../types/audit";
+
+// Every storage backend has to provide these functions
+export interface AuditRepository {
+  getAll(): Promise<AuditEntry[]>; // Every entry, newest first
+  getByBook(bookId: string): Promise<AuditEntry[]>; // A book's history, newest first
+  add(entry: AuditEntry): Promise<void>; // Save a brand new entry
+  importEntries(entries: AuditEntry[]): Promise<void>; // Bulk insert/replace, used by the migration command
+}
+
+// Sort entries so the most recent comes first
+export function newestFirst(a: AuditEntry, b: AuditEntry): number {
+  return b.timestamp.getTime() - a.timestamp.getTime();
+}
@@ -0,0 +1,40 @@
+/**
+ * The AuthorRepository is the one place the rest of the app goes to load and save
+ * the library's authors.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ * Which books each author wrote is kept on the books (see Book.authorIds).
+ */
+
+import { Author } from "../../types/author";
+
+// Every storage backend has to provide these functions
+export interface AuthorRepository {
+  getAll(): Promise<Author[]>; // Every author, sorted by name
+  getById(id: string): Promise<Author | undefined>; // A single author, or undefined if they don't exist
+  // Delete an author. Returns the deleted author, or undefined if there's no author with that id
+  remove(id: string): Promise<Author | undefined>;
+  // Add new authors. `findNew` gets every author there is now and returns the ones
+  // to add - looking and adding happen as one step, so two saves at once can't
+  // both add the same person.
+  addMissing(findNew: (authors: Author[]) => Author[]): Promise<void>;
+  // Delete the author `fromId` and keep their name (and aliases) as aliases of the
+  // author `intoId`, as one step. Returns the updated `intoId` author, or undefined
+  // if either of them doesn't exist.
+  merge(fromId: string, intoId: string): Promise<Author | undefined>;
+  // Bulk insert/replace, used by the migration commands and to put back an author
+  // whose delete turned out to be unsafe
+  importAuthors(authors: Author[]): Promise<void>;
+}
+
+// The aliases `into` has once `from` is merged into it: its own, then `from`'s name
+// and aliases, without repeats or its own name
+export function mergedAliases(from: Author, into: Author): string[] {
+  const aliases = [...into.aliases, from.name, ...from.aliases];
+  return [...new Set(aliases)].filter((alias) => alias !== into.name);
+}
+
+// Sort authors alphabetically by name
+export function byName(a: Author, b: Author): number {
+  return a.name.localeCompare(b.name);
+}
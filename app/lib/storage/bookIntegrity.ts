@@ -0,0 +1,65 @@
+/**
+ * Checks the stored books for id problems that would make getBook()
+ * return the wrong record: ids that are used more than once, and ids that
+ * aren't in a format we generate.
+ * This runs once when the server starts (see instrumentation.ts).
+ */
+
+import { Book } from "../../types/book";
+import { getBookRepository } from "./repositories";
+
+// New books get UUIDs; books from before that have plain numbers ("1", "2", ...)
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LEGACY_ID_PATTERN = /^[1-9][0-9]*$/;
+
+// One problem found in the store
+export interface BookIdProblem {
+  id: string; // The id that has the problem
+  kind: "duplicate" | "malformed";
+  titles: string[]; // Titles of the books using this id, to help find them
+}
+
+// Is this an id we could have generated?
+export function isValidBookId(id: unknown): id is string {
+  return (
+    typeof id === "string" &&
+    (UUID_PATTERN.test(id) || LEGACY_ID_PATTERN.test(id))
+  );
+}
+
+// Look through a list of books and report every duplicate or malformed id
+export function findBookIdProblems(books: Book[]): BookIdProblem[] {
+  // Group the books by id so we can spot ids used more than once
+  const booksById = new Map<string, Book[]>();
+  for (const book of books) {
+    const key = String(book.id);
+    booksById.set(key, [...(booksById.get(key) ?? []), book]);
+  }
+
+  const problems: BookIdProblem[] = [];
+  for (const [id, sameId] of booksById) {
+    const titles = sameId.map((book) => book.title);
+    if (!isValidBookId(sameId[0].id)) {
+      problems.push({ id, kind: "malformed", titles });
+    }
+    if (sameId.length > 1) {
+      problems.push({ id, kind: "duplicate", titles });
+    }
+  }
+  return problems;
+}
+
+// Check the configured store and log anything that's wrong
+// We only report problems here - fixing them needs a person to decide which record is right
+export async function checkBookIntegrity(): Promise<BookIdProblem[]> {
+  const problems = findBookIdProblems(await getBookRepository().getAll());
+  for (const problem of problems) {
+    console.warn(
+      `Book store integrity: ${problem.kind} id "${
+        problem.id
+      }" used by ${problem.titles.map((title) => `"${title}"`).join(", ")}`
+    );
+  }
+  return problems;
+}
@@ -0,0 +1,74 @@
+/**
+ * The BookRepository is the one place the rest of the app goes to load and save books.
+ * Server actions talk to this interface instead of touching files directly,
+ * so we can swap where the books live (a JSON file or a SQLite database)
+ * without changing any of the pages or actions.
+ * Which backend is used is decided in repositories.ts.
+ */
+
+import { Book } from "../../types/book";
+
+// A function that receives the current saved book and returns the changed copy
+export type BookChange = (book: Book) => Book;
+
+// A book as it was and as it was saved, from updateMatching()
+export interface BookUpdate {
+  before: Book;
+  saved: Book;
+}
+
+// Every storage backend has to provide these functions
+export interface BookRepository {
+  getAll(): Promise<Book[]>; // All books (active and inactive)
+  getActive(): Promise<Book[]>; // Only books that haven't been removed
+  getById(id: string): Promise<Book | undefined>; // A single book, or undefined if it doesn't exist
+  getByIds(ids: string[]): Promise<Book[]>; // The books with these ids, in the same order - missing ones are left out
+  add(book: Book): Promise<void>; // Save a brand new book
+  // Change an existing book. The read, the change and the write happen as one step,
+  // so two people updating the same book at once can't overwrite each other.
+  // If expectedVersion is given and the saved book has moved on, a
+  // BookVersionConflictError is thrown instead of saving.
+  // Returns the saved book, or undefined if there's no book with that id.
+  update(
+    id: string,
+    change: BookChange,
+    expectedVersion?: number
+  ): Promise<Book | undefined>;
+  // Change every book `matches` picks out (active and inactive) in one write, so a
+  // failure part way through can't leave some changed and some not.
+  // Used when genres or authors are renamed or merged. Returns the books that changed.
+  updateMatching(
+    matches: (book: Book) => boolean,
+    change: BookChange
+  ): Promise<BookUpdate[]>;
+  importBooks(books: Book[]): Promise<void>; // Bulk insert/replace in one write, used by the migration command and bulk import
+  // Delete a removed book for good. Books that are still active are never deleted.
+  // Returns the deleted book, or undefined if there's no removed book with that id.
+  purge(id: string): Promise<Book | undefined>;
+}
+
+// Thrown by update() when someone else saved the book after we loaded it
+export class BookVersionConflictError extends Error {
+  constructor(public readonly currentBook: Book) {
+    super(`Book ${currentBook.id} was changed by someone else`);
+    this.name = "BookVersionConflictError";
+  }
+}
+
+// Apply a change to a book and stamp it with the next version number
+// Both backends use this so the version rules are the same everywhere
+export function applyBookChange(
+  current: Book,
+  change: BookChange,
+  expectedVersion?: number
+): Book {
+  if (expectedVersion !== undefined && current.version !== expectedVersion) {
+    throw new BookVersionConflictError(current);
+  }
+  return {
+    ...change(current),
+    id: current.id, // The id can never change
+    version: current.version + 1,
+    updatedAt: new Date(),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * The CopyRepository is the one place the rest of the app goes to load and save
+ * the physical copies of each book.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Copy } from "../../types/copy";
+
+// Every storage backend has to provide these functions
+export interface CopyRepository {
+  getAll(): Promise<Copy[]>; // Every copy, including withdrawn ones
+  getByBook(bookId: string): Promise<Copy[]>; // A book's copies (withdrawn ones too), in barcode order
+  getById(id: string): Promise<Copy | undefined>; // A single copy, or undefined if it doesn't exist
+  getByBarcode(barcode: string): Promise<Copy | undefined>; // The copy with this barcode, if there is one
+  // Save a brand new copy
+  // Throws a DuplicateBarcodeError if another copy already has its barcode
+  add(copy: Copy): Promise<void>;
+  // Change an existing copy. The read, the change and the write happen as one step.
+  // Throws a DuplicateBarcodeError if the new barcode belongs to another copy.
+  // Returns the saved copy, or undefined if there's no copy with that id.
+  update(id: string, change: (copy: Copy) => Copy): Promise<Copy | undefined>;
+  // Bulk insert/replace in one write, used by imports and migrations. Copies with the
+  // same id are replaced. Throws a DuplicateBarcodeError (and saves nothing) if a
+  // barcode belongs to another copy, or comes up twice in the list.
+  importCopies(copies: Copy[]): Promise<void>;
+  removeByBook(bookId: string): Promise<void>; // Delete every copy of a book, when the book is purged
+}
+
+// Thrown when a copy would get a barcode another copy already has
+export class DuplicateBarcodeError extends Error {
+  constructor(public readonly barcode: string) {
+    super(`Barcode ${barcode} is already in use`);
+    this.name = "DuplicateBarcodeError";
+  }
+}
+
+// Sort copies by barcode, so they're always listed in the same order
+export function byBarcode(a: Copy, b: Copy): number {
+  return a.barcode.localeCompare(b.barcode, undefined, { numeric: true });
+}
@@ -0,0 +1,21 @@
+/**
+ * The CoverStorage is the one place the rest of the app goes to save and load
+ * books' cover images. Each cover is saved once at full size and once as a
+ * small thumbnail, under a cover id that's never reused - a new cover gets a new id.
+ * The app keeps them on local disk (see localCoverStorage.ts), but anything
+ * that can store files (like a cloud bucket) could sit behind this interface.
+ * Which storage is used is decided in repositories.ts.
+ */
+
+// The sizes every cover is saved in
+export type CoverSize = "full" | "thumbnail";
+
+// A cover's image in every size, ready to save
+export type CoverImages = Record<CoverSize, Buffer>;
+
+// Every cover storage has to provide these functions
+export interface CoverStorage {
+  save(coverId: string, images: CoverImages): Promise<void>; // Save a brand new cover
+  read(coverId: string, size: CoverSize): Promise<Buffer | undefined>; // One size of a cover, or undefined if there's no such cover
+  remove(coverId: string): Promise<void>; // Delete every size of a cover (a cover that isn't there is fine)
+}
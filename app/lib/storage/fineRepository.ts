@@ -0,0 +1,24 @@
+/**
+ * The FineRepository is the one place the rest of the app goes to load and save fines.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Fine } from "../../types/fine";
+
+// Every storage backend has to provide these functions
+export interface FineRepository {
+  getAll(): Promise<Fine[]>; // Every fine ever assessed
+  getById(id: string): Promise<Fine | undefined>; // A single fine, or undefined if it doesn't exist
+  getByPatron(patronId: string): Promise<Fine[]>; // A patron's ledger, newest first
+  add(fine: Fine): Promise<void>; // Save a brand new fine
+  // Change an existing fine. The read, the change and the write happen as one step.
+  // Returns the saved fine, or undefined if there's no fine with that id.
+  update(id: string, change: (fine: Fine) => Fine): Promise<Fine | undefined>;
+  importFines(fines: Fine[]): Promise<void>; // Bulk insert/replace, used by the migration command
+}
+
+// Sort fines so the most recent comes first
+export function newestFirst(a: Fine, b: Fine): number {
+  return b.assessedDate.getTime() - a.assessedDate.getTime();
+}
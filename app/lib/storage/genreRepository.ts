@@ -0,0 +1,33 @@
+/**
+ * The GenreRepository is the one place the rest of the app goes to load and save
+ * the library's genres.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Genre } from "../../types/genre";
+
+// Every storage backend has to provide these functions
+export interface GenreRepository {
+  getAll(): Promise<Genre[]>; // Every genre, sorted by name
+  getById(id: string): Promise<Genre | undefined>; // A single genre, or undefined if it doesn't exist
+  add(genre: Genre): Promise<void>; // Save a brand new genre
+  // Change an existing genre. The read, the change and the write happen as one step.
+  // change is also given every genre as it is right now, so it can check the
+  // genre's new place in the tree against the saved tree.
+  // Returns the saved genre, or undefined if there's no genre with that id.
+  update(
+    id: string,
+    change: (genre: Genre, genres: Genre[]) => Genre
+  ): Promise<Genre | undefined>;
+  // Delete a genre. Its sub-genres move up to childParentId (or become top-level
+  // genres if it's missing) in the same step, so none of them is left without a parent.
+  // Returns the deleted genre, or undefined if there's no genre with that id.
+  remove(id: string, childParentId?: string): Promise<Genre | undefined>;
+  importGenres(genres: Genre[]): Promise<void>; // Bulk insert/replace, used by the migration commands
+}
+
+// Sort genres alphabetically by name
+export function byName(a: Genre, b: Genre): number {
+  return a.name.localeCompare(b.name);
+}
@@ -0,0 +1,30 @@
+/**
+ * The HoldRepository is the one place the rest of the app goes to load and save holds.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Hold } from "../../types/hold";
+
+// Every storage backend has to provide these functions
+export interface HoldRepository {
+  getAll(): Promise<Hold[]>; // Every hold ever placed
+  getAllActive(): Promise<Hold[]>; // Holds that are waiting or ready, oldest first
+  getById(id: string): Promise<Hold | undefined>; // A single hold, or undefined if it doesn't exist
+  getByBook(bookId: string): Promise<Hold[]>; // A book's holds, oldest first (queue order)
+  getByPatron(patronId: string): Promise<Hold[]>; // A patron's holds, oldest first
+  add(hold: Hold): Promise<void>; // Save a brand new hold
+  // Save a brand new hold, unless the patron is already waiting for the book (or
+  // it's ready for them). The check and the save happen as one step.
+  // Returns the hold's place in the queue (1 means next), or undefined if they're already in it.
+  addToQueue(hold: Hold): Promise<number | undefined>;
+  // Change an existing hold. The read, the change and the write happen as one step.
+  // Returns the saved hold, or undefined if there's no hold with that id.
+  update(id: string, change: (hold: Hold) => Hold): Promise<Hold | undefined>;
+  importHolds(holds: Hold[]): Promise<void>; // Bulk insert/replace, used by the migration command
+}
+
+// Sort holds into queue order - whoever asked first comes first
+export function queueOrder(a: Hold, b: Hold): number {
+  return a.placedDate.getTime() - b.placedDate.getTime();
+}
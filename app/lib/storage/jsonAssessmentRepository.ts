@@ -0,0 +1,90 @@
+/**
+ * An AssessmentRepository that keeps every condition assessment in a single JSON
+ * file (assessments.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { ConditionAssessment } from "../../types/assessment";
+import { BookCondition } from "../../types/book";
+import { AssessmentRepository, oldestFirst } from "./assessmentRepository";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// The shape of an assessment as it is saved in the JSON file (dates are strings)
+interface StoredAssessment {
+  id: string;
+  copyId: string;
+  bookId: string;
+  condition: BookCondition;
+  previousCondition: BookCondition;
+  assessedDate: string;
+  assessorId?: string;
+  assessorName: string;
+  notes: string;
+  loanId?: string;
+  damaged: boolean;
+}
+
+// Convert a saved assessment back into a ConditionAssessment (date strings become Date objects)
+function fromStored(assessment: StoredAssessment): ConditionAssessment {
+  return { ...assessment, assessedDate: new Date(assessment.assessedDate) };
+}
+
+// Convert a ConditionAssessment into the shape we save (dates become full ISO strings)
+function toStored(assessment: ConditionAssessment): StoredAssessment {
+  return { ...assessment, assessedDate: assessment.assessedDate.toISOString() };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonAssessmentRepository(
+  filePath: string
+): AssessmentRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "assessments",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      const assessments = await store.read();
+      return assessments.sort(oldestFirst);
+    },
+
+    async getByBook(bookId) {
+      const assessments = await store.read();
+      return assessments
+        .filter((assessment) => assessment.bookId === bookId)
+        .sort(oldestFirst)
+        .reverse();
+    },
+
+    add(assessment) {
+      return store.mutate((assessments) => {
+        assessments.push(assessment);
+      });
+    },
+
+    importAssessments(imported) {
+      return store.mutate((assessments) => {
+        // Replace assessments that already exist and append the new ones
+        for (const assessment of imported) {
+          const index = assessments.findIndex((a) => a.id === assessment.id);
+          if (index === -1) {
+            assessments.push(assessment);
+          } else {
+            assessments[index] = assessment;
+          }
+        }
+      });
+    },
+
+    removeByBook(bookId) {
+      return store.mutate((assessments) => {
+        // Remove in place, from the end so the indexes don't shift under us
+        for (let i = assessments.length - 1; i >= 0; i--) {
+          if (assessments[i].bookId === bookId) assessments.splice(i, 1);
+        }
+      });
+    },
+  };
+}
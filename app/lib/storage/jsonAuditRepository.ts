@@ -0,0 +1,74 @@
+/**
+ * An AuditRepository that keeps every entry in a single JSON file (audit.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { AuditAction, AuditChange, AuditEntry } from "../../types/audit";
+import { AuditRepository, newestFirst } from "./auditRepository";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// The shape of an entry as it is saved in the JSON file (dates are strings)
+interface StoredAuditEntry {
+  id: string;
+  bookId: string;
+  copyId?: string;
+  copyBarcode?: string;
+  actorId?: string;
+  actorName: string;
+  timestamp: string;
+  action: AuditAction;
+  changes: AuditChange[];
+}
+
+// Convert a saved entry back into an AuditEntry (date strings become Date objects)
+function fromStored(entry: StoredAuditEntry): AuditEntry {
+  return { ...entry, timestamp: new Date(entry.timestamp) };
+}
+
+// Convert an AuditEntry into the shape we save (dates become full ISO strings)
+function toStored(entry: AuditEntry): StoredAuditEntry {
+  return { ...entry, timestamp: entry.timestamp.toISOString() };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonAuditRepository(filePath: string): AuditRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "entries",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      const entries = await store.read();
+      return entries.sort(newestFirst);
+    },
+
+    async getByBook(bookId) {
+      const entries = await store.read();
+      return entries
+        .filter((entry) => entry.bookId === bookId)
+        .sort(newestFirst);
+    },
+
+    add(entry) {
+      return store.mutate((entries) => {
+        entries.push(entry);
+      });
+    },
+
+    importEntries(imported) {
+      return store.mutate((entries) => {
+        // Replace entries that already exist and append the new ones
+        for (const entry of imported) {
+          const index = entries.findIndex((e) => e.id === entry.id);
+          if (index === -1) {
+            entries.push(entry);
+          } else {
+            entries[index] = entry;
+          }
+        }
+      });
+    },
+  };
+}
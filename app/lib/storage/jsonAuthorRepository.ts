@@ -0,0 +1,84 @@
+/**
+ * An AuthorRepository that keeps every author in a single JSON file (authors.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Author } from "../../types/author";
+import { createJsonFileStore } from "./jsonFileStore";
+import { AuthorRepository, byName, mergedAliases } from "./authorRepository";
+
+// The shape of an author as it is saved in the JSON file
+// Files saved before aliases existed don't have them
+type StoredAuthor = Omit<Author, "aliases"> & { aliases?: string[] };
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonAuthorRepository(filePath: string): AuthorRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "authors",
+    fromStored: (author: StoredAuthor): Author => ({
+      ...author,
+      aliases: author.aliases ?? [],
+    }),
+    toStored: (author: Author): StoredAuthor => author,
+  });
+
+  return {
+    async getAll() {
+      const authors = await store.read();
+      return authors.sort(byName);
+    },
+
+    async getById(id) {
+      const authors = await store.read();
+      return authors.find((author) => author.id === id);
+    },
+
+    remove(id) {
+      return store.mutate((authors) => {
+        const index = authors.findIndex((author) => author.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        const [removed] = authors.splice(index, 1);
+        return removed;
+      });
+    },
+
+    addMissing(findNew) {
+      return store.mutate((authors) => {
+        authors.push(...findNew([...authors]));
+      });
+    },
+
+    merge(fromId, intoId) {
+      return store.mutate((authors) => {
+        const from = authors.find((author) => author.id === fromId);
+        const index = authors.findIndex((author) => author.id === intoId);
+        if (!from || index === -1 || fromId === intoId) {
+          return undefined;
+        }
+        authors[index] = {
+          ...authors[index],
+          aliases: mergedAliases(from, authors[index]),
+        };
+        const merged = authors[index];
+        authors.splice(authors.indexOf(from), 1);
+        return merged;
+      });
+    },
+
+    importAuthors(imported) {
+      return store.mutate((authors) => {
+        // Replace authors that already exist and append the new ones
+        for (const author of imported) {
+          const index = authors.findIndex((a) => a.id === author.id);
+          if (index === -1) {
+            authors.push(author);
+          } else {
+            authors[index] = author;
+          }
+        }
+      });
+    },
+  };
+}
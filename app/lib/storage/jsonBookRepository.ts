@@ -0,0 +1,142 @@
+/**
+ * A BookRepository that keeps every book in a single JSON file.
+ * This is how the app has always stored its data. It's simple and easy to
+ * read by hand, but every change rewrites the whole file.
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Book } from "../../types/book";
+import { applyBookChange, BookRepository, BookUpdate } from "./bookRepository";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// The shape of a book as it is saved in the JSON file (dates are strings)
+interface StoredBook {
+  id: string;
+  title: string;
+  author: string;
+  authorIds?: string[]; // Older files aren't linked to authors yet (see npm run authors:migrate)
+  isbn: string;
+  publishedYear: number;
+  genre: string;
+  description: string;
+  tags?: string[]; // Older files don't have tags yet
+  coverId?: string;
+  isActive: boolean;
+  removedDate?: string;
+  addedDate: string;
+  version?: number; // Older files don't have these two fields yet
+  updatedAt?: string;
+}
+
+// Convert a saved book back into a Book (date strings become Date objects)
+// Books saved before copies existed also have a condition and checkout status -
+// they're passed through untouched until `npm run copies:migrate` moves them to a copy
+function fromStored(book: StoredBook): Book {
+  return {
+    ...book,
+    authorIds: book.authorIds ?? [],
+    tags: book.tags ?? [],
+    addedDate: new Date(book.addedDate),
+    removedDate: book.removedDate ? new Date(book.removedDate) : undefined,
+    version: book.version ?? 1,
+    updatedAt: new Date(book.updatedAt ?? book.addedDate),
+  };
+}
+
+// Convert a Book into the shape we save (dates become strings)
+function toStored(book: Book): StoredBook {
+  return {
+    ...book,
+    addedDate: book.addedDate.toISOString().split("T")[0], // Just get the date part
+    updatedAt: book.updatedAt.toISOString(), // Keep the time so edits are easy to tell apart
+    removedDate: book.removedDate?.toISOString(), // And so books are purged on time
+  };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonBookRepository(filePath: string): BookRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "books",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      return await store.read();
+    },
+
+    async getActive() {
+      const books = await store.read();
+      return books.filter((book) => book.isActive);
+    },
+
+    async getById(id) {
+      const books = await store.read();
+      return books.find((book) => book.id === id);
+    },
+
+    async getByIds(ids) {
+      const books = new Map((await store.read()).map((b) => [b.id, b]));
+      return ids.flatMap((id) => books.get(id) ?? []);
+    },
+
+    add(book) {
+      return store.mutate((books) => {
+        // Never save a second book under an id that's already taken
+        if (books.some((b) => b.id === book.id)) {
+          throw new Error(`A book with id ${book.id} already exists`);
+        }
+        books.push(book);
+      });
+    },
+
+    update(id, change, expectedVersion) {
+      return store.mutate((books) => {
+        const index = books.findIndex((b) => b.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        books[index] = applyBookChange(books[index], change, expectedVersion);
+        return books[index];
+      });
+    },
+
+    updateMatching(matches, change) {
+      return store.mutate((books) => {
+        const updates: BookUpdate[] = [];
+        for (const [index, before] of books.entries()) {
+          if (!matches(before)) continue;
+          books[index] = applyBookChange(before, change);
+          updates.push({ before, saved: books[index] });
+        }
+        return updates;
+      });
+    },
+
+    importBooks(imported) {
+      return store.mutate((books) => {
+        // Replace books that already exist and append the new ones
+        for (const book of imported) {
+          const index = books.findIndex((b) => b.id === book.id);
+          if (index === -1) {
+            books.push(book);
+          } else {
+            books[index] = book;
+          }
+        }
+      });
+    },
+
+    purge(id) {
+      return store.mutate((books) => {
+        const index = books.findIndex((b) => b.id === id && !b.isActive);
+        if (index === -1) {
+          return undefined;
+        }
+        const [purged] = books.splice(index, 1);
+        return purged;
+      });
+    },
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * A CopyRepository that keeps every copy in a single JSON file (copies.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { BookCondition } from "../../types/book";
+import { Copy } from "../../types/copy";
+import {
+  byBarcode,
+  CopyRepository,
+  DuplicateBarcodeError,
+} from "./copyRepository";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// The shape of a copy as it is saved in the JSON file (dates are strings)
+interface StoredCopy {
+  id: string;
+  bookId: string;
+  barcode: string;
+  condition: BookCondition;
+  shelfLocation: string;
+  isCheckedOut: boolean;
+  isActive: boolean;
+  lastCheckedOutDate?: string;
+  addedDate: string;
+}
+
+// Convert a saved copy back into a Copy (date strings become Date objects)
+function fromStored(copy: StoredCopy): Copy {
+  return {
+    ...copy,
+    lastCheckedOutDate: copy.lastCheckedOutDate
+      ? new Date(copy.lastCheckedOutDate)
+      : undefined,
+    addedDate: new Date(copy.addedDate),
+  };
+}
+
+// Convert a Copy into the shape we save (dates become full ISO strings)
+function toStored(copy: Copy): StoredCopy {
+  return {
+    ...copy,
+    lastCheckedOutDate: copy.lastCheckedOutDate?.toISOString(),
+    addedDate: copy.addedDate.toISOString(),
+  };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonCopyRepository(filePath: string): CopyRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "copies",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      return await store.read();
+    },
+
+    async getByBook(bookId) {
+      const copies = await store.read();
+      return copies.filter((copy) => copy.bookId === bookId).sort(byBarcode);
+    },
+
+    async getById(id) {
+      const copies = await store.read();
+      return copies.find((copy) => copy.id === id);
+    },
+
+    async getByBarcode(barcode) {
+      const copies = await store.read();
+      return copies.find((copy) => copy.barcode === barcode);
+    },
+
+    add(copy) {
+      return store.mutate((copies) => {
+        // Never save a second copy under an id or barcode that's already taken
+        if (copies.some((c) => c.id === copy.id)) {
+          throw new Error(`A copy with id ${copy.id} already exists`);
+        }
+        if (copies.some((c) => c.barcode === copy.barcode)) {
+          throw new DuplicateBarcodeError(copy.barcode);
+        }
+        copies.push(copy);
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((copies) => {
+        const index = copies.findIndex((copy) => copy.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        const saved = { ...change(copies[index]), id };
+        if (copies.some((c) => c.id !== id && c.barcode === saved.barcode)) {
+          throw new DuplicateBarcodeError(saved.barcode);
+        }
+        copies[index] = saved;
+        return saved;
+      });
+    },
+
+    importCopies(imported) {
+      return store.mutate((copies) => {
+        // Check every barcode before changing anything, so a clash saves nothing
+        const ids = new Set(imported.map((copy) => copy.id));
+        const taken = new Set(
+          copies.filter((c) => !ids.has(c.id)).map((c) => c.barcode)
+        );
+        for (const copy of imported) {
+          if (taken.has(copy.barcode)) {
+            throw new DuplicateBarcodeError(copy.barcode);
+          }
+          taken.add(copy.barcode);
+        }
+        // Replace copies that already exist and append the new ones
+        for (const copy of imported) {
+          const index = copies.findIndex((c) => c.id === copy.id);
+          if (index === -1) {
+            copies.push(copy);
+          } else {
+            copies[index] = copy;
+          }
+        }
+      });
+    },
+
+    removeByBook(bookId) {
+      return store.mutate((copies) => {
+        // Remove in place, from the end so the indexes don't shift under us
+        for (let i = copies.length - 1; i >= 0; i--) {
+          if (copies[i].bookId === bookId) copies.splice(i, 1);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Shared plumbing for the JSON file backends.
+ * Each file holds one list of records under a single key, e.g. { "books": [...] }.
+ * Writes are queued one after another inside this server process and each
+ * one goes to a temporary file that is then renamed over the real file, so a
+ * crash half way through a write can never leave a broken file behind.
+ */
+
+import fs from "fs/promises";
+
+// How to turn a record into what we save, and back again
+// (usually this is just converting Dates to strings and back)
+export interface JsonFileStoreOptions<T, Stored> {
+  key: string; // The property in the file that holds the list, e.g. "books"
+  fromStored: (stored: Stored) => T;
+  toStored: (item: T) => Stored;
+}
+
+export interface JsonFileStore<T> {
+  // Read every record. Returns an empty list if the file can't be read
+  read(): Promise<T[]>;
+  // Read the records, let `task` change the list, then save it - all as one step.
+  // Nothing is saved if `task` throws.
+  mutate<R>(task: (items: T[]) => R | Promise<R>): Promise<R>;
+}
+
+// Create a store for the JSON file at filePath
+export function createJsonFileStore<T, Stored>(
+  filePath: string,
+  { key, fromStored, toStored }: JsonFileStoreOptions<T, Stored>
+): JsonFileStore<T> {
+  // Every write waits for the one before it to finish
+  // We keep the tail of that chain here
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  // Read and parse the file
+  // A file that doesn't exist yet just means there are no records
+  async function readFile(): Promise<T[]> {
+    try {
+      const jsonData = await fs.readFile(filePath, "utf-8");
+      const parsed = JSON.parse(jsonData) as Record<string, Stored[]>;
+      return (parsed[key] ?? []).map(fromStored);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  // Save all records to the file
+  // We write a temporary file first and then rename it, because a rename
+  // replaces the old file in one step - readers see either the old or the new data
+  async function writeFile(items: T[]): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify({ [key]: items.map(toStored) }, null, 2) // Pretty print with 2 spaces
+      );
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      console.error(`Couldn't save ${key}:`, error);
+      throw new Error(`Failed to save ${key}`);
+    }
+  }
+
+  return {
+    async read() {
+      try {
+        return await readFile();
+      } catch (error) {
+        console.error(`Couldn't read ${key}:`, error);
+        return []; // Return empty array if something goes wrong
+      }
+    },
+
+    mutate(task) {
+      const result = writeQueue.then(async () => {
+        // Unlike read(), a broken file here is an error - saving an
+        // empty list over it would throw away everything in it
+        const items = await readFile();
+        const value = await task(items);
+        await writeFile(items);
+        return value;
+      });
+      // Keep the queue going even if this task fails
+      writeQueue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
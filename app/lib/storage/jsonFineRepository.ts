@@ -0,0 +1,98 @@
+/**
+ * A FineRepository that keeps every fine in a single JSON file (fines.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Fine, FineStatus } from "../../types/fine";
+import { FineRepository, newestFirst } from "./fineRepository";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// The shape of a fine as it is saved in the JSON file (dates are strings)
+interface StoredFine {
+  id: string;
+  patronId: string;
+  loanId: string;
+  bookId: string;
+  amountCents: number;
+  daysLate: number;
+  assessedDate: string;
+  status: FineStatus;
+  resolvedDate?: string;
+  note?: string;
+}
+
+// Convert a saved fine back into a Fine (date strings become Date objects)
+function fromStored(fine: StoredFine): Fine {
+  return {
+    ...fine,
+    assessedDate: new Date(fine.assessedDate),
+    resolvedDate: fine.resolvedDate ? new Date(fine.resolvedDate) : undefined,
+  };
+}
+
+// Convert a Fine into the shape we save (dates become full ISO strings)
+function toStored(fine: Fine): StoredFine {
+  return {
+    ...fine,
+    assessedDate: fine.assessedDate.toISOString(),
+    resolvedDate: fine.resolvedDate?.toISOString(),
+  };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonFineRepository(filePath: string): FineRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "fines",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      return await store.read();
+    },
+
+    async getById(id) {
+      const fines = await store.read();
+      return fines.find((fine) => fine.id === id);
+    },
+
+    async getByPatron(patronId) {
+      const fines = await store.read();
+      return fines
+        .filter((fine) => fine.patronId === patronId)
+        .sort(newestFirst);
+    },
+
+    add(fine) {
+      return store.mutate((fines) => {
+        fines.push(fine);
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((fines) => {
+        const index = fines.findIndex((fine) => fine.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        fines[index] = { ...change(fines[index]), id };
+        return fines[index];
+      });
+    },
+
+    importFines(imported) {
+      return store.mutate((fines) => {
+        // Replace fines that already exist and append the new ones
+        for (const fine of imported) {
+          const index = fines.findIndex((f) => f.id === fine.id);
+          if (index === -1) {
+            fines.push(fine);
+          } else {
+            fines[index] = fine;
+          }
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * A GenreRepository that keeps every genre in a single JSON file (genres.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Genre } from "../../types/genre";
+import { createJsonFileStore } from "./jsonFileStore";
+import { byName, GenreRepository } from "./genreRepository";
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonGenreRepository(filePath: string): GenreRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "genres",
+    // Genres have no dates, so they're saved just as they are
+    fromStored: (genre: Genre) => genre,
+    toStored: (genre: Genre) => genre,
+  });
+
+  return {
+    async getAll() {
+      const genres = await store.read();
+      return genres.sort(byName);
+    },
+
+    async getById(id) {
+      const genres = await store.read();
+      return genres.find((genre) => genre.id === id);
+    },
+
+    add(genre) {
+      return store.mutate((genres) => {
+        if (genres.some((g) => g.id === genre.id)) {
+          throw new Error(`A genre with id ${genre.id} already exists`);
+        }
+        genres.push(genre);
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((genres) => {
+        const index = genres.findIndex((genre) => genre.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        genres[index] = { ...change(genres[index], genres), id };
+        return genres[index];
+      });
+    },
+
+    remove(id, childParentId) {
+      return store.mutate((genres) => {
+        const index = genres.findIndex((genre) => genre.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        const [removed] = genres.splice(index, 1);
+        for (const [i, genre] of genres.entries()) {
+          if (genre.parentId === id) {
+            genres[i] = { ...genre, parentId: childParentId };
+          }
+        }
+        return removed;
+      });
+    },
+
+    importGenres(imported) {
+      return store.mutate((genres) => {
+        // Replace genres that already exist and append the new ones
+        for (const genre of imported) {
+          const index = genres.findIndex((g) => g.id === genre.id);
+          if (index === -1) {
+            genres.push(genre);
+          } else {
+            genres[index] = genre;
+          }
+        }
+      });
+    },
+  };
+}
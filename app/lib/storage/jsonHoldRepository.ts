@@ -0,0 +1,124 @@
+/**
+ * A HoldRepository that keeps every hold in a single JSON file (holds.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { ACTIVE_HOLD_STATUSES, Hold, HoldStatus } from "../../types/hold";
+import { HoldRepository, queueOrder } from "./holdRepository";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// The shape of a hold as it is saved in the JSON file (dates are strings)
+interface StoredHold {
+  id: string;
+  bookId: string;
+  patronId: string;
+  placedDate: string;
+  status: HoldStatus;
+  readyDate?: string;
+  pickupBy?: string;
+  resolvedDate?: string;
+}
+
+// Convert a saved hold back into a Hold (date strings become Date objects)
+function fromStored(hold: StoredHold): Hold {
+  return {
+    ...hold,
+    placedDate: new Date(hold.placedDate),
+    readyDate: hold.readyDate ? new Date(hold.readyDate) : undefined,
+    pickupBy: hold.pickupBy ? new Date(hold.pickupBy) : undefined,
+    resolvedDate: hold.resolvedDate ? new Date(hold.resolvedDate) : undefined,
+  };
+}
+
+// Convert a Hold into the shape we save (dates become full ISO strings)
+function toStored(hold: Hold): StoredHold {
+  return {
+    ...hold,
+    placedDate: hold.placedDate.toISOString(),
+    readyDate: hold.readyDate?.toISOString(),
+    pickupBy: hold.pickupBy?.toISOString(),
+    resolvedDate: hold.resolvedDate?.toISOString(),
+  };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonHoldRepository(filePath: string): HoldRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "holds",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      return await store.read();
+    },
+
+    async getAllActive() {
+      const holds = await store.read();
+      return holds
+        .filter((hold) => ACTIVE_HOLD_STATUSES.includes(hold.status))
+        .sort(queueOrder);
+    },
+
+    async getById(id) {
+      const holds = await store.read();
+      return holds.find((hold) => hold.id === id);
+    },
+
+    async getByBook(bookId) {
+      const holds = await store.read();
+      return holds.filter((hold) => hold.bookId === bookId).sort(queueOrder);
+    },
+
+    async getByPatron(patronId) {
+      const holds = await store.read();
+      return holds
+        .filter((hold) => hold.patronId === patronId)
+        .sort(queueOrder);
+    },
+
+    add(hold) {
+      return store.mutate((holds) => {
+        holds.push(hold);
+      });
+    },
+
+    addToQueue(hold) {
+      return store.mutate((holds) => {
+        const queue = holds.filter(
+          (h) =>
+            h.bookId === hold.bookId && ACTIVE_HOLD_STATUSES.includes(h.status)
+        );
+        if (queue.some((h) => h.patronId === hold.patronId)) return undefined;
+        holds.push(hold);
+        return queue.length + 1;
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((holds) => {
+        const index = holds.findIndex((hold) => hold.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        holds[index] = { ...change(holds[index]), id };
+        return holds[index];
+      });
+    },
+
+    importHolds(imported) {
+      return store.mutate((holds) => {
+        // Replace holds that already exist and append the new ones
+        for (const hold of imported) {
+          const index = holds.findIndex((h) => h.id === hold.id);
+          if (index === -1) {
+            holds.push(hold);
+          } else {
+            holds[index] = hold;
+          }
+        }
+      });
+    },
+  };
+}
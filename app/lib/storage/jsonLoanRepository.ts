@@ -0,0 +1,113 @@
+/**
+ * A LoanRepository that keeps every loan in a single JSON file (loans.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Loan } from "../../types/loan";
+import { createJsonFileStore } from "./jsonFileStore";
+import { LoanRepository, newestFirst } from "./loanRepository";
+
+// The shape of a loan as it is saved in the JSON file (dates are strings)
+interface StoredLoan {
+  id: string;
+  bookId: string;
+  copyId?: string;
+  patronId?: string;
+  borrower: string;
+  checkoutDate: string;
+  dueDate: string;
+  returnDate?: string;
+}
+
+// Convert a saved loan back into a Loan (date strings become Date objects)
+function fromStored(loan: StoredLoan): Loan {
+  return {
+    ...loan,
+    checkoutDate: new Date(loan.checkoutDate),
+    dueDate: new Date(loan.dueDate),
+    returnDate: loan.returnDate ? new Date(loan.returnDate) : undefined,
+  };
+}
+
+// Convert a Loan into the shape we save (dates become full ISO strings)
+function toStored(loan: Loan): StoredLoan {
+  return {
+    ...loan,
+    checkoutDate: loan.checkoutDate.toISOString(),
+    dueDate: loan.dueDate.toISOString(),
+    returnDate: loan.returnDate?.toISOString(),
+  };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonLoanRepository(filePath: string): LoanRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "loans",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      return await store.read();
+    },
+
+    async getById(id) {
+      const loans = await store.read();
+      return loans.find((loan) => loan.id === id);
+    },
+
+    async getByBook(bookId) {
+      const loans = await store.read();
+      return loans.filter((loan) => loan.bookId === bookId).sort(newestFirst);
+    },
+
+    async getByPatron(patronId) {
+      const loans = await store.read();
+      return loans
+        .filter((loan) => loan.patronId === patronId)
+        .sort(newestFirst);
+    },
+
+    async getOpenLoan(copyId) {
+      const loans = await store.read();
+      return loans.find((loan) => loan.copyId === copyId && !loan.returnDate);
+    },
+
+    async getAllOpen() {
+      const loans = await store.read();
+      return loans.filter((loan) => !loan.returnDate);
+    },
+
+    add(loan) {
+      return store.mutate((loans) => {
+        loans.push(loan);
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((loans) => {
+        const index = loans.findIndex((loan) => loan.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        loans[index] = { ...change(loans[index]), id };
+        return loans[index];
+      });
+    },
+
+    importLoans(imported) {
+      return store.mutate((loans) => {
+        // Replace loans that already exist and append the new ones
+        for (const loan of imported) {
+          const index = loans.findIndex((l) => l.id === loan.id);
+          if (index === -1) {
+            loans.push(loan);
+          } else {
+            loans[index] = loan;
+          }
+        }
+      });
+    },
+  };
+}
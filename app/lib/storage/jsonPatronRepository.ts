@@ -0,0 +1,88 @@
+/**
+ * A PatronRepository that keeps every patron in a single JSON file (patrons.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Patron } from "../../types/patron";
+import { createJsonFileStore } from "./jsonFileStore";
+import { byName, PatronRepository } from "./patronRepository";
+
+// The shape of a patron as it is saved in the JSON file (dates are strings)
+interface StoredPatron {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  isActive: boolean;
+  joinedDate: string;
+}
+
+// Convert a saved patron back into a Patron (date strings become Date objects)
+function fromStored(patron: StoredPatron): Patron {
+  return { ...patron, joinedDate: new Date(patron.joinedDate) };
+}
+
+// Convert a Patron into the shape we save (dates become strings)
+function toStored(patron: Patron): StoredPatron {
+  return { ...patron, joinedDate: patron.joinedDate.toISOString() };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonPatronRepository(filePath: string): PatronRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "patrons",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      const patrons = await store.read();
+      return patrons.sort(byName);
+    },
+
+    async getActive() {
+      const patrons = await store.read();
+      return patrons.filter((patron) => patron.isActive).sort(byName);
+    },
+
+    async getById(id) {
+      const patrons = await store.read();
+      return patrons.find((patron) => patron.id === id);
+    },
+
+    add(patron) {
+      return store.mutate((patrons) => {
+        if (patrons.some((p) => p.id === patron.id)) {
+          throw new Error(`A patron with id ${patron.id} already exists`);
+        }
+        patrons.push(patron);
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((patrons) => {
+        const index = patrons.findIndex((patron) => patron.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        patrons[index] = { ...change(patrons[index]), id };
+        return patrons[index];
+      });
+    },
+
+    importPatrons(imported) {
+      return store.mutate((patrons) => {
+        // Replace patrons that already exist and append the new ones
+        for (const patron of imported) {
+          const index = patrons.findIndex((p) => p.id === patron.id);
+          if (index === -1) {
+            patrons.push(patron);
+          } else {
+            patrons[index] = patron;
+          }
+        }
+      });
+    },
+  };
+}
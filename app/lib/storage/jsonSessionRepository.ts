@@ -0,0 +1,74 @@
+/**
+ * A SessionRepository that keeps every session in a single JSON file (sessions.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { Session } from "../../types/user";
+import { createJsonFileStore } from "./jsonFileStore";
+import { SessionRepository } from "./sessionRepository";
+
+// The shape of a session as it is saved in the JSON file (dates are strings)
+interface StoredSession {
+  id: string;
+  userId: string;
+  createdDate: string;
+  expiresDate: string;
+}
+
+// Convert a saved session back into a Session (date strings become Date objects)
+function fromStored(session: StoredSession): Session {
+  return {
+    ...session,
+    createdDate: new Date(session.createdDate),
+    expiresDate: new Date(session.expiresDate),
+  };
+}
+
+// Convert a Session into the shape we save (dates become full ISO strings)
+function toStored(session: Session): StoredSession {
+  return {
+    ...session,
+    createdDate: session.createdDate.toISOString(),
+    expiresDate: session.expiresDate.toISOString(),
+  };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonSessionRepository(
+  filePath: string
+): SessionRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "sessions",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getById(id) {
+      const sessions = await store.read();
+      return sessions.find((session) => session.id === id);
+    },
+
+    add(session) {
+      return store.mutate((sessions) => {
+        sessions.push(session);
+      });
+    },
+
+    remove(id) {
+      return store.mutate((sessions) => {
+        const index = sessions.findIndex((session) => session.id === id);
+        if (index !== -1) sessions.splice(index, 1);
+      });
+    },
+
+    removeExpired(now) {
+      return store.mutate((sessions) => {
+        // Walk backwards so removing one doesn't skip the next
+        for (let i = sessions.length - 1; i >= 0; i--) {
+          if (sessions[i].expiresDate <= now) sessions.splice(i, 1);
+        }
+      });
+    },
+  };
+}
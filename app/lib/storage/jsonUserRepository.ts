@@ -0,0 +1,98 @@
+/**
+ * A UserRepository that keeps every user in a single JSON file (users.json).
+ * Locking and safe writes are handled by jsonFileStore.ts.
+ */
+
+import { User, UserRole } from "../../types/user";
+import { createJsonFileStore } from "./jsonFileStore";
+import { byUsername, UserRepository } from "./userRepository";
+
+// The shape of a user as it is saved in the JSON file (dates are strings)
+interface StoredUser {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  patronId?: string;
+  isActive: boolean;
+  createdDate: string;
+}
+
+// Convert a saved user back into a User (date strings become Date objects)
+function fromStored(user: StoredUser): User {
+  return { ...user, createdDate: new Date(user.createdDate) };
+}
+
+// Convert a User into the shape we save (dates become full ISO strings)
+function toStored(user: User): StoredUser {
+  return { ...user, createdDate: user.createdDate.toISOString() };
+}
+
+// Create a repository that reads and writes the JSON file at filePath
+export function createJsonUserRepository(filePath: string): UserRepository {
+  const store = createJsonFileStore(filePath, {
+    key: "users",
+    fromStored,
+    toStored,
+  });
+
+  return {
+    async getAll() {
+      const users = await store.read();
+      return users.sort(byUsername);
+    },
+
+    async getById(id) {
+      const users = await store.read();
+      return users.find((user) => user.id === id);
+    },
+
+    async getByUsername(username) {
+      const users = await store.read();
+      return users.find(
+        (user) => user.username.toLowerCase() === username.toLowerCase()
+      );
+    },
+
+    add(user) {
+      return store.mutate((users) => {
+        if (users.some((u) => u.id === user.id)) {
+          throw new Error(`A user with id ${user.id} already exists`);
+        }
+        if (
+          users.some(
+            (u) => u.username.toLowerCase() === user.username.toLowerCase()
+          )
+        ) {
+          throw new Error(`The username ${user.username} is already taken`);
+        }
+        users.push(user);
+      });
+    },
+
+    update(id, change) {
+      return store.mutate((users) => {
+        const index = users.findIndex((user) => user.id === id);
+        if (index === -1) {
+          return undefined;
+        }
+        users[index] = { ...change(users[index]), id };
+        return users[index];
+      });
+    },
+
+    importUsers(imported) {
+      return store.mutate((users) => {
+        // Replace users that already exist and append the new ones
+        for (const user of imported) {
+          const index = users.findIndex((u) => u.id === user.id);
+          if (index === -1) {
+            users.push(user);
+          } else {
+            users[index] = user;
+          }
+        }
+      });
+    },
+  };
+}
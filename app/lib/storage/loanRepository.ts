@@ -0,0 +1,27 @@
+/**
+ * The LoanRepository is the one place the rest of the app goes to load and save loans.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Loan } from "../../types/loan";
+
+// Every storage backend has to provide these functions
+export interface LoanRepository {
+  getAll(): Promise<Loan[]>; // Every loan ever made
+  getById(id: string): Promise<Loan | undefined>; // A single loan, or undefined if it doesn't exist
+  getByBook(bookId: string): Promise<Loan[]>; // A book's loans, newest first
+  getByPatron(patronId: string): Promise<Loan[]>; // A patron's loans, newest first
+  getOpenLoan(copyId: string): Promise<Loan | undefined>; // The loan for a copy that is out right now
+  getAllOpen(): Promise<Loan[]>; // Every loan that hasn't been returned yet
+  add(loan: Loan): Promise<void>; // Save a brand new loan
+  // Change an existing loan. The read, the change and the write happen as one step.
+  // Returns the saved loan, or undefined if there's no loan with that id.
+  update(id: string, change: (loan: Loan) => Loan): Promise<Loan | undefined>;
+  importLoans(loans: Loan[]): Promise<void>; // Bulk insert/replace, used by the migration command
+}
+
+// Sort loans so the most recent checkout comes first
+export function newestFirst(a: Loan, b: Loan): number {
+  return b.checkoutDate.getTime() - a.checkoutDate.getTime();
+}
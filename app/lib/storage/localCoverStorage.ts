@@ -0,0 +1,66 @@
+/**
+ * A CoverStorage that keeps cover images as files in a folder on local disk,
+ * e.g. covers/<coverId>.webp and covers/<coverId>-thumbnail.webp.
+ * Like the JSON files, each image is written to a temporary file first and
+ * then renamed, so a crash can never leave half an image behind.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { CoverSize, CoverStorage } from "./coverStorage";
+
+// Cover ids are UUIDs - anything else could be an attempt to reach files outside the folder
+const COVER_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Every size of a cover, for deleting them all
+const SIZES: CoverSize[] = ["full", "thumbnail"];
+
+// Create a storage that keeps covers in the folder at directory
+// The folder is created the first time a cover is saved
+export function createLocalCoverStorage(directory: string): CoverStorage {
+  // Where one size of a cover lives
+  function filePath(coverId: string, size: CoverSize): string {
+    if (!COVER_ID_PATTERN.test(coverId)) {
+      throw new Error(`"${coverId}" isn't a cover id`);
+    }
+    const suffix = size === "full" ? "" : `-${size}`;
+    return path.join(directory, `${coverId}${suffix}.webp`);
+  }
+
+  return {
+    async save(coverId, images) {
+      await fs.mkdir(directory, { recursive: true });
+      for (const size of SIZES) {
+        const target = filePath(coverId, size);
+        const tempPath = `${target}.${process.pid}.tmp`;
+        try {
+          await fs.writeFile(tempPath, images[size]);
+          await fs.rename(tempPath, target);
+        } catch (error) {
+          await fs.rm(tempPath, { force: true });
+          console.error(`Couldn't save cover ${coverId}:`, error);
+          throw new Error("Failed to save the cover");
+        }
+      }
+    },
+
+    async read(coverId, size) {
+      if (!COVER_ID_PATTERN.test(coverId)) return undefined;
+      try {
+        return await fs.readFile(filePath(coverId, size));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT")
+          return undefined;
+        throw error;
+      }
+    },
+
+    async remove(coverId) {
+      if (!COVER_ID_PATTERN.test(coverId)) return;
+      for (const size of SIZES) {
+        await fs.rm(filePath(coverId, size), { force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * The PatronRepository is the one place the rest of the app goes to load and save patrons.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Patron } from "../../types/patron";
+
+// Every storage backend has to provide these functions
+export interface PatronRepository {
+  getAll(): Promise<Patron[]>; // All patrons (active and inactive)
+  getActive(): Promise<Patron[]>; // Only patrons that haven't been removed
+  getById(id: string): Promise<Patron | undefined>; // A single patron, or undefined if they don't exist
+  add(patron: Patron): Promise<void>; // Save a brand new patron
+  // Change an existing patron. The read, the change and the write happen as one step.
+  // Returns the saved patron, or undefined if there's no patron with that id.
+  update(
+    id: string,
+    change: (patron: Patron) => Patron
+  ): Promise<Patron | undefined>;
+  importPatrons(patrons: Patron[]): Promise<void>; // Bulk insert/replace, used by the migration command
+}
+
+// Sort patrons alphabetically by name
+export function byName(a: Patron, b: Patron): number {
+  return a.name.localeCompare(b.name);
+}
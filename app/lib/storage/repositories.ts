@@ -0,0 +1,251 @@
+/**
+ * Picks which repositories the app uses, based on environment variables.
+ * BOOK_STORAGE chooses the backend ("json" or "sqlite") for everything we store.
+ * BOOK_JSON_PATH / BOOK_SQLITE_PATH can point at a different data file -
+ * with JSON storage the other files (like loans.json) sit next to books.json.
+ * Cover images are always files on disk, in a covers folder next to the data
+ * (COVER_STORAGE_PATH can point somewhere else).
+ */
+
+import path from "path";
+import type { AssessmentRepository } from "./assessmentRepository";
+import type { AuditRepository } from "./auditRepository";
+import type { AuthorRepository } from "./authorRepository";
+import type { BookRepository } from "./bookRepository";
+import type { CopyRepository } from "./copyRepository";
+import type { CoverStorage } from "./coverStorage";
+import type { FineRepository } from "./fineRepository";
+import type { GenreRepository } from "./genreRepository";
+import type { HoldRepository } from "./holdRepository";
+import type { LoanRepository } from "./loanRepository";
+import type { PatronRepository } from "./patronRepository";
+import type { SessionRepository } from "./sessionRepository";
+import type { UserRepository } from "./userRepository";
+import { createJsonAssessmentRepository } from "./jsonAssessmentRepository";
+import { createJsonAuditRepository } from "./jsonAuditRepository";
+import { createJsonAuthorRepository } from "./jsonAuthorRepository";
+import { createJsonBookRepository } from "./jsonBookRepository";
+import { createJsonCopyRepository } from "./jsonCopyRepository";
+import { createJsonFineRepository } from "./jsonFineRepository";
+import { createJsonGenreRepository } from "./jsonGenreRepository";
+import { createJsonHoldRepository } from "./jsonHoldRepository";
+import { createJsonLoanRepository } from "./jsonLoanRepository";
+import { createJsonPatronRepository } from "./jsonPatronRepository";
+import { createJsonSessionRepository } from "./jsonSessionRepository";
+import { createJsonUserRepository } from "./jsonUserRepository";
+import { createLocalCoverStorage } from "./localCoverStorage";
+import { createSqliteAssessmentRepository } from "./sqliteAssessmentRepository";
+import { createSqliteAuditRepository } from "./sqliteAuditRepository";
+import { createSqliteAuthorRepository } from "./sqliteAuthorRepository";
+import { createSqliteBookRepository } from "./sqliteBookRepository";
+import { createSqliteCopyRepository } from "./sqliteCopyRepository";
+import { createSqliteFineRepository } from "./sqliteFineRepository";
+import { createSqliteGenreRepository } from "./sqliteGenreRepository";
+import { createSqliteHoldRepository } from "./sqliteHoldRepository";
+import { createSqliteLoanRepository } from "./sqliteLoanRepository";
+import { createSqlitePatronRepository } from "./sqlitePatronRepository";
+import { createSqliteSessionRepository } from "./sqliteSessionRepository";
+import { createSqliteUserRepository } from "./sqliteUserRepository";
+
+// The storage backends we know how to create
+export type BookStorageType = "json" | "sqlite";
+
+// Default locations of our data files
+export const DEFAULT_JSON_PATH = path.join(
+  process.cwd(),
+  "app/data/books.json"
+);
+export const DEFAULT_SQLITE_PATH = path.join(
+  process.cwd(),
+  "app/data/books.db"
+);
+
+// Work out which backend to use from the environment
+// BOOK_STORAGE can be "json" (the default) or "sqlite"
+export function getBookStorageType(): BookStorageType {
+  const storage = (process.env.BOOK_STORAGE || "json").toLowerCase();
+  if (storage !== "json" && storage !== "sqlite") {
+    throw new Error(
+      `Unknown BOOK_STORAGE "${storage}". Use "json" or "sqlite".`
+    );
+  }
+  return storage;
+}
+
+// Where the SQLite database lives
+export function getSqlitePath(): string {
+  return process.env.BOOK_SQLITE_PATH || DEFAULT_SQLITE_PATH;
+}
+
+// Where a JSON data file lives, e.g. getJsonPath("loans") -> app/data/loans.json
+export function getJsonPath(name: string): string {
+  const booksPath = process.env.BOOK_JSON_PATH || DEFAULT_JSON_PATH;
+  return name === "books"
+    ? booksPath
+    : path.join(path.dirname(booksPath), `${name}.json`);
+}
+
+// Where cover images live - a covers folder next to the books, unless COVER_STORAGE_PATH says otherwise
+export function getCoverPath(): string {
+  const dataPath =
+    getBookStorageType() === "sqlite" ? getSqlitePath() : getJsonPath("books");
+  return (
+    process.env.COVER_STORAGE_PATH ||
+    path.join(path.dirname(dataPath), "covers")
+  );
+}
+
+// We only want one of each repository per server process, so we keep them here once created
+let bookRepository: BookRepository | null = null;
+let copyRepository: CopyRepository | null = null;
+let loanRepository: LoanRepository | null = null;
+let patronRepository: PatronRepository | null = null;
+let fineRepository: FineRepository | null = null;
+let holdRepository: HoldRepository | null = null;
+let userRepository: UserRepository | null = null;
+let sessionRepository: SessionRepository | null = null;
+let auditRepository: AuditRepository | null = null;
+let assessmentRepository: AssessmentRepository | null = null;
+let genreRepository: GenreRepository | null = null;
+let authorRepository: AuthorRepository | null = null;
+let coverStorage: CoverStorage | null = null;
+
+// Get the configured book repository (creating it the first time it's needed)
+export function getBookRepository(): BookRepository {
+  if (!bookRepository) {
+    bookRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteBookRepository(getSqlitePath())
+        : createJsonBookRepository(getJsonPath("books"));
+  }
+  return bookRepository;
+}
+
+// Get the configured copy repository (creating it the first time it's needed)
+export function getCopyRepository(): CopyRepository {
+  if (!copyRepository) {
+    copyRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteCopyRepository(getSqlitePath())
+        : createJsonCopyRepository(getJsonPath("copies"));
+  }
+  return copyRepository;
+}
+
+// Get the configured loan repository (creating it the first time it's needed)
+export function getLoanRepository(): LoanRepository {
+  if (!loanRepository) {
+    loanRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteLoanRepository(getSqlitePath())
+        : createJsonLoanRepository(getJsonPath("loans"));
+  }
+  return loanRepository;
+}
+
+// Get the configured patron repository (creating it the first time it's needed)
+export function getPatronRepository(): PatronRepository {
+  if (!patronRepository) {
+    patronRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqlitePatronRepository(getSqlitePath())
+        : createJsonPatronRepository(getJsonPath("patrons"));
+  }
+  return patronRepository;
+}
+
+// Get the configured fine repository (creating it the first time it's needed)
+export function getFineRepository(): FineRepository {
+  if (!fineRepository) {
+    fineRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteFineRepository(getSqlitePath())
+        : createJsonFineRepository(getJsonPath("fines"));
+  }
+  return fineRepository;
+}
+
+// Get the configured hold repository (creating it the first time it's needed)
+export function getHoldRepository(): HoldRepository {
+  if (!holdRepository) {
+    holdRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteHoldRepository(getSqlitePath())
+        : createJsonHoldRepository(getJsonPath("holds"));
+  }
+  return holdRepository;
+}
+
+// Get the configured user repository (creating it the first time it's needed)
+export function getUserRepository(): UserRepository {
+  if (!userRepository) {
+    userRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteUserRepository(getSqlitePath())
+        : createJsonUserRepository(getJsonPath("users"));
+  }
+  return userRepository;
+}
+
+// Get the configured session repository (creating it the first time it's needed)
+export function getSessionRepository(): SessionRepository {
+  if (!sessionRepository) {
+    sessionRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteSessionRepository(getSqlitePath())
+        : createJsonSessionRepository(getJsonPath("sessions"));
+  }
+  return sessionRepository;
+}
+
+// Get the configured audit repository (creating it the first time it's needed)
+export function getAuditRepository(): AuditRepository {
+  if (!auditRepository) {
+    auditRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteAuditRepository(getSqlitePath())
+        : createJsonAuditRepository(getJsonPath("audit"));
+  }
+  return auditRepository;
+}
+
+// Get the configured assessment repository (creating it the first time it's needed)
+export function getAssessmentRepository(): AssessmentRepository {
+  if (!assessmentRepository) {
+    assessmentRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteAssessmentRepository(getSqlitePath())
+        : createJsonAssessmentRepository(getJsonPath("assessments"));
+  }
+  return assessmentRepository;
+}
+
+// Get the configured genre repository (creating it the first time it's needed)
+export function getGenreRepository(): GenreRepository {
+  if (!genreRepository) {
+    genreRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteGenreRepository(getSqlitePath())
+        : createJsonGenreRepository(getJsonPath("genres"));
+  }
+  return genreRepository;
+}
+
+// Get the configured author repository (creating it the first time it's needed)
+export function getAuthorRepository(): AuthorRepository {
+  if (!authorRepository) {
+    authorRepository =
+      getBookStorageType() === "sqlite"
+        ? createSqliteAuthorRepository(getSqlitePath())
+        : createJsonAuthorRepository(getJsonPath("authors"));
+  }
+  return authorRepository;
+}
+
+// Get the cover image storage (creating it the first time it's needed)
+export function getCoverStorage(): CoverStorage {
+  if (!coverStorage) {
+    coverStorage = createLocalCoverStorage(getCoverPath());
+  }
+  return coverStorage;
+}
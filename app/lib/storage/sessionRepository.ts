@@ -0,0 +1,17 @@
+/**
+ * The SessionRepository keeps track of who is logged in.
+ * Sessions are stored on the server (the browser only holds a random token),
+ * so logging out or removing a user takes effect straight away.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { Session } from "../../types/user";
+
+// Every storage backend has to provide these functions
+export interface SessionRepository {
+  getById(id: string): Promise<Session | undefined>; // A single session, or undefined if there isn't one
+  add(session: Session): Promise<void>; // Save a new session when someone logs in
+  remove(id: string): Promise<void>; // Forget a session when someone logs out
+  removeExpired(now: Date): Promise<void>; // Clear out sessions that have run out
+}
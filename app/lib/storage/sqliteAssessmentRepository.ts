@@ -0,0 +1,131 @@
+/**
+ * An AssessmentRepository backed by the assessments table in our SQLite database.
+ */
+
+import { ConditionAssessment } from "../../types/assessment";
+import { BookCondition } from "../../types/book";
+import { AssessmentRepository } from "./assessmentRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the assessments table (0/1 for booleans, ISO strings for dates)
+interface AssessmentRow {
+  id: string;
+  copy_id: string;
+  book_id: string;
+  condition: string;
+  previous_condition: string;
+  assessed_date: string;
+  assessor_id: string | null;
+  assessor_name: string;
+  notes: string;
+  loan_id: string | null;
+  damaged: number;
+}
+
+// Create the assessments table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS assessments (
+    id TEXT PRIMARY KEY,
+    copy_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    condition TEXT NOT NULL,
+    previous_condition TEXT NOT NULL,
+    assessed_date TEXT NOT NULL,
+    assessor_id TEXT,
+    assessor_name TEXT NOT NULL,
+    notes TEXT NOT NULL DEFAULT '',
+    loan_id TEXT,
+    damaged INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS assessments_book_id ON assessments (book_id);
+`;
+
+// Convert a database row into a ConditionAssessment
+function fromRow(row: AssessmentRow): ConditionAssessment {
+  return {
+    id: row.id,
+    copyId: row.copy_id,
+    bookId: row.book_id,
+    condition: row.condition as BookCondition,
+    previousCondition: row.previous_condition as BookCondition,
+    assessedDate: new Date(row.assessed_date),
+    assessorId: row.assessor_id ?? undefined,
+    assessorName: row.assessor_name,
+    notes: row.notes,
+    loanId: row.loan_id ?? undefined,
+    damaged: row.damaged === 1,
+  };
+}
+
+// Convert a ConditionAssessment into the values for a database row
+function toRow(assessment: ConditionAssessment): AssessmentRow {
+  return {
+    id: assessment.id,
+    copy_id: assessment.copyId,
+    book_id: assessment.bookId,
+    condition: assessment.condition,
+    previous_condition: assessment.previousCondition,
+    assessed_date: assessment.assessedDate.toISOString(),
+    assessor_id: assessment.assessorId ?? null,
+    assessor_name: assessment.assessorName,
+    notes: assessment.notes,
+    loan_id: assessment.loanId ?? null,
+    damaged: assessment.damaged ? 1 : 0,
+  };
+}
+
+// Create a repository that stores assessments in the SQLite database at filePath
+export function createSqliteAssessmentRepository(
+  filePath: string
+): AssessmentRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], AssessmentRow>(
+    "SELECT * FROM assessments ORDER BY assessed_date"
+  );
+  const selectByBook = db.prepare<[string], AssessmentRow>(
+    "SELECT * FROM assessments WHERE book_id = ? ORDER BY assessed_date DESC"
+  );
+  const insert = db.prepare<AssessmentRow>(`
+    INSERT INTO assessments (id, copy_id, book_id, condition, previous_condition,
+      assessed_date, assessor_id, assessor_name, notes, loan_id, damaged)
+    VALUES (@id, @copy_id, @book_id, @condition, @previous_condition,
+      @assessed_date, @assessor_id, @assessor_name, @notes, @loan_id, @damaged)
+  `);
+  const upsert = db.prepare<AssessmentRow>(`
+    INSERT OR REPLACE INTO assessments (id, copy_id, book_id, condition, previous_condition,
+      assessed_date, assessor_id, assessor_name, notes, loan_id, damaged)
+    VALUES (@id, @copy_id, @book_id, @condition, @previous_condition,
+      @assessed_date, @assessor_id, @assessor_name, @notes, @loan_id, @damaged)
+  `);
+  const deleteByBook = db.prepare<[string]>(
+    "DELETE FROM assessments WHERE book_id = ?"
+  );
+  const upsertMany = db.transaction((rows: AssessmentRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getByBook(bookId) {
+      return selectByBook.all(bookId).map(fromRow);
+    },
+
+    async add(assessment) {
+      insert.run(toRow(assessment));
+    },
+
+    async importAssessments(assessments) {
+      upsertMany(assessments.map(toRow));
+    },
+
+    async removeByBook(bookId) {
+      deleteByBook.run(bookId);
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * An AuditRepository backed by the audit_entries table in our SQLite database.
+ */
+
+import { AuditAction, AuditChange, AuditEntry } from "../../types/audit";
+import { AuditRepository } from "./auditRepository";
+import { addMissingColumns, openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the audit_entries table
+interface AuditRow {
+  id: string;
+  book_id: string;
+  copy_id: string | null;
+  copy_barcode: string | null;
+  actor_id: string | null;
+  actor_name: string;
+  timestamp: string;
+  action: string;
+  changes: string; // The list of changes, saved as JSON text
+}
+
+// Create the audit_entries table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_entries (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    copy_id TEXT,
+    copy_barcode TEXT,
+    actor_id TEXT,
+    actor_name TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    action TEXT NOT NULL,
+    changes TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_entries_book_id ON audit_entries (book_id);
+`;
+
+// Columns added after the first release, so older databases can be upgraded
+const ADDED_COLUMNS = {
+  copy_id: "TEXT",
+  copy_barcode: "TEXT",
+};
+
+// Convert a database row into an AuditEntry
+function fromRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    copyId: row.copy_id ?? undefined,
+    copyBarcode: row.copy_barcode ?? undefined,
+    actorId: row.actor_id ?? undefined,
+    actorName: row.actor_name,
+    timestamp: new Date(row.timestamp),
+    action: row.action as AuditAction,
+    changes: JSON.parse(row.changes) as AuditChange[],
+  };
+}
+
+// Convert an AuditEntry into the values for a database row
+function toRow(entry: AuditEntry): AuditRow {
+  return {
+    id: entry.id,
+    book_id: entry.bookId,
+    copy_id: entry.copyId ?? null,
+    copy_barcode: entry.copyBarcode ?? null,
+    actor_id: entry.actorId ?? null,
+    actor_name: entry.actorName,
+    timestamp: entry.timestamp.toISOString(),
+    action: entry.action,
+    changes: JSON.stringify(entry.changes),
+  };
+}
+
+// Create a repository that stores audit entries in the SQLite database at filePath
+export function createSqliteAuditRepository(filePath: string): AuditRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+  addMissingColumns(db, "audit_entries", ADDED_COLUMNS);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], AuditRow>(
+    "SELECT * FROM audit_entries ORDER BY timestamp DESC"
+  );
+  const selectByBook = db.prepare<[string], AuditRow>(
+    "SELECT * FROM audit_entries WHERE book_id = ? ORDER BY timestamp DESC"
+  );
+  const insert = db.prepare<AuditRow>(`
+    INSERT INTO audit_entries (id, book_id, copy_id, copy_barcode, actor_id, actor_name,
+      timestamp, action, changes)
+    VALUES (@id, @book_id, @copy_id, @copy_barcode, @actor_id, @actor_name,
+      @timestamp, @action, @changes)
+  `);
+  const upsert = db.prepare<AuditRow>(`
+    INSERT OR REPLACE INTO audit_entries (id, book_id, copy_id, copy_barcode, actor_id,
+      actor_name, timestamp, action, changes)
+    VALUES (@id, @book_id, @copy_id, @copy_barcode, @actor_id,
+      @actor_name, @timestamp, @action, @changes)
+  `);
+  const upsertMany = db.transaction((rows: AuditRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getByBook(bookId) {
+      return selectByBook.all(bookId).map(fromRow);
+    },
+
+    async add(entry) {
+      insert.run(toRow(entry));
+    },
+
+    async importEntries(entries) {
+      upsertMany(entries.map(toRow));
+    },
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * An AuthorRepository backed by the authors table in our SQLite database.
+ */
+
+import { Author } from "../../types/author";
+import { AuthorRepository, mergedAliases } from "./authorRepository";
+import { addMissingColumns, openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the authors table
+interface AuthorRow {
+  id: string;
+  name: string;
+  aliases: string; // The other spellings as JSON, e.g. ["Scott Fitzgerald"]
+}
+
+// Create the authors table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS authors (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    aliases TEXT NOT NULL DEFAULT '[]'
+  );
+`;
+
+// Columns added after the authors table was first created
+const ADDED_COLUMNS = {
+  aliases: "TEXT NOT NULL DEFAULT '[]'",
+};
+
+// Convert a database row into an Author
+function fromRow(row: AuthorRow): Author {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: JSON.parse(row.aliases) as string[],
+  };
+}
+
+// Convert an Author into the values for a database row
+function toRow(author: Author): AuthorRow {
+  return {
+    id: author.id,
+    name: author.name,
+    aliases: JSON.stringify(author.aliases),
+  };
+}
+
+// Create a repository that stores authors in the SQLite database at filePath
+export function createSqliteAuthorRepository(
+  filePath: string
+): AuthorRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+  addMissingColumns(db, "authors", ADDED_COLUMNS);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], AuthorRow>(
+    "SELECT * FROM authors ORDER BY name COLLATE NOCASE"
+  );
+  const selectById = db.prepare<[string], AuthorRow>(
+    "SELECT * FROM authors WHERE id = ?"
+  );
+  const upsert = db.prepare<AuthorRow>(
+    "INSERT OR REPLACE INTO authors (id, name, aliases) VALUES (@id, @name, @aliases)"
+  );
+  const deleteById = db.prepare<[string]>("DELETE FROM authors WHERE id = ?");
+  // Read and delete an author inside one transaction
+  const removeOne = db.transaction((id: string) => {
+    const row = selectById.get(id);
+    if (!row) return undefined;
+    deleteById.run(id);
+    return fromRow(row);
+  });
+  // Read every author and add the new ones inside one transaction
+  const addNew = db.transaction((findNew: (authors: Author[]) => Author[]) => {
+    for (const author of findNew(selectAll.all().map(fromRow))) {
+      upsert.run(toRow(author));
+    }
+  });
+  // Move one author's names onto another and delete them inside one transaction
+  const mergeOne = db.transaction((fromId: string, intoId: string) => {
+    const from = selectById.get(fromId);
+    const into = selectById.get(intoId);
+    if (!from || !into || fromId === intoId) return undefined;
+    const merged = {
+      ...fromRow(into),
+      aliases: mergedAliases(fromRow(from), fromRow(into)),
+    };
+    upsert.run(toRow(merged));
+    deleteById.run(fromId);
+    return merged;
+  });
+  const upsertMany = db.transaction((rows: AuthorRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async remove(id) {
+      return removeOne.immediate(id);
+    },
+
+    async addMissing(findNew) {
+      addNew.immediate(findNew);
+    },
+
+    async merge(fromId, intoId) {
+      return mergeOne.immediate(fromId, intoId);
+    },
+
+    async importAuthors(authors) {
+      upsertMany(authors.map(toRow));
+    },
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * A BookRepository backed by an embedded SQLite database (via better-sqlite3).
+ * Each book is its own row, so editing one book only touches that row
+ * instead of rewriting the whole collection. Its copies are in the copies table.
+ */
+
+import { Book } from "../../types/book";
+import {
+  applyBookChange,
+  BookChange,
+  BookRepository,
+  BookUpdate,
+} from "./bookRepository";
+import { addMissingColumns, openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the books table
+// SQLite has no boolean or date types, so we use 0/1 and ISO strings
+interface BookRow {
+  id: string;
+  title: string;
+  author: string;
+  author_ids: string; // The ids of the book's authors as JSON, in the order they're credited
+  isbn: string;
+  published_year: number;
+  genre: string;
+  description: string;
+  tags: string; // The list of tags as JSON, e.g. ["book club","signed"]
+  cover_id: string | null;
+  is_active: number;
+  added_date: string;
+  version: number;
+  updated_at: string;
+  removed_date: string | null;
+}
+
+// Create the books table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS books (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    author_ids TEXT NOT NULL DEFAULT '[]',
+    isbn TEXT NOT NULL,
+    published_year INTEGER NOT NULL,
+    genre TEXT NOT NULL,
+    description TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    cover_id TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    added_date TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL DEFAULT '',
+    removed_date TEXT
+  );
+  CREATE INDEX IF NOT EXISTS books_is_active ON books (is_active);
+`;
+
+// Columns added after the first release, so older databases can be upgraded
+const ADDED_COLUMNS = {
+  version: "INTEGER NOT NULL DEFAULT 1",
+  updated_at: "TEXT NOT NULL DEFAULT ''",
+  removed_date: "TEXT",
+  cover_id: "TEXT",
+  tags: "TEXT NOT NULL DEFAULT '[]'",
+  author_ids: "TEXT NOT NULL DEFAULT '[]'",
+};
+
+// Convert a database row into a Book
+function fromRow(row: BookRow): Book {
+  return {
+    id: row.id,
+    title: row.title,
+    author: row.author,
+    authorIds: JSON.parse(row.author_ids) as string[],
+    isbn: row.isbn,
+    publishedYear: row.published_year,
+    genre: row.genre,
+    description: row.description,
+    tags: JSON.parse(row.tags) as string[],
+    coverId: row.cover_id ?? undefined,
+    isActive: row.is_active === 1,
+    addedDate: new Date(row.added_date),
+    version: row.version,
+    // Rows from before updated_at existed fall back to the added date
+    updatedAt: new Date(row.updated_at || row.added_date),
+    removedDate: row.removed_date ? new Date(row.removed_date) : undefined,
+  };
+}
+
+// Convert a Book into the values for a database row
+function toRow(book: Book): BookRow {
+  return {
+    id: book.id,
+    title: book.title,
+    author: book.author,
+    author_ids: JSON.stringify(book.authorIds),
+    isbn: book.isbn,
+    published_year: book.publishedYear,
+    genre: book.genre,
+    description: book.description,
+    tags: JSON.stringify(book.tags),
+    cover_id: book.coverId ?? null,
+    is_active: book.isActive ? 1 : 0,
+    added_date: book.addedDate.toISOString(),
+    version: book.version,
+    updated_at: book.updatedAt.toISOString(),
+    removed_date: book.removedDate ? book.removedDate.toISOString() : null,
+  };
+}
+
+// Create a repository that stores books in the SQLite database at filePath
+// The database file and table are created if they don't exist yet
+export function createSqliteBookRepository(filePath: string): BookRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+  addMissingColumns(db, "books", ADDED_COLUMNS);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], BookRow>("SELECT * FROM books");
+  const selectActive = db.prepare<[], BookRow>(
+    "SELECT * FROM books WHERE is_active = 1"
+  );
+  const selectById = db.prepare<[string], BookRow>(
+    "SELECT * FROM books WHERE id = ?"
+  );
+  const insert = db.prepare<BookRow>(`
+    INSERT INTO books (id, title, author, author_ids, isbn, published_year, genre,
+      description, tags, cover_id, is_active, added_date, version, updated_at,
+      removed_date)
+    VALUES (@id, @title, @author, @author_ids, @isbn, @published_year, @genre,
+      @description, @tags, @cover_id, @is_active, @added_date, @version, @updated_at,
+      @removed_date)
+  `);
+  const update = db.prepare<BookRow>(`
+    UPDATE books SET title = @title, author = @author, author_ids = @author_ids,
+      isbn = @isbn,
+      published_year = @published_year, genre = @genre, description = @description,
+      tags = @tags, cover_id = @cover_id, is_active = @is_active, added_date = @added_date,
+      version = @version, updated_at = @updated_at, removed_date = @removed_date
+    WHERE id = @id
+  `);
+  const upsert = db.prepare<BookRow>(`
+    INSERT OR REPLACE INTO books (id, title, author, author_ids, isbn, published_year,
+      genre, description, tags, cover_id, is_active, added_date, version, updated_at,
+      removed_date)
+    VALUES (@id, @title, @author, @author_ids, @isbn, @published_year, @genre,
+      @description, @tags, @cover_id, @is_active, @added_date, @version, @updated_at,
+      @removed_date)
+  `);
+  // Read, change and write a single book inside one transaction
+  // IMMEDIATE takes the write lock up front, so other connections wait their turn
+  const updateOne = db.transaction(
+    (id: string, change: BookChange, expectedVersion?: number) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = applyBookChange(fromRow(row), change, expectedVersion);
+      update.run(toRow(saved));
+      return saved;
+    }
+  );
+  // Read, change and write every matching book inside one transaction
+  const updateAll = db.transaction(
+    (matches: (book: Book) => boolean, change: BookChange) => {
+      const updates: BookUpdate[] = [];
+      for (const before of selectAll.all().map(fromRow)) {
+        if (!matches(before)) continue;
+        const saved = applyBookChange(before, change);
+        update.run(toRow(saved));
+        updates.push({ before, saved });
+      }
+      return updates;
+    }
+  );
+  const deleteById = db.prepare<[string]>("DELETE FROM books WHERE id = ?");
+  // Check the book is removed and delete it inside one transaction
+  const purgeOne = db.transaction((id: string) => {
+    const row = selectById.get(id);
+    if (!row || row.is_active === 1) return undefined;
+    deleteById.run(id);
+    return fromRow(row);
+  });
+  // Wrapping the bulk import in a transaction makes it all-or-nothing (and much faster)
+  const upsertMany = db.transaction((rows: BookRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getActive() {
+      return selectActive.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getByIds(ids) {
+      return ids.flatMap((id) => {
+        const row = selectById.get(id);
+        return row ? [fromRow(row)] : [];
+      });
+    },
+
+    async add(book) {
+      insert.run(toRow(book));
+    },
+
+    async update(id, change, expectedVersion) {
+      return updateOne.immediate(id, change, expectedVersion);
+    },
+
+    async updateMatching(matches, change) {
+      return updateAll.immediate(matches, change);
+    },
+
+    async importBooks(books) {
+      upsertMany(books.map(toRow));
+    },
+
+    async purge(id) {
+      return purgeOne.immediate(id);
+    },
+  };
+}
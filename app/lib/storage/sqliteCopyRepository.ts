@@ -0,0 +1,182 @@
+/**
+ * A CopyRepository backed by the copies table in our SQLite database.
+ */
+
+import { BookCondition } from "../../types/book";
+import { Copy } from "../../types/copy";
+import {
+  byBarcode,
+  CopyRepository,
+  DuplicateBarcodeError,
+} from "./copyRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the copies table (0/1 for booleans, ISO strings for dates)
+interface CopyRow {
+  id: string;
+  book_id: string;
+  barcode: string;
+  condition: string;
+  shelf_location: string;
+  is_checked_out: number;
+  is_active: number;
+  last_checked_out_date: string | null;
+  added_date: string;
+}
+
+// Create the copies table if this is a brand new database
+// The unique index means two copies can never share a barcode
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS copies (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    barcode TEXT NOT NULL,
+    condition TEXT NOT NULL,
+    shelf_location TEXT NOT NULL DEFAULT '',
+    is_checked_out INTEGER NOT NULL DEFAULT 0,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    last_checked_out_date TEXT,
+    added_date TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS copies_book_id ON copies (book_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS copies_barcode ON copies (barcode);
+`;
+
+// Convert a database row into a Copy
+function fromRow(row: CopyRow): Copy {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    barcode: row.barcode,
+    condition: row.condition as BookCondition,
+    shelfLocation: row.shelf_location,
+    isCheckedOut: row.is_checked_out === 1,
+    isActive: row.is_active === 1,
+    lastCheckedOutDate: row.last_checked_out_date
+      ? new Date(row.last_checked_out_date)
+      : undefined,
+    addedDate: new Date(row.added_date),
+  };
+}
+
+// Convert a Copy into the values for a database row
+function toRow(copy: Copy): CopyRow {
+  return {
+    id: copy.id,
+    book_id: copy.bookId,
+    barcode: copy.barcode,
+    condition: copy.condition,
+    shelf_location: copy.shelfLocation,
+    is_checked_out: copy.isCheckedOut ? 1 : 0,
+    is_active: copy.isActive ? 1 : 0,
+    last_checked_out_date: copy.lastCheckedOutDate
+      ? copy.lastCheckedOutDate.toISOString()
+      : null,
+    added_date: copy.addedDate.toISOString(),
+  };
+}
+
+// Create a repository that stores copies in the SQLite database at filePath
+export function createSqliteCopyRepository(filePath: string): CopyRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], CopyRow>("SELECT * FROM copies");
+  const selectByBook = db.prepare<[string], CopyRow>(
+    "SELECT * FROM copies WHERE book_id = ?"
+  );
+  const selectById = db.prepare<[string], CopyRow>(
+    "SELECT * FROM copies WHERE id = ?"
+  );
+  const selectByBarcode = db.prepare<[string], CopyRow>(
+    "SELECT * FROM copies WHERE barcode = ?"
+  );
+  const insert = db.prepare<CopyRow>(`
+    INSERT INTO copies (id, book_id, barcode, condition, shelf_location,
+      is_checked_out, is_active, last_checked_out_date, added_date)
+    VALUES (@id, @book_id, @barcode, @condition, @shelf_location,
+      @is_checked_out, @is_active, @last_checked_out_date, @added_date)
+  `);
+  // Not INSERT OR REPLACE - that would quietly delete another copy with the same barcode
+  const upsert = db.prepare<CopyRow>(`
+    INSERT INTO copies (id, book_id, barcode, condition, shelf_location,
+      is_checked_out, is_active, last_checked_out_date, added_date)
+    VALUES (@id, @book_id, @barcode, @condition, @shelf_location,
+      @is_checked_out, @is_active, @last_checked_out_date, @added_date)
+    ON CONFLICT (id) DO UPDATE SET book_id = @book_id, barcode = @barcode,
+      condition = @condition, shelf_location = @shelf_location,
+      is_checked_out = @is_checked_out, is_active = @is_active,
+      last_checked_out_date = @last_checked_out_date, added_date = @added_date
+  `);
+  const deleteByBook = db.prepare<[string]>(
+    "DELETE FROM copies WHERE book_id = ?"
+  );
+  // Check the barcode is free and save the copy inside one transaction
+  const insertOne = db.transaction((copy: Copy) => {
+    if (selectByBarcode.get(copy.barcode)) {
+      throw new DuplicateBarcodeError(copy.barcode);
+    }
+    insert.run(toRow(copy));
+  });
+  // Read, change and write a single copy inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (copy: Copy) => Copy) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = { ...change(fromRow(row)), id };
+      const sameBarcode = selectByBarcode.get(saved.barcode);
+      if (sameBarcode && sameBarcode.id !== id) {
+        throw new DuplicateBarcodeError(saved.barcode);
+      }
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  // A barcode clash throws and rolls the whole list back
+  const upsertMany = db.transaction((copies: Copy[]) => {
+    for (const copy of copies) {
+      const sameBarcode = selectByBarcode.get(copy.barcode);
+      if (sameBarcode && sameBarcode.id !== copy.id) {
+        throw new DuplicateBarcodeError(copy.barcode);
+      }
+      upsert.run(toRow(copy));
+    }
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getByBook(bookId) {
+      return selectByBook.all(bookId).map(fromRow).sort(byBarcode);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getByBarcode(barcode) {
+      const row = selectByBarcode.get(barcode);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async add(copy) {
+      insertOne.immediate(copy);
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async importCopies(copies) {
+      upsertMany.immediate(copies);
+    },
+
+    async removeByBook(bookId) {
+      deleteByBook.run(bookId);
+    },
+  };
+}
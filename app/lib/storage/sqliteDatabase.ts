@@ -0,0 +1,42 @@
+/**
+ * Shared plumbing for the SQLite backends.
+ * All of our tables live in the same database file, so every repository
+ * that points at that file shares a single connection.
+ */
+
+import Database from "better-sqlite3";
+
+// Open connections, one per database file
+const connections = new Map<string, Database.Database>();
+
+// Open (or reuse) the database at filePath
+// The file is created if it doesn't exist yet
+export function openDatabase(filePath: string): Database.Database {
+  let db = connections.get(filePath);
+  if (!db) {
+    db = new Database(filePath);
+    db.pragma("journal_mode = WAL"); // Lets readers keep reading while a write happens
+    db.pragma("foreign_keys = ON");
+    connections.set(filePath, db);
+  }
+  return db;
+}
+
+// Add any columns a table is missing
+// This brings a database created by an older version of the app up to date.
+// `columns` maps each column name to its definition, e.g. { version: "INTEGER NOT NULL DEFAULT 1" }
+export function addMissingColumns(
+  db: Database.Database,
+  table: string,
+  columns: Record<string, string>
+): void {
+  const existing = db
+    .prepare<[], { name: string }>(`PRAGMA table_info(${table})`)
+    .all()
+    .map((column) => column.name);
+  for (const [column, definition] of Object.entries(columns)) {
+    if (!existing.includes(column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
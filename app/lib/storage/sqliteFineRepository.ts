@@ -0,0 +1,137 @@
+/**
+ * A FineRepository backed by the fines table in our SQLite database.
+ */
+
+import { Fine, FineStatus } from "../../types/fine";
+import { FineRepository } from "./fineRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the fines table
+interface FineRow {
+  id: string;
+  patron_id: string;
+  loan_id: string;
+  book_id: string;
+  amount_cents: number;
+  days_late: number;
+  assessed_date: string;
+  status: string;
+  resolved_date: string | null;
+  note: string | null;
+}
+
+// Create the fines table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS fines (
+    id TEXT PRIMARY KEY,
+    patron_id TEXT NOT NULL,
+    loan_id TEXT NOT NULL,
+    book_id TEXT NOT NULL,
+    amount_cents INTEGER NOT NULL,
+    days_late INTEGER NOT NULL,
+    assessed_date TEXT NOT NULL,
+    status TEXT NOT NULL,
+    resolved_date TEXT,
+    note TEXT
+  );
+  CREATE INDEX IF NOT EXISTS fines_patron_id ON fines (patron_id);
+`;
+
+// Convert a database row into a Fine
+function fromRow(row: FineRow): Fine {
+  return {
+    id: row.id,
+    patronId: row.patron_id,
+    loanId: row.loan_id,
+    bookId: row.book_id,
+    amountCents: row.amount_cents,
+    daysLate: row.days_late,
+    assessedDate: new Date(row.assessed_date),
+    status: row.status as FineStatus,
+    resolvedDate: row.resolved_date ? new Date(row.resolved_date) : undefined,
+    note: row.note ?? undefined,
+  };
+}
+
+// Convert a Fine into the values for a database row
+function toRow(fine: Fine): FineRow {
+  return {
+    id: fine.id,
+    patron_id: fine.patronId,
+    loan_id: fine.loanId,
+    book_id: fine.bookId,
+    amount_cents: fine.amountCents,
+    days_late: fine.daysLate,
+    assessed_date: fine.assessedDate.toISOString(),
+    status: fine.status,
+    resolved_date: fine.resolvedDate ? fine.resolvedDate.toISOString() : null,
+    note: fine.note ?? null,
+  };
+}
+
+// Create a repository that stores fines in the SQLite database at filePath
+export function createSqliteFineRepository(filePath: string): FineRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], FineRow>("SELECT * FROM fines");
+  const selectById = db.prepare<[string], FineRow>(
+    "SELECT * FROM fines WHERE id = ?"
+  );
+  const selectByPatron = db.prepare<[string], FineRow>(
+    "SELECT * FROM fines WHERE patron_id = ? ORDER BY assessed_date DESC"
+  );
+  const insert = db.prepare<FineRow>(`
+    INSERT INTO fines (id, patron_id, loan_id, book_id, amount_cents, days_late,
+      assessed_date, status, resolved_date, note)
+    VALUES (@id, @patron_id, @loan_id, @book_id, @amount_cents, @days_late,
+      @assessed_date, @status, @resolved_date, @note)
+  `);
+  const upsert = db.prepare<FineRow>(`
+    INSERT OR REPLACE INTO fines (id, patron_id, loan_id, book_id, amount_cents, days_late,
+      assessed_date, status, resolved_date, note)
+    VALUES (@id, @patron_id, @loan_id, @book_id, @amount_cents, @days_late,
+      @assessed_date, @status, @resolved_date, @note)
+  `);
+  // Read, change and write a single fine inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (fine: Fine) => Fine) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = { ...change(fromRow(row)), id };
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  const upsertMany = db.transaction((rows: FineRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getByPatron(patronId) {
+      return selectByPatron.all(patronId).map(fromRow);
+    },
+
+    async add(fine) {
+      insert.run(toRow(fine));
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async importFines(fines) {
+      upsertMany(fines.map(toRow));
+    },
+  };
+}
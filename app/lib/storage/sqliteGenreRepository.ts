@@ -0,0 +1,118 @@
+/**
+ * A GenreRepository backed by the genres table in our SQLite database.
+ */
+
+import { Genre } from "../../types/genre";
+import { GenreRepository } from "./genreRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the genres table
+interface GenreRow {
+  id: string;
+  name: string;
+  parent_id: string | null;
+}
+
+// Create the genres table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS genres (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    parent_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS genres_parent_id ON genres (parent_id);
+`;
+
+// Convert a database row into a Genre
+function fromRow(row: GenreRow): Genre {
+  return {
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id ?? undefined,
+  };
+}
+
+// Convert a Genre into the values for a database row
+function toRow(genre: Genre): GenreRow {
+  return {
+    id: genre.id,
+    name: genre.name,
+    parent_id: genre.parentId ?? null,
+  };
+}
+
+// Create a repository that stores genres in the SQLite database at filePath
+export function createSqliteGenreRepository(filePath: string): GenreRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], GenreRow>(
+    "SELECT * FROM genres ORDER BY name COLLATE NOCASE"
+  );
+  const selectById = db.prepare<[string], GenreRow>(
+    "SELECT * FROM genres WHERE id = ?"
+  );
+  const insert = db.prepare<GenreRow>(`
+    INSERT INTO genres (id, name, parent_id) VALUES (@id, @name, @parent_id)
+  `);
+  const upsert = db.prepare<GenreRow>(`
+    INSERT OR REPLACE INTO genres (id, name, parent_id)
+    VALUES (@id, @name, @parent_id)
+  `);
+  const deleteById = db.prepare<[string]>("DELETE FROM genres WHERE id = ?");
+  const moveChildren = db.prepare<[string | null, string]>(
+    "UPDATE genres SET parent_id = ? WHERE parent_id = ?"
+  );
+  // Read, change and write a single genre inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (genre: Genre, genres: Genre[]) => Genre) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = {
+        ...change(fromRow(row), selectAll.all().map(fromRow)),
+        id,
+      };
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  // Delete a genre and move its sub-genres inside one transaction
+  const removeOne = db.transaction((id: string, childParentId?: string) => {
+    const row = selectById.get(id);
+    if (!row) return undefined;
+    moveChildren.run(childParentId ?? null, id);
+    deleteById.run(id);
+    return fromRow(row);
+  });
+  const upsertMany = db.transaction((rows: GenreRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async add(genre) {
+      insert.run(toRow(genre));
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async remove(id, childParentId) {
+      return removeOne.immediate(id, childParentId);
+    },
+
+    async importGenres(genres) {
+      upsertMany(genres.map(toRow));
+    },
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * A HoldRepository backed by the holds table in our SQLite database.
+ */
+
+import { ACTIVE_HOLD_STATUSES, Hold, HoldStatus } from "../../types/hold";
+import { HoldRepository } from "./holdRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the holds table
+interface HoldRow {
+  id: string;
+  book_id: string;
+  patron_id: string;
+  placed_date: string;
+  status: string;
+  ready_date: string | null;
+  pickup_by: string | null;
+  resolved_date: string | null;
+}
+
+// Create the holds table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS holds (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    patron_id TEXT NOT NULL,
+    placed_date TEXT NOT NULL,
+    status TEXT NOT NULL,
+    ready_date TEXT,
+    pickup_by TEXT,
+    resolved_date TEXT
+  );
+  CREATE INDEX IF NOT EXISTS holds_book_id ON holds (book_id);
+  CREATE INDEX IF NOT EXISTS holds_patron_id ON holds (patron_id);
+`;
+
+// Convert a database row into a Hold
+function fromRow(row: HoldRow): Hold {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    patronId: row.patron_id,
+    placedDate: new Date(row.placed_date),
+    status: row.status as HoldStatus,
+    readyDate: row.ready_date ? new Date(row.ready_date) : undefined,
+    pickupBy: row.pickup_by ? new Date(row.pickup_by) : undefined,
+    resolvedDate: row.resolved_date ? new Date(row.resolved_date) : undefined,
+  };
+}
+
+// Convert a Hold into the values for a database row
+function toRow(hold: Hold): HoldRow {
+  return {
+    id: hold.id,
+    book_id: hold.bookId,
+    patron_id: hold.patronId,
+    placed_date: hold.placedDate.toISOString(),
+    status: hold.status,
+    ready_date: hold.readyDate ? hold.readyDate.toISOString() : null,
+    pickup_by: hold.pickupBy ? hold.pickupBy.toISOString() : null,
+    resolved_date: hold.resolvedDate ? hold.resolvedDate.toISOString() : null,
+  };
+}
+
+// Create a repository that stores holds in the SQLite database at filePath
+export function createSqliteHoldRepository(filePath: string): HoldRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], HoldRow>("SELECT * FROM holds");
+  const selectAllActive = db.prepare<[], HoldRow>(
+    `SELECT * FROM holds WHERE status IN ('${HoldStatus.WAITING}', '${HoldStatus.READY}')
+     ORDER BY placed_date`
+  );
+  const selectById = db.prepare<[string], HoldRow>(
+    "SELECT * FROM holds WHERE id = ?"
+  );
+  const selectByBook = db.prepare<[string], HoldRow>(
+    "SELECT * FROM holds WHERE book_id = ? ORDER BY placed_date"
+  );
+  const selectByPatron = db.prepare<[string], HoldRow>(
+    "SELECT * FROM holds WHERE patron_id = ? ORDER BY placed_date"
+  );
+  const insert = db.prepare<HoldRow>(`
+    INSERT INTO holds (id, book_id, patron_id, placed_date, status, ready_date,
+      pickup_by, resolved_date)
+    VALUES (@id, @book_id, @patron_id, @placed_date, @status, @ready_date,
+      @pickup_by, @resolved_date)
+  `);
+  const upsert = db.prepare<HoldRow>(`
+    INSERT OR REPLACE INTO holds (id, book_id, patron_id, placed_date, status, ready_date,
+      pickup_by, resolved_date)
+    VALUES (@id, @book_id, @patron_id, @placed_date, @status, @ready_date,
+      @pickup_by, @resolved_date)
+  `);
+  // Read, change and write a single hold inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (hold: Hold) => Hold) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = { ...change(fromRow(row)), id };
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  // Check the queue and add the hold inside one transaction
+  const addOne = db.transaction((hold: Hold) => {
+    const queue = selectByBook
+      .all(hold.bookId)
+      .filter((row) => ACTIVE_HOLD_STATUSES.includes(row.status as HoldStatus));
+    if (queue.some((row) => row.patron_id === hold.patronId)) return undefined;
+    insert.run(toRow(hold));
+    return queue.length + 1;
+  });
+  const upsertMany = db.transaction((rows: HoldRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getAllActive() {
+      return selectAllActive.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getByBook(bookId) {
+      return selectByBook.all(bookId).map(fromRow);
+    },
+
+    async getByPatron(patronId) {
+      return selectByPatron.all(patronId).map(fromRow);
+    },
+
+    async add(hold) {
+      insert.run(toRow(hold));
+    },
+
+    async addToQueue(hold) {
+      return addOne.immediate(hold);
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async importHolds(holds) {
+      upsertMany(holds.map(toRow));
+    },
+  };
+}
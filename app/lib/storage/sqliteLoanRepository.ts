@@ -0,0 +1,156 @@
+/**
+ * A LoanRepository backed by the loans table in our SQLite database.
+ */
+
+import { Loan } from "../../types/loan";
+import { LoanRepository } from "./loanRepository";
+import { addMissingColumns, openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the loans table (dates are ISO strings)
+interface LoanRow {
+  id: string;
+  book_id: string;
+  copy_id: string | null;
+  patron_id: string | null;
+  borrower: string;
+  checkout_date: string;
+  due_date: string;
+  return_date: string | null;
+}
+
+// Create the loans table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS loans (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    copy_id TEXT,
+    patron_id TEXT,
+    borrower TEXT NOT NULL,
+    checkout_date TEXT NOT NULL,
+    due_date TEXT NOT NULL,
+    return_date TEXT
+  );
+  CREATE INDEX IF NOT EXISTS loans_book_id ON loans (book_id);
+`;
+
+// Columns added after the first release, so older databases can be upgraded
+const ADDED_COLUMNS = {
+  patron_id: "TEXT",
+  copy_id: "TEXT",
+};
+
+// Convert a database row into a Loan
+function fromRow(row: LoanRow): Loan {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    copyId: row.copy_id ?? undefined,
+    patronId: row.patron_id ?? undefined,
+    borrower: row.borrower,
+    checkoutDate: new Date(row.checkout_date),
+    dueDate: new Date(row.due_date),
+    returnDate: row.return_date ? new Date(row.return_date) : undefined,
+  };
+}
+
+// Convert a Loan into the values for a database row
+function toRow(loan: Loan): LoanRow {
+  return {
+    id: loan.id,
+    book_id: loan.bookId,
+    copy_id: loan.copyId ?? null,
+    patron_id: loan.patronId ?? null,
+    borrower: loan.borrower,
+    checkout_date: loan.checkoutDate.toISOString(),
+    due_date: loan.dueDate.toISOString(),
+    return_date: loan.returnDate ? loan.returnDate.toISOString() : null,
+  };
+}
+
+// Create a repository that stores loans in the SQLite database at filePath
+export function createSqliteLoanRepository(filePath: string): LoanRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+  addMissingColumns(db, "loans", ADDED_COLUMNS);
+  db.exec("CREATE INDEX IF NOT EXISTS loans_patron_id ON loans (patron_id)");
+  db.exec("CREATE INDEX IF NOT EXISTS loans_copy_id ON loans (copy_id)");
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], LoanRow>("SELECT * FROM loans");
+  const selectById = db.prepare<[string], LoanRow>(
+    "SELECT * FROM loans WHERE id = ?"
+  );
+  const selectByBook = db.prepare<[string], LoanRow>(
+    "SELECT * FROM loans WHERE book_id = ? ORDER BY checkout_date DESC"
+  );
+  const selectByPatron = db.prepare<[string], LoanRow>(
+    "SELECT * FROM loans WHERE patron_id = ? ORDER BY checkout_date DESC"
+  );
+  const selectOpen = db.prepare<[string], LoanRow>(
+    "SELECT * FROM loans WHERE copy_id = ? AND return_date IS NULL"
+  );
+  const selectAllOpen = db.prepare<[], LoanRow>(
+    "SELECT * FROM loans WHERE return_date IS NULL"
+  );
+  const insert = db.prepare<LoanRow>(`
+    INSERT INTO loans (id, book_id, copy_id, patron_id, borrower, checkout_date, due_date, return_date)
+    VALUES (@id, @book_id, @copy_id, @patron_id, @borrower, @checkout_date, @due_date, @return_date)
+  `);
+  const upsert = db.prepare<LoanRow>(`
+    INSERT OR REPLACE INTO loans (id, book_id, copy_id, patron_id, borrower, checkout_date, due_date, return_date)
+    VALUES (@id, @book_id, @copy_id, @patron_id, @borrower, @checkout_date, @due_date, @return_date)
+  `);
+  // Read, change and write a single loan inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (loan: Loan) => Loan) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = { ...change(fromRow(row)), id };
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  const upsertMany = db.transaction((rows: LoanRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getByBook(bookId) {
+      return selectByBook.all(bookId).map(fromRow);
+    },
+
+    async getByPatron(patronId) {
+      return selectByPatron.all(patronId).map(fromRow);
+    },
+
+    async getOpenLoan(copyId) {
+      const row = selectOpen.get(copyId);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getAllOpen() {
+      return selectAllOpen.all().map(fromRow);
+    },
+
+    async add(loan) {
+      insert.run(toRow(loan));
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async importLoans(loans) {
+      upsertMany(loans.map(toRow));
+    },
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * A PatronRepository backed by the patrons table in our SQLite database.
+ */
+
+import { Patron } from "../../types/patron";
+import { PatronRepository } from "./patronRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the patrons table
+interface PatronRow {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  is_active: number;
+  joined_date: string;
+}
+
+// Create the patrons table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS patrons (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    joined_date TEXT NOT NULL
+  );
+`;
+
+// Convert a database row into a Patron
+function fromRow(row: PatronRow): Patron {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone ?? undefined,
+    isActive: row.is_active === 1,
+    joinedDate: new Date(row.joined_date),
+  };
+}
+
+// Convert a Patron into the values for a database row
+function toRow(patron: Patron): PatronRow {
+  return {
+    id: patron.id,
+    name: patron.name,
+    email: patron.email,
+    phone: patron.phone ?? null,
+    is_active: patron.isActive ? 1 : 0,
+    joined_date: patron.joinedDate.toISOString(),
+  };
+}
+
+// Create a repository that stores patrons in the SQLite database at filePath
+export function createSqlitePatronRepository(
+  filePath: string
+): PatronRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], PatronRow>(
+    "SELECT * FROM patrons ORDER BY name COLLATE NOCASE"
+  );
+  const selectActive = db.prepare<[], PatronRow>(
+    "SELECT * FROM patrons WHERE is_active = 1 ORDER BY name COLLATE NOCASE"
+  );
+  const selectById = db.prepare<[string], PatronRow>(
+    "SELECT * FROM patrons WHERE id = ?"
+  );
+  const insert = db.prepare<PatronRow>(`
+    INSERT INTO patrons (id, name, email, phone, is_active, joined_date)
+    VALUES (@id, @name, @email, @phone, @is_active, @joined_date)
+  `);
+  const upsert = db.prepare<PatronRow>(`
+    INSERT OR REPLACE INTO patrons (id, name, email, phone, is_active, joined_date)
+    VALUES (@id, @name, @email, @phone, @is_active, @joined_date)
+  `);
+  // Read, change and write a single patron inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (patron: Patron) => Patron) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = { ...change(fromRow(row)), id };
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  const upsertMany = db.transaction((rows: PatronRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getActive() {
+      return selectActive.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async add(patron) {
+      insert.run(toRow(patron));
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async importPatrons(patrons) {
+      upsertMany(patrons.map(toRow));
+    },
+  };
+}
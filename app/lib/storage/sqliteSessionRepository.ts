@@ -0,0 +1,86 @@
+/**
+ * A SessionRepository backed by the sessions table in our SQLite database.
+ */
+
+import { Session } from "../../types/user";
+import { SessionRepository } from "./sessionRepository";
+import { openDatabase } from "./sqliteDatabase";
+
+// The shape of a row in the sessions table
+interface SessionRow {
+  id: string;
+  user_id: string;
+  created_date: string;
+  expires_date: string;
+}
+
+// Create the sessions table if this is a brand new database
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_date TEXT NOT NULL,
+    expires_date TEXT NOT NULL
+  );
+`;
+
+// Convert a database row into a Session
+function fromRow(row: SessionRow): Session {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    createdDate: new Date(row.created_date),
+    expiresDate: new Date(row.expires_date),
+  };
+}
+
+// Convert a Session into the values for a database row
+function toRow(session: Session): SessionRow {
+  return {
+    id: session.id,
+    user_id: session.userId,
+    created_date: session.createdDate.toISOString(),
+    expires_date: session.expiresDate.toISOString(),
+  };
+}
+
+// Create a repository that stores sessions in the SQLite database at filePath
+export function createSqliteSessionRepository(
+  filePath: string
+): SessionRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectById = db.prepare<[string], SessionRow>(
+    "SELECT * FROM sessions WHERE id = ?"
+  );
+  const insert = db.prepare<SessionRow>(`
+    INSERT INTO sessions (id, user_id, created_date, expires_date)
+    VALUES (@id, @user_id, @created_date, @expires_date)
+  `);
+  const deleteById = db.prepare<[string]>("DELETE FROM sessions WHERE id = ?");
+  // ISO strings sort in date order, so we can compare them as text
+  const deleteExpired = db.prepare<[string]>(
+    "DELETE FROM sessions WHERE expires_date <= ?"
+  );
+
+  return {
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async add(session) {
+      insert.run(toRow(session));
+    },
+
+    async remove(id) {
+      deleteById.run(id);
+    },
+
+    async removeExpired(now) {
+      deleteExpired.run(now.toISOString());
+    },
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * A UserRepository backed by the users table in our SQLite database.
+ */
+
+import { User, UserRole } from "../../types/user";
+import { openDatabase } from "./sqliteDatabase";
+import { UserRepository } from "./userRepository";
+
+// The shape of a row in the users table
+interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: string;
+  patron_id: string | null;
+  is_active: number;
+  created_date: string;
+}
+
+// Create the users table if this is a brand new database
+// COLLATE NOCASE makes "Alice" and "alice" the same username
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL,
+    patron_id TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_date TEXT NOT NULL
+  );
+`;
+
+// Convert a database row into a User
+function fromRow(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    passwordHash: row.password_hash,
+    role: row.role as UserRole,
+    patronId: row.patron_id ?? undefined,
+    isActive: row.is_active === 1,
+    createdDate: new Date(row.created_date),
+  };
+}
+
+// Convert a User into the values for a database row
+function toRow(user: User): UserRow {
+  return {
+    id: user.id,
+    username: user.username,
+    password_hash: user.passwordHash,
+    role: user.role,
+    patron_id: user.patronId ?? null,
+    is_active: user.isActive ? 1 : 0,
+    created_date: user.createdDate.toISOString(),
+  };
+}
+
+// Create a repository that stores users in the SQLite database at filePath
+export function createSqliteUserRepository(filePath: string): UserRepository {
+  const db = openDatabase(filePath);
+  db.exec(SCHEMA);
+
+  // Prepare our statements once and reuse them for every call
+  const selectAll = db.prepare<[], UserRow>(
+    "SELECT * FROM users ORDER BY username"
+  );
+  const selectById = db.prepare<[string], UserRow>(
+    "SELECT * FROM users WHERE id = ?"
+  );
+  const selectByUsername = db.prepare<[string], UserRow>(
+    "SELECT * FROM users WHERE username = ?"
+  );
+  const insert = db.prepare<UserRow>(`
+    INSERT INTO users (id, username, password_hash, role, patron_id, is_active, created_date)
+    VALUES (@id, @username, @password_hash, @role, @patron_id, @is_active, @created_date)
+  `);
+  const upsert = db.prepare<UserRow>(`
+    INSERT OR REPLACE INTO users (id, username, password_hash, role, patron_id, is_active, created_date)
+    VALUES (@id, @username, @password_hash, @role, @patron_id, @is_active, @created_date)
+  `);
+  // Read, change and write a single user inside one transaction
+  const updateOne = db.transaction(
+    (id: string, change: (user: User) => User) => {
+      const row = selectById.get(id);
+      if (!row) return undefined;
+      const saved = { ...change(fromRow(row)), id };
+      upsert.run(toRow(saved));
+      return saved;
+    }
+  );
+  const upsertMany = db.transaction((rows: UserRow[]) => {
+    for (const row of rows) upsert.run(row);
+  });
+
+  return {
+    async getAll() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async getById(id) {
+      const row = selectById.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async getByUsername(username) {
+      const row = selectByUsername.get(username);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async add(user) {
+      insert.run(toRow(user));
+    },
+
+    async update(id, change) {
+      return updateOne.immediate(id, change);
+    },
+
+    async importUsers(users) {
+      upsertMany(users.map(toRow));
+    },
+  };
+}
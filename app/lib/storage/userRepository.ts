@@ -0,0 +1,25 @@
+/**
+ * The UserRepository is the one place the rest of the app goes to load and save
+ * the accounts people log in with.
+ * Like BookRepository, it has a JSON file backend and a SQLite backend,
+ * and which one is used is decided in repositories.ts.
+ */
+
+import { User } from "../../types/user";
+
+// Every storage backend has to provide these functions
+export interface UserRepository {
+  getAll(): Promise<User[]>; // Every account, sorted by username
+  getById(id: string): Promise<User | undefined>; // A single user, or undefined if they don't exist
+  getByUsername(username: string): Promise<User | undefined>; // Usernames are compared ignoring case
+  add(user: User): Promise<void>; // Save a brand new user - throws if the username is taken
+  // Change an existing user. The read, the change and the write happen as one step.
+  // Returns the saved user, or undefined if there's no user with that id.
+  update(id: string, change: (user: User) => User): Promise<User | undefined>;
+  importUsers(users: User[]): Promise<void>; // Bulk insert/replace, used by the migration command
+}
+
+// Sort users alphabetically by username
+export function byUsername(a: User, b: User): number {
+  return a.username.localeCompare(b.username);
+}
@@ -0,0 +1,212 @@
+/**
+ * Runtime checks for the book data that comes in from the create and edit forms.
+ * TypeScript types disappear when the code runs, so a server action can be
+ * sent anything at all - these functions make sure every field really is
+ * what AddBookData says it is before we save it.
+ */
+
+import { AddBookData, BookCondition, BookFieldErrors } from "../../types/book";
+import { normalizeAuthors, parseAuthorList } from "../catalog/authorNames";
+
+// Limits for the text fields (author is the limit for each author's name)
+export const MAX_LENGTHS = {
+  title: 200,
+  author: 200,
+  genre: 100,
+  description: 2000,
+};
+
+// The most authors one book can have
+export const MAX_AUTHORS = 10;
+
+// Limits for a book's tags
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+
+// The earliest year we accept - the printing press arrived around 1450
+export const MIN_PUBLISHED_YEAR = 1450;
+
+// The result of validating some book data
+// Either we get clean data back, or a message for every field that's wrong
+export type BookValidationResult =
+  | { success: true; data: AddBookData }
+  | { success: false; errors: BookFieldErrors };
+
+// Check an ISBN-10 or ISBN-13, including its check digit
+// Hyphens and spaces are allowed (978-0743273565 and 9780743273565 are both fine)
+export function isValidIsbn(isbn: string): boolean {
+  const digits = isbn.replace(/[-\s]/g, "").toUpperCase();
+
+  // ISBN-10: nine digits and a check digit (which can be X for 10)
+  // Weighted sum 10*d1 + 9*d2 + ... + 1*d10 must divide by 11
+  if (/^[0-9]{9}[0-9X]$/.test(digits)) {
+    const sum = digits
+      .split("")
+      .reduce(
+        (total, char, i) =>
+          total + (char === "X" ? 10 : Number(char)) * (10 - i),
+        0
+      );
+    return sum % 11 === 0;
+  }
+
+  // ISBN-13: thirteen digits, weighted 1,3,1,3,... and the sum must divide by 10
+  if (/^[0-9]{13}$/.test(digits)) {
+    const sum = digits
+      .split("")
+      .reduce(
+        (total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3),
+        0
+      );
+    return sum % 10 === 0;
+  }
+
+  return false;
+}
+
+// Turn a valid ISBN into the 13 digit form, so the same book can be recognised
+// whether it was typed as an ISBN-10 or an ISBN-13, with or without hyphens
+// Returns undefined for anything that isn't a valid ISBN
+export function toIsbn13(isbn: string): string | undefined {
+  if (!isValidIsbn(isbn)) return undefined;
+  const digits = isbn.replace(/[-\s]/g, "").toUpperCase();
+  if (digits.length === 13) return digits;
+
+  // An ISBN-10 becomes 978 + its first nine digits + a new ISBN-13 check digit
+  const body = `978${digits.slice(0, 9)}`;
+  const sum = body
+    .split("")
+    .reduce(
+      (total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3),
+      0
+    );
+  return `${body}${(10 - (sum % 10)) % 10}`;
+}
+
+// Is this one of the values in our BookCondition enum?
+export function isBookCondition(value: unknown): value is BookCondition {
+  return Object.values(BookCondition).includes(value as BookCondition);
+}
+
+// Check a required text field and return an error message if it's not OK
+function checkText(
+  value: unknown,
+  label: string,
+  maxLength: number
+): string | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return `${label} is required`;
+  }
+  if (value.trim().length > maxLength) {
+    return `${label} must be ${maxLength} characters or fewer`;
+  }
+  return undefined;
+}
+
+// Tidy a list of tags: trim them, drop empty ones, and keep only the first of any
+// that differ just in case ("Book Club" and "book club" are the same tag)
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const clean = tag.trim().replace(/\s+/g, " ");
+    if (clean === "" || seen.has(clean.toLowerCase())) continue;
+    seen.add(clean.toLowerCase());
+    result.push(clean);
+  }
+  return result;
+}
+
+// Split typed or imported text into tags - they can be separated by commas or semicolons
+// e.g. "book club; staff pick, signed" -> ["book club", "staff pick", "signed"]
+export function parseTagList(text: string): string[] {
+  return normalizeTags(text.split(/[,;]/));
+}
+
+// Validate everything a client sent for a new or edited book
+// input is "unknown" on purpose - we can't trust anything that came over the network
+export function validateBookData(input: unknown): BookValidationResult {
+  const data = (input ?? {}) as Record<string, unknown>;
+  const errors: BookFieldErrors = {};
+
+  const titleError = checkText(data.title, "Title", MAX_LENGTHS.title);
+  if (titleError) errors.title = titleError;
+
+  // Older clients send the authors as one piece of text in `author`, like the import does
+  const authors =
+    data.authors === undefined && typeof data.author === "string"
+      ? parseAuthorList(data.author)
+      : data.authors;
+  if (
+    !Array.isArray(authors) ||
+    !authors.every((author) => typeof author === "string")
+  ) {
+    errors.authors = "Authors must be a list of names";
+  } else if (normalizeAuthors(authors).length === 0) {
+    errors.authors = "At least one author is required";
+  } else if (normalizeAuthors(authors).length > MAX_AUTHORS) {
+    errors.authors = `A book can have at most ${MAX_AUTHORS} authors`;
+  } else if (
+    authors.some((author) => author.trim().length > MAX_LENGTHS.author)
+  ) {
+    errors.authors = `Each author's name must be ${MAX_LENGTHS.author} characters or fewer`;
+  }
+
+  const genreError = checkText(data.genre, "Genre", MAX_LENGTHS.genre);
+  if (genreError) errors.genre = genreError;
+
+  const descriptionError = checkText(
+    data.description,
+    "Description",
+    MAX_LENGTHS.description
+  );
+  if (descriptionError) errors.description = descriptionError;
+
+  if (typeof data.isbn !== "string" || data.isbn.trim() === "") {
+    errors.isbn = "ISBN is required";
+  } else if (!isValidIsbn(data.isbn.trim())) {
+    errors.isbn = "ISBN must be a valid ISBN-10 or ISBN-13";
+  }
+
+  // Tags are optional - a book without any can leave them out
+  const tags = data.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+    errors.tags = "Tags must be a list of text";
+  } else if (normalizeTags(tags).length > MAX_TAGS) {
+    errors.tags = `A book can have at most ${MAX_TAGS} tags`;
+  } else if (tags.some((tag) => tag.trim().length > MAX_TAG_LENGTH)) {
+    errors.tags = `Each tag must be ${MAX_TAG_LENGTH} characters or fewer`;
+  }
+
+  // parseInt("") gives NaN, so we check for a real whole number
+  const maxYear = new Date().getFullYear() + 1;
+  if (
+    typeof data.publishedYear !== "number" ||
+    !Number.isInteger(data.publishedYear)
+  ) {
+    errors.publishedYear = "Published year must be a whole number";
+  } else if (
+    data.publishedYear < MIN_PUBLISHED_YEAR ||
+    data.publishedYear > maxYear
+  ) {
+    errors.publishedYear = `Published year must be between ${MIN_PUBLISHED_YEAR} and ${maxYear}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  // Only copy the fields we know about, so extra properties can't sneak into storage
+  return {
+    success: true,
+    data: {
+      title: (data.title as string).trim(),
+      authors: normalizeAuthors(authors as string[]),
+      isbn: (data.isbn as string).trim(),
+      publishedYear: data.publishedYear as number,
+      genre: (data.genre as string).trim(),
+      description: (data.description as string).trim(),
+      tags: normalizeTags(tags as string[]),
+    },
+  };
+}
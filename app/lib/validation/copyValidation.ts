@@ -0,0 +1,111 @@
+/**
+ * Runtime checks for the copy data that comes in from the copy forms, and for
+ * condition assessments. Like bookValidation.ts, this makes sure every field
+ * really is what CopyData or AssessmentData says it is before we save it.
+ */
+
+import { BookCondition } from "../../types/book";
+import { CopyData, CopyFieldErrors } from "../../types/copy";
+import { AssessmentData, AssessmentFieldErrors } from "../../types/assessment";
+import { isBookCondition } from "./bookValidation";
+
+// Barcodes are letters, digits and hyphens, e.g. 000123 or LIB-2024-0042
+export const BARCODE_PATTERN = /^[A-Z0-9-]{1,32}$/;
+
+export const MAX_SHELF_LOCATION_LENGTH = 100;
+export const MAX_ASSESSMENT_NOTES_LENGTH = 1000;
+
+// The result of validating some copy data
+export type CopyValidationResult =
+  | { success: true; data: CopyData }
+  | { success: false; errors: CopyFieldErrors };
+
+// The result of validating a condition assessment
+export type AssessmentValidationResult =
+  | { success: true; data: AssessmentData }
+  | { success: false; errors: AssessmentFieldErrors };
+
+// Barcodes are stored in capitals, so "abc-1" and "ABC-1" are the same label
+export function normalizeBarcode(barcode: string): string {
+  return barcode.trim().toUpperCase();
+}
+
+// Validate everything a client sent for a new or edited copy
+// input is "unknown" on purpose - we can't trust anything that came over the network
+export function validateCopyData(input: unknown): CopyValidationResult {
+  const data = (input ?? {}) as Record<string, unknown>;
+  const errors: CopyFieldErrors = {};
+
+  // The barcode can be left empty - the server picks the next free one
+  const barcode = data.barcode ?? "";
+  if (typeof barcode !== "string") {
+    errors.barcode = "Barcode must be text";
+  } else if (
+    barcode.trim() &&
+    !BARCODE_PATTERN.test(normalizeBarcode(barcode))
+  ) {
+    errors.barcode =
+      "Barcode can only have letters, digits and hyphens (up to 32)";
+  }
+
+  if (!isBookCondition(data.condition)) {
+    errors.condition = `Condition must be one of ${Object.values(
+      BookCondition
+    ).join(", ")}`;
+  }
+
+  const shelfLocation = data.shelfLocation ?? "";
+  if (typeof shelfLocation !== "string") {
+    errors.shelfLocation = "Shelf location must be text";
+  } else if (shelfLocation.trim().length > MAX_SHELF_LOCATION_LENGTH) {
+    errors.shelfLocation = `Shelf location must be ${MAX_SHELF_LOCATION_LENGTH} characters or fewer`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  // Only copy the fields we know about, so extra properties can't sneak into storage
+  return {
+    success: true,
+    data: {
+      barcode: normalizeBarcode(barcode as string),
+      condition: data.condition as BookCondition,
+      shelfLocation: (shelfLocation as string).trim(),
+    },
+  };
+}
+
+// Validate a condition assessment - the condition the copy is in and any notes
+export function validateAssessmentData(
+  input: unknown
+): AssessmentValidationResult {
+  const data = (input ?? {}) as Record<string, unknown>;
+  const errors: AssessmentFieldErrors = {};
+
+  if (!isBookCondition(data.condition)) {
+    errors.condition = `Condition must be one of ${Object.values(
+      BookCondition
+    ).join(", ")}`;
+  }
+
+  // Notes are optional
+  const notes = data.notes ?? "";
+  if (typeof notes !== "string") {
+    errors.notes = "Notes must be text";
+  } else if (notes.trim().length > MAX_ASSESSMENT_NOTES_LENGTH) {
+    errors.notes = `Notes must be ${MAX_ASSESSMENT_NOTES_LENGTH} characters or fewer`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  return {
+    success: true,
+    data: {
+      condition: data.condition as BookCondition,
+      notes: (notes as string).trim(),
+    },
+  };
+}
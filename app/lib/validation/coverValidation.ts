@@ -0,0 +1,34 @@
+/**
+ * Checks for cover image uploads. The cover form runs these in the browser so
+ * people find out straight away, and the server runs them again on whatever
+ * it's sent - then it checks the file really is an image (see coverImages.ts).
+ */
+
+// The image types we accept, with how we describe them
+export const COVER_TYPES: Record<string, string> = {
+  "image/jpeg": "JPEG",
+  "image/png": "PNG",
+  "image/webp": "WebP",
+  "image/gif": "GIF",
+};
+
+// The biggest cover file we accept - a good scan of a cover is well under this
+export const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+// Check an uploaded file's type and size
+// Returns the error message to show, or undefined if the file is fine
+export function validateCoverFile(file: {
+  type: string;
+  size: number;
+}): string | undefined {
+  if (!(file.type in COVER_TYPES)) {
+    return `Covers must be ${Object.values(COVER_TYPES).join(", ")} images`;
+  }
+  if (file.size === 0) {
+    return "The file is empty";
+  }
+  if (file.size > MAX_COVER_BYTES) {
+    return `Covers can be at most ${MAX_COVER_BYTES / 1024 / 1024} MB`;
+  }
+  return undefined;
+}
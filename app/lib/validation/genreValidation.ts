@@ -0,0 +1,45 @@
+/**
+ * Runtime checks for the genre data that comes in from the genres admin page.
+ * Works the same way as bookValidation.ts. Whether the name is already taken and
+ * whether the parent exists depend on the other genres, so genreActions.ts checks those.
+ */
+
+import { GenreData, GenreFieldErrors } from "../../types/genre";
+import { MAX_LENGTHS } from "./bookValidation";
+
+// The result of validating some genre data
+export type GenreValidationResult =
+  | { success: true; data: GenreData }
+  | { success: false; errors: GenreFieldErrors };
+
+// Validate everything a client sent for a new or edited genre
+export function validateGenreData(input: unknown): GenreValidationResult {
+  const data = (input ?? {}) as Record<string, unknown>;
+  const errors: GenreFieldErrors = {};
+
+  // Books keep their genre's name, so it has the same limit as the book's genre field
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  if (name === "") {
+    errors.name = "Name is required";
+  } else if (name.length > MAX_LENGTHS.genre) {
+    errors.name = `Name must be ${MAX_LENGTHS.genre} characters or fewer`;
+  }
+
+  // The parent is optional - an empty one means a top-level genre
+  if (data.parentId !== undefined && typeof data.parentId !== "string") {
+    errors.parentId = "Parent must be a genre";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  // Only copy the fields we know about, so extra properties can't sneak into storage
+  return {
+    success: true,
+    data: {
+      name: name.replace(/\s+/g, " "),
+      parentId: (data.parentId as string | undefined) || undefined,
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Runtime checks for the patron data that comes in from the create and edit forms.
+ * Works the same way as bookValidation.ts.
+ */
+
+import { AddPatronData, PatronFieldErrors } from "../../types/patron";
+
+// A simple email check - something@something.something
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Digits plus the usual phone punctuation: +1 (555) 123-4567
+const PHONE_PATTERN = /^\+?[0-9\s().-]{7,20}$/;
+
+// The result of validating some patron data
+export type PatronValidationResult =
+  | { success: true; data: AddPatronData }
+  | { success: false; errors: PatronFieldErrors };
+
+// Validate everything a client sent for a new or edited patron
+export function validatePatronData(input: unknown): PatronValidationResult {
+  const data = (input ?? {}) as Record<string, unknown>;
+  const errors: PatronFieldErrors = {};
+
+  if (typeof data.name !== "string" || data.name.trim() === "") {
+    errors.name = "Name is required";
+  } else if (data.name.trim().length > 200) {
+    errors.name = "Name must be 200 characters or fewer";
+  }
+
+  if (typeof data.email !== "string" || data.email.trim() === "") {
+    errors.email = "Email is required";
+  } else if (!EMAIL_PATTERN.test(data.email.trim())) {
+    errors.email = "Email must be a valid email address";
+  }
+
+  // Phone is optional, but if it's there it has to look like a phone number
+  if (data.phone !== undefined && typeof data.phone !== "string") {
+    errors.phone = "Phone must be text";
+  } else if (data.phone && !PHONE_PATTERN.test(data.phone.trim())) {
+    errors.phone = "Phone must be a valid phone number";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors };
+  }
+
+  // Only copy the fields we know about, so extra properties can't sneak into storage
+  const phone = (data.phone as string | undefined)?.trim();
+  return {
+    success: true,
+    data: {
+      name: (data.name as string).trim(),
+      email: (data.email as string).trim().toLowerCase(),
+      phone: phone || undefined,
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * This is the login page, at /login.
+ * Staff log in here to manage books, patrons and loans, and patrons log in
+ * to place holds. Accounts are created with `npm run user:create`.
+ */
+
+// Tell Next.js this is a Client Component (runs in the browser)
+"use client";
+
+import { useState } from "react"; // React hook for managing form state
+import { useRouter } from "next/navigation"; // For moving on after logging in
+import Link from "next/link"; // For the back button
+import { login } from "../lib/actions/authActions"; // Checks the username and password
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null); // Shown if the login fails
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await login(username, password);
+    if (result.status === "invalid") {
+      setError(result.error);
+      setPassword(""); // Make them type the password again
+      return;
+    }
+    router.push("/books");
+    router.refresh(); // Reload so the layout picks up the new user
+  };
+
+  return (
+    <div className="p-4 max-w-md">
+      <Link href="/" className="border p-2">
+        ← Back to Home
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Log In</h1>
+      <form onSubmit={handleSubmit} className="mt-4">
+        <div className="mb-4">
+          <label>
+            <div>Username:</div>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full border p-2 text-black"
+              autoComplete="username"
+              required
+              autoFocus
+            />
+          </label>
+        </div>
+        <div className="mb-4">
+          <label>
+            <div>Password:</div>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full border p-2 text-black"
+              autoComplete="current-password"
+              required
+            />
+          </label>
+        </div>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+        >
+          Log In
+        </button>
+      </form>
+    </div>
+  );
+}
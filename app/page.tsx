@@ -1,10 +1,37 @@
 // This is the main page component in Next.js (routes to '/')
 // In the App Router, page.tsx files automatically become routes
+// It shows links to each part of the library and a dashboard of library statistics,
+// which can be narrowed to a date range (e.g. /?from=2025-01-01&to=2025-06-30)
 import Link from "next/link";
-import Child from "./ui/Child";
+import { getCurrentUser } from "./lib/auth/session"; // Who is logged in
+import { can } from "./lib/auth/permissions"; // What they're allowed to do
+import { getLibraryStats } from "./lib/actions/statsActions"; // The dashboard numbers
+import { parseStatsRange } from "./lib/stats/libraryStats"; // Reads the date range from the URL
+import { SearchParamValues } from "./lib/search/bookQuery";
+import BarChart from "./ui/BarChart"; // Simple server-drawn charts
+
+// How many of the books nobody borrowed to list before "and N more"
+const NEVER_BORROWED_SHOWN = 10;
+
+// In Next.js 15, the URL's search params are a Promise
+type PageSearchParams = Promise<SearchParamValues>;
+
 // The default export defines the main component for this route
 // This is a Server Component by default in Next.js 13+
-export default function Home() {
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: PageSearchParams;
+}) {
+  const user = await getCurrentUser();
+  const range = parseStatsRange(await searchParams);
+  // Work the numbers out on the server, at request time
+  const stats = await getLibraryStats(range);
+  const period =
+    range.from || range.to
+      ? `${range.from ?? "the start"} to ${range.to ?? "today"}`
+      : "all time";
+
   return (
     // Using Tailwind CSS classes for styling (p-4 adds padding)
     <div className="p-4">
@@ -17,7 +44,151 @@ export default function Home() {
       <Link href="/books" className="mt-4 inline-block border p-2">
         Browse Books
       </Link>
-      <Child testProps="Hello World" />
+      {/* Links for library staff only */}
+      {can(user, "patrons:manage") && (
+        <Link href="/patrons" className="mt-4 ml-2 inline-block border p-2">
+          Manage Patrons
+        </Link>
+      )}
+      {can(user, "circulation") && (
+        <Link href="/desk" className="mt-4 ml-2 inline-block border p-2">
+          Circulation Desk
+        </Link>
+      )}
+      {can(user, "circulation") && (
+        <Link
+          href="/reports/overdue"
+          className="mt-4 ml-2 inline-block border p-2"
+        >
+          Overdue Report
+        </Link>
+      )}
+      {can(user, "circulation") && (
+        <Link
+          href="/reports/condition"
+          className="mt-4 ml-2 inline-block border p-2"
+        >
+          Condition Report
+        </Link>
+      )}
+      {can(user, "audit:view") && (
+        <Link href="/admin/audit" className="mt-4 ml-2 inline-block border p-2">
+          Audit Log
+        </Link>
+      )}
+
+      <h2 className="mt-8 text-2xl">Library at a Glance</h2>
+
+      {/* The date range - a plain GET form, so it ends up in the URL */}
+      <form action="/" method="get" className="mt-4 p-2 border rounded">
+        <div className="flex flex-wrap gap-2 items-end">
+          <label>
+            <div>From:</div>
+            <input
+              type="date"
+              name="from"
+              defaultValue={range.from}
+              className="border p-2 text-black"
+            />
+          </label>
+          <label>
+            <div>To:</div>
+            <input
+              type="date"
+              name="to"
+              defaultValue={range.to}
+              className="border p-2 text-black"
+            />
+          </label>
+          <button
+            type="submit"
+            className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+          >
+            Show
+          </button>
+          <Link
+            href="/"
+            className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+          >
+            All Time
+          </Link>
+        </div>
+        <p className="mt-2 text-sm">
+          The dates apply to borrowing and additions. The collection totals are
+          as of today.
+        </p>
+      </form>
+
+      {/* The headline numbers */}
+      <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4 border rounded">
+          <div className="text-3xl">{stats.titleCount}</div>
+          <div>Titles</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-3xl">{stats.copyCount}</div>
+          <div>Copies</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-3xl">
+            {stats.checkedOutCount}{" "}
+            <span className="text-xl">({stats.checkedOutPercent}%)</span>
+          </div>
+          <div>Copies checked out now</div>
+        </div>
+        <div className="p-4 border rounded">
+          <div className="text-3xl">{stats.loanCount}</div>
+          <div>Loans ({period})</div>
+        </div>
+      </div>
+
+      {/* The charts, two to a row on wide screens */}
+      <div className="mt-4 grid md:grid-cols-2 gap-4">
+        <BarChart
+          title="Titles by Genre"
+          rows={stats.byGenre}
+          emptyText="The catalog is empty"
+        />
+        <BarChart
+          title="Copies by Condition"
+          rows={stats.byCondition}
+          emptyText="The library has no copies"
+        />
+        <BarChart
+          title={`Most Borrowed (${period})`}
+          rows={stats.mostBorrowed}
+          emptyText="Nothing was borrowed"
+        />
+        <BarChart
+          title={`Titles Added per Month (${period})`}
+          rows={stats.additionsByMonth}
+          emptyText="No titles were added"
+        />
+      </div>
+
+      {/* Titles nobody borrowed - good candidates for a display, or for weeding */}
+      <div className="mt-4 p-4 border rounded">
+        <h2 className="text-xl mb-2">Never Checked Out ({period})</h2>
+        {stats.neverBorrowed.length === 0 ? (
+          <p>Every title was borrowed at least once</p>
+        ) : (
+          <ul>
+            {stats.neverBorrowed.slice(0, NEVER_BORROWED_SHOWN).map((book) => (
+              <li key={book.id}>
+                <Link href={`/books/${book.id}`} className="hover:underline">
+                  {book.title}
+                </Link>{" "}
+                by {book.author}
+              </li>
+            ))}
+            {stats.neverBorrowed.length > NEVER_BORROWED_SHOWN && (
+              <li>
+                and {stats.neverBorrowed.length - NEVER_BORROWED_SHOWN} more
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,313 @@
+/**
+ * This is a Next.js page component that displays details for a single patron,
+ * including the books they have out right now and everything they've borrowed before.
+ * It's located at app/patrons/[id]/page.tsx, where [id] is the patron's ID.
+ */
+
+// Tell Next.js this is a Client Component (runs in the browser)
+"use client";
+
+import { useState, useEffect, use } from "react"; // React hooks for managing state and effects
+import { Patron } from "../../types/patron"; // Our Patron type definition
+import {
+  getPatron, // Gets a single patron from storage
+  markPatronInactive, // Marks a patron as removed
+} from "../../lib/actions/patronActions";
+import { getLoansForPatron, PatronLoan } from "../../lib/actions/loanActions"; // The patron's loans
+import {
+  getFinesForPatron, // The patron's fine ledger
+  payFine, // Marks a fine as paid
+  waiveFine, // Lets the patron off a fine
+  PatronFine,
+} from "../../lib/actions/fineActions";
+import {
+  getHoldsForPatron, // The books the patron is waiting for
+  cancelHold, // Takes the patron out of a queue
+  PatronHold,
+} from "../../lib/actions/holdActions";
+import { FineStatus } from "../../types/fine"; // Where a fine is in its life
+import { ACTIVE_HOLD_STATUSES, HoldStatus } from "../../types/hold"; // Where a hold is in the queue
+import { formatCents, isOverdue } from "../../lib/circulation/fines"; // Overdue rules and money formatting
+import { useRouter } from "next/navigation"; // Helps us navigate between pages
+import Link from "next/link"; // Next.js link component for navigation
+import ConfirmDialog from "../../ui/ConfirmDialog"; // Our custom confirmation dialog
+
+// In Next.js 15, route parameters (like the patron ID) are Promises
+type PageParams = Promise<{ id: string }>;
+
+export default function PatronPage({ params }: { params: PageParams }) {
+  const { id } = use(params); // Get the patron ID from the URL
+  const router = useRouter(); // For changing pages
+  const [showConfirm, setShowConfirm] = useState<boolean>(false); // Should we show the delete dialog?
+  const [patron, setPatron] = useState<Patron | null>(null);
+  const [loans, setLoans] = useState<PatronLoan[]>([]); // Everything this patron has borrowed
+  const [fines, setFines] = useState<PatronFine[]>([]); // Their fine ledger
+  const [holds, setHolds] = useState<PatronHold[]>([]); // Books they're waiting for
+  const [loading, setLoading] = useState<boolean>(true); // Are we still loading?
+
+  // Load the patron and their loans when the page loads
+  useEffect(() => {
+    const loadPatron = async () => {
+      const patronData = await getPatron(id);
+      setPatron(patronData || null);
+      setLoans(await getLoansForPatron(id));
+      setFines(await getFinesForPatron(id));
+      setHolds(await getHoldsForPatron(id));
+      setLoading(false);
+    };
+    loadPatron();
+  }, [id]); // Only run this again if the ID changes
+
+  // If we're still loading, show a loading message
+  if (loading) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  // If we couldn't find the patron, show an error message
+  if (!patron) {
+    return (
+      <div className="p-4">
+        <p>Patron not found</p>
+        <Link
+          href="/patrons"
+          className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+        >
+          Back to Patrons
+        </Link>
+      </div>
+    );
+  }
+
+  // Function that runs when we want to remove a patron
+  const handleRemove = async () => {
+    await markPatronInactive(id);
+    router.push("/patrons"); // Go back to the patron list
+  };
+
+  // Pay or waive a fine, then reload the ledger
+  const handlePay = async (fineId: string) => {
+    await payFine(fineId);
+    setFines(await getFinesForPatron(id));
+  };
+  const handleWaive = async (fineId: string) => {
+    await waiveFine(fineId);
+    setFines(await getFinesForPatron(id));
+  };
+
+  // Take the patron out of a book's queue, then reload their holds
+  const handleCancelHold = async (holdId: string) => {
+    await cancelHold(holdId);
+    setHolds(await getHoldsForPatron(id));
+  };
+
+  // Only holds still in a queue are worth showing
+  const activeHolds = holds.filter((hold) =>
+    ACTIVE_HOLD_STATUSES.includes(hold.status)
+  );
+
+  // Add up everything the patron still owes
+  const balanceCents = fines
+    .filter((fine) => fine.status === FineStatus.OUTSTANDING)
+    .reduce((total, fine) => total + fine.amountCents, 0);
+
+  // Split the loans into books they have now and books they've brought back
+  const currentLoans = loans.filter((loan) => !loan.returnDate);
+  const pastLoans = loans.filter((loan) => loan.returnDate);
+
+  return (
+    <div className="p-4">
+      {/* Back button */}
+      <Link
+        href="/patrons"
+        className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+      >
+        Back to Patrons
+      </Link>
+
+      <div className="mt-4">
+        <h1 className="text-2xl">{patron.name}</h1>
+
+        <div className="mt-4">
+          <p>
+            <strong>Email:</strong> {patron.email}
+          </p>
+          {patron.phone && (
+            <p>
+              <strong>Phone:</strong> {patron.phone}
+            </p>
+          )}
+          <p>
+            <strong>Member Since:</strong>{" "}
+            {patron.joinedDate.toLocaleDateString()}
+          </p>
+          {!patron.isActive && (
+            <p className="text-red-600">This patron has been removed.</p>
+          )}
+
+          {/* Books the patron has out right now */}
+          <div className="mt-4">
+            <h2>Current Loans</h2>
+            {currentLoans.length === 0 ? (
+              <p>No books checked out</p>
+            ) : (
+              <ul>
+                {currentLoans.map((loan) => (
+                  <li key={loan.id}>
+                    <Link
+                      href={`/books/${loan.bookId}`}
+                      className="hover:underline"
+                    >
+                      {loan.bookTitle}
+                    </Link>{" "}
+                    - checked out {loan.checkoutDate.toLocaleDateString()}, due{" "}
+                    {loan.dueDate.toLocaleDateString()}
+                    {isOverdue(loan) && (
+                      <span className="ml-2 px-1 rounded bg-red-600 text-white text-sm">
+                        Overdue
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Books the patron is waiting for */}
+          <div className="mt-4">
+            <h2>Holds</h2>
+            {activeHolds.length === 0 ? (
+              <p>No holds</p>
+            ) : (
+              <ul>
+                {activeHolds.map((hold) => (
+                  <li key={hold.id}>
+                    <Link
+                      href={`/books/${hold.bookId}`}
+                      className="hover:underline"
+                    >
+                      {hold.bookTitle}
+                    </Link>{" "}
+                    -{" "}
+                    {hold.status === HoldStatus.READY
+                      ? `ready to pick up by ${hold.pickupBy?.toLocaleDateString()}`
+                      : `waiting since ${hold.placedDate.toLocaleDateString()}`}
+                    <button
+                      onClick={() => handleCancelHold(hold.id)}
+                      className="ml-2 px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Books the patron has borrowed and returned */}
+          <div className="mt-4">
+            <h2>Past Loans</h2>
+            {pastLoans.length === 0 ? (
+              <p>No past loans</p>
+            ) : (
+              <ul>
+                {pastLoans.map((loan) => (
+                  <li key={loan.id}>
+                    <Link
+                      href={`/books/${loan.bookId}`}
+                      className="hover:underline"
+                    >
+                      {loan.bookTitle}
+                    </Link>{" "}
+                    - {loan.checkoutDate.toLocaleDateString()} to{" "}
+                    {loan.returnDate?.toLocaleDateString()}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Fines for books that came back late */}
+          <div className="mt-4">
+            <h2>Fines</h2>
+            <p>
+              <strong>Balance Owed:</strong> {formatCents(balanceCents)}
+            </p>
+            {fines.length > 0 && (
+              <table className="mt-2 border-collapse">
+                <thead>
+                  <tr>
+                    <th className="border p-2 text-left">Book</th>
+                    <th className="border p-2 text-left">Days Late</th>
+                    <th className="border p-2 text-left">Amount</th>
+                    <th className="border p-2 text-left">Status</th>
+                    <th className="border p-2 text-left"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fines.map((fine) => (
+                    <tr key={fine.id}>
+                      <td className="border p-2">{fine.bookTitle}</td>
+                      <td className="border p-2">{fine.daysLate}</td>
+                      <td className="border p-2">
+                        {formatCents(fine.amountCents)}
+                      </td>
+                      <td className="border p-2">
+                        {fine.status}
+                        {fine.resolvedDate &&
+                          ` (${fine.resolvedDate.toLocaleDateString()})`}
+                      </td>
+                      <td className="border p-2 space-x-2">
+                        {/* Only outstanding fines can be paid or waived */}
+                        {fine.status === FineStatus.OUTSTANDING && (
+                          <>
+                            <button
+                              onClick={() => handlePay(fine.id)}
+                              className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                            >
+                              Mark Paid
+                            </button>
+                            <button
+                              onClick={() => handleWaive(fine.id)}
+                              className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                            >
+                              Waive
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Buttons for actions we can take on this patron */}
+          <div className="mt-4 space-x-2">
+            <Link
+              href={`/patrons/edit/${patron.id}`}
+              className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+            >
+              Edit Patron
+            </Link>
+            <button
+              onClick={() => setShowConfirm(true)}
+              className="px-4 py-2 border rounded text-red-600 hover:bg-red-50 transition-colors"
+            >
+              Remove Patron
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Confirmation Dialog for removing the patron */}
+      <ConfirmDialog
+        isOpen={showConfirm}
+        onConfirm={handleRemove}
+        onCancel={() => setShowConfirm(false)}
+        title="Remove Patron"
+        message={`Are you sure you want to remove ${patron.name}? Their loan history will be kept, but they won't be able to borrow books.`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * This is the page component for adding a new patron.
+ * It's located at app/patrons/create/page.tsx and mirrors the create book page.
+ */
+
+// Tell Next.js this is a Client Component (runs in the browser)
+"use client";
+
+import { useState } from "react"; // React hook for managing form state
+import { PatronFieldErrors } from "../../types/patron"; // Per-field error messages
+import { addPatron } from "../../lib/actions/patronActions"; // Function to save a new patron
+import { useRouter } from "next/navigation"; // For navigating after saving
+import Link from "next/link"; // For the back button
+
+export default function CreatePatronPage() {
+  const router = useRouter(); // We'll use this to go back to the patron list after saving
+
+  // Create state for our form data
+  const [formData, setFormData] = useState({
+    name: "", // The patron's full name
+    email: "", // How we contact them
+    phone: "", // Optional phone number
+  });
+  // Error messages from the server, one per field that didn't pass validation
+  const [errors, setErrors] = useState<PatronFieldErrors>({});
+
+  // This function runs when the form is submitted
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault(); // Stop the form from doing a regular submit
+    const result = await addPatron(formData);
+    if (result.status === "invalid") {
+      setErrors(result.errors); // Show what needs fixing next to each field
+      return;
+    }
+    router.push("/patrons"); // Go back to the patron list
+  };
+
+  return (
+    <div className="p-4">
+      {/* Back button to return to the patron list */}
+      <Link href="/patrons" className="border p-2">
+        ← Back to Patrons
+      </Link>
+
+      <div className="mt-4">
+        <h1 className="text-2xl">Add New Patron</h1>
+        <form onSubmit={handleSubmit} className="mt-4">
+          {/* Name input field */}
+          <div className="mb-4">
+            <label>
+              <div>Name:</div>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                className="w-full border p-2 text-black"
+                required
+              />
+            </label>
+            {/* Show the server's error message for this field, if there is one */}
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+            )}
+          </div>
+
+          {/* Email input field */}
+          <div className="mb-4">
+            <label>
+              <div>Email:</div>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) =>
+                  setFormData({ ...formData, email: e.target.value })
+                }
+                className="w-full border p-2 text-black"
+                required
+              />
+            </label>
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+            )}
+          </div>
+
+          {/* Phone input field (optional) */}
+          <div className="mb-4">
+            <label>
+              <div>Phone (optional):</div>
+              <input
+                type="tel"
+                value={formData.phone}
+                onChange={(e) =>
+                  setFormData({ ...formData, phone: e.target.value })
+                }
+                className="w-full border p-2 text-black"
+              />
+            </label>
+            {errors.phone && (
+              <p className="mt-1 text-sm text-red-600">{errors.phone}</p>
+            )}
+          </div>
+
+          {/* Submit button */}
+          <button type="submit" className="border p-2">
+            Add Patron
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
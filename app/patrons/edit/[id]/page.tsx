@@ -0,0 +1,158 @@
+/**
+ * This is the page component for editing an existing patron.
+ * It's located at app/patrons/edit/[id]/page.tsx and mirrors the edit book page.
+ */
+
+// Tell Next.js this is a Client Component (runs in the browser)
+"use client";
+
+import { useState, useEffect, use } from "react"; // React hooks for managing state and effects
+import { Patron, PatronFieldErrors } from "../../../types/patron"; // Types for our patron data
+import { updatePatron, getPatron } from "../../../lib/actions/patronActions"; // Functions to get and update patrons
+import { useRouter } from "next/navigation"; // For navigating after saving
+import Link from "next/link"; // For navigation links
+
+// In Next.js 15, route parameters are Promises
+type PageParams = Promise<{ id: string }>;
+
+export default function EditPatronPage({ params }: { params: PageParams }) {
+  const router = useRouter(); // For navigation after saving
+  const [patron, setPatron] = useState<Patron | null>(null); // Stores the original patron data
+  const [loading, setLoading] = useState(true); // Tracks if we're still loading
+  const { id } = use(params); // Get the patron ID from the URL
+
+  // State for our form fields
+  const [formData, setFormData] = useState({
+    name: "",
+    email: "",
+    phone: "",
+  });
+  // Error messages from the server, one per field that didn't pass validation
+  const [errors, setErrors] = useState<PatronFieldErrors>({});
+
+  // Load the patron data when the page loads
+  useEffect(() => {
+    const loadPatron = async () => {
+      const patronData = await getPatron(id);
+      setPatron(patronData || null);
+
+      // If we found the patron, fill the form with their current details
+      if (patronData) {
+        setFormData({
+          name: patronData.name,
+          email: patronData.email,
+          phone: patronData.phone ?? "",
+        });
+      }
+      setLoading(false);
+    };
+    loadPatron();
+  }, [id]); // Only run this again if the ID changes
+
+  // Show a loading message while we fetch the patron data
+  if (loading) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  // Show an error message if we couldn't find the patron
+  if (!patron) {
+    return (
+      <div className="p-4">
+        <p>Patron not found</p>
+        <Link href="/patrons" className="border p-2">
+          Back to Patrons
+        </Link>
+      </div>
+    );
+  }
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault(); // Prevent the default form submission
+    setErrors({}); // Clear any errors from the last attempt
+    const result = await updatePatron(id, formData);
+    if (result.status === "updated") {
+      router.push(`/patrons/${id}`); // Go back to the patron details page
+    } else if (result.status === "invalid") {
+      setErrors(result.errors); // Show what needs fixing next to each field
+    } else {
+      setPatron(null); // The patron is gone, show the "not found" message
+    }
+  };
+
+  return (
+    <div className="p-4">
+      {/* Back button to return to patron details */}
+      <Link href={`/patrons/${id}`} className="border p-2">
+        ← Back to Patron Details
+      </Link>
+
+      <div className="mt-4">
+        <h1 className="text-2xl">Edit {patron.name}</h1>
+        <form onSubmit={handleSubmit} className="mt-4">
+          {/* Name input field */}
+          <div className="mb-4">
+            <label>
+              <div>Name:</div>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                className="w-full border p-2 text-black"
+                required
+              />
+            </label>
+            {/* Show the server's error message for this field, if there is one */}
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+            )}
+          </div>
+
+          {/* Email input field */}
+          <div className="mb-4">
+            <label>
+              <div>Email:</div>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) =>
+                  setFormData({ ...formData, email: e.target.value })
+                }
+                className="w-full border p-2 text-black"
+                required
+              />
+            </label>
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+            )}
+          </div>
+
+          {/* Phone input field (optional) */}
+          <div className="mb-4">
+            <label>
+              <div>Phone (optional):</div>
+              <input
+                type="tel"
+                value={formData.phone}
+                onChange={(e) =>
+                  setFormData({ ...formData, phone: e.target.value })
+                }
+                className="w-full border p-2 text-black"
+              />
+            </label>
+            {errors.phone && (
+              <p className="mt-1 text-sm text-red-600">{errors.phone}</p>
+            )}
+          </div>
+
+          {/* Submit button */}
+          <button type="submit" className="border p-2">
+            Update Patron
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
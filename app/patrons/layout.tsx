@@ -0,0 +1,15 @@
+// Only staff can see and manage patrons
+// This layout wraps every page under /patrons
+import RequirePermission from "../ui/RequirePermission";
+
+export default function PatronsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="patrons:manage">
+      {children}
+    </RequirePermission>
+  );
+}
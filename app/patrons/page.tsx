@@ -0,0 +1,36 @@
+/**
+ * This is the main Patrons page component that displays all active patrons.
+ * It mirrors the Books page and is located at app/patrons/page.tsx (/patrons)
+ */
+
+// This is a server component
+import { getActivePatrons } from "../lib/actions/patronActions"; // Function to get non-deleted patrons
+import PatronList from "../ui/PatronList"; // Our reusable patron list component
+import Link from "next/link"; // Next.js component for navigation
+import { getCurrentUser } from "../lib/auth/session"; // Who is logged in
+import { can } from "../lib/auth/permissions"; // What they're allowed to do
+
+// It fetches data on the server before sending the page to the browser
+export default async function PatronsPage() {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "patrons:manage")) return null;
+  const patrons = await getActivePatrons();
+
+  return (
+    <div className="p-4">
+      {/* Header section with title and Add New Patron button */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl">Library Patrons</h1>
+        <Link
+          href="/patrons/create"
+          className="border p-2 hover:bg-gray-100 transition-colors"
+        >
+          + Add New Patron
+        </Link>
+      </div>
+
+      <PatronList patrons={patrons} />
+    </div>
+  );
+}
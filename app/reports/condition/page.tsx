@@ -0,0 +1,80 @@
+/**
+ * This is the condition report page, located at app/reports/condition/page.tsx (/reports/condition).
+ * It lists every copy whose condition has got worse since it was first assessed,
+ * the biggest drop first, so staff can see which books need repairing or replacing.
+ */
+
+// This is a server component
+import { getConditionReport } from "../../lib/actions/conditionActions"; // Function to find copies that got worse
+import Link from "next/link"; // Next.js component for navigation
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+
+export default async function ConditionReportPage() {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "circulation")) return null;
+  // Work out which copies got worse on the server, at request time
+  const rows = await getConditionReport();
+
+  return (
+    <div className="p-4">
+      <Link href="/books" className="border p-2">
+        ← Back to Books
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Condition Report</h1>
+      <p className="mt-2">
+        Copies in worse condition now than when they were first assessed.
+        Destroyed copies have already been withdrawn.
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="mt-4">No copy has got worse.</p>
+      ) : (
+        <table className="mt-4 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Book</th>
+              <th className="border p-2 text-left">Copy</th>
+              <th className="border p-2 text-left">Was</th>
+              <th className="border p-2 text-left">Now</th>
+              <th className="border p-2 text-left">Damaged on Loan</th>
+              <th className="border p-2 text-left">Last Assessed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.copy.id}>
+                <td className="border p-2">
+                  <Link
+                    href={`/books/${row.copy.bookId}`}
+                    className="hover:underline"
+                  >
+                    {row.bookTitle}
+                  </Link>
+                </td>
+                <td className="border p-2">
+                  {row.copy.barcode}
+                  {!row.copy.isActive && " (withdrawn)"}
+                </td>
+                <td className="border p-2">{row.firstCondition}</td>
+                <td className="border p-2">{row.copy.condition}</td>
+                <td className="border p-2">
+                  {row.damageReports === 0
+                    ? "No"
+                    : `${row.damageReports} time${
+                        row.damageReports === 1 ? "" : "s"
+                      }`}
+                </td>
+                <td className="border p-2">
+                  {row.lastAssessedDate.toLocaleDateString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
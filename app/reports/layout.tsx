@@ -0,0 +1,13 @@
+// Circulation reports are for staff only
+// This layout wraps every page under /reports
+import RequirePermission from "../ui/RequirePermission";
+
+export default function ReportsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <RequirePermission permission="circulation">{children}</RequirePermission>
+  );
+}
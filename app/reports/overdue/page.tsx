@@ -0,0 +1,83 @@
+/**
+ * This is the overdue report page, located at app/reports/overdue/page.tsx (/reports/overdue).
+ * It lists every book that is still out past its due date, most days late first,
+ * along with the fine the patron would owe if it came back today.
+ */
+
+// This is a server component
+import { getOverdueLoans } from "../../lib/actions/fineActions"; // Function to find late loans
+import { formatCents, getFinePolicy } from "../../lib/circulation/fines"; // Fine rules and money formatting
+import Link from "next/link"; // Next.js component for navigation
+import { getCurrentUser } from "../../lib/auth/session"; // Who is logged in
+import { can } from "../../lib/auth/permissions"; // What they're allowed to do
+
+export default async function OverdueReportPage() {
+  // Next.js renders the page at the same time as its layout, so we check here too
+  // The layout shows the login redirect or the "no permission" message
+  if (!can(await getCurrentUser(), "circulation")) return null;
+  // Work out what's late on the server, at request time
+  const loans = await getOverdueLoans();
+  const policy = getFinePolicy();
+
+  return (
+    <div className="p-4">
+      <Link href="/books" className="border p-2">
+        ← Back to Books
+      </Link>
+
+      <h1 className="mt-4 text-2xl">Overdue Books</h1>
+      <p className="mt-2">
+        Fines are {formatCents(policy.perDayCents)} per day, up to{" "}
+        {formatCents(policy.capCents)} per loan.
+      </p>
+
+      {loans.length === 0 ? (
+        <p className="mt-4">Nothing is overdue.</p>
+      ) : (
+        <table className="mt-4 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Book</th>
+              <th className="border p-2 text-left">Borrower</th>
+              <th className="border p-2 text-left">Due</th>
+              <th className="border p-2 text-left">Days Late</th>
+              <th className="border p-2 text-left">Fine So Far</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loans.map((loan) => (
+              <tr key={loan.id}>
+                <td className="border p-2">
+                  <Link
+                    href={`/books/${loan.bookId}`}
+                    className="hover:underline"
+                  >
+                    {loan.bookTitle}
+                  </Link>
+                </td>
+                <td className="border p-2">
+                  {/* Link to the patron, unless the loan is from before patrons existed */}
+                  {loan.patronId ? (
+                    <Link
+                      href={`/patrons/${loan.patronId}`}
+                      className="hover:underline"
+                    >
+                      {loan.borrower}
+                    </Link>
+                  ) : (
+                    loan.borrower
+                  )}
+                </td>
+                <td className="border p-2">
+                  {loan.dueDate.toLocaleDateString()}
+                </td>
+                <td className="border p-2">{loan.daysLate}</td>
+                <td className="border p-2">{formatCents(loan.fineCents)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * This is the full-text search page, at /search?q=...
+ * It searches the title, author and description of every book and shows the
+ * best matches first, with the matching words highlighted.
+ * The same search is available as JSON from /api/search?q=...
+ */
+
+// This is a server component
+import Link from "next/link"; // Next.js component for navigation
+import { fullTextSearch } from "../lib/actions/searchActions"; // Runs the search
+import Highlight from "../ui/Highlight"; // Shows text with the matches marked
+
+// In Next.js 15, the URL's search params are a Promise
+type PageSearchParams = Promise<{ q?: string | string[] }>;
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: PageSearchParams;
+}) {
+  // Get the search text from the URL (the first one, if it's there twice)
+  const { q: rawQuery } = await searchParams;
+  const q = (Array.isArray(rawQuery) ? rawQuery[0] : rawQuery)?.trim() ?? "";
+  const hits = q ? await fullTextSearch(q) : [];
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl">Search the Library</h1>
+        <Link href="/books" className="border p-2 hover:bg-gray-100">
+          Back to Books
+        </Link>
+      </div>
+
+      {/* The search box - submitting it just changes the URL */}
+      <form action="/search" method="get" className="mt-4 flex space-x-2">
+        <input
+          type="search"
+          name="q"
+          defaultValue={q}
+          placeholder="Search titles, authors and descriptions"
+          className="flex-1 border p-2 text-black"
+          autoFocus
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+        >
+          Search
+        </button>
+      </form>
+
+      {/* The results, best match first */}
+      {q && (
+        <p className="mt-4">
+          {hits.length === 0
+            ? `No books match "${q}"`
+            : `${hits.length} ${
+                hits.length === 1 ? "book matches" : "books match"
+              } "${q}"`}
+        </p>
+      )}
+      <ul className="mt-4">
+        {hits.map(({ book, highlights }) => (
+          <li key={book.id} className="mb-4 p-2 border rounded">
+            <h3>
+              <Link href={`/books/${book.id}`} className="hover:underline">
+                <Highlight parts={highlights.title} />
+              </Link>
+            </h3>
+            <p>
+              Author: <Highlight parts={highlights.author} />
+            </p>
+            <p className="text-gray-600">
+              <Highlight parts={highlights.description} />
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { BookCondition } from "./book";
+
+// Interface defining the shape of a ConditionAssessment object
+// An assessment is added every time someone checks what condition a copy is in -
+// when it comes back from a loan, or whenever staff look it over.
+// Together they are the copy's condition history, and they're never edited
+export interface ConditionAssessment {
+  id: string; // Unique identifier for the assessment
+  copyId: string; // The copy that was looked at
+  bookId: string; // The title it's a copy of
+  condition: BookCondition; // The condition it was found in
+  previousCondition: BookCondition; // The condition it was in before
+  assessedDate: Date; // When it was looked at
+  assessorId?: string; // The user who looked at it - missing for scripts
+  assessorName: string; // Their username at the time
+  notes: string; // What they noticed, e.g. "Coffee stain on cover" (empty if nothing)
+  loanId?: string; // Set when the copy was assessed as it came back from this loan
+  damaged: boolean; // true when the copy came back from a loan in worse condition
+}
+
+// The fields a person fills in when assessing a copy
+export interface AssessmentData {
+  condition: BookCondition;
+  notes: string;
+}
+
+// Error messages for each assessment field that failed validation
+export type AssessmentFieldErrors = Partial<
+  Record<keyof AssessmentData, string>
+>;
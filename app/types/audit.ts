@@ -0,0 +1,39 @@
+// Enum for the kinds of change we record against a book
+export enum AuditAction {
+  CREATED = "CREATED", // The book was added to the library
+  UPDATED = "UPDATED", // Its details were edited
+  CONDITION_CHANGED = "CONDITION_CHANGED", // A copy was assessed and found in a different condition
+  REMOVED = "REMOVED", // It was marked inactive (moved to the trash)
+  RESTORED = "RESTORED", // It was taken back out of the trash
+  PURGED = "PURGED", // It was deleted for good
+  CHECKED_OUT = "CHECKED_OUT", // A copy was lent to a patron
+  RETURNED = "RETURNED", // A copy came back
+  COPY_ADDED = "COPY_ADDED", // A new copy was added
+  COPY_UPDATED = "COPY_UPDATED", // A copy's barcode or shelf location was edited
+  COPY_WITHDRAWN = "COPY_WITHDRAWN", // A copy was taken out of circulation
+}
+
+// A field value as we save it in the audit log
+// Dates are saved as ISO strings, and null means the field wasn't set
+export type AuditValue = string | number | boolean | null;
+
+// One field that changed, with its value before and after
+export interface AuditChange {
+  field: string; // The name of the Book or Copy field, e.g. "condition"
+  before: AuditValue;
+  after: AuditValue;
+}
+
+// Interface defining the shape of an AuditEntry object
+// An entry is added every time a book is changed, and entries are never edited
+export interface AuditEntry {
+  id: string; // Unique identifier for the entry
+  bookId: string; // The book that changed
+  copyId?: string; // Set when the change was to one copy of the book
+  copyBarcode?: string; // That copy's barcode at the time
+  actorId?: string; // The user who changed it - missing for changes made by scripts
+  actorName: string; // Their username at the time, so it's still readable if the account goes
+  timestamp: Date; // When the change happened
+  action: AuditAction; // What kind of change it was
+  changes: AuditChange[]; // Every field that changed
+}
@@ -0,0 +1,11 @@
+// Interface defining the shape of an Author
+// An author is one person (or group) credited on books. A book can have several
+// authors and an author can have many books - each book lists its authors' ids
+// (see authorIds in book.ts), so the same person always links to the same page
+export interface Author {
+  id: string; // Unique identifier for the author
+  name: string; // How their name is shown, first name first, e.g. "F. Scott Fitzgerald"
+  // Other spellings of their name, from duplicates merged into them (e.g. "Scott Fitzgerald")
+  // Books saved or imported with one of these link to this author
+  aliases: string[];
+}
@@ -9,18 +9,40 @@ export enum BookCondition {
 }
 
 // Interface defining the shape of a Book object
+// A Book is the title (the work) - its physical copies are in copy.ts
 // This is used for type checking throughout the application
 export interface Book {
   id: string; // Unique identifier for the book
   title: string; // Book title
-  author: string; // Book author
+  // Every author's name, in the order they're credited, separated by "; "
+  // e.g. "Terry Pratchett; Neil Gaiman" - kept in step with authorIds by the server
+  author: string;
+  authorIds: string[]; // The book's authors (see author.ts), in the same order
   isbn: string; // International Standard Book Number
   publishedYear: number; // Year the book was published
-  genre: string; // Book genre/category
+  genre: string; // The name of the book's genre, from the library's genre tree (see genre.ts)
   description: string; // Book description/summary
-  condition: BookCondition; // Current condition using the enum above
-  isCheckedOut: boolean; // Whether the book is currently checked out
+  tags: string[]; // Free-form labels, e.g. "book club" or "signed" - a book can have any number of them
+  coverId?: string; // The book's cover image (see app/lib/covers) - missing if it has none
   isActive: boolean; // Soft delete flag - false means book is "deleted"
-  lastCheckedOutDate?: Date; // Optional - date of last checkout (undefined if never checked out)
+  removedDate?: Date; // Optional - when the book was removed (it's in the trash until it's purged)
   addedDate: Date; // When the book was added to the library
+  version: number; // Goes up by one on every save - used to detect conflicting edits
+  updatedAt: Date; // When the book was last saved
 }
+
+// The fields a person fills in when adding or editing a book
+// Everything else on Book (id, dates, version) is managed by the server
+export interface AddBookData {
+  title: string;
+  authors: string[]; // Each author's name - the server links them to the library's authors
+  isbn: string;
+  publishedYear: number;
+  genre: string;
+  description: string;
+  tags: string[];
+}
+
+// Error messages for each form field that failed validation
+// A field that is missing from this object is valid
+export type BookFieldErrors = Partial<Record<keyof AddBookData, string>>;
@@ -0,0 +1,36 @@
+import { BookCondition } from "./book";
+
+// Interface defining the shape of a Copy object
+// A Book is the title (the work); each copy is one physical item on the shelves.
+// Copies are what get checked out, so every copy has its own condition and status
+export interface Copy {
+  id: string; // Unique identifier for the copy
+  bookId: string; // The title this is a copy of
+  barcode: string; // The label stuck on the copy - unique across the library
+  condition: BookCondition; // Current condition using the enum in book.ts
+  shelfLocation: string; // Where to find it, e.g. "Fiction A-F" (empty if not set)
+  isCheckedOut: boolean; // Whether the copy is currently checked out
+  isActive: boolean; // false once the copy is withdrawn (lost, worn out or given away)
+  lastCheckedOutDate?: Date; // Optional - date of last checkout (undefined if never checked out)
+  addedDate: Date; // When the copy was added to the library
+}
+
+// The fields a person fills in when adding or editing a copy
+// An empty barcode means "give it the next free barcode"
+export interface CopyData {
+  barcode: string;
+  condition: BookCondition;
+  shelfLocation: string;
+}
+
+// Error messages for each copy field that failed validation
+export type CopyFieldErrors = Partial<Record<keyof CopyData, string>>;
+
+// How many copies of a title there are and how many can be borrowed right now
+// Withdrawn copies aren't counted
+export interface CopySummary {
+  total: number; // Copies on the shelves or out on loan
+  available: number; // On the shelf and not being kept for a hold
+  onHoldShelf: number; // On the shelf, but kept for patrons who had a hold
+  conditions: BookCondition[]; // The condition of each copy
+}
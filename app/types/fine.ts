@@ -0,0 +1,21 @@
+// Enum for fine status - where a fine is in its life
+export enum FineStatus {
+  OUTSTANDING = "OUTSTANDING", // Still owed
+  PAID = "PAID", // The patron paid it
+  WAIVED = "WAIVED", // A librarian let it go
+}
+
+// Interface defining the shape of a Fine object
+// A fine is added to a patron's ledger when they return a book late
+export interface Fine {
+  id: string; // Unique identifier for the fine
+  patronId: string; // Who owes it
+  loanId: string; // The late loan it's for
+  bookId: string; // The book that came back late
+  amountCents: number; // How much, in cents (so we never have rounding problems)
+  daysLate: number; // How many days late the book was
+  assessedDate: Date; // When the fine was added
+  status: FineStatus; // Current status using the enum above
+  resolvedDate?: Date; // Optional - when it was paid or waived
+  note?: string; // Optional - e.g. why it was waived
+}
@@ -0,0 +1,18 @@
+// Interface defining the shape of a Genre object
+// The library's genres form a tree: a genre with a parent is a sub-genre of it,
+// e.g. Mystery under Fiction. Books keep the name of their genre (see Book.genre)
+export interface Genre {
+  id: string; // Unique identifier for the genre
+  name: string; // What it's called - unique across the whole tree, ignoring case
+  parentId?: string; // The genre this is a sub-genre of - missing for a top-level genre
+}
+
+// The fields a person fills in when adding or editing a genre
+export interface GenreData {
+  name: string;
+  parentId?: string;
+}
+
+// Error messages for each genre field that failed validation
+// A field that is missing from this object is valid
+export type GenreFieldErrors = Partial<Record<keyof GenreData, string>>;
@@ -0,0 +1,24 @@
+// Enum for hold status - where a hold is in the queue
+export enum HoldStatus {
+  WAITING = "WAITING", // In line for the book
+  READY = "READY", // The book is on the hold shelf waiting to be picked up
+  FULFILLED = "FULFILLED", // The patron picked it up (checked it out)
+  EXPIRED = "EXPIRED", // The patron didn't pick it up in time
+  CANCELLED = "CANCELLED", // The hold was cancelled
+}
+
+// Interface defining the shape of a Hold object
+// Holds on a book form a first-come, first-served queue ordered by placedDate
+export interface Hold {
+  id: string; // Unique identifier for the hold
+  bookId: string; // The book the patron is waiting for
+  patronId: string; // The patron who is waiting
+  placedDate: Date; // When the hold was placed - decides the order of the queue
+  status: HoldStatus; // Current status using the enum above
+  readyDate?: Date; // Optional - when the book was put on the hold shelf for this patron
+  pickupBy?: Date; // Optional - the hold expires if the book isn't picked up by then
+  resolvedDate?: Date; // Optional - when the hold was fulfilled, expired or cancelled
+}
+
+// Holds that are still in the queue
+export const ACTIVE_HOLD_STATUSES = [HoldStatus.WAITING, HoldStatus.READY];
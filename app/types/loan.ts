@@ -0,0 +1,13 @@
+// Interface defining the shape of a Loan object
+// A loan is created every time a copy of a book is checked out and closed when it comes back,
+// so the list of loans for a book is its full borrowing history
+export interface Loan {
+  id: string; // Unique identifier for the loan
+  bookId: string; // The book that was borrowed
+  copyId?: string; // The copy that was borrowed (missing for loans made before copies existed)
+  patronId?: string; // The patron who borrowed it (missing for loans made before patrons existed)
+  borrower: string; // The borrower's name when the book was checked out
+  checkoutDate: Date; // When it was checked out
+  dueDate: Date; // When it should come back
+  returnDate?: Date; // Optional - when it came back (undefined while it's still out)
+}
@@ -0,0 +1,16 @@
+// Interface defining the shape of a MetadataRecord
+// A record is what a catalog source knows about one edition of a book, found by its ISBN.
+// Sources often know less than we do, so everything but the title is optional
+export interface MetadataRecord {
+  isbn: string; // The ISBN-13, digits only (e.g. 9780743273565)
+  title: string;
+  author?: string; // Every author, separated by "; " like Book.author
+  publishedYear?: number;
+  genre?: string; // The source's subject or category - it may not match our genres
+  description?: string;
+}
+
+// A record as a lookup returns it, with the name of the source it came from
+export interface BookMetadata extends MetadataRecord {
+  source: string; // e.g. "offline catalog"
+}
@@ -0,0 +1,21 @@
+// Interface defining the shape of a Patron object
+// A patron is someone who can borrow books from the library
+export interface Patron {
+  id: string; // Unique identifier for the patron
+  name: string; // Full name
+  email: string; // How we contact them
+  phone?: string; // Optional - phone number
+  isActive: boolean; // Soft delete flag - false means the patron is "deleted"
+  joinedDate: Date; // When they joined the library
+}
+
+// The fields a person fills in when adding or editing a patron
+export interface AddPatronData {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+// Error messages for each patron form field that failed validation
+// A field that is missing from this object is valid
+export type PatronFieldErrors = Partial<Record<keyof AddPatronData, string>>;
@@ -0,0 +1,30 @@
+// Enum for user roles - decides what someone who is logged in is allowed to do
+// See app/lib/auth/permissions.ts for exactly what each role can do
+export enum UserRole {
+  ADMIN = "ADMIN", // Runs the library - can do everything
+  LIBRARIAN = "LIBRARIAN", // Works the desk - manages books, patrons and loans
+  PATRON = "PATRON", // A member - can browse and place holds for themselves
+}
+
+// Interface defining the shape of a User object (someone who can log in)
+export interface User {
+  id: string; // Unique identifier for the user
+  username: string; // What they log in with - stored lowercase so it's case-insensitive
+  passwordHash: string; // Never the password itself - see app/lib/auth/passwords.ts
+  role: UserRole; // What they're allowed to do
+  patronId?: string; // Optional - the patron record for users with the PATRON role
+  isActive: boolean; // False means they can't log in any more
+  createdDate: Date; // When the account was created
+}
+
+// A logged in session. The browser holds a random token in a cookie,
+// and we only store a hash of it, so a leaked sessions file can't be used to log in
+export interface Session {
+  id: string; // SHA-256 hash of the token in the cookie
+  userId: string; // Who is logged in
+  createdDate: Date; // When they logged in
+  expiresDate: Date; // When they'll have to log in again
+}
+
+// The parts of a user that are safe to send to the browser
+export type SessionUser = Pick<User, "id" | "username" | "role" | "patronId">;
@@ -0,0 +1,43 @@
+/**
+ * This shows the audit log for one book as a timeline, newest change first.
+ * Each entry says who changed the book, when, and every field's old and new value.
+ */
+
+import { AuditEntry } from "../types/audit"; // The shape of an audit entry
+import { AUDIT_ACTION_LABELS, formatAuditValue } from "../lib/audit/auditQuery"; // Labels and value formatting
+
+// Define the props (parameters) our timeline needs
+interface AuditTimelineProps {
+  entries: AuditEntry[]; // The book's audit entries, newest first
+}
+
+export default function AuditTimeline({ entries }: AuditTimelineProps) {
+  if (entries.length === 0) {
+    return <p>No changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="border-l pl-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="mb-4">
+          {/* When, what and who */}
+          <p>
+            <strong>{AUDIT_ACTION_LABELS[entry.action]}</strong>
+            {/* Changes to one copy say which copy it was */}
+            {entry.copyBarcode && ` (copy ${entry.copyBarcode})`} by{" "}
+            {entry.actorName} on {entry.timestamp.toLocaleString()}
+          </p>
+          {/* Every field that changed, old value -> new value */}
+          <ul className="text-sm">
+            {entry.changes.map((change) => (
+              <li key={change.field}>
+                {change.field}: {formatAuditValue(change.before)} →{" "}
+                {formatAuditValue(change.after)}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * These are the boxes for a book's authors, used by the book form.
+ * There's one box per author, in the order they're credited, with buttons to
+ * add another author and to remove one. While typing, the library's authors
+ * are suggested, so the book links to the author we already have.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useEffect, useState } from "react"; // For loading the suggestions
+import { getAuthorNames } from "../lib/actions/authorActions"; // Function to list the authors
+
+// Define the props (parameters) our author boxes need
+interface AuthorInputProps {
+  authors: string[]; // The authors so far - shown as one empty box when there are none
+  onChange: (authors: string[]) => void; // Called with the new list whenever a box changes
+}
+
+// The id of the list of suggestions, shared by every box
+const SUGGESTIONS_ID = "author-suggestions";
+
+export default function AuthorInput({ authors, onChange }: AuthorInputProps) {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  // Load the authors when the boxes appear, so new authors show up
+  useEffect(() => {
+    getAuthorNames().then(setSuggestions);
+  }, []);
+
+  // There's always at least one box to type in
+  const boxes = authors.length > 0 ? authors : [""];
+
+  // Change the author in one box
+  const handleChange = (index: number, name: string) => {
+    onChange(boxes.map((author, i) => (i === index ? name : author)));
+  };
+
+  return (
+    <div>
+      {boxes.map((author, index) => (
+        <div key={index} className="flex gap-2 mb-2">
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => handleChange(index, e.target.value)}
+            list={SUGGESTIONS_ID}
+            className="w-full border p-2 text-black"
+            aria-label={`Author ${index + 1}`}
+            required={index === 0} // A book needs at least one author
+          />
+          {boxes.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(boxes.filter((_, i) => i !== index))}
+              className="border px-2 hover:bg-gray-100"
+              aria-label={`Remove author ${index + 1}`}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...boxes, ""])}
+        className="border p-1 text-sm hover:bg-gray-100"
+      >
+        + Add another author
+      </button>
+      {/* The browser shows these as suggestions in every author box */}
+      <datalist id={SUGGESTIONS_ID}>
+        {suggestions.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
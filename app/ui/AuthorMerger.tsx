@@ -0,0 +1,247 @@
+/**
+ * This is the merge tool for duplicate authors, used on the /authors/merge page.
+ * Staff pick the duplicate and the author to merge it into, and confirm.
+ * Pairs of authors that might be the same person are suggested, and authors
+ * no book credits any more can be deleted.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the chosen authors and the dialog
+import { useRouter } from "next/navigation"; // For refreshing the page after changes
+import Link from "next/link"; // For the links to each author's page
+import {
+  AuthorUsage,
+  deleteAuthor,
+  mergeAuthors,
+} from "../lib/actions/authorActions"; // Functions to change the authors
+import ConfirmDialog from "./ConfirmDialog"; // Our confirmation dialog component
+
+// Define the props (parameters) our merge tool needs
+interface AuthorMergerProps {
+  authors: AuthorUsage[]; // Every author, sorted by surname
+  duplicates: [AuthorUsage, AuthorUsage][]; // Pairs that might be the same person
+  initialFrom: string; // The id of the duplicate to start with ("" for none)
+  initialInto: string; // The id of the author to merge it into ("" for none)
+}
+
+// "3 books" or "1 book"
+function bookCount(count: number): string {
+  return `${count} book${count === 1 ? "" : "s"}`;
+}
+
+// A dropdown for choosing one of the authors
+function AuthorPicker({
+  authors,
+  value,
+  onChange,
+  label,
+}: {
+  authors: AuthorUsage[];
+  value: string;
+  onChange: (id: string) => void;
+  label: string;
+}) {
+  return (
+    <label className="block mb-2">
+      <div>{label}</div>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full border p-2 text-black"
+      >
+        <option value="">Choose an author...</option>
+        {authors.map((author) => (
+          <option key={author.id} value={author.id}>
+            {`${author.name} (${bookCount(author.bookCount)})`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default function AuthorMerger({
+  authors,
+  duplicates,
+  initialFrom,
+  initialInto,
+}: AuthorMergerProps) {
+  const router = useRouter();
+  // Only start with authors that still exist (one may have been merged away since)
+  const exists = (id: string) => authors.some((author) => author.id === id);
+  const [fromId, setFromId] = useState(exists(initialFrom) ? initialFrom : "");
+  const [intoId, setIntoId] = useState(exists(initialInto) ? initialInto : "");
+  const [confirming, setConfirming] = useState(false); // Is the merge dialog open?
+  const [message, setMessage] = useState(""); // How the last change went
+
+  const from = authors.find((author) => author.id === fromId);
+  const into = authors.find((author) => author.id === intoId);
+  // Authors no book credits - left over after books' authors were corrected
+  const unused = authors.filter((author) => author.bookCount === 0);
+
+  // Pick a suggested pair - the one with fewer books is merged into the other
+  const handleReview = ([a, b]: [AuthorUsage, AuthorUsage]) => {
+    const [fewer, more] = a.bookCount <= b.bookCount ? [a, b] : [b, a];
+    setFromId(fewer.id);
+    setIntoId(more.id);
+    setMessage("");
+  };
+
+  const handleMerge = async () => {
+    setConfirming(false);
+    if (!from || !into) return;
+    const result = await mergeAuthors(from.id, into.id);
+    if (result.status === "merged") {
+      setMessage(
+        `Merged ${from.name} into ${into.name} - ${bookCount(
+          result.relinked
+        )} updated`
+      );
+      setFromId("");
+    } else if (result.status === "invalid") {
+      setMessage(result.error);
+    } else {
+      setMessage("One of those authors no longer exists");
+    }
+    router.refresh(); // Show the new book counts
+  };
+
+  const handleDelete = async (author: AuthorUsage) => {
+    const result = await deleteAuthor(author.id);
+    if (result.status === "deleted") {
+      setMessage(`Deleted ${author.name}`);
+    } else if (result.status === "in_use") {
+      setMessage(result.error);
+    } else {
+      setMessage(`${author.name} was already deleted`);
+    }
+    router.refresh();
+  };
+
+  return (
+    <div>
+      {message && (
+        <p className="mt-4" role="status">
+          {message}
+        </p>
+      )}
+
+      {/* Pairs that might be the same person */}
+      <h2 className="mt-4 text-xl">Possible Duplicates</h2>
+      {duplicates.length === 0 ? (
+        <p className="mt-2">No authors look like duplicates.</p>
+      ) : (
+        <table className="mt-2 border-collapse">
+          <tbody>
+            {duplicates.map(([a, b]) => (
+              <tr key={`${a.id}-${b.id}`}>
+                <td className="border p-2">
+                  <Link href={`/authors/${a.id}`} className="hover:underline">
+                    {a.name}
+                  </Link>{" "}
+                  ({bookCount(a.bookCount)})
+                </td>
+                <td className="border p-2">
+                  <Link href={`/authors/${b.id}`} className="hover:underline">
+                    {b.name}
+                  </Link>{" "}
+                  ({bookCount(b.bookCount)})
+                </td>
+                <td className="border p-2">
+                  <button
+                    type="button"
+                    onClick={() => handleReview([a, b])}
+                    className="border p-1 hover:bg-gray-100"
+                  >
+                    Review
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* The merge form */}
+      <h2 className="mt-6 text-xl">Merge</h2>
+      <div className="mt-2 max-w-md">
+        <AuthorPicker
+          authors={authors}
+          value={fromId}
+          onChange={setFromId}
+          label="Duplicate (will be deleted):"
+        />
+        <AuthorPicker
+          authors={authors.filter((author) => author.id !== fromId)}
+          value={intoId}
+          onChange={setIntoId}
+          label="Merge into (name is kept):"
+        />
+        <div className="space-x-2">
+          <button
+            type="button"
+            onClick={() => {
+              setFromId(intoId);
+              setIntoId(fromId);
+            }}
+            disabled={!from || !into}
+            className="border p-2 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Swap
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            disabled={!from || !into}
+            className="border p-2 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+
+      {/* Authors no book credits */}
+      {unused.length > 0 && (
+        <>
+          <h2 className="mt-6 text-xl">Authors With No Books</h2>
+          <table className="mt-2 border-collapse">
+            <tbody>
+              {unused.map((author) => (
+                <tr key={author.id}>
+                  <td className="border p-2">{author.name}</td>
+                  <td className="border p-2">
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(author)}
+                      className="border p-1 hover:bg-gray-100"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirming}
+        onConfirm={handleMerge}
+        onCancel={() => setConfirming(false)}
+        title="Merge Authors"
+        message={
+          from && into
+            ? `${bookCount(from.bookCount)} by ${
+                from.name
+              } will be credited to ${into.name}, and ${
+                from.name
+              } will be deleted. This can't be undone.`
+            : ""
+        }
+      />
+    </div>
+  );
+}
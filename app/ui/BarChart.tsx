@@ -0,0 +1,55 @@
+/**
+ * This is a simple horizontal bar chart, drawn on the server with plain HTML -
+ * each row is a label, a bar as wide as its share of the biggest value, and the number.
+ * It's used by the dashboard on the home page.
+ */
+
+import Link from "next/link"; // For rows that link somewhere
+import { CountRow } from "../lib/stats/libraryStats"; // One bar of the chart
+
+// Define the props (parameters) our chart needs
+interface BarChartProps {
+  title: string;
+  rows: CountRow[];
+  emptyText: string; // Shown instead of the chart when there are no rows
+}
+
+export default function BarChart({ title, rows, emptyText }: BarChartProps) {
+  // The longest bar fills the whole width, and the rest are measured against it
+  const max = Math.max(...rows.map((row) => row.count), 1);
+
+  return (
+    <div className="p-4 border rounded">
+      <h2 className="text-xl mb-2">{title}</h2>
+      {rows.length === 0 ? (
+        <p>{emptyText}</p>
+      ) : (
+        <table className="w-full">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label}>
+                <td className="pr-2 py-1 whitespace-nowrap">
+                  {row.href ? (
+                    <Link href={row.href} className="hover:underline">
+                      {row.label}
+                    </Link>
+                  ) : (
+                    row.label
+                  )}
+                </td>
+                <td className="w-full py-1">
+                  {/* The bar - its width is the row's share of the biggest value */}
+                  <div
+                    className="h-4 bg-blue-600 rounded"
+                    style={{ width: `${(row.count / max) * 100}%` }}
+                  />
+                </td>
+                <td className="pl-2 py-1 text-right">{row.count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * This shows a book's cover image - a small thumbnail in the book list and a
+ * bigger one on the book's page. Books without a cover get a plain placeholder
+ * the same size, so the layout doesn't jump around.
+ */
+
+import Image from "next/image"; // Next.js image component
+import { Book } from "../types/book"; // Type definition for our book data
+import { CoverSize } from "../lib/storage/coverStorage"; // The sizes covers are saved in
+
+// How big each size is shown on the page, in pixels (covers are 2:3, like most books)
+const DISPLAY_SIZES: Record<CoverSize, { width: number; height: number }> = {
+  full: { width: 200, height: 300 },
+  thumbnail: { width: 48, height: 72 },
+};
+
+// Define the props (parameters) our cover needs
+interface BookCoverProps {
+  book: Pick<Book, "title" | "coverId">;
+  size: CoverSize;
+}
+
+export default function BookCover({ book, size }: BookCoverProps) {
+  const { width, height } = DISPLAY_SIZES[size];
+
+  // No cover yet - show a grey box with the title's first letter
+  if (!book.coverId) {
+    return (
+      <div
+        className="flex shrink-0 items-center justify-center border rounded bg-gray-100 text-gray-500"
+        style={{ width, height }}
+        role="img"
+        aria-label={`No cover for ${book.title}`}
+      >
+        <span className={size === "full" ? "text-5xl" : "text-xl"}>
+          {book.title.charAt(0).toUpperCase()}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    // The images are already resized when they're uploaded, so Next.js doesn't need to
+    <Image
+      src={`/api/covers/${book.coverId}${
+        size === "thumbnail" ? "?size=thumbnail" : ""
+      }`}
+      alt={`Cover of ${book.title}`}
+      width={width}
+      height={height}
+      unoptimized
+      className="shrink-0 border rounded object-contain bg-gray-100"
+      style={{ width, height }}
+    />
+  );
+}
@@ -0,0 +1,558 @@
+/**
+ * This is the form for a book's details, shared by the add book and edit book pages.
+ * While you type, it keeps a draft in the browser, so a closed tab or a reload
+ * doesn't lose your work - next time the form offers to restore it.
+ * It also warns you before leaving the page with changes that haven't been saved,
+ * and ignores extra clicks on the submit button while a save is running.
+ * The ISBN can be looked up in the catalog (see app/lib/metadata) - on the add book
+ * page that fills the form in, and on the edit page it points out the fields where
+ * our record differs from the catalog.
+ * The genre is picked from the library's genre tree, and tags are typed in freely.
+ * A book can have several authors - each one gets its own box.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useEffect, useRef, useState } from "react"; // React hooks for the form state and the leave guard
+import { AddBookData, BookCondition, BookFieldErrors } from "../types/book"; // The book's fields and their error messages
+import { CopyData, CopyFieldErrors } from "../types/copy"; // The first copy's fields and their error messages
+import { BookMetadata } from "../types/metadata"; // What an ISBN lookup found
+import {
+  BookDraft,
+  clearBookDraft,
+  loadBookDraft,
+  saveBookDraft,
+} from "../lib/drafts/bookDrafts"; // Keeps drafts in local storage
+import { lookupIsbn } from "../lib/actions/metadataActions"; // Looks a book up by its ISBN
+import {
+  fillFromMetadata,
+  findMismatches,
+  MetadataField,
+} from "../lib/metadata/metadataMatch"; // Compares the form with what the lookup found
+import AuthorInput from "./AuthorInput"; // Boxes for the book's authors
+import GenreSelect from "./GenreSelect"; // Dropdown of the library's genres
+import TagInput from "./TagInput"; // Box for the book's tags
+
+// Error messages for any field on the form, one per field that didn't pass validation
+export type BookFormErrors = BookFieldErrors & CopyFieldErrors;
+
+// What the page tells the form after trying to save
+export type BookFormOutcome =
+  | { status: "saved" } // Saved for real - the draft is thrown away
+  | { status: "invalid"; errors: BookFormErrors } // Shown next to each field
+  | { status: "unsaved" }; // Not saved, for a reason the page shows itself (e.g. a conflict)
+
+// Define the props (parameters) our form needs
+interface BookFormProps {
+  initialBook: AddBookData; // What the book fields start as
+  initialCopy?: CopyData; // Given on the add book page, where the form also asks for the first copy
+  version?: number; // Given on the edit page - the version of the book the form started from
+  draftKey: string; // Where the draft is kept, from bookDraftKey()
+  submitLabel: string; // e.g. "Add Book"
+  submittingLabel: string; // Shown on the button while saving, e.g. "Adding..."
+  // What looking the ISBN up does - "fill" fills the form in, "compare" points out differences
+  isbnLookup: "fill" | "compare";
+  // Save the form - version is the one the edits started from, which is older
+  // than the version prop if an old draft was restored
+  onSubmit: (
+    book: AddBookData,
+    copy: CopyData | undefined,
+    version: number | undefined
+  ) => Promise<BookFormOutcome>;
+  children?: React.ReactNode; // Anything to show just above the submit button
+}
+
+// What the browser asks before following a link away from unsaved changes
+const LEAVE_WARNING =
+  "You have changes that haven't been saved. Leave this page anyway?";
+
+// Shows a field's error message, if it has one
+function FieldError({ message }: { message?: string }) {
+  return message ? (
+    <p className="mt-1 text-sm text-red-600">{message}</p>
+  ) : null;
+}
+
+// Shows what the catalog has for a field that differs from ours, with a button to use it
+function CatalogHint({
+  value,
+  source,
+  onUse,
+}: {
+  value?: string;
+  source: string;
+  onUse: () => void;
+}) {
+  if (value === undefined) return null;
+  return (
+    <p className="mt-1 text-sm text-yellow-700">
+      The {source} has &ldquo;{value}&rdquo;{" "}
+      <button type="button" onClick={onUse} className="underline">
+        Use this
+      </button>
+    </p>
+  );
+}
+
+// Warn before leaving the page while there are unsaved changes
+// Closing the tab, reloading and typing a new address get the browser's own warning;
+// links inside the app get a confirm() first. The browser's back button can't be
+// stopped in the App Router, but the draft is kept, so nothing is lost.
+function useLeaveGuard(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault(); // Asks the browser to show its "leave site?" warning
+      e.returnValue = ""; // Older browsers need this too
+    };
+
+    // Listen to clicks before Next.js's <Link> sees them, so we can cancel them
+    const handleClick = (e: MouseEvent) => {
+      const link = (e.target as Element | null)?.closest("a");
+      // Links opening a new tab or window don't leave the page
+      if (
+        !link ||
+        link.target === "_blank" ||
+        e.button !== 0 ||
+        e.ctrlKey ||
+        e.metaKey ||
+        e.shiftKey
+      ) {
+        return;
+      }
+      if (!window.confirm(LEAVE_WARNING)) {
+        e.preventDefault(); // Stay on the page
+        e.stopPropagation(); // ...and don't let <Link> navigate either
+      }
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    document.addEventListener("click", handleClick, true);
+    // Stop listening once the changes are saved or the form goes away
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      document.removeEventListener("click", handleClick, true);
+    };
+  }, [active]);
+}
+
+export default function BookForm({
+  initialBook,
+  initialCopy,
+  version: initialVersion,
+  draftKey,
+  submitLabel,
+  submittingLabel,
+  isbnLookup,
+  onSubmit,
+  children,
+}: BookFormProps) {
+  // The values in the form
+  const [book, setBook] = useState<AddBookData>(initialBook);
+  const [copy, setCopy] = useState<CopyData | undefined>(initialCopy);
+  const [version, setVersion] = useState(initialVersion);
+  // Error messages from the server, one per field that didn't pass validation
+  const [errors, setErrors] = useState<BookFormErrors>({});
+  // Why saving failed, when the server couldn't be asked (e.g. the login expired)
+  const [saveError, setSaveError] = useState("");
+  // A draft from last time, while we ask whether to restore it
+  const [draft, setDraft] = useState<BookDraft | null>(null);
+  // Set once we've looked for a draft, so we don't save over it before asking
+  const [draftChecked, setDraftChecked] = useState(false);
+  // True while saving, and after a successful save while the page moves on
+  const [submitting, setSubmitting] = useState(false);
+  // State updates wait for the next render, so a fast double click could get past
+  // `submitting` - a ref changes straight away
+  const submittingRef = useRef(false);
+  // What the catalog has for this ISBN, on the edit page - fields that differ are pointed out
+  const [catalog, setCatalog] = useState<BookMetadata | null>(null);
+  const [lookupMessage, setLookupMessage] = useState(""); // How the last lookup went
+  const [lookingUp, setLookingUp] = useState(false);
+
+  // The form is "dirty" if it's different from how it started
+  const start = JSON.stringify({ book: initialBook, copy: initialCopy });
+  const dirty = JSON.stringify({ book, copy }) !== start;
+  // Worked out on every render, so a hint goes away as soon as the field matches
+  const mismatches = catalog ? findMismatches(book, catalog) : {};
+
+  // Look for a draft from last time when the form first shows
+  // Local storage only exists in the browser, so this has to wait for an effect
+  useEffect(() => {
+    const saved = loadBookDraft(draftKey);
+    if (saved) {
+      if (JSON.stringify({ book: saved.book, copy: saved.copy }) !== start) {
+        setDraft(saved); // Ask what to do with it
+      } else {
+        clearBookDraft(draftKey); // Nothing in it we don't already have
+      }
+    }
+    setDraftChecked(true);
+  }, [draftKey, start]);
+
+  // Save a draft every time something changes
+  useEffect(() => {
+    // Don't save over an old draft before the user has said what to do with it,
+    // or save a new one after the form has been saved for real
+    if (!draftChecked || draft || submittingRef.current) return;
+    if (dirty) {
+      saveBookDraft(draftKey, {
+        book,
+        copy,
+        version,
+        savedAt: new Date().toISOString(),
+      });
+    } else {
+      clearBookDraft(draftKey); // Back to how it started - nothing to keep
+    }
+  }, [book, copy, version, dirty, draft, draftChecked, draftKey]);
+
+  useLeaveGuard(dirty && !submitting);
+
+  // Fill the form from the draft
+  const handleRestore = () => {
+    if (!draft) return;
+    // Drafts saved before a field existed (like tags) keep the form's value for it
+    setBook({ ...initialBook, ...draft.book });
+    if (initialCopy && draft.copy) setCopy(draft.copy);
+    // Saving checks against the version the draft started from, so if the
+    // book has changed since then, the edit page shows a conflict
+    if (draft.version !== undefined) setVersion(draft.version);
+    setDraft(null);
+  };
+
+  // Throw the draft away and keep the form as it is
+  const handleDiscard = () => {
+    clearBookDraft(draftKey);
+    setDraft(null);
+  };
+
+  // Look the ISBN up in the catalog, then fill the form in or point out differences
+  const handleLookup = async () => {
+    setLookingUp(true);
+    try {
+      const result = await lookupIsbn(book.isbn);
+      if (result.status === "invalid_isbn") {
+        setLookupMessage("Enter a valid ISBN-10 or ISBN-13 to look it up");
+      } else if (result.status === "not_found") {
+        setLookupMessage(`The ${result.source} has no book with this ISBN`);
+      } else if (result.status === "unavailable") {
+        setLookupMessage(`The ${result.source} can't be reached right now`);
+      } else if (isbnLookup === "fill") {
+        // Use the latest values, in case something was typed while we waited
+        setBook((current) => fillFromMetadata(current, result.metadata));
+        setLookupMessage(
+          `Filled in from the ${result.metadata.source} - check the details before saving`
+        );
+      } else {
+        setCatalog(result.metadata);
+        const count = Object.keys(findMismatches(book, result.metadata)).length;
+        setLookupMessage(
+          count === 0
+            ? `Matches the ${result.metadata.source}`
+            : `${count} field${count === 1 ? "" : "s"} differ${
+                count === 1 ? "s" : ""
+              } from the ${result.metadata.source} - see below`
+        );
+      }
+    } catch (err) {
+      // The lookup itself failed, e.g. the login expired or the network is down
+      setLookupMessage(`The lookup failed: ${(err as Error).message}`);
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  // Replace one field with the catalog's value
+  const handleUseCatalog = (field: MetadataField) => {
+    if (catalog) setBook(fillFromMetadata(book, catalog, [field]));
+  };
+
+  // This function runs when the form is submitted
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault(); // Stop the form from doing a regular submit
+    if (submittingRef.current) return; // Already saving - ignore the extra click
+    submittingRef.current = true;
+    setSubmitting(true);
+    setErrors({}); // Clear any errors from the last attempt
+    setSaveError("");
+
+    let outcome: BookFormOutcome = { status: "unsaved" };
+    try {
+      outcome = await onSubmit(book, copy, version);
+    } catch (err) {
+      // Nothing was saved - the draft is kept, so the user can try again
+      setSaveError(`Saving failed: ${(err as Error).message}`);
+    } finally {
+      if (outcome.status === "saved") {
+        // Stay "submitting" while the page moves on, so the button can't be clicked again
+        clearBookDraft(draftKey);
+      } else {
+        submittingRef.current = false;
+        setSubmitting(false);
+      }
+    }
+    if (outcome.status === "invalid") {
+      setErrors(outcome.errors); // Show what needs fixing next to each field
+    }
+  };
+
+  // The form layout
+  return (
+    <div>
+      {/* Offer to bring back what was typed last time */}
+      {draft && (
+        <div className="mt-4 p-3 border border-yellow-500 rounded">
+          <p>
+            You have a draft of this form from{" "}
+            {new Date(draft.savedAt).toLocaleString()} that wasn&apos;t saved.
+            Restore it?
+          </p>
+          <div className="mt-2 space-x-2">
+            <button
+              type="button"
+              onClick={handleRestore}
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Restore draft
+            </button>
+            <button
+              type="button"
+              onClick={handleDiscard}
+              className="border p-2 hover:bg-gray-100 transition-colors"
+            >
+              Discard it
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-4" aria-busy={submitting}>
+        {/* Title input field */}
+        <div className="mb-4">
+          <label>
+            <div>Title:</div>
+            <input
+              type="text"
+              value={book.title}
+              onChange={(e) => setBook({ ...book, title: e.target.value })}
+              className="w-full border p-2 text-black"
+              required
+            />
+          </label>
+          {/* Show the server's error message for this field, if there is one */}
+          <FieldError message={errors.title} />
+          <CatalogHint
+            value={mismatches.title}
+            source={catalog?.source ?? ""}
+            onUse={() => handleUseCatalog("title")}
+          />
+        </div>
+
+        {/* Author fields - one box per author, in the order they're credited */}
+        <div className="mb-4">
+          <div>Authors:</div>
+          <AuthorInput
+            authors={book.authors}
+            onChange={(authors) => setBook({ ...book, authors })}
+          />
+          <FieldError message={errors.authors} />
+          <CatalogHint
+            value={mismatches.author}
+            source={catalog?.source ?? ""}
+            onUse={() => handleUseCatalog("author")}
+          />
+        </div>
+
+        {/* ISBN input field */}
+        <div className="mb-4">
+          <label>
+            <div>ISBN:</div>
+            <input
+              type="text"
+              value={book.isbn}
+              onChange={(e) => setBook({ ...book, isbn: e.target.value })}
+              className="w-full border p-2 text-black"
+              required
+            />
+          </label>
+          <FieldError message={errors.isbn} />
+          {/* Look the ISBN up in the catalog */}
+          <button
+            type="button"
+            onClick={handleLookup}
+            disabled={lookingUp || !book.isbn.trim()}
+            className="mt-2 border p-2 hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            {lookingUp
+              ? "Looking up..."
+              : isbnLookup === "fill"
+              ? "Autofill from ISBN"
+              : "Check against catalog"}
+          </button>
+          {lookupMessage && (
+            <p className="mt-1 text-sm" role="status">
+              {lookupMessage}
+            </p>
+          )}
+        </div>
+
+        {/* Published Year input field */}
+        <div className="mb-4">
+          <label>
+            <div>Published Year:</div>
+            <input
+              type="number"
+              // An empty box is NaN here, and null in a restored draft (JSON has no NaN)
+              value={
+                Number.isFinite(book.publishedYear) ? book.publishedYear : ""
+              }
+              onChange={(e) =>
+                setBook({ ...book, publishedYear: parseInt(e.target.value) })
+              }
+              className="w-full border p-2 text-black"
+              required
+            />
+          </label>
+          <FieldError message={errors.publishedYear} />
+          <CatalogHint
+            value={mismatches.publishedYear}
+            source={catalog?.source ?? ""}
+            onUse={() => handleUseCatalog("publishedYear")}
+          />
+        </div>
+
+        {/* Genre dropdown field - the genres are managed at /admin/genres */}
+        <div className="mb-4">
+          <label>
+            <div>Genre:</div>
+            <GenreSelect
+              value={book.genre}
+              onChange={(genre) => setBook({ ...book, genre })}
+            />
+          </label>
+          <FieldError message={errors.genre} />
+          <CatalogHint
+            value={mismatches.genre}
+            source={catalog?.source ?? ""}
+            onUse={() => handleUseCatalog("genre")}
+          />
+        </div>
+
+        {/* Description textarea field */}
+        <div className="mb-4">
+          <label>
+            <div>Description:</div>
+            <textarea
+              value={book.description}
+              onChange={(e) =>
+                setBook({ ...book, description: e.target.value })
+              }
+              className="w-full border p-2 text-black"
+              required
+              rows={3}
+            />
+          </label>
+          <FieldError message={errors.description} />
+          <CatalogHint
+            value={mismatches.description}
+            source={catalog?.source ?? ""}
+            onUse={() => handleUseCatalog("description")}
+          />
+        </div>
+
+        {/* Tags field - any labels that help find the book, like "book club" */}
+        <div className="mb-4">
+          <div>Tags:</div>
+          <TagInput
+            tags={book.tags}
+            onChange={(tags) => setBook({ ...book, tags })}
+          />
+          <FieldError message={errors.tags} />
+        </div>
+
+        {/* The first copy of the book - more can be added from its details page */}
+        {copy && (
+          <>
+            <h2 className="mb-2">First Copy</h2>
+
+            {/* Condition dropdown field */}
+            <div className="mb-4">
+              <label>
+                <div>Condition:</div>
+                <select
+                  value={copy.condition}
+                  onChange={(e) =>
+                    setCopy({
+                      ...copy,
+                      condition: e.target.value as BookCondition,
+                    })
+                  }
+                  className="w-full border p-2 text-black"
+                >
+                  {/* Create an option for each possible book condition */}
+                  {Object.values(BookCondition).map((condition) => (
+                    <option key={condition} value={condition}>
+                      {condition}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <FieldError message={errors.condition} />
+            </div>
+
+            {/* Shelf location input field */}
+            <div className="mb-4">
+              <label>
+                <div>Shelf Location:</div>
+                <input
+                  type="text"
+                  value={copy.shelfLocation}
+                  onChange={(e) =>
+                    setCopy({ ...copy, shelfLocation: e.target.value })
+                  }
+                  className="w-full border p-2 text-black"
+                />
+              </label>
+              <FieldError message={errors.shelfLocation} />
+            </div>
+
+            {/* Barcode input field - optional */}
+            <div className="mb-4">
+              <label>
+                <div>Barcode (leave empty for the next free one):</div>
+                <input
+                  type="text"
+                  value={copy.barcode}
+                  onChange={(e) =>
+                    setCopy({ ...copy, barcode: e.target.value })
+                  }
+                  className="w-full border p-2 text-black"
+                />
+              </label>
+              <FieldError message={errors.barcode} />
+            </div>
+          </>
+        )}
+
+        {children}
+
+        {saveError && (
+          <p className="mb-4 text-red-600" role="alert">
+            {saveError}
+          </p>
+        )}
+
+        {/* Submit button - disabled while saving, so a double click can't save twice */}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="border p-2 disabled:opacity-50"
+        >
+          {submitting ? submittingLabel : submitLabel}
+        </button>
+      </form>
+    </div>
+  );
+}
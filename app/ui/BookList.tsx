@@ -1,7 +1,8 @@
 /**
  * This is a reusable component that displays a list of books.
  * It's used on pages that need to show multiple books with interactive features
- * like checking out/in books and removing them.
+ * like placing holds and removing them. Books are checked out and in one copy
+ * at a time, from each book's details page.
  */
 
 // Tell Next.js this is a Client Component because it has interactivity
@@ -9,36 +10,93 @@
 
 // Import the tools we need
 import { Book } from "../types/book"; // Type definition for our book data
-import {
-  toggleCheckoutStatus,
-  markBookInactive,
-} from "../lib/actions/bookActions"; // Functions to handle book actions
+import { CopySummary } from "../types/copy"; // How many copies a book has
+import { markBookInactive } from "../lib/actions/bookActions"; // Function to remove a book
+import { placeHold } from "../lib/actions/holdActions"; // Function to join a book's hold queue
 import { useRouter } from "next/navigation"; // For refreshing the page after actions
 import Link from "next/link"; // For navigation links
 import { useState } from "react"; // For managing dialog state
 import ConfirmDialog from "./ConfirmDialog"; // Our confirmation dialog component
+import HoldDialog from "./HoldDialog"; // Asks who wants a book next
+import BookCover from "./BookCover"; // The book's cover thumbnail
+import { useCurrentUser } from "./CurrentUserProvider"; // Who is logged in
+import { can } from "../lib/auth/permissions"; // What they're allowed to do
 
 // Define what props (parameters) this component accepts
 // TypeScript helps us ensure we pass in the correct data
 interface BookListProps {
   books: Book[]; // An array of books to display
+  overdueBookIds?: string[]; // Optional - books that are out past their due date
+  copySummaries?: Record<string, CopySummary>; // Optional - how many copies each book has, by book id
+}
+
+// Describe a book's copies, e.g. "2 of 3 available (1 on hold shelf)"
+function copyStatus(summary: CopySummary | undefined): string {
+  if (!summary || summary.total === 0) return "No copies";
+  const held = summary.onHoldShelf
+    ? ` (${summary.onHoldShelf} on hold shelf)`
+    : "";
+  return `${summary.available} of ${summary.total} available${held}`;
+}
+
+// A book can be put on hold when it has copies but none of them can be borrowed
+function isUnavailable(summary: CopySummary | undefined): boolean {
+  return !!summary && summary.total > 0 && summary.available === 0;
 }
 
 // The main BookList component
 // It takes 'books' as a prop and displays them in a list
 // We do not need to await this because the params are NOT passed through routing
-export default function BookList({ books }: BookListProps) {
+export default function BookList({
+  books,
+  overdueBookIds = [],
+  copySummaries = {},
+}: BookListProps) {
   // Get the router so we can refresh the page after actions
   const router = useRouter();
+  // Only show the buttons the logged in user is allowed to use
+  const user = useCurrentUser();
+  const canCirculate = can(user, "circulation"); // Staff manage anyone's holds
+  const canHoldForSelf = can(user, "holds:own") && !!user?.patronId; // Patrons place their own holds
+  const canRemove = can(user, "books:remove");
+  // A message for patrons after placing a hold (staff see the queue instead)
+  const [notice, setNotice] = useState<string | null>(null);
 
   // State for managing the confirmation dialog
   const [showConfirm, setShowConfirm] = useState(false);
   const [bookToRemove, setBookToRemove] = useState<Book | null>(null);
+  // The book we're placing a hold on, while the hold dialog is open
+  const [bookToHold, setBookToHold] = useState<Book | null>(null);
 
-  // Handle checking out or returning a book
-  const handleCheckout = async (bookId: string) => {
-    await toggleCheckoutStatus(bookId); // Update the book's status
-    router.refresh(); // Refresh the page to show the new status
+  // Handle the hold dialog being confirmed
+  const handleHoldConfirm = async (patronId: string) => {
+    if (!bookToHold) return;
+    const result = await placeHold(bookToHold.id, patronId);
+    if (result.status === "invalid") {
+      return result.errors; // Keep the dialog open and show what's wrong
+    }
+    // Placed - or the book came back in the meantime. Either way, show the latest status
+    setBookToHold(null);
+    router.refresh();
+  };
+
+  // Handle the Place Hold button
+  // Staff choose which patron the hold is for, patrons place it for themselves
+  const handlePlaceHold = async (book: Book) => {
+    if (canCirculate) {
+      setBookToHold(book); // Open the hold dialog
+      return;
+    }
+    if (!user?.patronId) return;
+    const result = await placeHold(book.id, user.patronId);
+    if (result.status === "placed") {
+      setNotice(`You're number ${result.position} in line for "${book.title}"`);
+    } else if (result.status === "invalid") {
+      setNotice(result.errors.patronId ?? "Your hold couldn't be placed");
+    } else if (result.status === "available") {
+      setNotice(`"${book.title}" is on the shelf - ask at the desk`);
+    }
+    router.refresh();
   };
 
   // Show confirmation dialog before removing a book
@@ -50,7 +108,8 @@ export default function BookList({ books }: BookListProps) {
   // Handle actual book removal after confirmation
   const handleRemoveConfirm = async () => {
     if (bookToRemove) {
-      await markBookInactive(bookToRemove.id); // Mark the book as removed
+      const result = await markBookInactive(bookToRemove.id); // Mark the book as removed
+      if (result.status === "on_loan") setNotice(result.error);
       setShowConfirm(false); // Hide the confirmation dialog
       setBookToRemove(null); // Clear the book to remove
       router.refresh(); // Refresh the page to update the list
@@ -61,6 +120,7 @@ export default function BookList({ books }: BookListProps) {
   return (
     <div className="mt-4">
       <h2 className="text-xl mb-2">Book List</h2>
+      {notice && <p className="mb-2 p-2 border rounded">{notice}</p>}
       <ul>
         {/* 
           Filter out inactive (removed) books and map through the rest
@@ -71,48 +131,71 @@ export default function BookList({ books }: BookListProps) {
           .filter((book) => book.isActive)
           .map((book) => (
             // Each list item needs a unique key (the book's ID) for React to track it
-            <li key={book.id} className="mb-4 p-2 border rounded">
-              {/* Book title */}
-              <h3>{book.title}</h3>
-              {/* Book author */}
-              <p>Author: {book.author}</p>
-              {/* Show if the book is checked out or available */}
-              <p>Status: {book.isCheckedOut ? "Checked Out" : "Available"}</p>
-              {/* Only show the last checkout date if there is one */}
-              {book.lastCheckedOutDate && (
+            // Overdue books get a red border so they stand out
+            <li
+              key={book.id}
+              className={`mb-4 p-2 border rounded flex gap-4 ${
+                overdueBookIds.includes(book.id) ? "border-red-600" : ""
+              }`}
+            >
+              {/* The cover, or a placeholder if the book doesn't have one */}
+              <BookCover book={book} size="thumbnail" />
+              <div>
+                {/* Book title */}
+                <h3>{book.title}</h3>
+                {/* Book author */}
+                <p>Author: {book.author}</p>
+                {/* Show how many copies can be borrowed, and how many are kept for holds */}
                 <p>
-                  Last Checked Out:{" "}
-                  {new Date(book.lastCheckedOutDate).toLocaleDateString()}
+                  Status: {copyStatus(copySummaries[book.id])}
+                  {overdueBookIds.includes(book.id) && (
+                    <span className="ml-2 px-1 rounded bg-red-600 text-white text-sm">
+                      Overdue
+                    </span>
+                  )}
                 </p>
-              )}
-              {/* Buttons for actions (checkout/return, view details, and remove) */}
-              <div className="mt-2 space-x-2">
-                {/* Button to check out or return the book */}
-                <button
-                  className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
-                  onClick={() => handleCheckout(book.id)}
-                >
-                  {book.isCheckedOut ? "Check In" : "Check Out"}
-                </button>
-                {/* Link to view book details */}
-                <Link
-                  href={`/books/${book.id}`}
-                  className="px-2 py-1 border rounded inline-block hover:bg-gray-100 transition-colors"
-                >
-                  View Details →
-                </Link>
-                {/* Button to remove the book from the list */}
-                <button
-                  className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors text-red-600 hover:bg-red-50"
-                  onClick={() => handleRemoveClick(book)}
-                >
-                  Remove
-                </button>
+                {/* Buttons for actions (place hold, view details, and remove) */}
+                <div className="mt-2 space-x-2">
+                  {/* Patrons can queue up for books they can't borrow right now */}
+                  {(canCirculate || canHoldForSelf) &&
+                    isUnavailable(copySummaries[book.id]) && (
+                      <button
+                        className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                        onClick={() => handlePlaceHold(book)}
+                      >
+                        Place Hold
+                      </button>
+                    )}
+                  {/* Link to view book details */}
+                  <Link
+                    href={`/books/${book.id}`}
+                    className="px-2 py-1 border rounded inline-block hover:bg-gray-100 transition-colors"
+                  >
+                    View Details →
+                  </Link>
+                  {/* Button to remove the book from the list */}
+                  {canRemove && (
+                    <button
+                      className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors text-red-600 hover:bg-red-50"
+                      onClick={() => handleRemoveClick(book)}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
               </div>
             </li>
           ))}
       </ul>
 
+      {/* Dialog asking who wants the book next */}
+      <HoldDialog
+        isOpen={bookToHold !== null}
+        bookTitle={bookToHold?.title ?? ""}
+        onConfirm={handleHoldConfirm}
+        onCancel={() => setBookToHold(null)}
+      />
+
       {/* Confirmation Dialog for removing books */}
       <ConfirmDialog
         isOpen={showConfirm}
@@ -124,7 +207,7 @@ export default function BookList({ books }: BookListProps) {
         title="Remove Book"
         message={
           bookToRemove
-            ? `Are you sure you want to remove "${bookToRemove.title}" from the library? This action cannot be undone.`
+            ? `Are you sure you want to remove "${bookToRemove.title}" from the library? It will be moved to the trash, where it can be restored.`
             : ""
         }
       />
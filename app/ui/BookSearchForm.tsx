@@ -0,0 +1,157 @@
+/**
+ * This is the search, filter and sort bar shown above the book list.
+ * It's a plain HTML form that submits with GET, so everything the user picks
+ * ends up in the URL (e.g. /books?q=tolkien&sort=newest) and the server page
+ * does the searching. No JavaScript is needed for it to work.
+ */
+
+import Link from "next/link"; // For the "Clear" link
+import { BookCondition } from "../types/book"; // The conditions to filter on
+import {
+  BOOK_SORT_OPTIONS,
+  BOOK_STATUS_OPTIONS,
+  BookQuery,
+} from "../lib/search/bookQuery";
+import { GenreOption } from "../lib/catalog/genreTree"; // A genre with its place in the tree
+
+// Define the props (parameters) our form needs
+interface BookSearchFormProps {
+  query: BookQuery; // The current search, used to fill in the fields
+  genres: GenreOption[]; // The genres to offer in the genre dropdown, in tree order
+}
+
+export default function BookSearchForm({ query, genres }: BookSearchFormProps) {
+  return (
+    <form action="/books" method="get" className="mt-4 p-2 border rounded">
+      <div className="flex flex-wrap gap-2 items-end">
+        {/* Free text search */}
+        <label>
+          <div>Search:</div>
+          <input
+            type="search"
+            name="q"
+            defaultValue={query.q}
+            placeholder="Title, author, ISBN, genre or tag"
+            className="border p-2 text-black"
+          />
+        </label>
+
+        {/* Filter by genre - a genre includes its sub-genres, which are indented under it */}
+        <label>
+          <div>Genre:</div>
+          <select
+            name="genre"
+            defaultValue={query.genre ?? ""}
+            className="border p-2 text-black"
+          >
+            <option value="">Any genre</option>
+            {genres.map((genre) => (
+              <option key={genre.id} value={genre.name}>
+                {`${"\u00A0\u00A0".repeat(genre.depth)}${genre.name}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Filter by tag */}
+        <label>
+          <div>Tag:</div>
+          <input
+            type="text"
+            name="tag"
+            defaultValue={query.tag}
+            className="w-32 border p-2 text-black"
+          />
+        </label>
+
+        {/* Filter by condition - books with at least one copy in that condition */}
+        <label>
+          <div>Copy Condition:</div>
+          <select
+            name="condition"
+            defaultValue={query.condition ?? ""}
+            className="border p-2 text-black"
+          >
+            <option value="">Any condition</option>
+            {Object.values(BookCondition).map((condition) => (
+              <option key={condition} value={condition}>
+                {condition}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Filter by where the book is */}
+        <label>
+          <div>Status:</div>
+          <select
+            name="status"
+            defaultValue={query.status ?? ""}
+            className="border p-2 text-black"
+          >
+            <option value="">Any status</option>
+            {Object.entries(BOOK_STATUS_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Filter by when the book was published */}
+        <label>
+          <div>Published from:</div>
+          <input
+            type="number"
+            name="yearFrom"
+            defaultValue={query.yearRange?.from}
+            className="w-24 border p-2 text-black"
+          />
+        </label>
+        <label>
+          <div>to:</div>
+          <input
+            type="number"
+            name="yearTo"
+            defaultValue={query.yearRange?.to}
+            className="w-24 border p-2 text-black"
+          />
+        </label>
+
+        {/* Choose the order */}
+        <label>
+          <div>Sort by:</div>
+          <select
+            name="sort"
+            defaultValue={query.sort ?? "title"}
+            className="border p-2 text-black"
+          >
+            {Object.entries(BOOK_SORT_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Keep the page size if it was set in the URL */}
+        {query.pageSize && (
+          <input type="hidden" name="pageSize" value={query.pageSize} />
+        )}
+
+        <button
+          type="submit"
+          className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+        >
+          Search
+        </button>
+        <Link
+          href="/books"
+          className="px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+        >
+          Clear
+        </Link>
+      </div>
+    </form>
+  );
+}
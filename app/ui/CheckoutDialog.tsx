@@ -0,0 +1,124 @@
+/**
+ * This is a dialog for checking out a book.
+ * It asks which patron is borrowing the book and when it's due back,
+ * then hands those details to the page that opened it.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the form fields
+import { CheckoutErrors } from "../lib/actions/loanActions"; // Error messages for the form
+import PatronSelect from "./PatronSelect"; // Dropdown for choosing the borrower
+
+// Define the props (parameters) our dialog needs
+interface CheckoutDialogProps {
+  isOpen: boolean; // Whether the dialog should be shown
+  bookTitle: string; // The book being checked out, shown in the title
+  // Called with the patron's id and the due date when the user confirms
+  // It returns error messages to show, or nothing if the checkout worked
+  onConfirm: (
+    patronId: string,
+    dueDate: Date
+  ) => Promise<CheckoutErrors | void>;
+  onCancel: () => void; // Function to call when user cancels
+}
+
+// Books are due back two weeks from today unless the librarian picks another date
+function defaultDueDate(): string {
+  const due = new Date();
+  due.setDate(due.getDate() + 14);
+  return due.toISOString().split("T")[0]; // <input type="date"> wants YYYY-MM-DD
+}
+
+// The main CheckoutDialog component
+export default function CheckoutDialog({
+  isOpen,
+  bookTitle,
+  onConfirm,
+  onCancel,
+}: CheckoutDialogProps) {
+  const [patronId, setPatronId] = useState("");
+  const [dueDate, setDueDate] = useState(defaultDueDate);
+  const [errors, setErrors] = useState<CheckoutErrors>({});
+
+  // If dialog isn't open, don't render anything
+  if (!isOpen) return null;
+
+  // Reset the form so the next checkout starts fresh
+  const reset = () => {
+    setPatronId("");
+    setDueDate(defaultDueDate());
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // The date input gives us a day with no time, so the book is due at the end of that day
+    const result = await onConfirm(patronId, new Date(`${dueDate}T23:59:59`));
+    if (result) {
+      setErrors(result); // Show what went wrong next to each field
+    } else {
+      reset();
+    }
+  };
+
+  return (
+    // Semi-transparent overlay that covers the whole screen
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center">
+      {/* The dialog box itself */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full mx-4"
+      >
+        <h2 className="text-xl text-black font-semibold mb-4">
+          Check Out &quot;{bookTitle}&quot;
+        </h2>
+
+        {/* Who is borrowing the book */}
+        <PatronSelect
+          value={patronId}
+          onChange={setPatronId}
+          error={errors.patronId}
+        />
+
+        {/* When the book is due back */}
+        <div className="mb-6">
+          <label className="text-gray-600">
+            <div>Due Date:</div>
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="w-full border p-2 text-black"
+              required
+            />
+          </label>
+          {errors.dueDate && (
+            <p className="mt-1 text-sm text-red-600">{errors.dueDate}</p>
+          )}
+        </div>
+
+        {/* Action buttons */}
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => {
+              reset();
+              onCancel();
+            }}
+            className="px-4 py-2 border rounded text-black hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+          >
+            Check Out
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
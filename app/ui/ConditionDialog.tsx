@@ -0,0 +1,134 @@
+/**
+ * This is a dialog for recording what condition a copy is in.
+ * It's used when a copy is checked in, and when staff look a copy over.
+ * It asks for the condition and any notes, then hands them to the page that opened it.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the form fields
+import { BookCondition } from "../types/book"; // The conditions a copy can be in
+import { AssessmentData, AssessmentFieldErrors } from "../types/assessment"; // Our assessment type definitions
+
+// Define the props (parameters) our dialog needs
+interface ConditionDialogProps {
+  isOpen: boolean; // Whether the dialog should be shown
+  title: string; // e.g. 'Check In "Dune" (copy 000001)'
+  currentCondition: BookCondition; // The condition the copy was last recorded in
+  confirmLabel: string; // The text on the confirm button, e.g. "Check In"
+  isReturn?: boolean; // true when the copy is coming back from a loan
+  // Called with the condition and notes when the user confirms
+  // It returns error messages to show, or nothing if it worked
+  onConfirm: (data: AssessmentData) => Promise<AssessmentFieldErrors | void>;
+  onCancel: () => void; // Function to call when user cancels
+}
+
+// The main ConditionDialog component
+// The page gives it a new key for each copy, so the form starts from that copy's condition
+export default function ConditionDialog({
+  isOpen,
+  title,
+  currentCondition,
+  confirmLabel,
+  isReturn = false,
+  onConfirm,
+  onCancel,
+}: ConditionDialogProps) {
+  const [condition, setCondition] = useState(currentCondition);
+  const [notes, setNotes] = useState("");
+  const [errors, setErrors] = useState<AssessmentFieldErrors>({});
+
+  // If dialog isn't open, don't render anything
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await onConfirm({ condition, notes });
+    if (result) {
+      setErrors(result); // Show what went wrong next to each field
+    }
+  };
+
+  return (
+    // Semi-transparent overlay that covers the whole screen
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center">
+      {/* The dialog box itself */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full mx-4"
+      >
+        <h2 className="text-xl text-black font-semibold mb-4">{title}</h2>
+
+        {/* What condition the copy is in now */}
+        <div className="mb-4">
+          <label className="text-gray-600">
+            <div>Condition (was {currentCondition}):</div>
+            <select
+              value={condition}
+              onChange={(e) => setCondition(e.target.value as BookCondition)}
+              className="w-full border p-2 text-black"
+            >
+              {Object.values(BookCondition).map((condition) => (
+                <option key={condition} value={condition}>
+                  {condition}
+                </option>
+              ))}
+            </select>
+          </label>
+          {errors.condition && (
+            <p className="mt-1 text-sm text-red-600">{errors.condition}</p>
+          )}
+          {/* Let them know what will happen before they confirm */}
+          {condition === BookCondition.DESTROYED ? (
+            <p className="mt-1 text-sm text-red-600">
+              A destroyed copy is withdrawn from circulation.
+            </p>
+          ) : (
+            isReturn &&
+            condition !== currentCondition && (
+              <p className="mt-1 text-sm text-gray-600">
+                If it&apos;s worse than when it went out, it&apos;s recorded as
+                damage on this loan.
+              </p>
+            )
+          )}
+        </div>
+
+        {/* Anything worth remembering, like what the damage is */}
+        <div className="mb-6">
+          <label className="text-gray-600">
+            <div>Notes:</div>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full border p-2 text-black"
+              rows={3}
+            />
+          </label>
+          {errors.notes && (
+            <p className="mt-1 text-sm text-red-600">{errors.notes}</p>
+          )}
+        </div>
+
+        {/* Action buttons */}
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border rounded text-black hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            autoFocus // So Enter confirms straight away, e.g. at the circulation desk
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+/**
+ * This shows the physical copies of a book in a table, with buttons to check
+ * each copy out or in, record its condition and withdraw it, and a small form
+ * for adding another copy. Checking a copy in asks what condition it came back in.
+ * It's used on the book details page.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the form fields and dialogs
+import { BookCondition } from "../types/book"; // The conditions a copy can be in
+import { Copy, CopyData, CopyFieldErrors } from "../types/copy"; // Our Copy type definitions
+import { AssessmentData } from "../types/assessment"; // What the condition dialog gives us
+import {
+  addCopy, // Adds another copy of the book
+  withdrawCopy, // Takes a copy out of circulation
+} from "../lib/actions/copyActions";
+import { assessCopy } from "../lib/actions/conditionActions"; // Records a copy's condition
+import { checkoutCopy, returnCopy } from "../lib/actions/loanActions"; // Functions to lend and return copies
+import { formatCents } from "../lib/circulation/fines"; // For showing fines
+import ConfirmDialog from "./ConfirmDialog"; // Our confirmation dialog component
+import CheckoutDialog from "./CheckoutDialog"; // Asks who is borrowing a copy
+import ConditionDialog from "./ConditionDialog"; // Asks what condition a copy is in
+
+// Define the props (parameters) our list needs
+interface CopyListProps {
+  bookId: string;
+  bookTitle: string; // Shown in the dialogs
+  bookIsActive: boolean; // Copies of removed books can't be lent or added
+  copies: Copy[]; // Every copy, including withdrawn ones, in barcode order
+  canCirculate: boolean; // Staff who lend books
+  canEdit: boolean; // Staff who add copies and assess their condition
+  canRemove: boolean; // Staff who withdraw copies
+  onChange: () => Promise<void>; // Reloads the page's data after something changed
+}
+
+// A new copy starts in good condition, with the next free barcode
+const EMPTY_COPY: CopyData = {
+  barcode: "",
+  condition: BookCondition.GOOD,
+  shelfLocation: "",
+};
+
+export default function CopyList({
+  bookId,
+  bookTitle,
+  bookIsActive,
+  copies,
+  canCirculate,
+  canEdit,
+  canRemove,
+  onChange,
+}: CopyListProps) {
+  const [notice, setNotice] = useState<string | null>(null); // What happened after a return
+  const [copyToCheckout, setCopyToCheckout] = useState<Copy | null>(null); // While the checkout dialog is open
+  const [copyToWithdraw, setCopyToWithdraw] = useState<Copy | null>(null); // While the withdraw dialog is open
+  // While the condition dialog is open - isReturn is true when the copy is being checked in
+  const [copyToAssess, setCopyToAssess] = useState<{
+    copy: Copy;
+    isReturn: boolean;
+  } | null>(null);
+  const [newCopy, setNewCopy] = useState<CopyData>(EMPTY_COPY); // The add copy form
+  const [errors, setErrors] = useState<CopyFieldErrors>({}); // Problems with the add copy form
+
+  // Returning asks for the copy's condition first - then we say where the copy should go
+  const handleReturn = async (copy: Copy, assessment: AssessmentData) => {
+    const result = await returnCopy(copy.id, assessment);
+    if (result.status === "invalid") {
+      return result.errors; // Keep the dialog open and show what's wrong
+    }
+    if (result.status === "returned") {
+      const fine = result.fineCents
+        ? ` It was late - a fine of ${formatCents(result.fineCents)} was added.`
+        : "";
+      const damage = result.damaged
+        ? " The damage was recorded against the loan."
+        : "";
+      const shelf = result.withdrawn
+        ? "It was destroyed, so it has been withdrawn."
+        : result.heldFor
+        ? `Put it on the hold shelf for ${result.heldFor}.`
+        : "Put it back on the shelf.";
+      setNotice(`Copy ${copy.barcode} is back. ${shelf}${damage}${fine}`);
+    }
+    setCopyToAssess(null);
+    await onChange();
+  };
+
+  // Handle the checkout dialog being confirmed
+  const handleCheckoutConfirm = async (patronId: string, dueDate: Date) => {
+    if (!copyToCheckout) return;
+    const result = await checkoutCopy(copyToCheckout.id, patronId, dueDate);
+    if (result.status === "invalid") {
+      return result.errors; // Keep the dialog open and show what's wrong
+    }
+    // Checked out - or someone else got there first. Either way, show the latest status
+    setCopyToCheckout(null);
+    setNotice(null);
+    await onChange();
+  };
+
+  // Handle the condition dialog being confirmed
+  // Checking in and looking a copy over both record an assessment
+  const handleAssessConfirm = async (data: AssessmentData) => {
+    if (!copyToAssess) return;
+    const { copy, isReturn } = copyToAssess;
+    if (isReturn) {
+      return await handleReturn(copy, data);
+    }
+    const result = await assessCopy(copy.id, data);
+    if (result.status === "invalid") {
+      return result.errors; // Keep the dialog open and show what's wrong
+    }
+    if (result.status === "assessed" && !result.copy.isActive) {
+      setNotice(`Copy ${copy.barcode} was destroyed, so it has been withdrawn`);
+    } else if (result.status === "checked_out") {
+      setNotice(`Copy ${copy.barcode} has to be checked in first`);
+    }
+    setCopyToAssess(null);
+    await onChange();
+  };
+
+  // Withdrawing only happens after the dialog is confirmed
+  const handleWithdrawConfirm = async () => {
+    if (!copyToWithdraw) return;
+    const result = await withdrawCopy(copyToWithdraw.id);
+    if (result.status === "checked_out") {
+      setNotice(`Copy ${copyToWithdraw.barcode} has to be checked in first`);
+    }
+    setCopyToWithdraw(null);
+    await onChange();
+  };
+
+  // Handle the add copy form being submitted
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault(); // Stop the page from reloading
+    const result = await addCopy(bookId, newCopy);
+    if (result.status === "invalid") {
+      setErrors(result.errors); // Show what's wrong next to each field
+      return;
+    }
+    setErrors({});
+    setNewCopy(EMPTY_COPY);
+    if (result.status === "created") {
+      setNotice(`Added copy ${result.copy.barcode}`);
+    }
+    await onChange();
+  };
+
+  return (
+    <div className="mt-4">
+      <h2>Copies</h2>
+      {notice && <p className="mt-2 p-2 border rounded">{notice}</p>}
+      {copies.length === 0 ? (
+        <p>The library has no copies of this book</p>
+      ) : (
+        <table className="mt-2 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Barcode</th>
+              <th className="border p-2 text-left">Condition</th>
+              <th className="border p-2 text-left">Shelf</th>
+              <th className="border p-2 text-left">Status</th>
+              <th className="border p-2 text-left"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {copies.map((copy) => (
+              // Withdrawn copies are greyed out - they're kept for the loan history
+              <tr
+                key={copy.id}
+                className={copy.isActive ? "" : "text-gray-500"}
+              >
+                <td className="border p-2">{copy.barcode}</td>
+                <td className="border p-2">{copy.condition}</td>
+                <td className="border p-2">{copy.shelfLocation}</td>
+                <td className="border p-2">
+                  {!copy.isActive
+                    ? "Withdrawn"
+                    : copy.isCheckedOut
+                    ? "Checked Out"
+                    : "On Shelf"}
+                </td>
+                <td className="border p-2 space-x-2">
+                  {/* Check out/in button - text changes based on the copy's status */}
+                  {canCirculate &&
+                    copy.isActive &&
+                    (copy.isCheckedOut || bookIsActive) && (
+                      <button
+                        onClick={() =>
+                          copy.isCheckedOut
+                            ? setCopyToAssess({ copy, isReturn: true })
+                            : setCopyToCheckout(copy)
+                        }
+                        className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                      >
+                        {copy.isCheckedOut ? "Check In" : "Check Out"}
+                      </button>
+                    )}
+                  {/* Record the condition after looking the copy over */}
+                  {canEdit && copy.isActive && (
+                    <button
+                      onClick={() => setCopyToAssess({ copy, isReturn: false })}
+                      className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                    >
+                      Assess
+                    </button>
+                  )}
+                  {canRemove && copy.isActive && !copy.isCheckedOut && (
+                    <button
+                      onClick={() => setCopyToWithdraw(copy)}
+                      className="px-2 py-1 border rounded text-red-600 hover:bg-red-50 transition-colors"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Form for adding another copy (staff only) */}
+      {canEdit && bookIsActive && (
+        <form
+          onSubmit={handleAdd}
+          className="mt-2 flex flex-wrap gap-2 items-end"
+        >
+          <label>
+            <div>Barcode:</div>
+            <input
+              type="text"
+              value={newCopy.barcode}
+              onChange={(e) =>
+                setNewCopy({ ...newCopy, barcode: e.target.value })
+              }
+              placeholder="Next free barcode"
+              className="border p-2 text-black"
+            />
+          </label>
+          <label>
+            <div>Condition:</div>
+            <select
+              value={newCopy.condition}
+              onChange={(e) =>
+                setNewCopy({
+                  ...newCopy,
+                  condition: e.target.value as BookCondition,
+                })
+              }
+              className="border p-2 text-black"
+            >
+              {Object.values(BookCondition).map((condition) => (
+                <option key={condition} value={condition}>
+                  {condition}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <div>Shelf Location:</div>
+            <input
+              type="text"
+              value={newCopy.shelfLocation}
+              onChange={(e) =>
+                setNewCopy({ ...newCopy, shelfLocation: e.target.value })
+              }
+              className="border p-2 text-black"
+            />
+          </label>
+          <button type="submit" className="border p-2">
+            Add Copy
+          </button>
+        </form>
+      )}
+      {/* Every field that's wrong in the add copy form */}
+      {Object.entries(errors).map(([field, message]) => (
+        <p key={field} className="mt-1 text-sm text-red-600">
+          {message}
+        </p>
+      ))}
+
+      {/* Dialog asking who is borrowing the copy */}
+      <CheckoutDialog
+        isOpen={copyToCheckout !== null}
+        bookTitle={
+          copyToCheckout ? `${bookTitle} (copy ${copyToCheckout.barcode})` : ""
+        }
+        onConfirm={handleCheckoutConfirm}
+        onCancel={() => setCopyToCheckout(null)}
+      />
+
+      {/* Dialog asking what condition the copy is in */}
+      {/* The key starts the form afresh for each copy */}
+      <ConditionDialog
+        key={copyToAssess?.copy.id}
+        isOpen={copyToAssess !== null}
+        title={
+          copyToAssess
+            ? `${
+                copyToAssess.isReturn ? "Check In" : "Assess"
+              } "${bookTitle}" (copy ${copyToAssess.copy.barcode})`
+            : ""
+        }
+        currentCondition={copyToAssess?.copy.condition ?? BookCondition.GOOD}
+        confirmLabel={copyToAssess?.isReturn ? "Check In" : "Save"}
+        isReturn={copyToAssess?.isReturn}
+        onConfirm={handleAssessConfirm}
+        onCancel={() => setCopyToAssess(null)}
+      />
+
+      {/* Confirmation Dialog for withdrawing copies */}
+      <ConfirmDialog
+        isOpen={copyToWithdraw !== null}
+        onConfirm={handleWithdrawConfirm}
+        onCancel={() => setCopyToWithdraw(null)}
+        title="Withdraw Copy"
+        message={
+          copyToWithdraw
+            ? `Are you sure you want to withdraw copy ${copyToWithdraw.barcode}? It can't be borrowed again, but its loan history is kept.`
+            : ""
+        }
+      />
+    </div>
+  );
+}
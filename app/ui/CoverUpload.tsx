@@ -0,0 +1,120 @@
+/**
+ * This lets staff upload a cover image for a book, or take its cover away.
+ * It's used on the book's details page. The file is checked here first, so a
+ * file that's too big or the wrong type is caught before it's sent.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useRef, useState } from "react"; // React hooks for the file input and messages
+import { removeCover, uploadCover } from "../lib/actions/coverActions"; // Functions to save and remove covers
+import {
+  COVER_TYPES,
+  MAX_COVER_BYTES,
+  validateCoverFile,
+} from "../lib/validation/coverValidation"; // The files we accept
+import ConfirmDialog from "./ConfirmDialog"; // Asks before removing the cover
+
+// Define the props (parameters) our component needs
+interface CoverUploadProps {
+  bookId: string;
+  bookTitle: string;
+  hasCover: boolean;
+  onChange: () => void; // Called after the cover changes, so the page can reload the book
+}
+
+export default function CoverUpload({
+  bookId,
+  bookTitle,
+  hasCover,
+  onChange,
+}: CoverUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null); // The file input, so we can clear it
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false); // True while uploading or removing
+  const [showConfirm, setShowConfirm] = useState(false); // Should we ask before removing?
+
+  // Upload the chosen file as soon as it's picked
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    // Check the type and size here, so a wrong file isn't sent at all
+    const problem = validateCoverFile(file);
+    if (problem) {
+      setError(problem);
+      e.target.value = "";
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const formData = new FormData();
+      formData.append("cover", file);
+      const result = await uploadCover(bookId, formData);
+      if (result.status === "invalid") {
+        setError(result.error);
+      } else if (result.status === "not_found") {
+        setError("This book no longer exists");
+      } else {
+        onChange();
+      }
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = ""; // Ready for another file
+    }
+  };
+
+  // Take the cover away after the user confirms
+  const handleRemoveConfirm = async () => {
+    setShowConfirm(false);
+    setBusy(true);
+    try {
+      await removeCover(bookId);
+      onChange();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <label className="px-2 py-1 border rounded inline-block hover:bg-gray-100 transition-colors cursor-pointer">
+        {busy ? "Saving..." : hasCover ? "Change Cover" : "Upload Cover"}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={Object.keys(COVER_TYPES).join(",")}
+          onChange={handleFileChange}
+          disabled={busy}
+          className="sr-only"
+        />
+      </label>
+      {hasCover && (
+        <button
+          type="button"
+          onClick={() => setShowConfirm(true)}
+          disabled={busy}
+          className="ml-2 px-2 py-1 border rounded text-red-600 hover:bg-red-50 transition-colors"
+        >
+          Remove Cover
+        </button>
+      )}
+      <p className="mt-1 text-sm text-gray-500">
+        {Object.values(COVER_TYPES).join(", ")}, up to{" "}
+        {MAX_COVER_BYTES / 1024 / 1024} MB
+      </p>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+
+      <ConfirmDialog
+        isOpen={showConfirm}
+        onConfirm={handleRemoveConfirm}
+        onCancel={() => setShowConfirm(false)}
+        title="Remove Cover"
+        message={`Remove the cover of "${bookTitle}"? The book will show a placeholder instead.`}
+      />
+    </div>
+  );
+}
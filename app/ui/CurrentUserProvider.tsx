@@ -0,0 +1,36 @@
+/**
+ * This makes the logged in user available to every Client Component,
+ * so they can hide buttons the user isn't allowed to use.
+ * The root layout looks the user up on the server and passes them in here.
+ *
+ * Hiding a button is only a convenience - the server checks permissions again
+ * in every action, so a hidden button can't be used by calling the action directly.
+ */
+
+// Tell Next.js this is a Client Component because it uses React context
+"use client";
+
+import { createContext, useContext } from "react";
+import { SessionUser } from "../types/user"; // The logged in user (without their password hash)
+
+// null means nobody is logged in
+const CurrentUserContext = createContext<SessionUser | null>(null);
+
+export function CurrentUserProvider({
+  user,
+  children,
+}: {
+  user: SessionUser | null;
+  children: React.ReactNode;
+}) {
+  return (
+    <CurrentUserContext.Provider value={user}>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+}
+
+// Get the logged in user, or null if nobody is logged in
+export function useCurrentUser(): SessionUser | null {
+  return useContext(CurrentUserContext);
+}
@@ -0,0 +1,111 @@
+/**
+ * This shows one book at the circulation desk: its title, how many copies are
+ * available and a row for each copy with buttons to check it out or in.
+ * It's used by the desk page, once for each book a scanned code matches.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import Link from "next/link"; // For the link to the book's page
+import { DeskBook, DeskCopy } from "../lib/actions/deskActions"; // The book and its copies
+
+// Define the props (parameters) our panel needs
+interface DeskBookPanelProps {
+  match: DeskBook;
+  highlightCopyId?: string; // The copy the next Enter press will act on
+  onCheckOut: (copy: DeskCopy) => void;
+  onCheckIn: (copy: DeskCopy) => void;
+  onCheckInWithCondition: (copy: DeskCopy) => void; // Check in and record its condition
+}
+
+export default function DeskBookPanel({
+  match,
+  highlightCopyId,
+  onCheckOut,
+  onCheckIn,
+  onCheckInWithCondition,
+}: DeskBookPanelProps) {
+  const { book, copies, summary } = match;
+
+  return (
+    <div className="mt-4 p-4 border rounded">
+      <h2 className="text-xl">
+        <Link href={`/books/${book.id}`} className="hover:underline">
+          {book.title}
+        </Link>
+      </h2>
+      <p>
+        {book.author} · ISBN {book.isbn}
+      </p>
+      <p>
+        {summary.total === 0
+          ? "No copies"
+          : `${summary.available} of ${summary.total} available`}
+        {summary.onHoldShelf > 0 && ` (${summary.onHoldShelf} on hold shelf)`}
+        {!book.isActive && " - this book has been removed"}
+      </p>
+
+      {copies.length > 0 && (
+        <table className="mt-2 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Barcode</th>
+              <th className="border p-2 text-left">Condition</th>
+              <th className="border p-2 text-left">Status</th>
+              <th className="border p-2 text-left"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {copies.map((copy) => (
+              // The copy Enter will act on is highlighted
+              <tr
+                key={copy.id}
+                className={copy.id === highlightCopyId ? "bg-yellow-100" : ""}
+              >
+                <td className="border p-2">{copy.barcode}</td>
+                <td className="border p-2">{copy.condition}</td>
+                <td className="border p-2">
+                  {copy.isCheckedOut
+                    ? `Out to ${copy.borrower ?? "unknown"}${
+                        copy.dueDate
+                          ? `, due ${copy.dueDate.toLocaleDateString()}`
+                          : ""
+                      }`
+                    : "On Shelf"}
+                </td>
+                <td className="border p-2 space-x-2">
+                  {copy.isCheckedOut ? (
+                    <>
+                      <button
+                        onClick={() => onCheckIn(copy)}
+                        className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                      >
+                        Check In
+                      </button>
+                      <button
+                        onClick={() => onCheckInWithCondition(copy)}
+                        className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                      >
+                        Check In with Condition
+                      </button>
+                    </>
+                  ) : (
+                    book.isActive && (
+                      <button
+                        onClick={() => onCheckOut(copy)}
+                        className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                      >
+                        Check Out
+                      </button>
+                    )
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
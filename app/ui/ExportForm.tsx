@@ -0,0 +1,68 @@
+/**
+ * This is the "Export" bar shown under the book list for staff.
+ * Like the search bar it's a plain GET form, so the browser downloads the file
+ * from /api/export directly. The current search is sent along in hidden fields,
+ * so the export has the same books the list is showing (from every page, not just this one).
+ */
+
+import { EXPORT_FORMATS, ExportFormat } from "../lib/export/bookExport";
+import { BookQuery, toSearchParams } from "../lib/search/bookQuery";
+
+// Define the props (parameters) our form needs
+interface ExportFormProps {
+  query: BookQuery; // The search the list is showing
+  canIncludeLoans: boolean; // Loan history is only for circulation staff
+}
+
+export default function ExportForm({
+  query,
+  canIncludeLoans,
+}: ExportFormProps) {
+  // The page number and size don't matter - an export has every matching book
+  const searchParams = toSearchParams({
+    ...query,
+    page: undefined,
+    pageSize: undefined,
+  });
+
+  return (
+    <form action="/api/export" method="get" className="mt-4 p-2 border rounded">
+      {/* Send the current search along with the export options */}
+      {Array.from(searchParams).map(([name, value]) => (
+        <input key={name} type="hidden" name={name} value={value} />
+      ))}
+      <div className="flex flex-wrap gap-4 items-end">
+        {/* Which file format to download */}
+        <label>
+          <div>Export as:</div>
+          <select name="format" className="border p-2 text-black">
+            {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+              <option key={format} value={format as ExportFormat}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* What to put in the file */}
+        <label className="p-2">
+          <input type="checkbox" name="inactive" value="1" className="mr-1" />
+          Include removed books
+        </label>
+        {canIncludeLoans && (
+          <label className="p-2">
+            <input type="checkbox" name="loans" value="1" className="mr-1" />
+            Include loan history
+          </label>
+        )}
+
+        <button
+          type="submit"
+          className="px-4 py-2 border rounded hover:bg-gray-100 transition-colors"
+        >
+          Download
+        </button>
+      </div>
+    </form>
+  );
+}
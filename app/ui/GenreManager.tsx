@@ -0,0 +1,459 @@
+/**
+ * This shows the library's genre tree with buttons to add, rename, move, merge
+ * and delete genres, and the genre names books use that aren't in the tree.
+ * It's used on the /admin/genres page.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the forms and dialogs
+import { useRouter } from "next/navigation"; // For refreshing the page after changes
+import Link from "next/link"; // For the links to each genre's books
+import { GenreData, GenreFieldErrors } from "../types/genre"; // A genre's fields and their error messages
+import {
+  addGenre,
+  deleteGenre,
+  GenreUsage,
+  mergeGenre,
+  updateGenre,
+  UnmanagedGenre,
+} from "../lib/actions/genreActions"; // Functions to change the genres
+import { descendantIds } from "../lib/catalog/genreTree"; // Finds the genres under a genre
+import { toSearchParams } from "../lib/search/bookQuery"; // Builds the links to each genre's books
+import ConfirmDialog from "./ConfirmDialog"; // Our confirmation dialog component
+
+// Define the props (parameters) our manager needs
+interface GenreManagerProps {
+  genres: GenreUsage[]; // The genre tree, in tree order
+  unmanaged: UnmanagedGenre[]; // Genre names books use that aren't in the tree
+}
+
+// A merge waiting for the confirmation dialog
+interface PendingMerge {
+  fromName: string;
+  into: GenreUsage;
+  bookCount: number;
+  isManaged: boolean; // Whether fromName is in the tree (and so gets deleted)
+}
+
+// Shows a field's error message, if it has one
+function FieldError({ message }: { message?: string }) {
+  return message ? (
+    <p className="mt-1 text-sm text-red-600">{message}</p>
+  ) : null;
+}
+
+// A dropdown for choosing a genre - used for the parent of a genre and the target of a merge
+// Genres in `exclude` aren't offered (a genre can't go under itself, for example)
+function GenrePicker({
+  genres,
+  value,
+  onChange,
+  emptyLabel,
+  exclude = [],
+  label,
+}: {
+  genres: GenreUsage[];
+  value: string;
+  onChange: (id: string) => void;
+  emptyLabel: string;
+  exclude?: string[];
+  label: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="border p-1 text-black"
+      aria-label={label}
+    >
+      <option value="">{emptyLabel}</option>
+      {genres
+        .filter((genre) => !exclude.includes(genre.id))
+        .map((genre) => (
+          <option key={genre.id} value={genre.id}>
+            {`${"\u00A0\u00A0".repeat(genre.depth)}${genre.name}`}
+          </option>
+        ))}
+    </select>
+  );
+}
+
+export default function GenreManager({ genres, unmanaged }: GenreManagerProps) {
+  const router = useRouter();
+  const [message, setMessage] = useState(""); // How the last change went
+  // The add genre form
+  const [newGenre, setNewGenre] = useState<GenreData>({ name: "" });
+  const [addErrors, setAddErrors] = useState<GenreFieldErrors>({});
+  // The genre being renamed or moved, while its row shows the edit form
+  const [editing, setEditing] = useState<(GenreData & { id: string }) | null>(
+    null
+  );
+  const [editErrors, setEditErrors] = useState<GenreFieldErrors>({});
+  // The genre chosen in each row's "merge into" dropdown, keyed by the row's name
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [genreToDelete, setGenreToDelete] = useState<GenreUsage | null>(null);
+
+  // The ids of the genres under a genre (its children, their children and so on)
+  // A genre can't be moved under any of these, or merged into them
+  const below = (id: string): string[] => [...descendantIds(genres, id)];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await addGenre(newGenre);
+    if (result.status === "invalid") {
+      setAddErrors(result.errors);
+      return;
+    }
+    setAddErrors({});
+    setNewGenre({ name: "" });
+    setMessage(result.status === "saved" ? `Added "${result.genre.name}"` : "");
+    router.refresh(); // Show the new genre in the tree
+  };
+
+  // Add a name books already use to the tree, as a top-level genre
+  const handleAddUnmanaged = async (name: string) => {
+    const result = await addGenre({ name });
+    setMessage(
+      result.status === "saved"
+        ? `Added "${result.genre.name}" - move it under a parent if it needs one`
+        : result.status === "invalid"
+        ? result.errors.name ?? "That name can't be a genre"
+        : ""
+    );
+    router.refresh();
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const result = await updateGenre(editing.id, editing);
+    if (result.status === "invalid") {
+      setEditErrors(result.errors);
+      return;
+    }
+    setEditErrors({});
+    setEditing(null);
+    setMessage(
+      result.status === "saved"
+        ? `Saved "${result.genre.name}"${
+            result.relabeled > 0
+              ? ` and moved ${result.relabeled} book${
+                  result.relabeled === 1 ? "" : "s"
+                } to the new name`
+              : ""
+          }`
+        : "That genre no longer exists"
+    );
+    router.refresh();
+  };
+
+  // Open the confirmation dialog for merging a row into the genre picked in its dropdown
+  const askMerge = (
+    fromName: string,
+    bookCount: number,
+    isManaged: boolean
+  ) => {
+    const into = genres.find((genre) => genre.id === mergeTargets[fromName]);
+    if (into) setPendingMerge({ fromName, into, bookCount, isManaged });
+  };
+
+  const handleMergeConfirm = async () => {
+    if (!pendingMerge) return;
+    const result = await mergeGenre(
+      pendingMerge.fromName,
+      pendingMerge.into.id
+    );
+    setPendingMerge(null);
+    setMessage(
+      result.status === "merged"
+        ? `Merged "${pendingMerge.fromName}" into "${
+            pendingMerge.into.name
+          }" (${result.relabeled} book${
+            result.relabeled === 1 ? "" : "s"
+          } moved)`
+        : result.status === "invalid"
+        ? result.error
+        : "That genre no longer exists"
+    );
+    router.refresh();
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!genreToDelete) return;
+    const result = await deleteGenre(genreToDelete.id);
+    setGenreToDelete(null);
+    setMessage(
+      result.status === "deleted"
+        ? `Deleted "${genreToDelete.name}"`
+        : result.status === "in_use"
+        ? result.error
+        : "That genre no longer exists"
+    );
+    router.refresh();
+  };
+
+  // The "merge into" dropdown and button for a row
+  const mergeControls = (
+    fromName: string,
+    bookCount: number,
+    exclude: string[],
+    isManaged: boolean
+  ) => (
+    <>
+      <GenrePicker
+        genres={genres}
+        value={mergeTargets[fromName] ?? ""}
+        onChange={(id) => setMergeTargets({ ...mergeTargets, [fromName]: id })}
+        emptyLabel="Merge into..."
+        exclude={exclude}
+        label={`Merge ${fromName} into`}
+      />
+      <button
+        onClick={() => askMerge(fromName, bookCount, isManaged)}
+        disabled={!mergeTargets[fromName]}
+        className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+      >
+        Merge
+      </button>
+    </>
+  );
+
+  return (
+    <div className="mt-4">
+      {/* How the last change went */}
+      <div role="status" aria-live="polite">
+        {message && <p className="mb-4 p-2 border rounded">{message}</p>}
+      </div>
+
+      {/* Add a genre */}
+      <form onSubmit={handleAdd} className="p-2 border rounded">
+        <h2 className="text-xl mb-2">Add a Genre</h2>
+        <div className="flex flex-wrap gap-2 items-start">
+          <div>
+            <input
+              type="text"
+              value={newGenre.name}
+              onChange={(e) =>
+                setNewGenre({ ...newGenre, name: e.target.value })
+              }
+              placeholder="Name, e.g. Mystery"
+              className="border p-1 text-black"
+              aria-label="New genre name"
+              required
+            />
+            <FieldError message={addErrors.name} />
+          </div>
+          <div>
+            <GenrePicker
+              genres={genres}
+              value={newGenre.parentId ?? ""}
+              onChange={(parentId) => setNewGenre({ ...newGenre, parentId })}
+              emptyLabel="Top-level genre"
+              label="New genre's parent"
+            />
+            <FieldError message={addErrors.parentId} />
+          </div>
+          <button
+            type="submit"
+            className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      </form>
+
+      {/* The genre tree */}
+      {genres.length === 0 ? (
+        <p className="mt-4">There are no genres yet.</p>
+      ) : (
+        <table className="mt-4 border-collapse">
+          <thead>
+            <tr>
+              <th className="border p-2 text-left">Genre</th>
+              <th className="border p-2 text-left">Books</th>
+              <th className="border p-2 text-left"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {genres.map((genre) => {
+              const hasChildren = genres.some((g) => g.parentId === genre.id);
+              const isEditing = editing?.id === genre.id;
+              return (
+                <tr key={genre.id}>
+                  <td className="border p-2">
+                    {isEditing ? (
+                      // Rename the genre or move it under a different parent
+                      <div className="flex flex-wrap gap-2 items-start">
+                        <div>
+                          <input
+                            type="text"
+                            value={editing.name}
+                            onChange={(e) =>
+                              setEditing({ ...editing, name: e.target.value })
+                            }
+                            className="border p-1 text-black"
+                            aria-label="Genre name"
+                          />
+                          <FieldError message={editErrors.name} />
+                        </div>
+                        <div>
+                          <GenrePicker
+                            genres={genres}
+                            value={editing.parentId ?? ""}
+                            onChange={(parentId) =>
+                              setEditing({ ...editing, parentId })
+                            }
+                            emptyLabel="Top-level genre"
+                            exclude={[genre.id, ...below(genre.id)]}
+                            label="Parent genre"
+                          />
+                          <FieldError message={editErrors.parentId} />
+                        </div>
+                      </div>
+                    ) : (
+                      // Indent sub-genres under their parent
+                      <span style={{ paddingLeft: `${genre.depth * 1.5}rem` }}>
+                        {genre.name}
+                      </span>
+                    )}
+                  </td>
+                  <td className="border p-2">
+                    <Link
+                      href={`/books?${toSearchParams({ genre: genre.name })}`}
+                      className="hover:underline"
+                    >
+                      {genre.bookCount}
+                    </Link>
+                  </td>
+                  <td className="border p-2 space-x-2">
+                    {isEditing ? (
+                      <>
+                        <button
+                          onClick={handleSaveEdit}
+                          className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditing(null);
+                            setEditErrors({});
+                          }}
+                          className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => {
+                            setEditing({
+                              id: genre.id,
+                              name: genre.name,
+                              parentId: genre.parentId,
+                            });
+                            setEditErrors({});
+                          }}
+                          className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                        >
+                          Rename / Move
+                        </button>
+                        {mergeControls(
+                          genre.name,
+                          genre.bookCount,
+                          [genre.id, ...below(genre.id)],
+                          true
+                        )}
+                        {/* Only unused genres can be deleted - the others are merged */}
+                        {genre.bookCount === 0 && !hasChildren && (
+                          <button
+                            onClick={() => setGenreToDelete(genre)}
+                            className="px-2 py-1 border rounded text-red-600 hover:bg-red-50 transition-colors"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {/* Genre names books use that aren't in the tree */}
+      {unmanaged.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl">Genres Not in the Tree</h2>
+          <p className="mt-2">
+            These books have a genre that isn&apos;t one of the library&apos;s.
+            Add it to the tree, or merge it into a genre that is.
+          </p>
+          <table className="mt-4 border-collapse">
+            <thead>
+              <tr>
+                <th className="border p-2 text-left">Genre</th>
+                <th className="border p-2 text-left">Books</th>
+                <th className="border p-2 text-left"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {unmanaged.map((genre) => (
+                <tr key={genre.name}>
+                  <td className="border p-2">{genre.name}</td>
+                  <td className="border p-2">{genre.bookCount}</td>
+                  <td className="border p-2 space-x-2">
+                    <button
+                      onClick={() => handleAddUnmanaged(genre.name)}
+                      className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                    >
+                      Add to Genres
+                    </button>
+                    {mergeControls(genre.name, genre.bookCount, [], false)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Confirmation dialog for merging genres */}
+      <ConfirmDialog
+        isOpen={pendingMerge !== null}
+        onConfirm={handleMergeConfirm}
+        onCancel={() => setPendingMerge(null)}
+        title="Merge Genres"
+        message={
+          pendingMerge
+            ? `Move the ${pendingMerge.bookCount} book${
+                pendingMerge.bookCount === 1 ? "" : "s"
+              } in "${pendingMerge.fromName}" to "${pendingMerge.into.name}"${
+                pendingMerge.isManaged
+                  ? `, and delete "${pendingMerge.fromName}" (its sub-genres move under "${pendingMerge.into.name}")`
+                  : ""
+              }? Each book's change is recorded in the audit log.`
+            : ""
+        }
+      />
+
+      {/* Confirmation dialog for deleting a genre */}
+      <ConfirmDialog
+        isOpen={genreToDelete !== null}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setGenreToDelete(null)}
+        title="Delete Genre"
+        message={
+          genreToDelete
+            ? `Are you sure you want to delete the genre "${genreToDelete.name}"?`
+            : ""
+        }
+      />
+    </div>
+  );
+}
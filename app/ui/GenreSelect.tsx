@@ -0,0 +1,56 @@
+/**
+ * This is a dropdown for choosing a book's genre, used by the book form.
+ * It loads the library's genres itself and shows them as a tree, with each
+ * sub-genre indented under its parent (e.g. Mystery under Fiction).
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useEffect, useState } from "react"; // For loading the genres
+import { getGenreOptions } from "../lib/actions/genreActions"; // Function to list the genres
+import { findGenreByName, GenreOption } from "../lib/catalog/genreTree"; // The genre tree helpers
+
+// Define the props (parameters) our dropdown needs
+interface GenreSelectProps {
+  value: string; // The name of the chosen genre ("" for none)
+  onChange: (genre: string) => void; // Called when a different genre is picked
+}
+
+export default function GenreSelect({ value, onChange }: GenreSelectProps) {
+  const [genres, setGenres] = useState<GenreOption[]>([]);
+
+  // Load the genres when the dropdown appears, so new genres show up
+  useEffect(() => {
+    getGenreOptions().then(setGenres);
+  }, []);
+
+  // Names are matched ignoring case, so "fiction" still picks Fiction
+  const chosen = findGenreByName(genres, value);
+
+  return (
+    <select
+      value={chosen?.name ?? value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full border p-2 text-black"
+      required
+    >
+      <option value="">Choose a genre...</option>
+      {/* A genre that isn't in the tree (from an older book, or an ISBN lookup)
+          is still shown, so the form doesn't change it without anyone noticing */}
+      {value && !chosen && (
+        <option value={value}>
+          {genres.length > 0
+            ? `${value} (not one of the library's genres)`
+            : value}
+        </option>
+      )}
+      {/* Create an option for each genre, indented by how deep it is in the tree */}
+      {genres.map((genre) => (
+        <option key={genre.id} value={genre.name}>
+          {`${"\u00A0\u00A0".repeat(genre.depth)}${genre.name}`}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * This shows a piece of text with the words that matched a search highlighted.
+ * The text comes already split up by highlight() in app/lib/search/textIndex.ts.
+ */
+
+import { HighlightPart } from "../lib/search/textIndex"; // Pieces of text, matched or not
+
+export default function Highlight({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        // Matching words get a yellow background, everything else is plain text
+        part.match ? (
+          <mark key={index} className="bg-yellow-200">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
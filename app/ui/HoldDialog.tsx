@@ -0,0 +1,97 @@
+/**
+ * This is a dialog for placing a hold on a book that someone else has.
+ * It asks which patron wants the book next, then hands that to the page that opened it.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the form field
+import { HoldErrors } from "../lib/actions/holdActions"; // Error messages for the form
+import PatronSelect from "./PatronSelect"; // Dropdown for choosing the patron
+
+// Define the props (parameters) our dialog needs
+interface HoldDialogProps {
+  isOpen: boolean; // Whether the dialog should be shown
+  bookTitle: string; // The book being reserved, shown in the title
+  // Called with the patron's id when the user confirms
+  // It returns error messages to show, or nothing if the hold was placed
+  onConfirm: (patronId: string) => Promise<HoldErrors | void>;
+  onCancel: () => void; // Function to call when user cancels
+}
+
+// The main HoldDialog component
+export default function HoldDialog({
+  isOpen,
+  bookTitle,
+  onConfirm,
+  onCancel,
+}: HoldDialogProps) {
+  const [patronId, setPatronId] = useState("");
+  const [errors, setErrors] = useState<HoldErrors>({});
+
+  // If dialog isn't open, don't render anything
+  if (!isOpen) return null;
+
+  // Reset the form so the next hold starts fresh
+  const reset = () => {
+    setPatronId("");
+    setErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await onConfirm(patronId);
+    if (result) {
+      setErrors(result); // Show what went wrong under the dropdown
+    } else {
+      reset();
+    }
+  };
+
+  return (
+    // Semi-transparent overlay that covers the whole screen
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center">
+      {/* The dialog box itself */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full mx-4"
+      >
+        <h2 className="text-xl text-black font-semibold mb-4">
+          Place a Hold on &quot;{bookTitle}&quot;
+        </h2>
+        <p className="mb-4 text-gray-600">
+          The patron joins the end of the queue and the book is kept for them
+          when it&apos;s their turn.
+        </p>
+
+        {/* Who wants the book */}
+        <PatronSelect
+          value={patronId}
+          onChange={setPatronId}
+          error={errors.patronId}
+        />
+
+        {/* Action buttons */}
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => {
+              reset();
+              onCancel();
+            }}
+            className="px-4 py-2 border rounded text-black hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+          >
+            Place Hold
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
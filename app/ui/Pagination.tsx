@@ -0,0 +1,47 @@
+/**
+ * This shows "Previous" and "Next" links for a list that is split into pages.
+ * The page that uses it decides what each page's URL looks like.
+ */
+
+import Link from "next/link"; // For the page links
+
+// Define the props (parameters) our pagination needs
+interface PaginationProps {
+  page: number; // The page we're on, starting at 1
+  pageCount: number; // How many pages there are
+  hrefForPage: (page: number) => string; // Builds the link to a page
+}
+
+export default function Pagination({
+  page,
+  pageCount,
+  hrefForPage,
+}: PaginationProps) {
+  // Nothing to show if everything fits on one page
+  if (pageCount <= 1) return null;
+
+  return (
+    <nav className="mt-4 flex items-center space-x-2">
+      {/* Only link to pages that exist */}
+      {page > 1 && (
+        <Link
+          href={hrefForPage(page - 1)}
+          className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+        >
+          ← Previous
+        </Link>
+      )}
+      <span>
+        Page {page} of {pageCount}
+      </span>
+      {page < pageCount && (
+        <Link
+          href={hrefForPage(page + 1)}
+          className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+        >
+          Next →
+        </Link>
+      )}
+    </nav>
+  );
+}
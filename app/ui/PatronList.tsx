@@ -0,0 +1,81 @@
+/**
+ * This is a reusable component that displays a list of patrons.
+ * It works like BookList, with links to each patron's details and a remove button.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+// Import the tools we need
+import { Patron } from "../types/patron"; // Type definition for our patron data
+import { markPatronInactive } from "../lib/actions/patronActions"; // Function to remove a patron
+import { useRouter } from "next/navigation"; // For refreshing the page after actions
+import Link from "next/link"; // For navigation links
+import { useState } from "react"; // For managing dialog state
+import ConfirmDialog from "./ConfirmDialog"; // Our confirmation dialog component
+
+interface PatronListProps {
+  patrons: Patron[]; // An array of patrons to display
+}
+
+export default function PatronList({ patrons }: PatronListProps) {
+  // Get the router so we can refresh the page after actions
+  const router = useRouter();
+
+  // State for managing the confirmation dialog
+  const [patronToRemove, setPatronToRemove] = useState<Patron | null>(null);
+
+  // Handle actual patron removal after confirmation
+  const handleRemoveConfirm = async () => {
+    if (patronToRemove) {
+      await markPatronInactive(patronToRemove.id);
+      setPatronToRemove(null);
+      router.refresh(); // Refresh the page to update the list
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <h2 className="text-xl mb-2">Patron List</h2>
+      <ul>
+        {patrons
+          .filter((patron) => patron.isActive)
+          .map((patron) => (
+            <li key={patron.id} className="mb-4 p-2 border rounded">
+              <h3>{patron.name}</h3>
+              <p>Email: {patron.email}</p>
+              {/* Phone is optional */}
+              {patron.phone && <p>Phone: {patron.phone}</p>}
+              <div className="mt-2 space-x-2">
+                <Link
+                  href={`/patrons/${patron.id}`}
+                  className="px-2 py-1 border rounded inline-block hover:bg-gray-100 transition-colors"
+                >
+                  View Details →
+                </Link>
+                <button
+                  className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors text-red-600 hover:bg-red-50"
+                  onClick={() => setPatronToRemove(patron)}
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+      </ul>
+
+      {/* Confirmation Dialog for removing patrons */}
+      <ConfirmDialog
+        isOpen={patronToRemove !== null}
+        onConfirm={handleRemoveConfirm}
+        onCancel={() => setPatronToRemove(null)}
+        title="Remove Patron"
+        message={
+          patronToRemove
+            ? `Are you sure you want to remove ${patronToRemove.name}? Their loan history will be kept, but they won't be able to borrow books.`
+            : ""
+        }
+      />
+    </div>
+  );
+}
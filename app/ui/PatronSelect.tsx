@@ -0,0 +1,62 @@
+/**
+ * This is a dropdown for choosing a patron, used by the checkout and hold dialogs.
+ * It loads the active patrons itself and shows an error message under the list.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useEffect, useState } from "react"; // For loading the patrons
+import Link from "next/link"; // For the link to add a patron
+import { Patron } from "../types/patron"; // Type definition for patrons
+import { getActivePatrons } from "../lib/actions/patronActions"; // Function to list patrons
+
+// Define the props (parameters) our dropdown needs
+interface PatronSelectProps {
+  value: string; // The id of the chosen patron ("" for none)
+  onChange: (patronId: string) => void; // Called when a different patron is picked
+  error?: string; // Optional - an error message to show under the list
+}
+
+export default function PatronSelect({
+  value,
+  onChange,
+  error,
+}: PatronSelectProps) {
+  const [patrons, setPatrons] = useState<Patron[]>([]);
+
+  // Load the list of patrons when the dropdown appears, so new patrons show up
+  useEffect(() => {
+    getActivePatrons().then(setPatrons);
+  }, []);
+
+  return (
+    <div className="mb-4">
+      <label className="text-gray-600">
+        <div>Patron:</div>
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full border p-2 text-black"
+          required
+          autoFocus
+        >
+          <option value="">Choose a patron...</option>
+          {/* Create an option for each patron */}
+          {patrons.map((patron) => (
+            <option key={patron.id} value={patron.id}>
+              {patron.name} ({patron.email})
+            </option>
+          ))}
+        </select>
+      </label>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      <Link
+        href="/patrons/create"
+        className="mt-1 inline-block text-sm text-blue-600 hover:underline"
+      >
+        + Add a new patron
+      </Link>
+    </div>
+  );
+}
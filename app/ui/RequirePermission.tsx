@@ -0,0 +1,43 @@
+/**
+ * This wraps pages that only some users may see.
+ * Visitors who aren't logged in are sent to the login page, and logged in
+ * users without the permission get a message instead of the page.
+ * It's used by the layout.tsx files of the staff-only sections.
+ */
+
+// This is a server component
+import Link from "next/link"; // For the way back
+import { redirect } from "next/navigation"; // For sending visitors to the login page
+import { getCurrentUser } from "../lib/auth/session"; // Who is logged in
+import { can, Permission } from "../lib/auth/permissions"; // What they're allowed to do
+
+interface RequirePermissionProps {
+  permission: Permission; // What the user needs to be allowed to do
+  children: React.ReactNode; // The page to show if they are
+}
+
+export default async function RequirePermission({
+  permission,
+  children,
+}: RequirePermissionProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  if (!can(user, permission)) {
+    return (
+      <div className="p-4">
+        <p>You don&apos;t have permission to see this page.</p>
+        <Link
+          href="/books"
+          className="mt-4 px-4 py-2 border rounded inline-block hover:bg-gray-100 transition-colors"
+        >
+          Back to Books
+        </Link>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,76 @@
+/**
+ * This is the box for a book's tags, used by the book form.
+ * Each tag shows as a chip with a button to remove it. Typing a tag and pressing
+ * Enter or a comma adds it, Backspace in the empty box removes the last one, and
+ * pasting "book club, signed" adds both.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import { useState } from "react"; // For the tag being typed
+import { normalizeTags, parseTagList } from "../lib/validation/bookValidation"; // Tidies the tags up
+
+// Define the props (parameters) our tag box needs
+interface TagInputProps {
+  tags: string[]; // The tags so far
+  onChange: (tags: string[]) => void; // Called with the new list when a tag is added or removed
+}
+
+export default function TagInput({ tags, onChange }: TagInputProps) {
+  const [text, setText] = useState(""); // What's typed but not added yet
+
+  // Add whatever has been typed - repeats of a tag that's already there are dropped
+  const addTyped = (typed: string) => {
+    const added = parseTagList(typed);
+    if (added.length > 0) onChange(normalizeTags([...tags, ...added]));
+    setText("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault(); // Don't submit the form or type the comma
+      addTyped(text);
+    } else if (e.key === "Backspace" && text === "" && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="w-full border p-2 flex flex-wrap gap-2 items-center">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="px-2 py-1 border rounded bg-gray-100 text-black text-sm"
+        >
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter((t) => t !== tag))}
+            className="ml-1"
+            aria-label={`Remove the tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          // A pasted list (or a typed semicolon) is added straight away
+          if (/[,;]/.test(e.target.value)) {
+            addTyped(e.target.value);
+          } else {
+            setText(e.target.value);
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTyped(text)} // Don't lose a tag that was typed but not added
+        placeholder={tags.length === 0 ? "e.g. book club, signed" : ""}
+        className="flex-1 min-w-32 p-1 text-black"
+        aria-label="Add a tag"
+      />
+    </div>
+  );
+}
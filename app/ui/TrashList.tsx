@@ -0,0 +1,115 @@
+/**
+ * This shows the books in the trash, with buttons to restore each one
+ * or purge it (delete it for good).
+ * It's used on the /admin/trash page.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import {
+  purgeBook,
+  restoreBook,
+  RemovedBook,
+} from "../lib/actions/bookActions"; // Functions to restore and purge books
+import { useRouter } from "next/navigation"; // For refreshing the page after actions
+import Link from "next/link"; // For navigation links
+import { useState } from "react"; // For managing dialog state
+import ConfirmDialog from "./ConfirmDialog"; // Our confirmation dialog component
+
+// Define the props (parameters) our list needs
+interface TrashListProps {
+  books: RemovedBook[]; // The removed books, most recently removed first
+}
+
+export default function TrashList({ books }: TrashListProps) {
+  const router = useRouter();
+  // The book we're about to purge, while the confirmation dialog is open
+  const [bookToPurge, setBookToPurge] = useState<RemovedBook | null>(null);
+  const [message, setMessage] = useState(""); // Why the last purge didn't happen
+
+  // Restoring happens straight away - it's easy to remove the book again
+  const handleRestore = async (book: RemovedBook) => {
+    await restoreBook(book.id);
+    router.refresh(); // Refresh the page so the book leaves the trash
+  };
+
+  // Purging can't be undone, so it only happens after the dialog is confirmed
+  const handlePurgeConfirm = async () => {
+    if (!bookToPurge) return;
+    const result = await purgeBook(bookToPurge.id);
+    setMessage(result.status === "on_loan" ? result.error : "");
+    setBookToPurge(null);
+    router.refresh();
+  };
+
+  if (books.length === 0) {
+    return <p className="mt-4">The trash is empty.</p>;
+  }
+
+  return (
+    <div className="mt-4">
+      {message && (
+        <p className="mb-2 text-red-600" role="alert">
+          {message}
+        </p>
+      )}
+      <table className="border-collapse">
+        <thead>
+          <tr>
+            <th className="border p-2 text-left">Title</th>
+            <th className="border p-2 text-left">Author</th>
+            <th className="border p-2 text-left">Removed</th>
+            <th className="border p-2 text-left">Purged On</th>
+            <th className="border p-2 text-left"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {books.map((book) => (
+            <tr key={book.id}>
+              <td className="border p-2">
+                <Link href={`/books/${book.id}`} className="hover:underline">
+                  {book.title}
+                </Link>
+              </td>
+              <td className="border p-2">{book.author}</td>
+              <td className="border p-2">
+                {(book.removedDate ?? book.updatedAt).toLocaleDateString()}
+              </td>
+              <td className="border p-2">
+                {book.purgeDate ? book.purgeDate.toLocaleDateString() : "Never"}
+              </td>
+              <td className="border p-2 space-x-2">
+                <button
+                  onClick={() => handleRestore(book)}
+                  className="px-2 py-1 border rounded hover:bg-gray-100 transition-colors"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => setBookToPurge(book)}
+                  className="px-2 py-1 border rounded text-red-600 hover:bg-red-50 transition-colors"
+                >
+                  Purge
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Confirmation Dialog for purging books */}
+      <ConfirmDialog
+        isOpen={bookToPurge !== null}
+        onConfirm={handlePurgeConfirm}
+        onCancel={() => setBookToPurge(null)}
+        title="Purge Book"
+        message={
+          bookToPurge
+            ? `Are you sure you want to delete "${bookToPurge.title}" for good? This action cannot be undone.`
+            : ""
+        }
+      />
+    </div>
+  );
+}
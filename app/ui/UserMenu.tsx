@@ -0,0 +1,42 @@
+/**
+ * This shows who is logged in, with a button to log out,
+ * or a link to the login page if nobody is.
+ */
+
+// Tell Next.js this is a Client Component because it has interactivity
+"use client";
+
+import Link from "next/link"; // For the login link
+import { useRouter } from "next/navigation"; // For refreshing the page after logging out
+import { logout } from "../lib/actions/authActions"; // Ends the session
+import { useCurrentUser } from "./CurrentUserProvider"; // Who is logged in
+
+export default function UserMenu() {
+  const user = useCurrentUser();
+  const router = useRouter();
+
+  if (!user) {
+    return (
+      <Link href="/login" className="hover:underline">
+        Log In
+      </Link>
+    );
+  }
+
+  const handleLogout = async () => {
+    await logout();
+    router.push("/"); // Back to the home page
+    router.refresh(); // Reload so the layout forgets the user
+  };
+
+  return (
+    <div className="space-x-2">
+      <span>
+        {user.username} ({user.role.toLowerCase()})
+      </span>
+      <button onClick={handleLogout} className="hover:underline">
+        Log Out
+      </button>
+    </div>
+  );
+}
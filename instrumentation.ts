@@ -0,0 +1,11 @@
+// Next.js calls register() once when the server starts
+// https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation
+export async function register() {
+  // Our storage code needs Node.js (fs, SQLite), so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { checkBookIntegrity } = await import(
+      "./app/lib/storage/bookIntegrity"
+    );
+    await checkBookIntegrity();
+  }
+}
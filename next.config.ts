@@ -1,7 +1,13 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Server actions only take 1 MB by default - cover images can be up to
+      // 5 MB (MAX_COVER_BYTES in app/lib/validation/coverValidation.ts)
+      bodySizeLimit: "6mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,79 @@
+/**
+ * Creates an account that can log in to the app.
+ * Run it with: npm run user:create -- <username> <password> <role> [patronId]
+ * role is ADMIN, LIBRARIAN or PATRON. PATRON accounts need the id of the patron
+ * they belong to, so they can see and place their own holds.
+ * It uses the same BOOK_STORAGE / BOOK_JSON_PATH / BOOK_SQLITE_PATH settings as the app.
+ */
+
+import { randomUUID } from "crypto";
+import { UserRole } from "../app/types/user";
+import { hashPassword } from "../app/lib/auth/passwords";
+import {
+  getPatronRepository,
+  getUserRepository,
+} from "../app/lib/storage/repositories";
+
+// Passwords shorter than this are refused
+const MIN_PASSWORD_LENGTH = 8;
+
+async function main() {
+  const [username, password, roleName, patronId] = process.argv.slice(2);
+  if (!username || !password || !roleName) {
+    console.error(
+      "Usage: npm run user:create -- <username> <password> <role> [patronId]"
+    );
+    process.exit(1);
+  }
+
+  const role = Object.values(UserRole).find(
+    (value) => value === roleName.toUpperCase()
+  );
+  if (!role) {
+    console.error(
+      `Unknown role "${roleName}". Use ${Object.values(UserRole).join(", ")}.`
+    );
+    process.exit(1);
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(
+      `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`
+    );
+    process.exit(1);
+  }
+
+  // Patron accounts are linked to the patron record they belong to
+  if (role === UserRole.PATRON && !patronId) {
+    console.error("PATRON accounts need the id of their patron");
+    process.exit(1);
+  }
+  if (patronId) {
+    const patron = await getPatronRepository().getById(patronId);
+    if (!patron || !patron.isActive) {
+      console.error(`There is no active patron with id ${patronId}`);
+      process.exit(1);
+    }
+  }
+
+  const users = getUserRepository();
+  if (await users.getByUsername(username)) {
+    console.error(`The username "${username}" is already taken`);
+    process.exit(1);
+  }
+
+  await users.add({
+    id: randomUUID(),
+    username,
+    passwordHash: await hashPassword(password),
+    role,
+    patronId,
+    isActive: true,
+    createdDate: new Date(),
+  });
+  console.log(`Created ${role} account "${username}"`);
+}
+
+main().catch((error) => {
+  console.error("Creating the user failed:", error);
+  process.exit(1);
+});
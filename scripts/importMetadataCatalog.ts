@@ -0,0 +1,36 @@
+/**
+ * Adds the records in a catalog dump (a CSV or JSON file of books from another
+ * catalog) to the offline metadata catalog that ISBN lookups use.
+ * Run it with: npm run metadata:import -- path/to/dump.csv
+ * Records for an ISBN the catalog already has replace the old ones.
+ * METADATA_CATALOG_PATH picks a different catalog file, like it does for the app.
+ */
+
+import fs from "fs/promises";
+import { parseCatalogDump } from "../app/lib/metadata/catalogDump";
+import { getOfflineMetadataProvider } from "../app/lib/metadata/providers";
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error("Usage: npm run metadata:import -- path/to/dump.csv");
+    process.exit(1);
+  }
+
+  const { records, skipped } = parseCatalogDump(
+    await fs.readFile(file, "utf-8"),
+    file
+  );
+  const { added, replaced } = await getOfflineMetadataProvider().importRecords(
+    records
+  );
+  console.log(
+    `Added ${added} and replaced ${replaced} records` +
+      (skipped ? `, skipped ${skipped} rows without a valid ISBN or title` : "")
+  );
+}
+
+main().catch((error) => {
+  console.error("Importing the catalog dump failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+/**
+ * Links every book to the library's authors, for libraries that were set up
+ * before authors were kept separately.
+ * Each book's author text is split on semicolons ("Terry Pratchett; Neil Gaiman"),
+ * and every name becomes an author - or links to the author we already have,
+ * if it's the same person written another way ("Fitzgerald, F. Scott" and
+ * "F. Scott Fitzgerald"). Spellings that aren't caught (like "Scott Fitzgerald")
+ * can then be merged at /authors/merge.
+ * Run it with: npm run authors:migrate
+ * It uses the same BOOK_STORAGE / BOOK_JSON_PATH / BOOK_SQLITE_PATH settings as the app.
+ * Books that are already linked are left alone, so it's safe to run more than once.
+ */
+
+import { AuditAction } from "../app/types/audit";
+import { Book } from "../app/types/book";
+import {
+  getAuthorRepository,
+  getBookRepository,
+} from "../app/lib/storage/repositories";
+import { parseAuthorList } from "../app/lib/catalog/authorNames";
+import { linkBookAuthors } from "../app/lib/catalog/authors";
+import { recordBookAudit } from "../app/lib/audit/bookAudit";
+
+async function main() {
+  const repository = getBookRepository();
+  const unlinked = (await repository.getAll()).filter(
+    (book) => book.authorIds.length === 0
+  );
+  const before = (await getAuthorRepository().getAll()).length;
+
+  const linked = await linkBookAuthors(
+    unlinked.map((book) => ({ ...book, authors: parseAuthorList(book.author) }))
+  );
+  let relinked = 0;
+  for (const book of linked) {
+    let old: Book | undefined;
+    const saved = await repository.update(book.id, (current) => {
+      old = current;
+      return { ...current, author: book.author, authorIds: book.authorIds };
+    });
+    if (!saved) continue; // Purged since we read it
+    // Only a change of spelling is recorded - the audit log doesn't show author ids
+    await recordBookAudit(AuditAction.UPDATED, old, saved, null);
+    relinked++;
+  }
+
+  const after = (await getAuthorRepository().getAll()).length;
+  console.log(`Linked ${relinked} books to their authors`);
+  console.log(`Added ${after - before} authors`);
+}
+
+main().catch((error) => {
+  console.error("Migrating authors failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * Copies every book from a books.json file into the SQLite database,
+ * along with the other JSON data files that sit next to it (copies.json,
+ * assessments.json, loans.json, patrons.json, fines.json, holds.json,
+ * genres.json, authors.json, users.json and audit.json).
+ * Books saved before copies existed need `npm run copies:migrate` first.
+ * Login sessions aren't copied - everyone just logs in again.
+ * Run it with: npm run db:migrate -- [path/to/books.json] [path/to/books.db]
+ * Both paths are optional and default to the files in app/data.
+ * Records that are already in the database (same id) are replaced, so it's
+ * safe to run more than once.
+ */
+
+import path from "path";
+import {
+  DEFAULT_JSON_PATH,
+  DEFAULT_SQLITE_PATH,
+} from "../app/lib/storage/repositories";
+import { createJsonAssessmentRepository } from "../app/lib/storage/jsonAssessmentRepository";
+import { createJsonAuditRepository } from "../app/lib/storage/jsonAuditRepository";
+import { createJsonAuthorRepository } from "../app/lib/storage/jsonAuthorRepository";
+import { createJsonBookRepository } from "../app/lib/storage/jsonBookRepository";
+import { createJsonCopyRepository } from "../app/lib/storage/jsonCopyRepository";
+import { createJsonFineRepository } from "../app/lib/storage/jsonFineRepository";
+import { createJsonGenreRepository } from "../app/lib/storage/jsonGenreRepository";
+import { createJsonHoldRepository } from "../app/lib/storage/jsonHoldRepository";
+import { createJsonLoanRepository } from "../app/lib/storage/jsonLoanRepository";
+import { createJsonPatronRepository } from "../app/lib/storage/jsonPatronRepository";
+import { createJsonUserRepository } from "../app/lib/storage/jsonUserRepository";
+import { createSqliteAssessmentRepository } from "../app/lib/storage/sqliteAssessmentRepository";
+import { createSqliteAuditRepository } from "../app/lib/storage/sqliteAuditRepository";
+import { createSqliteAuthorRepository } from "../app/lib/storage/sqliteAuthorRepository";
+import { createSqliteBookRepository } from "../app/lib/storage/sqliteBookRepository";
+import { createSqliteCopyRepository } from "../app/lib/storage/sqliteCopyRepository";
+import { createSqliteFineRepository } from "../app/lib/storage/sqliteFineRepository";
+import { createSqliteGenreRepository } from "../app/lib/storage/sqliteGenreRepository";
+import { createSqliteHoldRepository } from "../app/lib/storage/sqliteHoldRepository";
+import { createSqliteLoanRepository } from "../app/lib/storage/sqliteLoanRepository";
+import { createSqlitePatronRepository } from "../app/lib/storage/sqlitePatronRepository";
+import { createSqliteUserRepository } from "../app/lib/storage/sqliteUserRepository";
+
+async function main() {
+  const [jsonPath = DEFAULT_JSON_PATH, sqlitePath = DEFAULT_SQLITE_PATH] =
+    process.argv.slice(2);
+
+  const books = await createJsonBookRepository(jsonPath).getAll();
+  if (books.length === 0) {
+    console.error(`No books found in ${jsonPath}`);
+    process.exit(1);
+  }
+
+  await createSqliteBookRepository(sqlitePath).importBooks(books);
+  console.log(
+    `Imported ${books.length} books from ${jsonPath} into ${sqlitePath}`
+  );
+
+  // The other files are optional - a missing file just means no records yet
+  const copiesPath = path.join(path.dirname(jsonPath), "copies.json");
+  const copies = await createJsonCopyRepository(copiesPath).getAll();
+  await createSqliteCopyRepository(sqlitePath).importCopies(copies);
+  console.log(`Imported ${copies.length} copies from ${copiesPath}`);
+
+  const assessmentsPath = path.join(path.dirname(jsonPath), "assessments.json");
+  const assessments = await createJsonAssessmentRepository(
+    assessmentsPath
+  ).getAll();
+  await createSqliteAssessmentRepository(sqlitePath).importAssessments(
+    assessments
+  );
+  console.log(
+    `Imported ${assessments.length} condition assessments from ${assessmentsPath}`
+  );
+
+  const patronsPath = path.join(path.dirname(jsonPath), "patrons.json");
+  const patrons = await createJsonPatronRepository(patronsPath).getAll();
+  await createSqlitePatronRepository(sqlitePath).importPatrons(patrons);
+  console.log(`Imported ${patrons.length} patrons from ${patronsPath}`);
+
+  const loansPath = path.join(path.dirname(jsonPath), "loans.json");
+  const loans = await createJsonLoanRepository(loansPath).getAll();
+  await createSqliteLoanRepository(sqlitePath).importLoans(loans);
+  console.log(`Imported ${loans.length} loans from ${loansPath}`);
+
+  const finesPath = path.join(path.dirname(jsonPath), "fines.json");
+  const fines = await createJsonFineRepository(finesPath).getAll();
+  await createSqliteFineRepository(sqlitePath).importFines(fines);
+  console.log(`Imported ${fines.length} fines from ${finesPath}`);
+
+  const holdsPath = path.join(path.dirname(jsonPath), "holds.json");
+  const holds = await createJsonHoldRepository(holdsPath).getAll();
+  await createSqliteHoldRepository(sqlitePath).importHolds(holds);
+  console.log(`Imported ${holds.length} holds from ${holdsPath}`);
+
+  const genresPath = path.join(path.dirname(jsonPath), "genres.json");
+  const genres = await createJsonGenreRepository(genresPath).getAll();
+  await createSqliteGenreRepository(sqlitePath).importGenres(genres);
+  console.log(`Imported ${genres.length} genres from ${genresPath}`);
+
+  const authorsPath = path.join(path.dirname(jsonPath), "authors.json");
+  const authors = await createJsonAuthorRepository(authorsPath).getAll();
+  await createSqliteAuthorRepository(sqlitePath).importAuthors(authors);
+  console.log(`Imported ${authors.length} authors from ${authorsPath}`);
+
+  const usersPath = path.join(path.dirname(jsonPath), "users.json");
+  const users = await createJsonUserRepository(usersPath).getAll();
+  await createSqliteUserRepository(sqlitePath).importUsers(users);
+  console.log(`Imported ${users.length} users from ${usersPath}`);
+
+  const auditPath = path.join(path.dirname(jsonPath), "audit.json");
+  const entries = await createJsonAuditRepository(auditPath).getAll();
+  await createSqliteAuditRepository(sqlitePath).importEntries(entries);
+  console.log(`Imported ${entries.length} audit entries from ${auditPath}`);
+}
+
+main().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
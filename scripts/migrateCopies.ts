@@ -0,0 +1,160 @@
+/**
+ * Moves books saved before copies existed over to the copies model.
+ * Those books have their condition and checkout status on the book itself -
+ * this gives each of them one copy with that condition and status, points the
+ * book's loans at the new copy, and then removes the old fields from the book.
+ * Run it with: npm run copies:migrate
+ * It uses the same BOOK_STORAGE / BOOK_JSON_PATH / BOOK_SQLITE_PATH settings as the app.
+ * Stop the app first - the books file (or table) is rewritten.
+ * Books that already have a copy are left alone, so it's safe to run more than once.
+ */
+
+import fs from "fs/promises";
+import { BookCondition } from "../app/types/book";
+import { Copy } from "../app/types/copy";
+import {
+  getBookStorageType,
+  getCopyRepository,
+  getJsonPath,
+  getLoanRepository,
+  getSqlitePath,
+} from "../app/lib/storage/repositories";
+import { openDatabase } from "../app/lib/storage/sqliteDatabase";
+import { isBookCondition } from "../app/lib/validation/bookValidation";
+import { newCopy, nextBarcode } from "../app/lib/catalog/copies";
+
+// The fields books used to have before they moved to copies
+interface LegacyBook {
+  id: string;
+  condition?: string;
+  isCheckedOut?: boolean;
+  lastCheckedOutDate?: string;
+  addedDate: string;
+}
+
+// The old columns in the SQLite books table
+const LEGACY_COLUMNS = ["condition", "is_checked_out", "last_checked_out_date"];
+
+// Read the old fields straight from the JSON file, since the app no longer loads them
+async function readJsonBooks(filePath: string): Promise<LegacyBook[]> {
+  const data = JSON.parse(await fs.readFile(filePath, "utf-8")) as {
+    books?: LegacyBook[];
+  };
+  return data.books ?? [];
+}
+
+// Save the JSON file without the old fields
+// Like jsonFileStore.ts, we write a temporary file and rename it over the real one
+async function stripJsonBooks(filePath: string): Promise<void> {
+  const data = JSON.parse(await fs.readFile(filePath, "utf-8")) as {
+    books?: Record<string, unknown>[];
+  };
+  for (const book of data.books ?? []) {
+    delete book.condition;
+    delete book.isCheckedOut;
+    delete book.lastCheckedOutDate;
+  }
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+// The old columns that are still in the SQLite books table
+function legacyColumns(filePath: string): string[] {
+  const existing = openDatabase(filePath)
+    .prepare<[], { name: string }>("PRAGMA table_info(books)")
+    .all()
+    .map((column) => column.name);
+  return LEGACY_COLUMNS.filter((column) => existing.includes(column));
+}
+
+// Read the old columns from the SQLite books table (none if they're already gone)
+function readSqliteBooks(filePath: string): LegacyBook[] {
+  if (legacyColumns(filePath).length < LEGACY_COLUMNS.length) return [];
+  return openDatabase(filePath)
+    .prepare<
+      [],
+      {
+        id: string;
+        condition: string;
+        is_checked_out: number;
+        last_checked_out_date: string | null;
+        added_date: string;
+      }
+    >(
+      "SELECT id, condition, is_checked_out, last_checked_out_date, added_date FROM books"
+    )
+    .all()
+    .map((row) => ({
+      id: row.id,
+      condition: row.condition,
+      isCheckedOut: row.is_checked_out === 1,
+      lastCheckedOutDate: row.last_checked_out_date ?? undefined,
+      addedDate: row.added_date,
+    }));
+}
+
+// Drop the old columns from the SQLite books table
+function stripSqliteBooks(filePath: string): void {
+  const db = openDatabase(filePath);
+  for (const column of legacyColumns(filePath)) {
+    db.exec(`ALTER TABLE books DROP COLUMN ${column}`);
+  }
+}
+
+async function main() {
+  const sqlite = getBookStorageType() === "sqlite";
+  const source = sqlite ? getSqlitePath() : getJsonPath("books");
+  const books = sqlite ? readSqliteBooks(source) : await readJsonBooks(source);
+
+  // One copy for each old-style book that doesn't have one yet
+  const copyRepository = getCopyRepository();
+  const existing = await copyRepository.getAll();
+  const hasCopies = new Set(existing.map((copy) => copy.bookId));
+  const copies: Copy[] = [];
+  for (const book of books) {
+    if (book.condition === undefined || hasCopies.has(book.id)) continue;
+    const addedDate = new Date(book.addedDate);
+    const copy = newCopy(
+      book.id,
+      {
+        barcode: nextBarcode([...existing, ...copies]),
+        condition: isBookCondition(book.condition)
+          ? book.condition
+          : BookCondition.GOOD,
+        shelfLocation: "",
+      },
+      addedDate
+    );
+    copies.push({
+      ...copy,
+      isCheckedOut: book.isCheckedOut ?? false,
+      lastCheckedOutDate: book.lastCheckedOutDate
+        ? new Date(book.lastCheckedOutDate)
+        : undefined,
+    });
+  }
+  await copyRepository.importCopies(copies);
+  console.log(`Added ${copies.length} copies`);
+
+  // The book only had one copy, so every one of its loans was of that copy
+  const copyIds = new Map(copies.map((copy) => [copy.bookId, copy.id]));
+  const loans = (await getLoanRepository().getAll())
+    .filter((loan) => !loan.copyId && copyIds.has(loan.bookId))
+    .map((loan) => ({ ...loan, copyId: copyIds.get(loan.bookId) }));
+  await getLoanRepository().importLoans(loans);
+  console.log(`Linked ${loans.length} loans to their copies`);
+
+  // Only now that the copies are saved is it safe to drop the old fields
+  if (sqlite) {
+    stripSqliteBooks(source);
+  } else {
+    await stripJsonBooks(source);
+  }
+  console.log(`Removed the old condition and checkout fields from ${source}`);
+}
+
+main().catch((error) => {
+  console.error("Migrating to copies failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * Builds the genre tree from the genres books already have, for libraries
+ * that were set up before genres were managed.
+ * Every genre name books use that isn't in the tree yet is added as a top-level
+ * genre. Names that differ only in case or spacing ("fiction", "Fiction ") become
+ * one genre, spelled the way most books spell it, and those books are changed to
+ * that spelling. Different spellings of the same genre ("Sci-Fi" and "Science Fiction")
+ * can then be merged, and genres moved under their parents, at /admin/genres.
+ * Run it with: npm run genres:migrate
+ * It uses the same BOOK_STORAGE / BOOK_JSON_PATH / BOOK_SQLITE_PATH settings as the app.
+ * Genres that are already in the tree are left alone, so it's safe to run more than once.
+ */
+
+import { randomUUID } from "crypto";
+import { Genre } from "../app/types/genre";
+import {
+  getBookRepository,
+  getGenreRepository,
+} from "../app/lib/storage/repositories";
+import { genreKey } from "../app/lib/catalog/genreTree";
+import { relabelBooks } from "../app/lib/catalog/genres";
+
+async function main() {
+  const books = await getBookRepository().getAll();
+  const existing = await getGenreRepository().getAll();
+  const managed = new Set(existing.map((genre) => genreKey(genre.name)));
+
+  // Count each spelling of each genre that isn't in the tree yet
+  const spellings = new Map<string, Map<string, number>>();
+  for (const book of books) {
+    const key = genreKey(book.genre);
+    if (key === "" || managed.has(key)) continue;
+    const counts = spellings.get(key) ?? new Map<string, number>();
+    counts.set(book.genre, (counts.get(book.genre) ?? 0) + 1);
+    spellings.set(key, counts);
+  }
+
+  const genres: Genre[] = [];
+  let relabeled = 0;
+  for (const counts of spellings.values()) {
+    // The most common spelling wins, tidied up - ties go to the first one A-Z
+    const [name] = [...counts.entries()].sort(
+      ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)
+    )[0];
+    const genre = { id: randomUUID(), name: name.trim().replace(/\s+/g, " ") };
+    genres.push(genre);
+    relabeled += await relabelBooks([...counts.keys()], genre.name, null);
+  }
+
+  await getGenreRepository().importGenres(genres);
+  console.log(
+    `Added ${genres.length} genres: ${
+      genres.map((genre) => genre.name).join(", ") || "none"
+    }`
+  );
+  console.log(`Changed the genre's spelling on ${relabeled} books`);
+}
+
+main().catch((error) => {
+  console.error("Migrating genres failed:", error);
+  process.exit(1);
+});
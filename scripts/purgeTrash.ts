@@ -0,0 +1,19 @@
+/**
+ * Purges every removed book that has been in the trash longer than
+ * TRASH_RETENTION_DAYS (default 30). The app does this itself whenever the trash
+ * is opened or a book is removed - this script is for running it on a schedule.
+ * Run it with: npm run trash:purge
+ * It uses the same BOOK_STORAGE / BOOK_JSON_PATH / BOOK_SQLITE_PATH settings as the app.
+ */
+
+import { purgeExpiredBooks } from "../app/lib/catalog/trash";
+
+async function main() {
+  const purged = await purgeExpiredBooks();
+  console.log(`Purged ${purged} book${purged === 1 ? "" : "s"} from the trash`);
+}
+
+main().catch((error) => {
+  console.error("Purging the trash failed:", error);
+  process.exit(1);
+});